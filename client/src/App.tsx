@@ -5,6 +5,7 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { SidebarProvider, SidebarTrigger, SidebarInset } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/app-sidebar";
+import { NotificationBell } from "@/components/notification-bell";
 import { AuthProvider, useAuth } from "@/contexts/auth-context";
 import { Input } from "@/components/ui/input";
 import { Search } from "lucide-react";
@@ -18,6 +19,7 @@ import VerifyEmail from "@/pages/verify-email";
 import VerifyOTP from "@/pages/verify-otp";
 import Onboarding from "@/pages/onboarding";
 import Profile from "@/pages/profile";
+import NotificationSettings from "@/pages/notification-settings";
 import Jobs from "@/pages/jobs";
 import JobDetails from "@/pages/job-details";
 import PostJob from "@/pages/post-job";
@@ -32,7 +34,10 @@ import AdminUsers from "@/pages/admin-users";
 import AdminJobs from "@/pages/admin-jobs";
 import AdminManagement from "@/pages/admin-admins";
 import AdminFraud from "@/pages/admin-fraud";
+import AdminAiUsage from "@/pages/admin-ai-usage";
 import EmployerAnalytics from "@/pages/employer-analytics";
+import EmployerPipelines from "@/pages/employer-pipelines";
+import Messages from "@/pages/messages";
 import JobSeekerAnalytics from "@/pages/job-seeker-analytics";
 import EmployerContact from "@/pages/employer-contact";
 import JobSeekerContact from "@/pages/job-seeker-contact";
@@ -87,6 +92,7 @@ function DashboardLayout({ children }: { children: React.ReactNode }) {
             <div className="flex items-center gap-3 flex-1">
               <h1 className="text-lg font-semibold">ZambaJobs</h1>
             </div>
+            <NotificationBell />
           </header>
           <main className="flex-1 overflow-auto p-6">
             {children}
@@ -116,6 +122,13 @@ function Router() {
           </DashboardLayout>
         </ProtectedRoute>
       </Route>
+      <Route path="/profile/notifications">
+        <ProtectedRoute allowedRoles={["job_seeker", "employer", "admin"]}>
+          <DashboardLayout>
+            <NotificationSettings />
+          </DashboardLayout>
+        </ProtectedRoute>
+      </Route>
       <Route path="/dashboard">
         <ProtectedRoute allowedRoles={["job_seeker"]}>
           <DashboardLayout>
@@ -158,6 +171,20 @@ function Router() {
           </DashboardLayout>
         </ProtectedRoute>
       </Route>
+      <Route path="/employer/pipelines">
+        <ProtectedRoute allowedRoles={["employer"]}>
+          <DashboardLayout>
+            <EmployerPipelines />
+          </DashboardLayout>
+        </ProtectedRoute>
+      </Route>
+      <Route path="/employer/messages">
+        <ProtectedRoute allowedRoles={["employer"]}>
+          <DashboardLayout>
+            <Messages />
+          </DashboardLayout>
+        </ProtectedRoute>
+      </Route>
       <Route path="/employer/contact">
         <ProtectedRoute allowedRoles={["employer"]}>
           <DashboardLayout>
@@ -172,6 +199,13 @@ function Router() {
           </DashboardLayout>
         </ProtectedRoute>
       </Route>
+      <Route path="/messages">
+        <ProtectedRoute allowedRoles={["job_seeker"]}>
+          <DashboardLayout>
+            <Messages />
+          </DashboardLayout>
+        </ProtectedRoute>
+      </Route>
       <Route path="/contact">
         <ProtectedRoute allowedRoles={["job_seeker"]}>
           <DashboardLayout>
@@ -214,6 +248,13 @@ function Router() {
           </DashboardLayout>
         </ProtectedRoute>
       </Route>
+      <Route path="/admin/ai-usage">
+        <ProtectedRoute allowedRoles={["admin"]}>
+          <DashboardLayout>
+            <AdminAiUsage />
+          </DashboardLayout>
+        </ProtectedRoute>
+      </Route>
       <Route path="/admin/users">
         <ProtectedRoute allowedRoles={["admin"]}>
           <DashboardLayout>
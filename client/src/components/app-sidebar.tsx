@@ -1,4 +1,5 @@
 import { useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
 import {
   Briefcase,
   LayoutDashboard,
@@ -14,6 +15,9 @@ import {
   BarChart3,
   Mail,
   UserCog,
+  Cpu,
+  Workflow,
+  MessageSquare,
 } from "lucide-react";
 import {
   Sidebar,
@@ -23,6 +27,7 @@ import {
   SidebarGroupLabel,
   SidebarMenu,
   SidebarMenuButton,
+  SidebarMenuBadge,
   SidebarMenuItem,
   SidebarHeader,
   SidebarFooter,
@@ -35,6 +40,13 @@ import { queryClient } from "@/lib/queryClient";
 export function AppSidebar() {
   const [location, setLocation] = useLocation();
   const { user, isLoading } = useAuth();
+  const canMessage = user?.role === "job_seeker" || user?.role === "employer";
+
+  const { data: unreadMessages } = useQuery<{ count: number }>({
+    queryKey: ["/api/messages/unread-count"],
+    enabled: canMessage,
+    refetchInterval: 30 * 1000,
+  });
 
   const handleLogout = async () => {
     try {
@@ -79,6 +91,11 @@ export function AppSidebar() {
       url: "/jobs",
       icon: Search,
     },
+    {
+      title: "Messages",
+      url: "/messages",
+      icon: MessageSquare,
+    },
     {
       title: "Analytics",
       url: "/analytics",
@@ -97,6 +114,16 @@ export function AppSidebar() {
       url: "/employer/dashboard",
       icon: LayoutDashboard,
     },
+    {
+      title: "Hiring Pipelines",
+      url: "/employer/pipelines",
+      icon: Workflow,
+    },
+    {
+      title: "Messages",
+      url: "/employer/messages",
+      icon: MessageSquare,
+    },
     {
       title: "Analytics",
       url: "/employer/analytics",
@@ -140,6 +167,11 @@ export function AppSidebar() {
       url: "/admin/analytics",
       icon: BarChart3,
     },
+    {
+      title: "AI Usage",
+      url: "/admin/ai-usage",
+      icon: Cpu,
+    },
     {
       title: "Admin Management",
       url: "/admin/admins",
@@ -214,6 +246,11 @@ export function AppSidebar() {
                     <item.icon className="h-4 w-4" />
                     <span>{item.title}</span>
                   </SidebarMenuButton>
+                  {item.title === "Messages" && !!unreadMessages?.count && (
+                    <SidebarMenuBadge data-testid="badge-unread-messages">
+                      {unreadMessages.count > 99 ? "99+" : unreadMessages.count}
+                    </SidebarMenuBadge>
+                  )}
                 </SidebarMenuItem>
               ))}
             </SidebarMenu>
@@ -0,0 +1,104 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ArrowRight, CalendarClock, Mail, Send, StickyNote, Star, Undo2 } from "lucide-react";
+import { Skeleton } from "@/components/ui/skeleton";
+import { APPLICATION_STATUS_LABELS } from "@shared/pipeline";
+import type { ApplicationTimelineEvent } from "@shared/schema";
+
+interface ApplicationTimelineProps {
+  applicationId: string;
+  appliedAt: string | Date;
+  // Employers see stage names, notes, ratings and who made each change;
+  // the API already strips those from a seeker's timeline
+  audience: "employer" | "seeker";
+}
+
+export function StarRating({ rating, className = "h-3 w-3" }: { rating: number; className?: string }) {
+  return (
+    <span className="inline-flex items-center gap-0.5" aria-label={`${rating} out of 5`}>
+      {[1, 2, 3, 4, 5].map((value) => (
+        <Star
+          key={value}
+          className={`${className} ${value <= rating ? "fill-yellow-400 text-yellow-400" : "text-muted-foreground/40"}`}
+        />
+      ))}
+    </span>
+  );
+}
+
+function statusLabel(status: string | null): string {
+  return status ? APPLICATION_STATUS_LABELS[status as keyof typeof APPLICATION_STATUS_LABELS] ?? status : "";
+}
+
+function describeEvent(event: ApplicationTimelineEvent, audience: "employer" | "seeker") {
+  switch (event.type) {
+    case "stage_changed":
+      return {
+        icon: ArrowRight,
+        title: audience === "employer" && event.toStageName
+          ? (event.fromStageName ? `${event.fromStageName} → ${event.toStageName}` : `Moved to ${event.toStageName}`)
+          : `Status changed to ${statusLabel(event.toStatus)}`,
+      };
+    case "note":
+      return { icon: StickyNote, title: "Note added", body: event.note };
+    case "rating":
+      return { icon: Star, title: "Rated", rating: event.rating };
+    case "email_sent":
+      return {
+        icon: Mail,
+        title: audience === "employer"
+          ? `Status email sent (${statusLabel(event.toStatus)})`
+          : `Emailed you: ${statusLabel(event.toStatus)}`,
+      };
+    case "withdrawn":
+      return {
+        icon: Undo2,
+        title: audience === "employer" ? "Candidate withdrew" : "You withdrew this application",
+        body: event.note,
+      };
+    case "interview":
+      return { icon: CalendarClock, title: event.note || "Interview updated" };
+  }
+}
+
+// Newest-first history of an application, ending with when it was submitted
+export function ApplicationTimeline({ applicationId, appliedAt, audience }: ApplicationTimelineProps) {
+  const { data: events, isLoading } = useQuery<ApplicationTimelineEvent[]>({
+    queryKey: ["/api/applications", applicationId, "timeline"],
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-12 w-full" />;
+  }
+
+  return (
+    <ol className="space-y-3 border-l pl-4" data-testid={`timeline-${applicationId}`}>
+      {events?.map((event) => {
+        const { icon: Icon, title, body, rating } = describeEvent(event, audience);
+        return (
+          <li key={event.id} className="relative text-sm" data-testid={`timeline-event-${event.id}`}>
+            <span className="absolute -left-[1.4rem] top-0.5 flex h-4 w-4 items-center justify-center rounded-full border bg-background">
+              <Icon className="h-2.5 w-2.5 text-muted-foreground" />
+            </span>
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="font-medium">{title}</span>
+              {rating && <StarRating rating={rating} />}
+            </div>
+            {body && <p className="mt-1 whitespace-pre-wrap text-muted-foreground">{body}</p>}
+            <p className="text-xs text-muted-foreground">
+              {audience === "employer" && `${event.actorName || (event.actorId ? "Unknown user" : "Automatic")} · `}
+              {format(new Date(event.createdAt), "MMM d, yyyy h:mm a")}
+            </p>
+          </li>
+        );
+      })}
+      <li className="relative text-sm">
+        <span className="absolute -left-[1.4rem] top-0.5 flex h-4 w-4 items-center justify-center rounded-full border bg-background">
+          <Send className="h-2.5 w-2.5 text-muted-foreground" />
+        </span>
+        <span className="font-medium">Applied</span>
+        <p className="text-xs text-muted-foreground">{format(new Date(appliedAt), "MMM d, yyyy h:mm a")}</p>
+      </li>
+    </ol>
+  );
+}
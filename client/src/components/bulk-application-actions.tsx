@@ -0,0 +1,195 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Star, X, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { MAX_BULK_APPLICATIONS, type StageStatus } from "@shared/pipeline";
+import type { BulkApplicationResult, PipelineStage } from "@shared/schema";
+import type { BoardApplication } from "@/components/pipeline-board";
+
+interface BulkApplicationActionsProps {
+  jobId: string;
+  stages: PipelineStage[];
+  applications: BoardApplication[];
+  selectedIds: Set<string>;
+  onSelectionChange: (ids: Set<string>) => void;
+}
+
+type BulkTarget = { stageId: string } | { status: StageStatus };
+
+function summarize(result: BulkApplicationResult): string {
+  const parts = [`${result.moved} moved`];
+  if (result.unchanged > 0) parts.push(`${result.unchanged} already there`);
+  if (result.skipped > 0) parts.push(`${result.skipped} skipped`);
+  if (result.emailed > 0) parts.push(`${result.emailed} emailed`);
+  return parts.join(", ");
+}
+
+// Toolbar above the pipeline board for moving many candidates at once
+export function BulkApplicationActions({ jobId, stages, applications, selectedIds, onSelectionChange }: BulkApplicationActionsProps) {
+  const { toast } = useToast();
+  const [notifySeeker, setNotifySeeker] = useState(false);
+  const [emailMessage, setEmailMessage] = useState("");
+  const [minScore, setMinScore] = useState("");
+
+  const threshold = Number(minScore);
+  const belowThreshold = minScore === ""
+    ? []
+    : applications.filter((app) => app.status !== "rejected" && app.status !== "withdrawn" && (app.aiMatchScore ?? 0) < threshold);
+
+  const bulkMutation = useMutation({
+    mutationFn: async ({ applicationIds, target }: { applicationIds: string[]; target: BulkTarget }) => {
+      const response = await apiRequest("POST", `/api/employer/jobs/${jobId}/applications/bulk`, {
+        applicationIds,
+        ...target,
+        notifySeeker,
+        emailMessage: notifySeeker && emailMessage.trim() ? emailMessage.trim() : undefined,
+      });
+      return (await response.json()) as BulkApplicationResult;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/employer/jobs", jobId, "applications"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/applications"] });
+      onSelectionChange(new Set());
+      toast({ title: "Applications updated", description: summarize(result) });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error updating applications", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const apply = (target: BulkTarget, ids: string[] = Array.from(selectedIds)) => {
+    if (ids.length > MAX_BULK_APPLICATIONS) {
+      toast({
+        title: "Too many applications",
+        description: `Select at most ${MAX_BULK_APPLICATIONS} applications at a time`,
+        variant: "destructive",
+      });
+      return;
+    }
+    bulkMutation.mutate({ applicationIds: ids, target });
+  };
+
+  return (
+    <div className="mb-4 space-y-3 rounded-md border p-3" data-testid="bulk-application-actions">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium" data-testid="text-selected-count">
+          {selectedIds.size} selected
+        </span>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => apply({ status: "shortlisted" })}
+          disabled={selectedIds.size === 0 || bulkMutation.isPending}
+          data-testid="button-bulk-shortlist"
+        >
+          <Star className="h-4 w-4 mr-2" />
+          Shortlist
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => apply({ status: "rejected" })}
+          disabled={selectedIds.size === 0 || bulkMutation.isPending}
+          data-testid="button-bulk-reject"
+        >
+          <XCircle className="h-4 w-4 mr-2" />
+          Reject
+        </Button>
+        <Select
+          value=""
+          onValueChange={(stageId) => apply({ stageId })}
+          disabled={selectedIds.size === 0 || bulkMutation.isPending}
+        >
+          <SelectTrigger className="h-9 w-[180px]" data-testid="select-bulk-stage">
+            <SelectValue placeholder="Move to stage" />
+          </SelectTrigger>
+          <SelectContent>
+            {stages.map((stage) => (
+              <SelectItem key={stage.id} value={stage.id}>{stage.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {selectedIds.size > 0 && (
+          <Button size="sm" variant="ghost" onClick={() => onSelectionChange(new Set())} data-testid="button-clear-selection">
+            <X className="h-4 w-4 mr-2" />
+            Clear
+          </Button>
+        )}
+
+        <div className="flex items-center gap-2 sm:ml-auto">
+          <Label htmlFor="bulk-min-score" className="text-sm whitespace-nowrap">Reject below</Label>
+          <Input
+            id="bulk-min-score"
+            type="number"
+            min={0}
+            max={100}
+            value={minScore}
+            onChange={(e) => setMinScore(e.target.value)}
+            placeholder="Score"
+            className="h-9 w-20"
+            data-testid="input-bulk-min-score"
+          />
+          <span className="text-sm text-muted-foreground">% match</span>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button
+                size="sm"
+                variant="destructive"
+                disabled={belowThreshold.length === 0 || bulkMutation.isPending}
+                data-testid="button-reject-below-score"
+              >
+                Reject {belowThreshold.length}
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Reject {belowThreshold.length} applicants?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Everyone with a match score under {threshold}% who hasn't already been rejected or withdrawn will be moved to
+                  your rejected stage.{notifySeeker && " They will be emailed about the decision."}
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={() => apply({ status: "rejected" }, belowThreshold.map((app) => app.id))}
+                  className="bg-destructive hover:bg-destructive/90"
+                  data-testid="button-confirm-reject-below-score"
+                >
+                  Reject
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm">
+        <Checkbox
+          checked={notifySeeker}
+          onCheckedChange={(checked) => setNotifySeeker(checked === true)}
+          data-testid="checkbox-bulk-notify"
+        />
+        Email candidates about status changes
+      </label>
+      {notifySeeker && (
+        <Textarea
+          value={emailMessage}
+          onChange={(e) => setEmailMessage(e.target.value)}
+          placeholder="Optional message to include in the email"
+          maxLength={1000}
+          rows={2}
+          data-testid="input-bulk-email-message"
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Download, FileCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { CV_TEMPLATES, CV_TEMPLATE_CONFIG, DEFAULT_CV_TEMPLATE, type CvTemplate } from "@shared/cv";
+import type { Resume } from "@shared/schema";
+
+// Fetched rather than linked so the JWT header is sent
+async function downloadCv(url: string): Promise<void> {
+  const response = await apiRequest("GET", url);
+  const fileName = response.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] ?? "cv.pdf";
+  const blobUrl = window.URL.createObjectURL(await response.blob());
+  const a = document.createElement("a");
+  a.href = blobUrl;
+  a.download = fileName;
+  a.click();
+  window.URL.revokeObjectURL(blobUrl);
+}
+
+// On the seeker's profile: download a CV built from the profile, or save it as their default resume
+export function CvExport() {
+  const { toast } = useToast();
+  const [template, setTemplate] = useState<CvTemplate>(DEFAULT_CV_TEMPLATE);
+
+  const downloadMutation = useMutation({
+    mutationFn: () => downloadCv(`/api/profile/cv?template=${template}`),
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/profile/cv/resume", { template });
+      return (await response.json()) as Resume;
+    },
+    onSuccess: (resume) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/resumes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/profile"] });
+      toast({ title: "Resume added", description: `"${resume.label}" is now your default resume.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-2 rounded-md border p-3">
+      <Label>Generate a CV from your profile</Label>
+      <p className="text-sm text-muted-foreground">
+        No resume file? Create one from your work experience, education and certifications. Save your profile first so the CV is up to date.
+      </p>
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={template} onValueChange={(value) => setTemplate(value as CvTemplate)}>
+          <SelectTrigger className="w-48" data-testid="select-cv-template">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CV_TEMPLATES.map((option) => (
+              <SelectItem key={option} value={option}>{CV_TEMPLATE_CONFIG[option].label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => downloadMutation.mutate()}
+          disabled={downloadMutation.isPending}
+          data-testid="button-download-cv"
+        >
+          <Download className="mr-2 h-4 w-4" />
+          {downloadMutation.isPending ? "Generating..." : "Download PDF"}
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => saveMutation.mutate()}
+          disabled={saveMutation.isPending}
+          data-testid="button-cv-as-resume"
+        >
+          <FileCheck className="mr-2 h-4 w-4" />
+          {saveMutation.isPending ? "Saving..." : "Use as my resume"}
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">{CV_TEMPLATE_CONFIG[template].description}</p>
+    </div>
+  );
+}
+
+// On an applicant's portfolio: the same profile as a PDF in whichever layout the employer prefers
+export function ApplicantCvDownload({ userId }: { userId: string }) {
+  const { toast } = useToast();
+
+  const downloadMutation = useMutation({
+    mutationFn: (template: CvTemplate) => downloadCv(`/api/employer/applicant/${userId}/cv?template=${template}`),
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={downloadMutation.isPending} data-testid="button-download-applicant-cv">
+          <Download className="mr-2 h-4 w-4" />
+          {downloadMutation.isPending ? "Generating..." : "Download CV"}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Layout</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {CV_TEMPLATES.map((template) => (
+          <DropdownMenuItem
+            key={template}
+            onClick={() => downloadMutation.mutate(template)}
+            data-testid={`menu-cv-template-${template}`}
+          >
+            {CV_TEMPLATE_CONFIG[template].label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,548 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { CalendarClock, CalendarPlus, MapPin, Plus, RefreshCw, Trash2, Video, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isHttpLink } from "@/lib/utils";
+import {
+  ACTIVE_INTERVIEW_STATUSES,
+  INTERVIEW_DURATIONS,
+  INTERVIEW_FORMATS,
+  INTERVIEW_FORMAT_LABELS,
+  INTERVIEW_STATUS_LABELS,
+  INTERVIEW_TIMEZONE_LABEL,
+  MAX_INTERVIEW_SLOTS,
+  formatInterviewTime,
+  fromManilaDateTimeInput,
+  toManilaDateTimeInput,
+  type InterviewFormat,
+} from "@shared/interviews";
+import type { ApplicationStatus } from "@shared/pipeline";
+import type { Interview, InterviewWithDetails } from "@shared/schema";
+
+// Interview changes show up in the application's interviews, its timeline and the dashboards
+function invalidateInterviews(applicationId: string) {
+  queryClient.invalidateQueries({ queryKey: ["/api/applications", applicationId] });
+  queryClient.invalidateQueries({ queryKey: ["/api/interviews"] });
+}
+
+function InterviewPlace({ interview }: { interview: Interview }) {
+  if (interview.format === "video") {
+    return (
+      <span className="flex items-center gap-1">
+        <Video className="h-3 w-3" />
+        {isHttpLink(interview.meetingUrl) ? (
+          <a href={interview.meetingUrl} target="_blank" rel="noopener noreferrer" className="underline underline-offset-2">
+            Video call
+          </a>
+        ) : "Video call"}
+      </span>
+    );
+  }
+  return (
+    <span className="flex items-center gap-1">
+      <MapPin className="h-3 w-3" />
+      {interview.location || "Onsite"}
+    </span>
+  );
+}
+
+function statusVariant(interview: Interview): "default" | "secondary" | "outline" | "destructive" {
+  switch (interview.status) {
+    case "scheduled":
+      return "default";
+    case "cancelled":
+      return "destructive";
+    case "reschedule_requested":
+      return "outline";
+    default:
+      return "secondary";
+  }
+}
+
+// Asks for an optional reason before cancelling or requesting a new time
+function InterviewReasonDialog({
+  interviewId,
+  action,
+  triggerLabel,
+  title,
+  description,
+  applicationId,
+}: {
+  interviewId: string;
+  action: "cancel" | "request-reschedule";
+  triggerLabel: string;
+  title: string;
+  description: string;
+  applicationId: string;
+}) {
+  const { toast } = useToast();
+  const [reason, setReason] = useState("");
+
+  const mutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/interviews/${interviewId}/${action}`, {
+        reason: reason.trim() || undefined,
+      });
+    },
+    onSuccess: () => {
+      invalidateInterviews(applicationId);
+      setReason("");
+      toast({ title: action === "cancel" ? "Interview cancelled" : "New time requested" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button size="sm" variant="ghost" data-testid={`button-interview-${action}-${interviewId}`}>
+          {action === "cancel" ? <X className="h-4 w-4 mr-2" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+          {triggerLabel}
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>{title}</AlertDialogTitle>
+          <AlertDialogDescription>{description}</AlertDialogDescription>
+        </AlertDialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor={`interview-reason-${interviewId}`}>Reason (optional)</Label>
+          <Textarea
+            id={`interview-reason-${interviewId}`}
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            maxLength={500}
+            rows={3}
+            data-testid={`input-interview-reason-${interviewId}`}
+          />
+        </div>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Back</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={() => mutation.mutate()}
+            disabled={mutation.isPending}
+            data-testid={`button-confirm-interview-${action}-${interviewId}`}
+          >
+            {triggerLabel}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
+
+interface ProposalDraft {
+  format: InterviewFormat;
+  location: string;
+  meetingUrl: string;
+  durationMinutes: number;
+  notes: string;
+  slots: string[]; // datetime-local values in Manila time
+}
+
+function toDraft(interview?: Interview): ProposalDraft {
+  return {
+    format: interview?.format ?? "video",
+    location: interview?.location ?? "",
+    meetingUrl: interview?.meetingUrl ?? "",
+    durationMinutes: interview?.durationMinutes ?? 60,
+    notes: interview?.notes ?? "",
+    // Past slots are dropped when rescheduling
+    slots: interview?.proposedSlots.filter((slot) => new Date(slot) > new Date()).map(toManilaDateTimeInput) ?? [""],
+  };
+}
+
+// Propose slots for a new interview, or replace them when `interview` is given
+function InterviewProposalDialog({
+  applicationId,
+  interview,
+  open,
+  onOpenChange,
+}: {
+  applicationId: string;
+  interview?: Interview;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<ProposalDraft>(() => toDraft(interview));
+  const slots = draft.slots.length > 0 ? draft.slots : [""];
+
+  const setSlot = (index: number, value: string) =>
+    setDraft((current) => ({ ...current, slots: slots.map((slot, i) => (i === index ? value : slot)) }));
+
+  const proposeMutation = useMutation({
+    mutationFn: async () => {
+      const payload = {
+        format: draft.format,
+        location: draft.format === "onsite" ? draft.location.trim() || undefined : undefined,
+        meetingUrl: draft.format === "video" ? draft.meetingUrl.trim() || undefined : undefined,
+        durationMinutes: draft.durationMinutes,
+        notes: draft.notes.trim() || undefined,
+        slots: slots.filter(Boolean).map((slot) => fromManilaDateTimeInput(slot).toISOString()),
+      };
+      return await apiRequest(
+        "POST",
+        interview ? `/api/interviews/${interview.id}/reschedule` : `/api/applications/${applicationId}/interviews`,
+        payload
+      );
+    },
+    onSuccess: () => {
+      invalidateInterviews(applicationId);
+      onOpenChange(false);
+      toast({ title: interview ? "New times sent" : "Interview invitation sent", description: "The candidate will pick a time" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{interview ? "Reschedule Interview" : "Schedule Interview"}</DialogTitle>
+          <DialogDescription>
+            Offer up to {MAX_INTERVIEW_SLOTS} times. All times are Philippine time ({INTERVIEW_TIMEZONE_LABEL}).
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Format</Label>
+              <Select value={draft.format} onValueChange={(value) => setDraft({ ...draft, format: value as InterviewFormat })}>
+                <SelectTrigger data-testid="select-interview-format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {INTERVIEW_FORMATS.map((format) => (
+                    <SelectItem key={format} value={format}>{INTERVIEW_FORMAT_LABELS[format]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Duration</Label>
+              <Select
+                value={String(draft.durationMinutes)}
+                onValueChange={(value) => setDraft({ ...draft, durationMinutes: Number(value) })}
+              >
+                <SelectTrigger data-testid="select-interview-duration">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {INTERVIEW_DURATIONS.map((minutes) => (
+                    <SelectItem key={minutes} value={String(minutes)}>{minutes} minutes</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {draft.format === "onsite" ? (
+            <div className="space-y-2">
+              <Label htmlFor="interview-location">Address</Label>
+              <Input
+                id="interview-location"
+                value={draft.location}
+                onChange={(e) => setDraft({ ...draft, location: e.target.value })}
+                placeholder="e.g. 12F Tower One, Ayala Ave, Makati City"
+                maxLength={500}
+                data-testid="input-interview-location"
+              />
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="interview-meeting-url">Video call link</Label>
+              <Input
+                id="interview-meeting-url"
+                type="url"
+                value={draft.meetingUrl}
+                onChange={(e) => setDraft({ ...draft, meetingUrl: e.target.value })}
+                placeholder="https://meet.google.com/..."
+                maxLength={500}
+                data-testid="input-interview-meeting-url"
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Proposed times ({INTERVIEW_TIMEZONE_LABEL})</Label>
+            {slots.map((slot, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  type="datetime-local"
+                  value={slot}
+                  min={toManilaDateTimeInput(new Date())}
+                  onChange={(e) => setSlot(index, e.target.value)}
+                  data-testid={`input-interview-slot-${index}`}
+                />
+                {slots.length > 1 && (
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => setDraft({ ...draft, slots: slots.filter((_, i) => i !== index) })}
+                    data-testid={`button-remove-slot-${index}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+            {slots.length < MAX_INTERVIEW_SLOTS && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setDraft({ ...draft, slots: [...slots, ""] })}
+                data-testid="button-add-slot"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add time
+              </Button>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="interview-notes">Notes for the candidate (optional)</Label>
+            <Textarea
+              id="interview-notes"
+              value={draft.notes}
+              onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+              placeholder="e.g. Bring a valid ID and ask for HR at the lobby"
+              maxLength={2000}
+              rows={3}
+              data-testid="input-interview-notes"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            onClick={() => proposeMutation.mutate()}
+            disabled={proposeMutation.isPending || !slots.some(Boolean)}
+            data-testid="button-send-interview"
+          >
+            {interview ? "Send New Times" : "Send Invitation"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Interview section of an application card on the employer's job page
+export function ApplicationInterviews({
+  applicationId,
+  applicationStatus,
+}: {
+  applicationId: string;
+  applicationStatus: ApplicationStatus;
+}) {
+  const [editing, setEditing] = useState<Interview | "new" | null>(null);
+  const { data: interviews, isLoading } = useQuery<Interview[]>({
+    queryKey: ["/api/applications", applicationId, "interviews"],
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-10 w-full" />;
+  }
+
+  const active = interviews?.find((interview) => ACTIVE_INTERVIEW_STATUSES.includes(interview.status));
+  const closed = applicationStatus === "withdrawn" || applicationStatus === "rejected";
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-semibold flex items-center gap-2">
+        <CalendarClock className="h-4 w-4" />
+        Interview
+      </h4>
+      {active ? (
+        <div className="rounded-md border p-3 text-sm space-y-2" data-testid={`interview-${active.id}`}>
+          <div className="flex flex-wrap items-center gap-2">
+            <Badge variant={statusVariant(active)}>{INTERVIEW_STATUS_LABELS[active.status]}</Badge>
+            <span className="text-muted-foreground">{INTERVIEW_FORMAT_LABELS[active.format]} · {active.durationMinutes} min</span>
+          </div>
+          {active.scheduledAt ? (
+            <p className="font-medium">{formatInterviewTime(active.scheduledAt)}</p>
+          ) : (
+            <ul className="list-disc pl-5 text-muted-foreground">
+              {active.proposedSlots.map((slot) => <li key={slot}>{formatInterviewTime(slot)}</li>)}
+            </ul>
+          )}
+          <div className="text-muted-foreground"><InterviewPlace interview={active} /></div>
+          {active.status === "reschedule_requested" && (
+            <p className="text-yellow-700 dark:text-yellow-500">
+              The candidate asked for a different time{active.statusReason ? `: "${active.statusReason}"` : "."}
+            </p>
+          )}
+          <div className="flex flex-wrap gap-2">
+            <Button size="sm" variant="outline" onClick={() => setEditing(active)} data-testid={`button-reschedule-interview-${active.id}`}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Propose New Times
+            </Button>
+            <InterviewReasonDialog
+              interviewId={active.id}
+              applicationId={applicationId}
+              action="cancel"
+              triggerLabel="Cancel Interview"
+              title="Cancel this interview?"
+              description="The candidate will be emailed, and a scheduled time is removed from both calendars."
+            />
+          </div>
+        </div>
+      ) : closed ? (
+        <p className="text-sm text-muted-foreground">This application is closed.</p>
+      ) : (
+        <div className="flex flex-wrap items-center gap-2">
+          <Button
+            size="sm"
+            variant={applicationStatus === "shortlisted" ? "default" : "outline"}
+            onClick={() => setEditing("new")}
+            data-testid={`button-schedule-interview-${applicationId}`}
+          >
+            <CalendarPlus className="h-4 w-4 mr-2" />
+            Schedule Interview
+          </Button>
+          {applicationStatus === "shortlisted" && (
+            <span className="text-sm text-muted-foreground">Shortlisted: invite them to an interview as the next step</span>
+          )}
+        </div>
+      )}
+
+      {editing && (
+        <InterviewProposalDialog
+          applicationId={applicationId}
+          interview={editing === "new" ? undefined : editing}
+          open
+          onOpenChange={(open) => !open && setEditing(null)}
+        />
+      )}
+    </div>
+  );
+}
+
+function SeekerInterviewCard({ interview }: { interview: InterviewWithDetails }) {
+  const { toast } = useToast();
+
+  const selectMutation = useMutation({
+    mutationFn: async (slot: string) => {
+      return await apiRequest("POST", `/api/interviews/${interview.id}/select`, { slot });
+    },
+    onSuccess: () => {
+      invalidateInterviews(interview.applicationId);
+      toast({ title: "Interview confirmed", description: "A calendar invite is on its way to your email" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="rounded-md border p-4 space-y-3" data-testid={`seeker-interview-${interview.id}`}>
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <p className="font-medium">{interview.jobTitle}</p>
+          <p className="text-sm text-muted-foreground">{interview.companyName}</p>
+        </div>
+        <Badge variant={statusVariant(interview)}>
+          {interview.status === "proposed" ? "Pick a time" : INTERVIEW_STATUS_LABELS[interview.status]}
+        </Badge>
+      </div>
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-muted-foreground">
+        <span>{INTERVIEW_FORMAT_LABELS[interview.format]} · {interview.durationMinutes} min</span>
+        <InterviewPlace interview={interview} />
+      </div>
+      {interview.notes && <p className="text-sm whitespace-pre-wrap">{interview.notes}</p>}
+
+      {interview.status === "proposed" && (
+        <div className="flex flex-wrap gap-2">
+          {interview.proposedSlots.map((slot) => (
+            <Button
+              key={slot}
+              size="sm"
+              variant="outline"
+              onClick={() => selectMutation.mutate(slot)}
+              disabled={selectMutation.isPending || new Date(slot) <= new Date()}
+              data-testid={`button-pick-slot-${interview.id}-${slot}`}
+            >
+              {formatInterviewTime(slot)}
+            </Button>
+          ))}
+        </div>
+      )}
+      {interview.scheduledAt && interview.status === "scheduled" && (
+        <p className="font-medium">{formatInterviewTime(interview.scheduledAt)}</p>
+      )}
+      {interview.status === "reschedule_requested" && (
+        <p className="text-sm text-muted-foreground">You asked for a different time. The employer will send new options.</p>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {(interview.status === "proposed" || interview.status === "scheduled") && (
+          <InterviewReasonDialog
+            interviewId={interview.id}
+            applicationId={interview.applicationId}
+            action="request-reschedule"
+            triggerLabel="Request Another Time"
+            title="Ask for a different time?"
+            description="The employer will be emailed and can propose new times."
+          />
+        )}
+        <InterviewReasonDialog
+          interviewId={interview.id}
+          applicationId={interview.applicationId}
+          action="cancel"
+          triggerLabel="Cancel Interview"
+          title="Cancel this interview?"
+          description="The employer will be emailed. Your application stays open."
+        />
+      </div>
+    </div>
+  );
+}
+
+// Upcoming and pending interviews on the seeker dashboard
+export function SeekerInterviews() {
+  const { data: interviews, isLoading } = useQuery<InterviewWithDetails[]>({
+    queryKey: ["/api/interviews"],
+  });
+
+  const upcoming = interviews?.filter((interview) =>
+    ACTIVE_INTERVIEW_STATUSES.includes(interview.status) &&
+    (!interview.scheduledAt || interview.status !== "scheduled" || new Date(interview.scheduledAt) > new Date())
+  ) ?? [];
+
+  if (isLoading || upcoming.length === 0) return null;
+
+  return (
+    <Card data-testid="card-interviews">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock className="h-5 w-5" />
+          Interviews
+        </CardTitle>
+        <CardDescription>Times are shown in Philippine time ({INTERVIEW_TIMEZONE_LABEL})</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {upcoming.map((interview) => (
+          <SeekerInterviewCard key={interview.id} interview={interview} />
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,96 @@
+import { useMemo, useState } from "react";
+import { Check, ChevronsUpDown, MapPin, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  PH_CITIES,
+  formatPhCity,
+  getPhCity,
+  getPhRegion,
+  searchPhCities,
+  type PhCity,
+} from "@shared/ph-locations";
+
+// Suggested before the user types: the Zamboanga Peninsula, where most postings are
+const DEFAULT_SUGGESTIONS = PH_CITIES.filter((city) => city.regionCode === "09").slice(0, 10);
+
+interface LocationPickerProps {
+  value: string | null | undefined; // City code from shared/ph-locations.ts
+  onChange: (city: PhCity | null) => void;
+  placeholder?: string;
+  disabled?: boolean;
+  testId?: string;
+}
+
+export function LocationPicker({
+  value,
+  onChange,
+  placeholder = "Search city or municipality",
+  disabled = false,
+  testId,
+}: LocationPickerProps) {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+
+  const selected = value ? getPhCity(value) : undefined;
+  const results = useMemo(
+    () => (query.trim() ? searchPhCities(query, 15) : DEFAULT_SUGGESTIONS),
+    [query]
+  );
+
+  const handleSelect = (city: PhCity | null) => {
+    onChange(city);
+    setQuery("");
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          disabled={disabled}
+          className="w-full justify-between font-normal"
+          data-testid={testId}
+        >
+          <span className={cn("flex items-center gap-2 truncate", !selected && "text-muted-foreground")}>
+            <MapPin className="h-4 w-4 shrink-0" />
+            {selected ? formatPhCity(selected) : placeholder}
+          </span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+        {/* Filtering is done by searchPhCities so aliases like "Zambo" match */}
+        <Command shouldFilter={false}>
+          <CommandInput placeholder="Type a city, province or region..." value={query} onValueChange={setQuery} />
+          <CommandList>
+            <CommandEmpty>No matching location.</CommandEmpty>
+            <CommandGroup>
+              {selected && !query && (
+                <CommandItem value="__clear" onSelect={() => handleSelect(null)}>
+                  <X className="mr-2 h-4 w-4" />
+                  Clear location
+                </CommandItem>
+              )}
+              {results.map((city) => (
+                <CommandItem key={city.code} value={city.code} onSelect={() => handleSelect(city)}>
+                  <Check className={cn("mr-2 h-4 w-4", city.code === value ? "opacity-100" : "opacity-0")} />
+                  <div className="flex flex-col">
+                    <span>{formatPhCity(city)}</span>
+                    <span className="text-xs text-muted-foreground">{getPhRegion(city.regionCode)?.name}</span>
+                  </div>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,84 @@
+import { Briefcase, CheckCircle, Lightbulb, MapPin, XCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import type { MatchExplanation as MatchExplanationData } from "@shared/schema";
+
+interface MatchExplanationProps {
+  explanation: MatchExplanationData;
+  // Suggestions are advice for the seeker, so employers don't see them
+  showSuggestions?: boolean;
+  testId?: string;
+}
+
+export function MatchExplanation({ explanation, showSuggestions = false, testId }: MatchExplanationProps) {
+  const { summary, matchedSkills, missingSkills, experienceFit, locationFit, suggestions } = explanation;
+
+  return (
+    <div className="space-y-4 text-sm" data-testid={testId}>
+      {summary && <p className="text-muted-foreground">{summary}</p>}
+
+      {(matchedSkills.length > 0 || missingSkills.length > 0) && (
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div>
+            <h4 className="font-semibold mb-2">Matched skills</h4>
+            {matchedSkills.length > 0 ? (
+              <div className="flex flex-wrap gap-2">
+                {matchedSkills.map((skill) => (
+                  <Badge key={skill} variant="secondary" className="gap-1">
+                    <CheckCircle className="h-3 w-3 text-primary" />
+                    {skill}
+                  </Badge>
+                ))}
+              </div>
+            ) : (
+              <p className="text-muted-foreground">None of the required skills yet</p>
+            )}
+          </div>
+          <div>
+            <h4 className="font-semibold mb-2">Missing skills</h4>
+            {missingSkills.length > 0 ? (
+              <div className="flex flex-wrap gap-2">
+                {missingSkills.map((skill) => (
+                  <Badge key={skill} variant="outline" className="gap-1">
+                    <XCircle className="h-3 w-3 text-muted-foreground" />
+                    {skill}
+                  </Badge>
+                ))}
+              </div>
+            ) : (
+              <p className="text-muted-foreground">All required skills covered</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {experienceFit && (
+          <div className="flex items-start gap-2">
+            <Briefcase className="h-4 w-4 mt-0.5 text-muted-foreground flex-shrink-0" />
+            <span>{experienceFit}</span>
+          </div>
+        )}
+        {locationFit && (
+          <div className="flex items-start gap-2">
+            <MapPin className="h-4 w-4 mt-0.5 text-muted-foreground flex-shrink-0" />
+            <span>{locationFit}</span>
+          </div>
+        )}
+      </div>
+
+      {showSuggestions && suggestions.length > 0 && (
+        <div>
+          <h4 className="font-semibold mb-2">How to improve your match</h4>
+          <ul className="space-y-2">
+            {suggestions.map((suggestion, idx) => (
+              <li key={idx} className="flex items-start gap-2">
+                <Lightbulb className="h-4 w-4 mt-0.5 text-primary flex-shrink-0" />
+                <span>{suggestion}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+import { useEffect, useRef } from "react";
+import { useLocation } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Bell, CheckCheck, Settings } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { apiRequest, getAuthToken, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Notification, NotificationFeed } from "@shared/schema";
+
+const RECONNECT_DELAY_MS = 5000;
+
+// Reads the notification stream with fetch rather than EventSource, which can't send
+// the Authorization header that JWT logins need
+function useNotificationStream(onNotification: (notification: Notification) => void) {
+  const handlerRef = useRef(onNotification);
+  handlerRef.current = onNotification;
+
+  useEffect(() => {
+    const controller = new AbortController();
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const connect = async () => {
+      try {
+        const token = getAuthToken();
+        const res = await fetch("/api/notifications/stream", {
+          headers: token ? { Authorization: `Bearer ${token}` } : {},
+          credentials: "include",
+          signal: controller.signal,
+        });
+        if (!res.ok || !res.body) throw new Error(`${res.status}: ${res.statusText}`);
+
+        // Catch up on anything created while disconnected
+        queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+
+        const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+        let buffer = "";
+        while (true) {
+          const { value, done } = await reader.read();
+          if (done) break;
+          buffer += value;
+          const events = buffer.split("\n\n");
+          buffer = events.pop() ?? "";
+          for (const event of events) {
+            const lines = event.split("\n");
+            if (!lines.includes("event: notification")) continue;
+            const data = lines.filter(line => line.startsWith("data: ")).map(line => line.slice(6)).join("\n");
+            handlerRef.current(JSON.parse(data));
+          }
+        }
+      } catch {
+        // Network errors and non-OK responses fall through to the reconnect below
+      }
+      if (!controller.signal.aborted) {
+        reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+      }
+    };
+
+    connect();
+    return () => {
+      controller.abort();
+      clearTimeout(reconnectTimer);
+    };
+  }, []);
+}
+
+export function NotificationBell() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+
+  const { data } = useQuery<NotificationFeed>({
+    queryKey: ["/api/notifications"],
+  });
+  const notifications = data?.notifications ?? [];
+  const unreadCount = data?.unreadCount ?? 0;
+
+  useNotificationStream(notification => {
+    queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    toast({ title: notification.title, description: notification.body ?? undefined });
+  });
+
+  const markReadMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/notifications/${id}/read`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/notifications/read-all");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+
+  const handleSelect = (notification: Notification) => {
+    if (!notification.readAt) markReadMutation.mutate(notification.id);
+    if (notification.link) setLocation(notification.link);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" data-testid="button-notifications">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span
+              className="absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-medium text-destructive-foreground"
+              data-testid="badge-notifications-unread"
+            >
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+          <span className="sr-only">Notifications</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => markAllReadMutation.mutate()}
+              disabled={markAllReadMutation.isPending}
+              data-testid="button-notifications-read-all"
+            >
+              <CheckCheck className="mr-1 h-3.5 w-3.5" />
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <p className="px-2 py-6 text-center text-sm text-muted-foreground" data-testid="text-no-notifications">
+            You're all caught up
+          </p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map(notification => (
+              <DropdownMenuItem
+                key={notification.id}
+                className="flex cursor-pointer flex-col items-start gap-1 py-2"
+                onSelect={() => handleSelect(notification)}
+                data-testid={`notification-${notification.id}`}
+              >
+                <div className="flex w-full items-start gap-2">
+                  {!notification.readAt && <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-primary" />}
+                  <span className={`text-sm ${notification.readAt ? "text-muted-foreground" : "font-medium"}`}>
+                    {notification.title}
+                  </span>
+                </div>
+                {notification.body && (
+                  <span className="line-clamp-2 text-xs text-muted-foreground">{notification.body}</span>
+                )}
+                <span className="text-xs text-muted-foreground">
+                  {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                </span>
+              </DropdownMenuItem>
+            ))}
+          </div>
+        )}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={() => setLocation("/profile/notifications")} data-testid="link-notification-settings">
+          <Settings className="mr-2 h-4 w-4" />
+          Notification settings
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
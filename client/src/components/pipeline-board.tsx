@@ -0,0 +1,189 @@
+import { useState } from "react";
+import { AlertTriangle, Sparkles, User, XCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { StarRating } from "@/components/application-timeline";
+import { cn } from "@/lib/utils";
+import { APPLICATION_STATUS_LABELS, resolveApplicationStage } from "@shared/pipeline";
+import type { Application, PipelineStage } from "@shared/schema";
+
+// Applications as returned by GET /api/employer/jobs/:id/applications
+export type BoardApplication = Application & {
+  applicant: {
+    id?: string;
+    firstName?: string | null;
+    lastName?: string | null;
+    headline?: string | null;
+    profileImage?: string | null;
+  };
+};
+
+interface PipelineBoardProps {
+  stages: PipelineStage[];
+  applications: BoardApplication[];
+  onMove: (application: BoardApplication, stage: PipelineStage) => void;
+  onOpen: (application: BoardApplication) => void;
+  // Multi-select for bulk actions; cards get checkboxes when provided
+  selectedIds?: Set<string>;
+  onSelectionChange?: (ids: Set<string>) => void;
+}
+
+function applicantName(application: BoardApplication): string {
+  const { firstName, lastName } = application.applicant;
+  return firstName && lastName ? `${firstName} ${lastName}` : "Anonymous Applicant";
+}
+
+// Kanban view of a job's applications: one column per pipeline stage, and cards
+// are dragged between columns to move candidates along. Clicking a card opens it,
+// where the stage can also be changed without dragging.
+export function PipelineBoard({ stages, applications, onMove, onOpen, selectedIds, onSelectionChange }: PipelineBoardProps) {
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropStageId, setDropStageId] = useState<string | null>(null);
+
+  const byStage = new Map<string, BoardApplication[]>(stages.map((stage) => [stage.id, []]));
+  for (const application of applications) {
+    const stage = resolveApplicationStage(application, stages);
+    if (stage) byStage.get(stage.id)!.push(application);
+  }
+
+  const setSelected = (ids: string[], selected: boolean) => {
+    if (!selectedIds || !onSelectionChange) return;
+    const next = new Set(selectedIds);
+    for (const id of ids) {
+      if (selected) next.add(id);
+      else next.delete(id);
+    }
+    onSelectionChange(next);
+  };
+
+  const handleDrop = (stage: PipelineStage) => {
+    const application = applications.find((app) => app.id === draggingId);
+    setDraggingId(null);
+    setDropStageId(null);
+    if (application && resolveApplicationStage(application, stages)?.id !== stage.id) {
+      onMove(application, stage);
+    }
+  };
+
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-4" data-testid="pipeline-board">
+      {stages.map((stage) => {
+        const stageApplications = byStage.get(stage.id) ?? [];
+        const selectable = stageApplications.filter((app) => app.status !== "withdrawn");
+        const allSelected = selectable.length > 0 && selectable.every((app) => selectedIds?.has(app.id));
+        return (
+          <div
+            key={stage.id}
+            className={cn(
+              "flex w-72 flex-shrink-0 flex-col rounded-md border bg-muted/30",
+              dropStageId === stage.id && "border-primary bg-primary/5"
+            )}
+            onDragOver={(e) => {
+              if (!draggingId) return;
+              e.preventDefault();
+              setDropStageId(stage.id);
+            }}
+            onDragLeave={() => setDropStageId((current) => (current === stage.id ? null : current))}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleDrop(stage);
+            }}
+            data-testid={`column-stage-${stage.id}`}
+          >
+            <div className="flex items-center justify-between gap-2 border-b px-3 py-2">
+              {selectedIds && (
+                <Checkbox
+                  checked={allSelected}
+                  onCheckedChange={(checked) => setSelected(selectable.map((app) => app.id), checked === true)}
+                  disabled={selectable.length === 0}
+                  aria-label={`Select all in ${stage.name}`}
+                  data-testid={`checkbox-select-stage-${stage.id}`}
+                />
+              )}
+              <div className="min-w-0 flex-1">
+                <h3 className="truncate text-sm font-semibold">{stage.name}</h3>
+                <p className="text-xs text-muted-foreground">Candidates see: {APPLICATION_STATUS_LABELS[stage.status]}</p>
+              </div>
+              <Badge variant="secondary">{stageApplications.length}</Badge>
+            </div>
+
+            <div className="flex min-h-[120px] flex-1 flex-col gap-2 p-2">
+              {stageApplications.map((application) => {
+                const withdrawn = application.status === "withdrawn";
+                return (
+                  <Card
+                    key={application.id}
+                    draggable={!withdrawn}
+                    onDragStart={(e) => {
+                      e.dataTransfer.effectAllowed = "move";
+                      e.dataTransfer.setData("text/plain", application.id);
+                      setDraggingId(application.id);
+                    }}
+                    onDragEnd={() => {
+                      setDraggingId(null);
+                      setDropStageId(null);
+                    }}
+                    onClick={() => onOpen(application)}
+                    className={cn(
+                      "p-3 hover-elevate",
+                      withdrawn ? "cursor-pointer opacity-50 grayscale" : "cursor-grab active:cursor-grabbing",
+                      draggingId === application.id && "opacity-50",
+                      selectedIds?.has(application.id) && "ring-2 ring-primary"
+                    )}
+                    data-testid={`card-pipeline-application-${application.id}`}
+                  >
+                    <div className="flex items-center gap-3">
+                      {selectedIds && !withdrawn && (
+                        <Checkbox
+                          checked={selectedIds.has(application.id)}
+                          onCheckedChange={(checked) => setSelected([application.id], checked === true)}
+                          onClick={(e) => e.stopPropagation()}
+                          aria-label={`Select ${applicantName(application)}`}
+                          data-testid={`checkbox-select-application-${application.id}`}
+                        />
+                      )}
+                      <Avatar className="h-8 w-8">
+                        {application.applicant.profileImage && (
+                          <AvatarImage src={`/objects${application.applicant.profileImage}`} alt={applicantName(application)} />
+                        )}
+                        <AvatarFallback>
+                          <User className="h-4 w-4" />
+                        </AvatarFallback>
+                      </Avatar>
+                      <div className="min-w-0 flex-1">
+                        <p className="truncate text-sm font-medium">{applicantName(application)}</p>
+                        <p className="truncate text-xs text-muted-foreground">{application.applicant.headline || "Job Seeker"}</p>
+                      </div>
+                      {withdrawn && <Badge variant="outline">Withdrawn</Badge>}
+                      {!withdrawn && application.screeningOutcome === "flagged" && (
+                        <AlertTriangle className="h-4 w-4 flex-shrink-0 text-yellow-600 dark:text-yellow-400" aria-label="Flagged by screening questions" />
+                      )}
+                      {!withdrawn && application.screeningOutcome === "rejected" && (
+                        <XCircle className="h-4 w-4 flex-shrink-0 text-destructive" aria-label="Knocked out by screening questions" />
+                      )}
+                    </div>
+                    <div className="mt-2 flex items-center justify-between text-xs text-muted-foreground">
+                      {application.aiMatchScore ? (
+                        <span className="flex items-center gap-1">
+                          <Sparkles className="h-3 w-3 text-primary" />
+                          {application.aiMatchScore}% match
+                        </span>
+                      ) : <span />}
+                      {application.rating && <StarRating rating={application.rating} />}
+                      <span>{new Date(application.createdAt).toLocaleDateString()}</span>
+                    </div>
+                  </Card>
+                );
+              })}
+              {stageApplications.length === 0 && (
+                <p className="py-6 text-center text-xs text-muted-foreground">Drop candidates here</p>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,375 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Sparkles } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatPhilippinePhone, isValidPhilippinePhone } from "@/lib/philippines";
+import { PH_CITIES, formatPhCity, normalizeLocationText } from "@shared/ph-locations";
+import type { Certification, Education, JobSeekerProfile, ParsedResume, ResumeParseResult, WorkExperience } from "@shared/schema";
+
+type ImportableProfile = JobSeekerProfile & {
+  workExperience?: WorkExperience[];
+  education?: Education[];
+  certifications?: Certification[];
+};
+
+// The subset of PUT /api/profile fields an import can fill in
+export interface ResumeProfileFields {
+  headline?: string;
+  phoneNumber?: string;
+  linkedinUrl?: string;
+  portfolioUrl?: string;
+  location?: string;
+  locationCity?: string;
+  skills?: string[];
+}
+
+interface FieldChange {
+  key: string;
+  label: string;
+  current: string | null;
+  proposed: string;
+  update: ResumeProfileFields;
+}
+
+interface EntryChange<T> {
+  key: string;
+  entry: T;
+  // Entries missing a required field can't be saved as they are
+  missing: string | null;
+}
+
+interface ResumeDiff {
+  fields: FieldChange[];
+  skills: string[];
+  workExperience: EntryChange<ParsedResume["workExperience"][number]>[];
+  education: EntryChange<ParsedResume["education"][number]>[];
+  certifications: EntryChange<ParsedResume["certifications"][number]>[];
+}
+
+const same = (a: string | null | undefined, b: string | null | undefined) =>
+  normalizeLocationText(a ?? "") === normalizeLocationText(b ?? "");
+
+// Resumes write "Zamboanga City, Zamboanga del Sur"; the first part naming a known city wins
+function matchCity(location: string) {
+  for (const part of location.split(",")) {
+    const term = normalizeLocationText(part);
+    const city = PH_CITIES.find((c) =>
+      [c.name, ...c.aliases].some((name) => {
+        const normalized = normalizeLocationText(name);
+        return normalized === term || `${normalized} city` === term;
+      })
+    );
+    if (city) return city;
+  }
+  return undefined;
+}
+
+// What the parsed resume would add or change. Entries already on the profile are left out,
+// so importing the same resume twice doesn't duplicate them.
+function buildDiff(profile: ImportableProfile, parsed: ParsedResume): ResumeDiff {
+  const fields: FieldChange[] = [];
+  const addField = (key: keyof ResumeProfileFields, label: string, current: string | null, proposed: string | null, update?: ResumeProfileFields) => {
+    if (proposed && !same(current, proposed)) {
+      fields.push({ key: `field:${key}`, label, current: current || null, proposed, update: update ?? { [key]: proposed } });
+    }
+  };
+
+  addField("headline", "Headline", profile.headline, parsed.headline);
+  const phone = parsed.contact.phoneNumber;
+  if (phone && isValidPhilippinePhone(phone)) {
+    addField("phoneNumber", "Phone number", profile.phoneNumber, formatPhilippinePhone(phone));
+  }
+  addField("linkedinUrl", "LinkedIn", profile.linkedinUrl, parsed.contact.linkedinUrl);
+  addField("portfolioUrl", "Portfolio", profile.portfolioUrl, parsed.contact.portfolioUrl);
+  const city = parsed.contact.location ? matchCity(parsed.contact.location) : undefined;
+  if (city && city.code !== profile.locationCity) {
+    addField("location", "Location", profile.location, formatPhCity(city), { location: formatPhCity(city), locationCity: city.code });
+  }
+
+  const existingSkills = (profile.skills ?? []).map((skill) => skill.toLowerCase());
+  const skills = parsed.skills.filter((skill) => !existingSkills.includes(skill.toLowerCase()));
+
+  // Only one role can be current, so any other open-ended role needs an end date first
+  let hasCurrentRole = !!profile.workExperience?.some((e) => e.isCurrent);
+  const workExperience = parsed.workExperience
+    .filter((entry) => !profile.workExperience?.some((e) => same(e.companyName, entry.companyName) && same(e.position, entry.position)))
+    .map((entry, i) => {
+      const needsEndDate = !entry.endDate && (!entry.isCurrent || hasCurrentRole);
+      if (entry.isCurrent && !needsEndDate) hasCurrentRole = true;
+      return {
+        key: `work:${i}`,
+        entry,
+        missing: !entry.position ? "position" : !entry.companyName ? "company" : !entry.startDate ? "start date" : needsEndDate ? "end date" : null,
+      };
+    });
+  const education = parsed.education
+    .filter((entry) => !profile.education?.some((e) => same(e.institution, entry.institution) && same(e.degree, entry.degree)))
+    .map((entry, i) => ({
+      key: `education:${i}`,
+      entry,
+      missing: !entry.institution ? "school" : !entry.degree ? "degree" : !entry.startYear ? "start year" : null,
+    }));
+  const certifications = parsed.certifications
+    .filter((entry) => !profile.certifications?.some((c) => same(c.name, entry.name)))
+    .map((entry, i) => ({
+      key: `certification:${i}`,
+      entry,
+      missing: !entry.name ? "name" : !entry.issuer ? "issuer" : null,
+    }));
+
+  return { fields, skills, workExperience, education, certifications };
+}
+
+// Replacing a value the seeker already filled in is opt-in; everything new starts selected
+function defaultSelection(diff: ResumeDiff): Set<string> {
+  return new Set([
+    ...diff.fields.filter((field) => !field.current).map((field) => field.key),
+    ...diff.skills.map((skill) => `skill:${skill}`),
+    ...[...diff.workExperience, ...diff.education, ...diff.certifications].filter((e) => !e.missing).map((e) => e.key),
+  ]);
+}
+
+function isEmpty(diff: ResumeDiff): boolean {
+  return diff.fields.length + diff.skills.length + diff.workExperience.length + diff.education.length + diff.certifications.length === 0;
+}
+
+interface ResumeImportProps {
+  profile: ImportableProfile;
+  // Called with the profile fields that were saved, so the open profile form can show them
+  onFieldsApplied: (fields: ResumeProfileFields) => void;
+}
+
+// "Fill in from resume": parses the uploaded resume and lets the seeker pick which
+// extracted details to add before anything is saved
+export function ResumeImport({ profile, onFieldsApplied }: ResumeImportProps) {
+  const { toast } = useToast();
+  const [diff, setDiff] = useState<ResumeDiff | null>(null);
+  const [source, setSource] = useState<ResumeParseResult["source"]>("heuristic");
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const parseMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/resume/parse", {});
+      return (await response.json()) as ResumeParseResult;
+    },
+    onSuccess: (result) => {
+      const next = buildDiff(profile, result.parsed);
+      if (isEmpty(next)) {
+        toast({ title: "Nothing new to add", description: "Your profile already has everything we found in your resume." });
+        return;
+      }
+      setDiff(next);
+      setSource(result.source);
+      setSelected(defaultSelection(next));
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't read your resume", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: async (diff: ResumeDiff) => {
+      const fields: ResumeProfileFields = {};
+      for (const field of diff.fields) {
+        if (selected.has(field.key)) Object.assign(fields, field.update);
+      }
+      const newSkills = diff.skills.filter((skill) => selected.has(`skill:${skill}`));
+      if (newSkills.length > 0) {
+        fields.skills = [...(profile.skills ?? []), ...newSkills];
+      }
+      if (Object.keys(fields).length > 0) {
+        await apiRequest("PUT", "/api/profile", fields);
+      }
+
+      for (const { key, entry } of diff.workExperience) {
+        if (!selected.has(key)) continue;
+        await apiRequest("POST", "/api/profile/work-experience", {
+          ...entry,
+          location: entry.location ?? undefined,
+          endDate: entry.endDate ?? undefined,
+          description: entry.description ?? undefined,
+        });
+      }
+      for (const { key, entry } of diff.education) {
+        if (!selected.has(key)) continue;
+        await apiRequest("POST", "/api/profile/education", {
+          ...entry,
+          fieldOfStudy: entry.fieldOfStudy ?? undefined,
+          endYear: entry.endYear ?? undefined,
+          description: entry.description ?? undefined,
+        });
+      }
+      for (const { key, entry } of diff.certifications) {
+        if (!selected.has(key)) continue;
+        await apiRequest("POST", "/api/profile/certifications", {
+          ...entry,
+          issueDate: entry.issueDate ?? undefined,
+          expiryDate: entry.expiryDate ?? undefined,
+          credentialUrl: entry.credentialUrl ?? undefined,
+        });
+      }
+      return fields;
+    },
+    onSuccess: (fields) => {
+      onFieldsApplied(fields);
+      toast({ title: "Profile updated", description: `Added ${selected.size} item${selected.size === 1 ? "" : "s"} from your resume.` });
+      setDiff(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+    // Some entries may have been saved before a failure, so refresh either way
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/profile"] });
+    },
+  });
+
+  const toggle = (key: string, checked: boolean) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (checked) next.add(key);
+      else next.delete(key);
+      return next;
+    });
+  };
+
+  const renderEntry = (key: string, missing: string | null, title: string, subtitle: string) => (
+    <label key={key} className="flex items-start gap-3 rounded-md border p-3" data-testid={`resume-import-${key}`}>
+      <Checkbox
+        checked={selected.has(key)}
+        onCheckedChange={(checked) => toggle(key, checked === true)}
+        disabled={!!missing}
+        className="mt-0.5"
+      />
+      <div className="min-w-0 flex-1">
+        <p className="text-sm font-medium">{title || "Untitled"}</p>
+        <p className="text-sm text-muted-foreground">{subtitle}</p>
+        {missing && <p className="text-xs text-destructive">Missing {missing} - add this one manually</p>}
+      </div>
+    </label>
+  );
+
+  return (
+    <>
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => parseMutation.mutate()}
+        disabled={!profile.resumeUrl || parseMutation.isPending}
+        data-testid="button-import-resume"
+      >
+        <Sparkles className="mr-2 h-4 w-4" />
+        {parseMutation.isPending ? "Reading resume..." : "Fill in from resume"}
+      </Button>
+
+      <Dialog open={!!diff} onOpenChange={(open) => !open && setDiff(null)}>
+        <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Review details from your resume</DialogTitle>
+            <DialogDescription>
+              Choose what to add to your profile. {source === "heuristic" && "These were picked out automatically, so double-check dates and names."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {diff && (
+            <div className="space-y-5">
+              {diff.fields.length > 0 && (
+                <section className="space-y-2">
+                  <h3 className="text-sm font-semibold">Profile details</h3>
+                  {diff.fields.map((field) => (
+                    <label key={field.key} className="flex items-start gap-3 rounded-md border p-3" data-testid={`resume-import-${field.key}`}>
+                      <Checkbox
+                        checked={selected.has(field.key)}
+                        onCheckedChange={(checked) => toggle(field.key, checked === true)}
+                        className="mt-0.5"
+                      />
+                      <div className="min-w-0 flex-1 text-sm">
+                        <p className="font-medium">{field.label}</p>
+                        {field.current && <p className="text-muted-foreground line-through break-words">{field.current}</p>}
+                        <p className="break-words">{field.proposed}</p>
+                      </div>
+                    </label>
+                  ))}
+                </section>
+              )}
+
+              {diff.skills.length > 0 && (
+                <section className="space-y-2">
+                  <h3 className="text-sm font-semibold">New skills</h3>
+                  <div className="flex flex-wrap gap-2">
+                    {diff.skills.map((skill) => {
+                      const key = `skill:${skill}`;
+                      return (
+                        <Badge
+                          key={key}
+                          variant={selected.has(key) ? "default" : "outline"}
+                          className="cursor-pointer"
+                          onClick={() => toggle(key, !selected.has(key))}
+                          data-testid={`resume-import-${key}`}
+                        >
+                          {skill}
+                        </Badge>
+                      );
+                    })}
+                  </div>
+                </section>
+              )}
+
+              {diff.workExperience.length > 0 && (
+                <section className="space-y-2">
+                  <h3 className="text-sm font-semibold">Work experience</h3>
+                  {diff.workExperience.map(({ key, entry, missing }) =>
+                    renderEntry(key, missing, entry.position, [
+                      entry.companyName,
+                      `${entry.startDate || "?"} - ${entry.isCurrent ? "Present" : entry.endDate || "?"}`,
+                    ].filter(Boolean).join(" · "))
+                  )}
+                </section>
+              )}
+
+              {diff.education.length > 0 && (
+                <section className="space-y-2">
+                  <h3 className="text-sm font-semibold">Education</h3>
+                  {diff.education.map(({ key, entry, missing }) =>
+                    renderEntry(key, missing, [entry.degree, entry.fieldOfStudy].filter(Boolean).join(" in "), [
+                      entry.institution,
+                      [entry.startYear, entry.endYear].filter(Boolean).join(" - "),
+                    ].filter(Boolean).join(" · "))
+                  )}
+                </section>
+              )}
+
+              {diff.certifications.length > 0 && (
+                <section className="space-y-2">
+                  <h3 className="text-sm font-semibold">Certifications</h3>
+                  {diff.certifications.map(({ key, entry, missing }) =>
+                    renderEntry(key, missing, entry.name, [entry.issuer, entry.issueDate].filter(Boolean).join(" · "))
+                  )}
+                </section>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDiff(null)} disabled={applyMutation.isPending}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => diff && applyMutation.mutate(diff)}
+              disabled={selected.size === 0 || applyMutation.isPending}
+              data-testid="button-apply-resume-import"
+            >
+              {applyMutation.isPending ? "Saving..." : `Add ${selected.size} selected`}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,305 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Check, FileText, Pencil, Star, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Resume } from "@shared/schema";
+
+const MAX_RESUME_SIZE = 10 * 1024 * 1024;
+const RESUME_TYPES = [
+  "application/pdf",
+  "application/msword",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+];
+
+function invalidateResumes() {
+  queryClient.invalidateQueries({ queryKey: ["/api/resumes"] });
+  // The profile's resumeUrl follows the default resume
+  queryClient.invalidateQueries({ queryKey: ["/api/profile"] });
+}
+
+// Uploads the file to object storage and saves it as a new resume version
+async function uploadResume(file: File, label: string, isDefault: boolean): Promise<Resume> {
+  if (!RESUME_TYPES.includes(file.type)) {
+    throw new Error("Only PDF and Word documents are allowed");
+  }
+  if (file.size > MAX_RESUME_SIZE) {
+    throw new Error("Resume must be under 10MB");
+  }
+
+  const uploadResponse = await apiRequest("POST", "/api/objects/upload-resume", {
+    contentType: file.type,
+    fileSize: file.size,
+  });
+  const { uploadURL, objectPath } = await uploadResponse.json();
+  const putResponse = await fetch(uploadURL, {
+    method: "PUT",
+    body: file,
+    headers: { "Content-Type": file.type },
+  });
+  if (putResponse.status < 200 || putResponse.status >= 300) {
+    throw new Error("Failed to upload resume to storage");
+  }
+
+  const response = await apiRequest("POST", "/api/resumes", {
+    label: label.trim() || file.name.replace(/\.[^.]+$/, ""),
+    fileUrl: objectPath,
+    fileName: file.name,
+    isDefault,
+  });
+  return (await response.json()) as Resume;
+}
+
+function ResumeRow({ resume }: { resume: Resume }) {
+  const { toast } = useToast();
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [label, setLabel] = useState(resume.label);
+
+  const updateMutation = useMutation({
+    mutationFn: async (updates: { label?: string; isDefault?: true }) => {
+      return await apiRequest("PATCH", `/api/resumes/${resume.id}`, updates);
+    },
+    onSuccess: () => {
+      invalidateResumes();
+      setIsRenaming(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("DELETE", `/api/resumes/${resume.id}`, {});
+    },
+    onSuccess: () => {
+      invalidateResumes();
+      toast({ title: "Resume deleted" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-md border p-3" data-testid={`resume-${resume.id}`}>
+      <FileText className="h-4 w-4 text-primary" />
+      {isRenaming ? (
+        <div className="flex flex-1 items-center gap-1">
+          <Input value={label} onChange={(e) => setLabel(e.target.value)} className="h-8" data-testid={`input-resume-label-${resume.id}`} />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => updateMutation.mutate({ label })}
+            disabled={!label.trim() || updateMutation.isPending}
+            data-testid={`button-save-resume-label-${resume.id}`}
+          >
+            <Check className="h-4 w-4" />
+          </Button>
+          <Button type="button" variant="ghost" size="icon" onClick={() => { setIsRenaming(false); setLabel(resume.label); }}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ) : (
+        <div className="min-w-0 flex-1">
+          <p className="text-sm font-medium truncate">
+            {resume.label}
+            {resume.isDefault && <Badge variant="secondary" className="ml-2">Default</Badge>}
+          </p>
+          <p className="text-xs text-muted-foreground truncate">
+            {[resume.fileName, `Added ${new Date(resume.createdAt).toLocaleDateString()}`].filter(Boolean).join(" · ")}
+          </p>
+        </div>
+      )}
+      <a
+        href={`/objects${resume.fileUrl}`}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="text-sm text-primary hover:underline"
+        data-testid={`link-resume-view-${resume.id}`}
+      >
+        View
+      </a>
+      {!isRenaming && (
+        <Button type="button" variant="ghost" size="icon" onClick={() => setIsRenaming(true)} data-testid={`button-rename-resume-${resume.id}`}>
+          <Pencil className="h-4 w-4" />
+        </Button>
+      )}
+      {!resume.isDefault && (
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => updateMutation.mutate({ isDefault: true })}
+          disabled={updateMutation.isPending}
+          data-testid={`button-default-resume-${resume.id}`}
+        >
+          <Star className="h-4 w-4 mr-1" />
+          Make default
+        </Button>
+      )}
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button type="button" variant="ghost" size="icon" data-testid={`button-delete-resume-${resume.id}`}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{resume.label}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              It won't be offered for new applications. Employers you've already applied to with it still see the copy you sent.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => deleteMutation.mutate()}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+// The seeker's resume versions on their profile: upload, rename, pick the default, delete
+export function ResumeManager() {
+  const { toast } = useToast();
+  const [label, setLabel] = useState("");
+  const [inputKey, setInputKey] = useState(0);
+
+  const { data: resumes = [], isLoading } = useQuery<Resume[]>({
+    queryKey: ["/api/resumes"],
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: (file: File) => uploadResume(file, label, false),
+    onSuccess: () => {
+      invalidateResumes();
+      setLabel("");
+      toast({ title: "Resume uploaded" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Upload failed", description: error.message, variant: "destructive" });
+    },
+    onSettled: () => setInputKey((key) => key + 1),
+  });
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <Label>Resumes</Label>
+        <p className="text-sm text-muted-foreground">
+          Keep versions for different kinds of jobs and choose one when you apply. The default is used otherwise.
+        </p>
+      </div>
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading...</p>
+      ) : (
+        resumes.map((resume) => <ResumeRow key={resume.id} resume={resume} />)
+      )}
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          placeholder="Name, e.g. Customer service"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          className="max-w-xs"
+          data-testid="input-new-resume-label"
+        />
+        <Input
+          key={inputKey}
+          type="file"
+          accept=".pdf,.doc,.docx"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) uploadMutation.mutate(file);
+          }}
+          disabled={uploadMutation.isPending}
+          className="max-w-sm"
+          data-testid="input-resume"
+        />
+      </div>
+      {uploadMutation.isPending && <p className="text-sm text-muted-foreground">Uploading resume...</p>}
+      <p className="text-xs text-muted-foreground">PDF, DOC, or DOCX - max 10MB</p>
+    </div>
+  );
+}
+
+// Resume choice in the apply dialog. value is a resume id; "" until the list loads.
+export function ResumePicker({ value, onChange }: { value: string; onChange: (resumeId: string) => void }) {
+  const { toast } = useToast();
+  const [inputKey, setInputKey] = useState(0);
+
+  const { data: resumes = [] } = useQuery<Resume[]>({
+    queryKey: ["/api/resumes"],
+  });
+  const selectedId = value || resumes.find((resume) => resume.isDefault)?.id || "";
+  const selected = resumes.find((resume) => resume.id === selectedId);
+
+  const uploadMutation = useMutation({
+    // A seeker's first upload becomes their default anyway
+    mutationFn: (file: File) => uploadResume(file, "", false),
+    onSuccess: (resume) => {
+      invalidateResumes();
+      onChange(resume.id);
+      toast({ title: "Resume uploaded", description: "It's been added to your resumes." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Upload failed", description: error.message, variant: "destructive" });
+    },
+    onSettled: () => setInputKey((key) => key + 1),
+  });
+
+  return (
+    <div className="space-y-2">
+      {resumes.length > 0 && (
+        <div className="flex items-center gap-2">
+          <Select value={selectedId} onValueChange={onChange}>
+            <SelectTrigger className="flex-1" data-testid="select-apply-resume">
+              <SelectValue placeholder="Choose a resume" />
+            </SelectTrigger>
+            <SelectContent>
+              {resumes.map((resume) => (
+                <SelectItem key={resume.id} value={resume.id}>
+                  {resume.label}{resume.isDefault ? " (default)" : ""}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {selected && (
+            <a
+              href={`/objects${selected.fileUrl}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-sm text-primary hover:underline"
+            >
+              View
+            </a>
+          )}
+        </div>
+      )}
+      <Input
+        key={inputKey}
+        type="file"
+        accept=".pdf,.doc,.docx"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) uploadMutation.mutate(file);
+        }}
+        disabled={uploadMutation.isPending}
+        data-testid="input-apply-resume"
+      />
+      <p className="text-xs text-muted-foreground">
+        {uploadMutation.isPending
+          ? "Uploading resume..."
+          : resumes.length > 0 ? "Or upload another version (PDF, DOC, or DOCX - max 10MB)" : "Upload your resume (PDF, DOC, or DOCX - max 10MB)"}
+      </p>
+    </div>
+  );
+}
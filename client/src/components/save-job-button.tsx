@@ -0,0 +1,72 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Bookmark, BookmarkCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+// IDs of the signed-in seeker's saved jobs; empty for everyone else
+export function useSavedJobIds(): Set<string> {
+  const { user } = useAuth();
+  const { data } = useQuery<string[]>({
+    queryKey: ["/api/saved-jobs/ids"],
+    enabled: user?.role === "job_seeker",
+  });
+  return new Set(data ?? []);
+}
+
+interface SaveJobButtonProps {
+  jobId: string;
+  // "icon" for job cards, "full" for the job details page
+  variant?: "icon" | "full";
+}
+
+export function SaveJobButton({ jobId, variant = "icon" }: SaveJobButtonProps) {
+  const { toast } = useToast();
+  const isSaved = useSavedJobIds().has(jobId);
+
+  const toggleMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest(isSaved ? "DELETE" : "POST", `/api/saved-jobs/${jobId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-jobs/ids"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-jobs"] });
+      toast({ title: isSaved ? "Removed from saved jobs" : "Job saved" });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to update saved jobs", variant: "destructive" });
+    },
+  });
+
+  const Icon = isSaved ? BookmarkCheck : Bookmark;
+  const label = isSaved ? "Saved" : "Save job";
+
+  if (variant === "full") {
+    return (
+      <Button
+        size="lg"
+        variant="outline"
+        onClick={() => toggleMutation.mutate()}
+        disabled={toggleMutation.isPending}
+        data-testid="button-save-job"
+      >
+        <Icon className={`mr-2 h-4 w-4 ${isSaved ? "text-primary" : ""}`} />
+        {label}
+      </Button>
+    );
+  }
+
+  return (
+    <Button
+      size="icon"
+      variant="ghost"
+      onClick={() => toggleMutation.mutate()}
+      disabled={toggleMutation.isPending}
+      aria-label={label}
+      data-testid={`button-bookmark-${jobId}`}
+    >
+      <Icon className={`h-4 w-4 ${isSaved ? "text-primary" : ""}`} />
+    </Button>
+  );
+}
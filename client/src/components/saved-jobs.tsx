@@ -0,0 +1,144 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import { AlertTriangle, Bookmark, Building2, MapPin, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { getJobStatus, type JobStatus } from "@shared/job-status";
+import type { SavedJobWithJob } from "@shared/schema";
+
+function StatusBadge({ status, deadline }: { status: JobStatus; deadline: string | Date | null }) {
+  switch (status) {
+    case "closing_soon":
+      return (
+        <Badge variant="outline" className="gap-1 border-yellow-500 text-yellow-600 dark:text-yellow-400">
+          <AlertTriangle className="h-3 w-3" />
+          Closes {formatDistanceToNow(new Date(deadline!), { addSuffix: true })}
+        </Badge>
+      );
+    case "closed":
+      return <Badge variant="secondary">Applications closed</Badge>;
+    case "inactive":
+      return <Badge variant="destructive">No longer available</Badge>;
+    default:
+      return null;
+  }
+}
+
+export function SavedJobList() {
+  const { toast } = useToast();
+  const { data: savedJobs, isLoading } = useQuery<SavedJobWithJob[]>({
+    queryKey: ["/api/saved-jobs"],
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (jobId: string) => {
+      return await apiRequest("DELETE", `/api/saved-jobs/${jobId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-jobs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-jobs/ids"] });
+      toast({ title: "Removed from saved jobs" });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to remove saved job", variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        {[1, 2].map((i) => (
+          <Card key={i}>
+            <CardHeader>
+              <Skeleton className="h-6 w-1/2" />
+              <Skeleton className="h-4 w-1/3" />
+            </CardHeader>
+          </Card>
+        ))}
+      </div>
+    );
+  }
+
+  if (!savedJobs || savedJobs.length === 0) {
+    return (
+      <div className="flex min-h-[300px] flex-col items-center justify-center text-center p-8">
+        <Bookmark className="h-12 w-12 text-muted-foreground/50 mb-4" />
+        <h3 className="text-lg font-semibold mb-2">No saved jobs yet</h3>
+        <p className="text-sm text-muted-foreground max-w-md mb-4">
+          Bookmark jobs while browsing to come back to them later
+        </p>
+        <Link href="/jobs">
+          <Button>Browse Jobs</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const entries = savedJobs.map((saved) => ({ ...saved, status: getJobStatus(saved.job) }));
+  const needsAttention = entries.filter((entry) => entry.status !== "open").length;
+
+  return (
+    <div className="space-y-4">
+      {needsAttention > 0 && (
+        <div
+          className="flex items-start gap-3 rounded-md border border-yellow-500/50 bg-yellow-500/10 p-4 text-sm"
+          data-testid="alert-saved-jobs-attention"
+        >
+          <AlertTriangle className="h-4 w-4 mt-0.5 text-yellow-600 dark:text-yellow-400 flex-shrink-0" />
+          <span>
+            {needsAttention} saved {needsAttention === 1 ? "job is" : "jobs are"} closing soon or no longer taking
+            applications.
+          </span>
+        </div>
+      )}
+
+      {entries.map(({ job, status, createdAt }) => (
+        <Card key={job.id} data-testid={`card-saved-job-${job.id}`}>
+          <CardHeader>
+            <div className="flex items-start justify-between gap-4">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center flex-wrap gap-2 mb-1">
+                  <CardTitle className="text-lg">{job.title}</CardTitle>
+                  <StatusBadge status={status} deadline={job.applicationDeadline} />
+                </div>
+                <CardDescription className="flex items-center gap-3 flex-wrap">
+                  {job.companyName && (
+                    <span className="flex items-center gap-1">
+                      <Building2 className="h-3 w-3" />
+                      {job.companyName}
+                    </span>
+                  )}
+                  <span className="flex items-center gap-1">
+                    <MapPin className="h-3 w-3" />
+                    {job.location}
+                  </span>
+                  <span>Saved {formatDistanceToNow(new Date(createdAt), { addSuffix: true })}</span>
+                </CardDescription>
+              </div>
+              <div className="flex items-center gap-2">
+                <Link href={`/jobs/${job.id}`}>
+                  <Button variant="outline" data-testid={`button-view-saved-job-${job.id}`}>View</Button>
+                </Link>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => removeMutation.mutate(job.id)}
+                  disabled={removeMutation.isPending}
+                  aria-label="Remove from saved jobs"
+                  data-testid={`button-remove-saved-job-${job.id}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,253 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { BellRing, BookmarkPlus, Search, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatPhCity, getPhCity } from "@shared/ph-locations";
+import type { SavedSearch, SavedSearchFilters } from "@shared/schema";
+
+type AlertFrequency = SavedSearch["alertFrequency"];
+
+const FREQUENCY_LABELS: Record<AlertFrequency, string> = {
+  instant: "Email me right away",
+  daily: "Daily email digest",
+  off: "No emails",
+};
+
+const JOB_TYPE_LABELS: Record<string, string> = {
+  full_time: "Full time",
+  part_time: "Part time",
+  contract: "Contract",
+  remote: "Remote",
+  hybrid: "Hybrid",
+};
+
+// Filters as the jobs page holds them: strings, with "" or "all" meaning no filter
+export type JobPageFilters = Partial<Record<keyof SavedSearchFilters, string>>;
+
+// Short human summary, e.g. "react · Full time · within 25 km of Zamboanga City"
+export function describeSavedSearch(filters: SavedSearchFilters): string {
+  const city = filters.nearCity ? getPhCity(filters.nearCity) : undefined;
+  const parts = [
+    filters.search,
+    filters.location,
+    filters.jobType && JOB_TYPE_LABELS[filters.jobType],
+    filters.category,
+    filters.minSalary !== undefined && `from ₱${filters.minSalary.toLocaleString()}/mo`,
+    filters.maxSalary !== undefined && `up to ₱${filters.maxSalary.toLocaleString()}/mo`,
+    city && `within ${filters.radiusKm ?? 25} km of ${formatPhCity(city)}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(" · ") : "All jobs";
+}
+
+// Jobs page link that restores the search's filters and clears its new-jobs count
+export function savedSearchUrl(search: SavedSearch): string {
+  const params = new URLSearchParams({ savedSearch: search.id });
+  for (const [key, value] of Object.entries(search.filters)) {
+    if (value !== undefined && value !== null) {
+      params.set(key, String(value));
+    }
+  }
+  return `/jobs?${params.toString()}`;
+}
+
+export function SaveSearchDialog({ filters, defaultName }: { filters: JobPageFilters; defaultName?: string }) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [alertFrequency, setAlertFrequency] = useState<AlertFrequency>("daily");
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/saved-searches", { name, filters, alertFrequency });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] });
+      toast({ title: "Search saved", description: "We'll let you know when new jobs match." });
+      setOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to save search", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (next) setName(defaultName || "");
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" data-testid="button-save-search">
+          <BookmarkPlus className="mr-2 h-4 w-4" />
+          Save search
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Save this search</DialogTitle>
+          <DialogDescription>Get alerted when new jobs matching these filters are posted.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="saved-search-name">Name</Label>
+            <Input
+              id="saved-search-name"
+              placeholder="e.g. Developer jobs near me"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              data-testid="input-saved-search-name"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Email alerts</Label>
+            <Select value={alertFrequency} onValueChange={(value) => setAlertFrequency(value as AlertFrequency)}>
+              <SelectTrigger data-testid="select-saved-search-frequency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(FREQUENCY_LABELS) as AlertFrequency[]).map((frequency) => (
+                  <SelectItem key={frequency} value={frequency}>{FREQUENCY_LABELS[frequency]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!name.trim() || saveMutation.isPending}
+            data-testid="button-confirm-save-search"
+          >
+            {saveMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function SavedSearchList() {
+  const { toast } = useToast();
+  const { data: searches, isLoading } = useQuery<SavedSearch[]>({
+    queryKey: ["/api/saved-searches"],
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, alertFrequency }: { id: string; alertFrequency: AlertFrequency }) => {
+      return await apiRequest("PUT", `/api/saved-searches/${id}`, { alertFrequency });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to update alerts", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/saved-searches/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] });
+      toast({ title: "Saved search deleted" });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to delete saved search", variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        {[1, 2].map((i) => (
+          <Card key={i}>
+            <CardHeader>
+              <Skeleton className="h-6 w-1/2" />
+              <Skeleton className="h-4 w-3/4" />
+            </CardHeader>
+          </Card>
+        ))}
+      </div>
+    );
+  }
+
+  if (!searches || searches.length === 0) {
+    return (
+      <div className="flex min-h-[300px] flex-col items-center justify-center text-center p-8">
+        <Search className="h-12 w-12 text-muted-foreground/50 mb-4" />
+        <h3 className="text-lg font-semibold mb-2">No saved searches yet</h3>
+        <p className="text-sm text-muted-foreground max-w-md mb-4">
+          Save a search on the jobs page to get alerted about new matching jobs
+        </p>
+        <Link href="/jobs">
+          <Button>Browse Jobs</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {searches.map((search) => (
+        <Card key={search.id} data-testid={`card-saved-search-${search.id}`}>
+          <CardHeader>
+            <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center flex-wrap gap-2 mb-1">
+                  <CardTitle className="text-lg">{search.name}</CardTitle>
+                  {search.newJobCount > 0 && (
+                    <Badge className="gap-1" data-testid={`badge-new-jobs-${search.id}`}>
+                      <BellRing className="h-3 w-3" />
+                      {search.newJobCount} new
+                    </Badge>
+                  )}
+                </div>
+                <CardDescription className="truncate">{describeSavedSearch(search.filters)}</CardDescription>
+              </div>
+              <div className="flex items-center gap-2">
+                <Select
+                  value={search.alertFrequency}
+                  onValueChange={(value) => updateMutation.mutate({ id: search.id, alertFrequency: value as AlertFrequency })}
+                >
+                  <SelectTrigger className="w-[190px]" data-testid={`select-frequency-${search.id}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(FREQUENCY_LABELS) as AlertFrequency[]).map((frequency) => (
+                      <SelectItem key={frequency} value={frequency}>{FREQUENCY_LABELS[frequency]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Link href={savedSearchUrl(search)}>
+                  <Button variant="outline" data-testid={`button-view-saved-search-${search.id}`}>View</Button>
+                </Link>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => deleteMutation.mutate(search.id)}
+                  disabled={deleteMutation.isPending}
+                  data-testid={`button-delete-saved-search-${search.id}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,372 @@
+import { AlertTriangle, Plus, Trash2, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  MAX_SCREENING_QUESTIONS,
+  MAX_SCREENING_TEXT_ANSWER,
+  SCREENING_QUESTION_TYPES,
+  SCREENING_QUESTION_TYPE_LABELS,
+  formatScreeningAnswer,
+  type KnockoutAction,
+  type ScreeningAnswer,
+  type ScreeningAnswerValue,
+  type ScreeningQuestion,
+  type ScreeningQuestionType,
+} from "@shared/screening";
+
+function newQuestion(): ScreeningQuestion {
+  return { id: crypto.randomUUID(), type: "yes_no", prompt: "", required: true };
+}
+
+interface ScreeningQuestionsEditorProps {
+  value: ScreeningQuestion[];
+  onChange: (questions: ScreeningQuestion[]) => void;
+}
+
+// Employer-side list editor used when posting and editing a job
+export function ScreeningQuestionsEditor({ value, onChange }: ScreeningQuestionsEditorProps) {
+  const update = (index: number, changes: Partial<ScreeningQuestion>) => {
+    onChange(value.map((question, i) => (i === index ? { ...question, ...changes } : question)));
+  };
+
+  const changeType = (index: number, type: ScreeningQuestionType) => {
+    // Knockout rules and options don't carry over between question types
+    update(index, {
+      type,
+      options: type === "multiple_choice" ? ["", ""] : undefined,
+      knockout: undefined,
+    });
+  };
+
+  const changeKnockout = (index: number, action: KnockoutAction | "none") => {
+    const question = value[index];
+    // Knockout questions are always required, or seekers could skip them
+    update(index, action === "none"
+      ? { knockout: undefined }
+      : { knockout: { ...question.knockout, action }, required: true });
+  };
+
+  return (
+    <div className="space-y-3" data-testid="screening-questions-editor">
+      {value.map((question, index) => (
+        <Card key={question.id}>
+          <CardContent className="space-y-3 pt-4">
+            <div className="flex flex-col gap-2 sm:flex-row">
+              <Select value={question.type} onValueChange={(type) => changeType(index, type as ScreeningQuestionType)}>
+                <SelectTrigger className="sm:w-[170px]" data-testid={`select-screening-type-${index}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SCREENING_QUESTION_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>{SCREENING_QUESTION_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                value={question.prompt}
+                onChange={(e) => update(index, { prompt: e.target.value })}
+                placeholder={question.type === "numeric" ? "e.g. What is your expected monthly salary?" : "e.g. Are you willing to work night shifts?"}
+                maxLength={300}
+                className="flex-1"
+                data-testid={`input-screening-prompt-${index}`}
+              />
+              <Button
+                type="button"
+                size="icon"
+                variant="ghost"
+                onClick={() => onChange(value.filter((_, i) => i !== index))}
+                aria-label="Remove question"
+                data-testid={`button-remove-screening-${index}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+
+            {question.type === "multiple_choice" && (
+              <div className="space-y-2">
+                <Label className="text-xs text-muted-foreground">Answer options</Label>
+                {(question.options ?? []).map((option, optionIndex) => (
+                  <div key={optionIndex} className="flex items-center gap-2">
+                    <Input
+                      value={option}
+                      onChange={(e) => {
+                        const options = [...(question.options ?? [])];
+                        options[optionIndex] = e.target.value;
+                        // Keep accepted answers pointing at the renamed option
+                        const acceptedOptions = question.knockout?.acceptedOptions?.map((accepted) =>
+                          accepted === option ? e.target.value : accepted
+                        );
+                        update(index, {
+                          options,
+                          knockout: question.knockout && { ...question.knockout, acceptedOptions },
+                        });
+                      }}
+                      placeholder={`Option ${optionIndex + 1}`}
+                      maxLength={100}
+                      data-testid={`input-screening-option-${index}-${optionIndex}`}
+                    />
+                    <Button
+                      type="button"
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => update(index, {
+                        options: question.options?.filter((_, i) => i !== optionIndex),
+                        knockout: question.knockout && {
+                          ...question.knockout,
+                          acceptedOptions: question.knockout.acceptedOptions?.filter((accepted) => accepted !== option),
+                        },
+                      })}
+                      disabled={(question.options?.length ?? 0) <= 2}
+                      aria-label="Remove option"
+                    >
+                      <XCircle className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => update(index, { options: [...(question.options ?? []), ""] })}
+                  disabled={(question.options?.length ?? 0) >= 10}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add option
+                </Button>
+              </div>
+            )}
+
+            <div className="flex flex-wrap items-center gap-4">
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={question.required || !!question.knockout}
+                  onCheckedChange={(checked) => update(index, { required: checked === true })}
+                  disabled={!!question.knockout}
+                  data-testid={`checkbox-screening-required-${index}`}
+                />
+                Required
+              </label>
+              {question.type !== "text" && (
+                <Select value={question.knockout?.action ?? "none"} onValueChange={(action) => changeKnockout(index, action as KnockoutAction | "none")}>
+                  <SelectTrigger className="h-9 w-[200px]" data-testid={`select-screening-knockout-${index}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No knockout</SelectItem>
+                    <SelectItem value="reject">Auto-reject if failed</SelectItem>
+                    <SelectItem value="flag">Flag for review if failed</SelectItem>
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+
+            {question.knockout && <KnockoutCriteria question={question} onChange={(knockout) => update(index, { knockout })} />}
+          </CardContent>
+        </Card>
+      ))}
+
+      <Button
+        type="button"
+        variant="outline"
+        onClick={() => onChange([...value, newQuestion()])}
+        disabled={value.length >= MAX_SCREENING_QUESTIONS}
+        data-testid="button-add-screening-question"
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Add Screening Question
+      </Button>
+    </div>
+  );
+}
+
+function KnockoutCriteria({
+  question,
+  onChange,
+}: {
+  question: ScreeningQuestion;
+  onChange: (knockout: NonNullable<ScreeningQuestion["knockout"]>) => void;
+}) {
+  const knockout = question.knockout!;
+
+  switch (question.type) {
+    case "yes_no":
+      return (
+        <div className="flex items-center gap-2 text-sm">
+          <span className="text-muted-foreground">Passing answer:</span>
+          <Select
+            value={knockout.expectedAnswer === undefined ? undefined : String(knockout.expectedAnswer)}
+            onValueChange={(answer) => onChange({ ...knockout, expectedAnswer: answer === "true" })}
+          >
+            <SelectTrigger className="h-9 w-[100px]">
+              <SelectValue placeholder="Choose" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="true">Yes</SelectItem>
+              <SelectItem value="false">No</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      );
+    case "multiple_choice":
+      return (
+        <div className="space-y-1 text-sm">
+          <span className="text-muted-foreground">Passing answers:</span>
+          <div className="flex flex-wrap gap-3">
+            {(question.options ?? []).filter(Boolean).map((option) => (
+              <label key={option} className="flex items-center gap-2">
+                <Checkbox
+                  checked={knockout.acceptedOptions?.includes(option) ?? false}
+                  onCheckedChange={(checked) => {
+                    const accepted = new Set(knockout.acceptedOptions ?? []);
+                    if (checked === true) accepted.add(option);
+                    else accepted.delete(option);
+                    onChange({ ...knockout, acceptedOptions: Array.from(accepted) });
+                  }}
+                />
+                {option}
+              </label>
+            ))}
+          </div>
+        </div>
+      );
+    case "numeric": {
+      const toNumber = (input: string) => (input === "" ? undefined : Number(input));
+      return (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-muted-foreground">Passing range:</span>
+          <Input
+            type="number"
+            value={knockout.min ?? ""}
+            onChange={(e) => onChange({ ...knockout, min: toNumber(e.target.value) })}
+            placeholder="Min"
+            className="h-9 w-28"
+          />
+          <span>to</span>
+          <Input
+            type="number"
+            value={knockout.max ?? ""}
+            onChange={(e) => onChange({ ...knockout, max: toNumber(e.target.value) })}
+            placeholder="Max"
+            className="h-9 w-28"
+          />
+        </div>
+      );
+    }
+    default:
+      return null;
+  }
+}
+
+interface ScreeningQuestionsFormProps {
+  questions: ScreeningQuestion[];
+  answers: Record<string, ScreeningAnswerValue>;
+  errors: Record<string, string>;
+  onChange: (questionId: string, value: ScreeningAnswerValue | undefined) => void;
+}
+
+// Seeker-side answers in the apply dialog
+export function ScreeningQuestionsForm({ questions, answers, errors, onChange }: ScreeningQuestionsFormProps) {
+  return (
+    <div className="space-y-4" data-testid="screening-questions-form">
+      {questions.map((question) => {
+        const value = answers[question.id];
+        const inputId = `screening-${question.id}`;
+        return (
+          <div key={question.id} className="space-y-2">
+            <Label htmlFor={inputId}>
+              {question.prompt}
+              {question.required && <span className="text-destructive"> *</span>}
+            </Label>
+            {question.type === "yes_no" && (
+              <RadioGroup
+                id={inputId}
+                value={value === undefined ? "" : String(value)}
+                onValueChange={(answer) => onChange(question.id, answer === "true")}
+                className="flex gap-4"
+              >
+                <label className="flex items-center gap-2 text-sm">
+                  <RadioGroupItem value="true" data-testid={`radio-screening-yes-${question.id}`} />
+                  Yes
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <RadioGroupItem value="false" data-testid={`radio-screening-no-${question.id}`} />
+                  No
+                </label>
+              </RadioGroup>
+            )}
+            {question.type === "multiple_choice" && (
+              <Select value={typeof value === "string" ? value : undefined} onValueChange={(answer) => onChange(question.id, answer)}>
+                <SelectTrigger id={inputId} data-testid={`select-screening-answer-${question.id}`}>
+                  <SelectValue placeholder="Choose an answer" />
+                </SelectTrigger>
+                <SelectContent>
+                  {question.options?.map((option) => (
+                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {question.type === "numeric" && (
+              <Input
+                id={inputId}
+                type="number"
+                value={typeof value === "number" ? value : ""}
+                onChange={(e) => onChange(question.id, e.target.value === "" ? undefined : Number(e.target.value))}
+                data-testid={`input-screening-answer-${question.id}`}
+              />
+            )}
+            {question.type === "text" && (
+              <Textarea
+                id={inputId}
+                value={typeof value === "string" ? value : ""}
+                onChange={(e) => onChange(question.id, e.target.value)}
+                maxLength={MAX_SCREENING_TEXT_ANSWER}
+                rows={3}
+                data-testid={`input-screening-answer-${question.id}`}
+              />
+            )}
+            {errors[question.id] && <p className="text-sm text-destructive">{errors[question.id]}</p>}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+// Employer view of an applicant's answers, with failed knockouts called out
+export function ScreeningAnswerList({ answers }: { answers: ScreeningAnswer[] }) {
+  if (answers.length === 0) {
+    return <p className="text-sm text-muted-foreground">No screening questions answered</p>;
+  }
+
+  return (
+    <dl className="space-y-2">
+      {answers.map((answer) => (
+        <div key={answer.questionId} className="text-sm" data-testid={`screening-answer-${answer.questionId}`}>
+          <dt className="text-muted-foreground">{answer.prompt}</dt>
+          <dd className="flex items-start gap-2 font-medium whitespace-pre-wrap">
+            {formatScreeningAnswer(answer.value)}
+            {answer.knockout === "reject" && (
+              <span className="flex items-center gap-1 text-xs font-normal text-destructive">
+                <XCircle className="h-3 w-3" />
+                Knockout
+              </span>
+            )}
+            {answer.knockout === "flag" && (
+              <span className="flex items-center gap-1 text-xs font-normal text-yellow-600 dark:text-yellow-400">
+                <AlertTriangle className="h-3 w-3" />
+                Flagged
+              </span>
+            )}
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
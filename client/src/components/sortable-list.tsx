@@ -0,0 +1,92 @@
+import { useState, type ReactNode } from "react";
+import { ArrowDown, ArrowUp, GripVertical } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+// Drag-and-drop ordering with HTML5 drag events. Touch browsers don't fire those,
+// so each item also gets move up/down buttons.
+export function SortableList<T extends { id: string }>({
+  items,
+  onReorder,
+  renderItem,
+  disabled = false,
+  testId,
+}: {
+  items: T[];
+  onReorder: (ids: string[]) => void;
+  renderItem: (item: T) => ReactNode;
+  disabled?: boolean;
+  testId: string;
+}) {
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [overId, setOverId] = useState<string | null>(null);
+
+  const move = (id: string, toIndex: number) => {
+    const ids = items.map((item) => item.id);
+    const fromIndex = ids.indexOf(id);
+    if (fromIndex === -1 || fromIndex === toIndex || toIndex < 0 || toIndex >= ids.length) return;
+    ids.splice(fromIndex, 1);
+    ids.splice(toIndex, 0, id);
+    onReorder(ids);
+  };
+
+  return (
+    <div className="space-y-4">
+      {items.map((item, index) => (
+        <div
+          key={item.id}
+          draggable={!disabled && items.length > 1}
+          onDragStart={(e) => {
+            e.dataTransfer.effectAllowed = "move";
+            setDraggingId(item.id);
+          }}
+          onDragOver={(e) => {
+            if (!draggingId) return;
+            e.preventDefault();
+            setOverId(item.id);
+          }}
+          onDrop={(e) => {
+            e.preventDefault();
+            if (draggingId) move(draggingId, index);
+            setDraggingId(null);
+            setOverId(null);
+          }}
+          onDragEnd={() => {
+            setDraggingId(null);
+            setOverId(null);
+          }}
+          className={`flex items-start gap-2 rounded-md ${draggingId === item.id ? "opacity-50" : ""} ${overId === item.id && draggingId !== item.id ? "ring-2 ring-primary" : ""}`}
+          data-testid={`${testId}-${item.id}`}
+        >
+          {items.length > 1 && (
+            <div className="flex flex-col items-center pt-4">
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={() => move(item.id, index - 1)}
+                disabled={disabled || index === 0}
+                aria-label="Move up"
+              >
+                <ArrowUp className="h-3 w-3" />
+              </Button>
+              <GripVertical className="h-4 w-4 cursor-grab text-muted-foreground" />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={() => move(item.id, index + 1)}
+                disabled={disabled || index === items.length - 1}
+                aria-label="Move down"
+              >
+                <ArrowDown className="h-3 w-3" />
+              </Button>
+            </div>
+          )}
+          <div className="min-w-0 flex-1">{renderItem(item)}</div>
+        </div>
+      ))}
+    </div>
+  );
+}
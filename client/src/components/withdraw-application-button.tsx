@@ -0,0 +1,72 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+export function WithdrawApplicationButton({ applicationId }: { applicationId: string }) {
+  const { toast } = useToast();
+  const [reason, setReason] = useState("");
+
+  const withdrawMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/applications/${applicationId}/withdraw`, {
+        reason: reason.trim() || undefined,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/applications"] });
+      setReason("");
+      toast({ title: "Application withdrawn" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to withdraw application", variant: "destructive" });
+    },
+  });
+
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button size="sm" variant="ghost" data-testid={`button-withdraw-${applicationId}`}>
+          <Undo2 className="h-4 w-4 mr-2" />
+          Withdraw
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Withdraw this application?</AlertDialogTitle>
+          <AlertDialogDescription>
+            The employer will see that you withdrew. You can't apply to this job again afterwards.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor={`withdraw-reason-${applicationId}`}>Reason (optional)</Label>
+          <Textarea
+            id={`withdraw-reason-${applicationId}`}
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="e.g. I accepted another offer"
+            maxLength={500}
+            rows={3}
+            data-testid={`input-withdraw-reason-${applicationId}`}
+          />
+        </div>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={() => withdrawMutation.mutate()}
+            disabled={withdrawMutation.isPending}
+            className="bg-destructive hover:bg-destructive/90"
+            data-testid={`button-confirm-withdraw-${applicationId}`}
+          >
+            Withdraw
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -51,29 +51,43 @@ export function isValidPhilippinePhone(phone: string): boolean {
 }
 
 /**
- * Format currency in Philippine Peso
+ * Format an amount in the given currency, Philippine Peso by default
  */
-export function formatPeso(amount: number | null | undefined): string {
+export function formatSalary(amount: number | null | undefined, currency?: string | null): string {
   if (amount === null || amount === undefined) return "Not specified";
   
   return new Intl.NumberFormat('en-PH', {
     style: 'currency',
-    currency: 'PHP',
+    currency: currency || 'PHP',
     minimumFractionDigits: 0,
     maximumFractionDigits: 0,
   }).format(amount);
 }
 
+const PAY_PERIOD_SUFFIXES: Record<string, string> = {
+  hourly: "/hour",
+  daily: "/day",
+  monthly: "/month",
+  annual: "/year",
+};
+
 /**
- * Format salary range in Philippine Peso
+ * Format a salary range in the job's currency, with the pay period when given
+ * e.g. "₱25,000 - ₱35,000/month" or "$1,500 - $2,000/month"
  */
-export function formatPesoRange(min: number | null, max: number | null): string {
+export function formatSalaryRange(
+  min: number | null,
+  max: number | null,
+  currency?: string | null,
+  period?: string | null
+): string {
   if (!min && !max) return "Not specified";
+  const suffix = period ? PAY_PERIOD_SUFFIXES[period] ?? "" : "";
   if (min && max) {
-    return `${formatPeso(min)} - ${formatPeso(max)}`;
+    return `${formatSalary(min, currency)} - ${formatSalary(max, currency)}${suffix}`;
   }
-  if (min) return `From ${formatPeso(min)}`;
-  if (max) return `Up to ${formatPeso(max)}`;
+  if (min) return `From ${formatSalary(min, currency)}${suffix}`;
+  if (max) return `Up to ${formatSalary(max, currency)}${suffix}`;
   return "Not specified";
 }
 
@@ -4,3 +4,8 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// User-entered links saved before http(s) was enforced could still hold a javascript: URL
+export function isHttpLink(url: string | null | undefined): url is string {
+  return !!url && /^https?:\/\//i.test(url)
+}
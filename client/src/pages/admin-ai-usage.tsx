@@ -0,0 +1,233 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Cpu, DollarSign, Timer, AlertTriangle } from "lucide-react";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+import { format } from "date-fns";
+import type { AiTask, AiUsageLog } from "@shared/schema";
+
+// Shape of GET /api/admin/ai-usage
+interface AiUsageResponse {
+  days: number;
+  byTaskModel: Array<{
+    task: AiTask;
+    model: string;
+    calls: number;
+    errors: number;
+    promptTokens: number;
+    completionTokens: number;
+    costUsd: number;
+    avgLatencyMs: number;
+  }>;
+  daily: Array<{ date: string; calls: number; costUsd: number }>;
+  recentErrors: AiUsageLog[];
+}
+
+const TASK_LABELS: Record<AiTask, string> = {
+  profile_fraud: "Profile fraud check",
+  job_fraud: "Job fraud check",
+  job_match: "Job matching",
+  resume_parse: "Resume parsing",
+};
+
+const formatUsd = (value: number) => `$${value.toFixed(value < 1 ? 4 : 2)}`;
+
+export default function AdminAiUsage() {
+  const [days, setDays] = useState("30");
+
+  const { data: usage, isLoading } = useQuery<AiUsageResponse>({
+    queryKey: ["/api/admin/ai-usage", { days }],
+  });
+
+  const totals = (usage?.byTaskModel || []).reduce(
+    (sum, row) => ({
+      calls: sum.calls + row.calls,
+      errors: sum.errors + row.errors,
+      tokens: sum.tokens + row.promptTokens + row.completionTokens,
+      costUsd: sum.costUsd + row.costUsd,
+      latencyTotal: sum.latencyTotal + row.avgLatencyMs * row.calls,
+    }),
+    { calls: 0, errors: 0, tokens: 0, costUsd: 0, latencyTotal: 0 }
+  );
+  const avgLatencyMs = totals.calls > 0 ? Math.round(totals.latencyTotal / totals.calls) : 0;
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-6 lg:p-8">
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">AI Usage & Cost</h1>
+            <p className="text-muted-foreground">Calls, tokens and estimated spend per AI task</p>
+          </div>
+          <Select value={days} onValueChange={setDays}>
+            <SelectTrigger className="w-[180px]" data-testid="select-ai-usage-period">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="1">Last 24 hours</SelectItem>
+              <SelectItem value="7">Last 7 days</SelectItem>
+              <SelectItem value="30">Last 30 days</SelectItem>
+              <SelectItem value="90">Last 90 days</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading ? (
+          <div className="flex min-h-[300px] items-center justify-center">
+            <Cpu className="h-12 w-12 text-muted-foreground animate-pulse" />
+          </div>
+        ) : (
+          <>
+            {/* Overview Stats */}
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4 mb-8">
+              <Card data-testid="card-stat-ai-calls">
+                <CardHeader className="pb-3">
+                  <CardDescription>AI Calls</CardDescription>
+                  <CardTitle className="text-3xl">{totals.calls}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <Cpu className="h-3 w-3" />
+                    <span>{totals.tokens.toLocaleString()} tokens</span>
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card data-testid="card-stat-ai-cost">
+                <CardHeader className="pb-3">
+                  <CardDescription>Estimated Cost</CardDescription>
+                  <CardTitle className="text-3xl">{formatUsd(totals.costUsd)}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <DollarSign className="h-3 w-3" />
+                    <span>USD, from list prices</span>
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card data-testid="card-stat-ai-latency">
+                <CardHeader className="pb-3">
+                  <CardDescription>Average Latency</CardDescription>
+                  <CardTitle className="text-3xl">{(avgLatencyMs / 1000).toFixed(1)}s</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <Timer className="h-3 w-3" />
+                    <span>Including retries</span>
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card data-testid="card-stat-ai-errors">
+                <CardHeader className="pb-3">
+                  <CardDescription>Failed Calls</CardDescription>
+                  <CardTitle className="text-3xl">{totals.errors}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <AlertTriangle className="h-3 w-3" />
+                    <span>
+                      {totals.calls > 0 ? Math.round((totals.errors / totals.calls) * 100) : 0}% of calls
+                    </span>
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Daily Spend */}
+            <Card className="mb-8" data-testid="card-ai-daily-cost">
+              <CardHeader>
+                <CardTitle>Daily Cost</CardTitle>
+                <CardDescription>Estimated USD per day</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ResponsiveContainer width="100%" height={300}>
+                  <BarChart data={usage?.daily || []}>
+                    <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                    <XAxis dataKey="date" className="text-xs" tickFormatter={(value) => new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} />
+                    <YAxis className="text-xs" />
+                    <Tooltip
+                      labelFormatter={(value) => new Date(value).toLocaleDateString()}
+                      formatter={(value: number) => formatUsd(value)}
+                    />
+                    <Bar dataKey="costUsd" fill="hsl(var(--primary))" name="Cost" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+
+            {/* Per Task and Model */}
+            <Card className="mb-8" data-testid="card-ai-usage-by-task">
+              <CardHeader>
+                <CardTitle>Usage by Task</CardTitle>
+                <CardDescription>Each task's model is configured on the server</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {usage?.byTaskModel.length ? (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Task</TableHead>
+                        <TableHead>Model</TableHead>
+                        <TableHead className="text-right">Calls</TableHead>
+                        <TableHead className="text-right">Errors</TableHead>
+                        <TableHead className="text-right">Input tokens</TableHead>
+                        <TableHead className="text-right">Output tokens</TableHead>
+                        <TableHead className="text-right">Avg latency</TableHead>
+                        <TableHead className="text-right">Cost</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {usage.byTaskModel.map((row) => (
+                        <TableRow key={`${row.task}-${row.model}`} data-testid={`row-ai-usage-${row.task}`}>
+                          <TableCell>{TASK_LABELS[row.task] ?? row.task}</TableCell>
+                          <TableCell className="font-mono text-xs">{row.model}</TableCell>
+                          <TableCell className="text-right">{row.calls}</TableCell>
+                          <TableCell className="text-right">{row.errors}</TableCell>
+                          <TableCell className="text-right">{row.promptTokens.toLocaleString()}</TableCell>
+                          <TableCell className="text-right">{row.completionTokens.toLocaleString()}</TableCell>
+                          <TableCell className="text-right">{(row.avgLatencyMs / 1000).toFixed(1)}s</TableCell>
+                          <TableCell className="text-right">{formatUsd(row.costUsd)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                ) : (
+                  <p className="text-sm text-muted-foreground text-center py-8">No AI calls in this period</p>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Recent Errors */}
+            {usage && usage.recentErrors.length > 0 && (
+              <Card data-testid="card-ai-recent-errors">
+                <CardHeader>
+                  <CardTitle>Recent Errors</CardTitle>
+                  <CardDescription>Calls that failed after all retries</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {usage.recentErrors.map((log) => (
+                    <div key={log.id} className="flex flex-col gap-1 border-b pb-3 last:border-0 last:pb-0">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <Badge variant="outline">{TASK_LABELS[log.task] ?? log.task}</Badge>
+                        <span className="text-xs text-muted-foreground">
+                          {format(new Date(log.createdAt), "MMM d, yyyy h:mm a")} · {log.attempts} attempt{log.attempts === 1 ? "" : "s"}
+                        </span>
+                      </div>
+                      <p className="text-sm text-muted-foreground">{log.error}</p>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -11,6 +11,7 @@ import { Briefcase, Shield, AlertTriangle, Users, FileText, TrendingUp, Search,
 import type { FraudAlert, User, Job, ActivityLog } from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { formatDistance } from "date-fns";
+import { formatSalaryRange } from "@/lib/philippines";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Separator } from "@/components/ui/separator";
@@ -523,11 +524,7 @@ export default function AdminDashboard() {
                     <div className="grid grid-cols-3 gap-2">
                       <span className="text-muted-foreground">Salary:</span>
                       <span className="col-span-2">
-                        {detailsData.salaryMin && detailsData.salaryMax
-                          ? `₱${detailsData.salaryMin?.toLocaleString()} - ₱${detailsData.salaryMax?.toLocaleString()}`
-                          : detailsData.salaryMin 
-                          ? `₱${detailsData.salaryMin?.toLocaleString()}+`
-                          : `Up to ₱${detailsData.salaryMax?.toLocaleString()}`}
+                        {formatSalaryRange(detailsData.salaryMin, detailsData.salaryMax, detailsData.salaryCurrency, detailsData.salaryPeriod)}
                       </span>
                     </div>
                   )}
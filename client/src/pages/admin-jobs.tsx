@@ -10,7 +10,7 @@ import { useToast } from "@/hooks/use-toast";
 import { Search, Flag, XCircle, MapPin, Building2, Eye, Trash2, FileText, ExternalLink } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { format } from "date-fns";
-import { formatPesoRange } from "@/lib/philippines";
+import { formatSalaryRange } from "@/lib/philippines";
 
 export default function AdminJobs() {
   const { toast } = useToast();
@@ -131,7 +131,7 @@ export default function AdminJobs() {
                       </div>
                       {(job.salaryMin || job.salaryMax) && (
                         <div className="flex items-center gap-1 text-sm text-muted-foreground">
-                          <span>{formatPesoRange(job.salaryMin, job.salaryMax)}</span>
+                          <span>{formatSalaryRange(job.salaryMin, job.salaryMax, job.salaryCurrency, job.salaryPeriod)}</span>
                         </div>
                       )}
                     </div>
@@ -246,7 +246,7 @@ export default function AdminJobs() {
                           <div className="flex gap-2 pt-4 border-t">
                             <Badge>{job.jobType?.replace('_', ' ')}</Badge>
                             {(job.salaryMin || job.salaryMax) && (
-                              <Badge variant="outline">{formatPesoRange(job.salaryMin, job.salaryMax)}</Badge>
+                              <Badge variant="outline">{formatSalaryRange(job.salaryMin, job.salaryMax, job.salaryCurrency, job.salaryPeriod)}</Badge>
                             )}
                             <Badge variant={job.isActive ? 'default' : 'secondary'}>
                               {job.isActive ? 'Active' : 'Inactive'}
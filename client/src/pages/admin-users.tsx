@@ -28,6 +28,8 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 
 const USERS_PER_PAGE = 10;
 
@@ -35,6 +37,7 @@ export default function AdminUsers() {
   const { toast } = useToast();
   const [searchQuery, setSearchQuery] = useState("");
   const [currentPage, setCurrentPage] = useState(1);
+  const [sortBy, setSortBy] = useState<"newest" | "completeness">("newest");
   const [createAdminDialogOpen, setCreateAdminDialogOpen] = useState(false);
   const [newAdmin, setNewAdmin] = useState({
     email: "",
@@ -105,6 +108,10 @@ export default function AdminUsers() {
     u.lastName?.toLowerCase().includes(searchQuery.toLowerCase()) ||
     u.role?.toLowerCase().includes(searchQuery.toLowerCase())
   ) || [];
+  // The API returns newest first; job seekers with fuller profiles go first when sorting by completeness
+  if (sortBy === "completeness") {
+    filteredUsers.sort((a, b) => (b.profileCompleteness ?? -1) - (a.profileCompleteness ?? -1));
+  }
 
   const totalPages = Math.ceil(filteredUsers.length / USERS_PER_PAGE);
   const startIndex = (currentPage - 1) * USERS_PER_PAGE;
@@ -207,8 +214,8 @@ export default function AdminUsers() {
           <CardTitle>Search Users</CardTitle>
           <CardDescription>Find users by name, email, or role</CardDescription>
         </CardHeader>
-        <CardContent>
-          <div className="relative">
+        <CardContent className="flex gap-2">
+          <div className="relative flex-1">
             <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
             <Input
               placeholder="Search users..."
@@ -218,6 +225,21 @@ export default function AdminUsers() {
               data-testid="input-search-users"
             />
           </div>
+          <Select
+            value={sortBy}
+            onValueChange={(value) => {
+              setSortBy(value as typeof sortBy);
+              setCurrentPage(1);
+            }}
+          >
+            <SelectTrigger className="w-56" data-testid="select-sort-users">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="newest">Newest first</SelectItem>
+              <SelectItem value="completeness">Most complete profiles</SelectItem>
+            </SelectContent>
+          </Select>
         </CardContent>
       </Card>
 
@@ -306,6 +328,11 @@ export default function AdminUsers() {
                           {user.totalJobs || 0} jobs
                         </Badge>
                       )}
+                      {user.role === 'job_seeker' && (
+                        <Badge variant="outline" className="text-xs" data-testid={`badge-completeness-${user.id}`}>
+                          Profile {user.profileCompleteness ?? 0}% complete
+                        </Badge>
+                      )}
                     </div>
                   </div>
                   <div className="flex gap-2">
@@ -393,6 +420,19 @@ export default function AdminUsers() {
                             </div>
                           )}
                           
+                          {user.role === 'job_seeker' && (
+                            <div>
+                              <h4 className="text-sm font-semibold mb-1">Profile Completeness</h4>
+                              <div className="flex items-center gap-2">
+                                <Progress value={user.profileCompleteness ?? 0} className="flex-1" />
+                                <span className="text-sm text-muted-foreground">{user.profileCompleteness ?? 0}%</span>
+                              </div>
+                              {user.profileMissing?.length > 0 && (
+                                <p className="text-xs text-muted-foreground mt-1">Missing: {user.profileMissing.join(", ")}</p>
+                              )}
+                            </div>
+                          )}
+
                           {user.location && (
                             <div>
                               <h4 className="text-sm font-semibold mb-1">Location</h4>
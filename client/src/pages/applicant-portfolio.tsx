@@ -20,6 +20,8 @@ import {
   User,
   FileText
 } from "lucide-react";
+import { ApplicantCvDownload } from "@/components/cv-export";
+import { isHttpLink } from "@/lib/utils";
 
 export default function ApplicantPortfolio() {
   const [, params] = useRoute("/employer/applicant/:userId");
@@ -79,7 +81,10 @@ export default function ApplicantPortfolio() {
             </Avatar>
             
             <div className="flex-1">
-              <h1 className="text-3xl font-bold mb-2" data-testid="text-applicant-name">{fullName}</h1>
+              <div className="flex flex-wrap items-start justify-between gap-2">
+                <h1 className="text-3xl font-bold mb-2" data-testid="text-applicant-name">{fullName}</h1>
+                <ApplicantCvDownload userId={applicant.id} />
+              </div>
               {applicant.headline && (
                 <p className="text-lg text-muted-foreground mb-4">{applicant.headline}</p>
               )}
@@ -296,7 +301,7 @@ export default function ApplicantPortfolio() {
                         })}</>
                       )}
                     </p>
-                    {cert.credentialUrl && (
+                    {isHttpLink(cert.credentialUrl) && (
                       <a 
                         href={cert.credentialUrl} 
                         target="_blank" 
@@ -180,6 +180,9 @@ export default function EmployerDashboard() {
                             )}
                           </div>
                           <CardDescription>{candidate.headline || "Job Seeker"}</CardDescription>
+                          {candidate.profileCompleteness !== undefined && (
+                            <p className="text-xs text-muted-foreground mt-1">Profile {candidate.profileCompleteness}% complete</p>
+                          )}
                         </div>
                       </div>
                     </CardHeader>
@@ -0,0 +1,378 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { ArrowDown, ArrowUp, ChevronRight, Edit, Plus, Star, Trash2, Workflow } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  APPLICATION_STATUS_LABELS,
+  MAX_PIPELINE_STAGES,
+  STAGE_STATUSES,
+  type StageStatus,
+} from "@shared/pipeline";
+import type { PipelineTemplateWithStages } from "@shared/schema";
+
+interface StageDraft {
+  key: string; // stable React key, also for stages not saved yet
+  id?: string;
+  name: string;
+  status: StageStatus;
+}
+
+interface PipelineDraft {
+  id?: string;
+  name: string;
+  isDefault: boolean;
+  stages: StageDraft[];
+}
+
+let draftKey = 0;
+const nextKey = () => `stage-${++draftKey}`;
+
+const NEW_PIPELINE: PipelineDraft = {
+  name: "",
+  isDefault: false,
+  stages: [
+    { key: "new-applied", name: "Applied", status: "applied" },
+    { key: "new-rejected", name: "Rejected", status: "rejected" },
+  ],
+};
+
+function toDraft(template: PipelineTemplateWithStages): PipelineDraft {
+  return {
+    id: template.id,
+    name: template.name,
+    isDefault: template.isDefault,
+    stages: template.stages.map((stage) => ({ key: stage.id, id: stage.id, name: stage.name, status: stage.status })),
+  };
+}
+
+function PipelineEditorDialog({
+  draft,
+  onClose,
+}: {
+  draft: PipelineDraft;
+  onClose: () => void;
+}) {
+  const { toast } = useToast();
+  const [pipeline, setPipeline] = useState<PipelineDraft>(draft);
+
+  const updateStage = (index: number, changes: Partial<StageDraft>) => {
+    setPipeline((current) => ({
+      ...current,
+      stages: current.stages.map((stage, i) => (i === index ? { ...stage, ...changes } : stage)),
+    }));
+  };
+
+  const moveStage = (index: number, offset: number) => {
+    setPipeline((current) => {
+      const stages = [...current.stages];
+      const [stage] = stages.splice(index, 1);
+      stages.splice(index + offset, 0, stage);
+      return { ...current, stages };
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        name: pipeline.name,
+        isDefault: pipeline.isDefault,
+        stages: pipeline.stages.map(({ id, name, status }) => ({ id, name, status })),
+      };
+      return pipeline.id
+        ? await apiRequest("PUT", `/api/employer/pipelines/${pipeline.id}`, body)
+        : await apiRequest("POST", "/api/employer/pipelines", body);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/employer/pipelines"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/employer/jobs"] });
+      toast({ title: pipeline.id ? "Pipeline updated" : "Pipeline created" });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error saving pipeline", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const canSave = pipeline.name.trim() !== "" && pipeline.stages.length >= 2 && pipeline.stages.every((stage) => stage.name.trim() !== "");
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{pipeline.id ? "Edit Pipeline" : "New Pipeline"}</DialogTitle>
+          <DialogDescription>
+            Stages are shown left to right on each job's board. The status is what candidates see while they're in the stage.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="pipeline-name">Name</Label>
+            <Input
+              id="pipeline-name"
+              value={pipeline.name}
+              onChange={(e) => setPipeline({ ...pipeline, name: e.target.value })}
+              placeholder="e.g. Engineering hiring"
+              data-testid="input-pipeline-name"
+            />
+          </div>
+
+          <div className="space-y-3">
+            <Label>Stages</Label>
+            {pipeline.stages.map((stage, index) => (
+              <div key={stage.key} className="flex items-center gap-2" data-testid={`row-stage-${index}`}>
+                <span className="w-6 text-sm text-muted-foreground text-right">{index + 1}.</span>
+                <Input
+                  value={stage.name}
+                  onChange={(e) => updateStage(index, { name: e.target.value })}
+                  placeholder="Stage name"
+                  className="flex-1"
+                  data-testid={`input-stage-name-${index}`}
+                />
+                <Select value={stage.status} onValueChange={(value) => updateStage(index, { status: value as StageStatus })}>
+                  <SelectTrigger className="w-[150px]" data-testid={`select-stage-status-${index}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {STAGE_STATUSES.map((status) => (
+                      <SelectItem key={status} value={status}>{APPLICATION_STATUS_LABELS[status]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button size="icon" variant="ghost" onClick={() => moveStage(index, -1)} disabled={index === 0} aria-label="Move up">
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => moveStage(index, 1)}
+                  disabled={index === pipeline.stages.length - 1}
+                  aria-label="Move down"
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => setPipeline({ ...pipeline, stages: pipeline.stages.filter((_, i) => i !== index) })}
+                  disabled={pipeline.stages.length <= 2}
+                  aria-label="Remove stage"
+                  data-testid={`button-remove-stage-${index}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPipeline({
+                ...pipeline,
+                stages: [...pipeline.stages, { key: nextKey(), name: "", status: "reviewing" }],
+              })}
+              disabled={pipeline.stages.length >= MAX_PIPELINE_STAGES}
+              data-testid="button-add-stage"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Stage
+            </Button>
+            {pipeline.id && (
+              <p className="text-xs text-muted-foreground">
+                Candidates in a removed stage move to the first remaining stage with the same status.
+              </p>
+            )}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="pipeline-default"
+              checked={pipeline.isDefault}
+              // The current default can only be replaced by making another pipeline the default
+              disabled={draft.isDefault}
+              onCheckedChange={(checked) => setPipeline({ ...pipeline, isDefault: checked === true })}
+              data-testid="checkbox-pipeline-default"
+            />
+            <Label htmlFor="pipeline-default" className="font-normal">Use for new job postings</Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={() => saveMutation.mutate()} disabled={!canSave || saveMutation.isPending} data-testid="button-save-pipeline">
+            {saveMutation.isPending ? "Saving..." : "Save Pipeline"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function EmployerPipelines() {
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<PipelineDraft | null>(null);
+
+  const { data: pipelines, isLoading } = useQuery<PipelineTemplateWithStages[]>({
+    queryKey: ["/api/employer/pipelines"],
+  });
+
+  const makeDefaultMutation = useMutation({
+    mutationFn: async (template: PipelineTemplateWithStages) => {
+      const { name, stages } = template;
+      return await apiRequest("PUT", `/api/employer/pipelines/${template.id}`, {
+        name,
+        isDefault: true,
+        stages: stages.map(({ id, name, status }) => ({ id, name, status })),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/employer/pipelines"] });
+      toast({ title: "Default pipeline updated" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/employer/pipelines/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/employer/pipelines"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/employer/jobs"] });
+      toast({ title: "Pipeline deleted" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error deleting pipeline", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Hiring Pipelines</h1>
+          <p className="text-muted-foreground">Define the steps candidates go through, then pick a pipeline for each job</p>
+        </div>
+        <Button onClick={() => setEditing(NEW_PIPELINE)} data-testid="button-new-pipeline">
+          <Plus className="h-4 w-4 mr-2" />
+          New Pipeline
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-4">
+          <Skeleton className="h-32 w-full" />
+          <Skeleton className="h-32 w-full" />
+        </div>
+      ) : pipelines && pipelines.length > 0 ? (
+        <div className="space-y-4">
+          {pipelines.map((pipeline) => (
+            <Card key={pipeline.id} data-testid={`card-pipeline-${pipeline.id}`}>
+              <CardHeader>
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <CardTitle className="flex items-center gap-2">
+                      {pipeline.name}
+                      {pipeline.isDefault && <Badge variant="secondary">Default</Badge>}
+                    </CardTitle>
+                    <CardDescription>{pipeline.stages.length} stages</CardDescription>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {!pipeline.isDefault && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => makeDefaultMutation.mutate(pipeline)}
+                        disabled={makeDefaultMutation.isPending}
+                        data-testid={`button-default-pipeline-${pipeline.id}`}
+                      >
+                        <Star className="h-4 w-4 mr-2" />
+                        Make Default
+                      </Button>
+                    )}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setEditing(toDraft(pipeline))}
+                      data-testid={`button-edit-pipeline-${pipeline.id}`}
+                    >
+                      <Edit className="h-4 w-4 mr-2" />
+                      Edit
+                    </Button>
+                    {!pipeline.isDefault && (
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="icon" data-testid={`button-delete-pipeline-${pipeline.id}`}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete "{pipeline.name}"?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Jobs using this pipeline will switch to your default pipeline. Candidates keep their status.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => deleteMutation.mutate(pipeline.id)}
+                              className="bg-destructive hover:bg-destructive/90"
+                            >
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    )}
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="flex flex-wrap items-center gap-1">
+                  {pipeline.stages.map((stage, index) => (
+                    <span key={stage.id} className="flex items-center gap-1">
+                      {index > 0 && <ChevronRight className="h-4 w-4 text-muted-foreground" />}
+                      <Badge variant="outline" title={`Candidates see: ${APPLICATION_STATUS_LABELS[stage.status]}`}>
+                        {stage.name}
+                      </Badge>
+                    </span>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : (
+        <div className="flex min-h-[300px] flex-col items-center justify-center text-center p-8">
+          <Workflow className="h-12 w-12 text-muted-foreground/50 mb-4" />
+          <h3 className="text-lg font-semibold mb-2">No pipelines yet</h3>
+        </div>
+      )}
+
+      {editing && <PipelineEditorDialog draft={editing} onClose={() => setEditing(null)} />}
+    </div>
+  );
+}
@@ -5,9 +5,13 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Textarea } from "@/components/ui/textarea";
-import { Input } from "@/components/ui/input";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { MatchExplanation } from "@/components/match-explanation";
+import { SaveJobButton } from "@/components/save-job-button";
+import { ScreeningQuestionsForm } from "@/components/screening-questions";
+import { ResumePicker } from "@/components/resumes";
 import { 
   Briefcase, 
   MapPin, 
@@ -16,24 +20,28 @@ import {
   CheckCircle,
   Sparkles,
   ArrowLeft,
-  FileText,
   GraduationCap,
   Award,
-  ExternalLink
+  ExternalLink,
+  CalendarClock
 } from "lucide-react";
-import type { Job } from "@shared/schema";
+import type { Application, Job, JobMatch } from "@shared/schema";
+import { isAcceptingApplications } from "@shared/job-status";
+import { evaluateScreening, type ScreeningAnswerValue } from "@shared/screening";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { formatPesoRange } from "@/lib/philippines";
+import { formatSalaryRange } from "@/lib/philippines";
 
 export default function JobDetails() {
   const params = useParams();
   const jobId = params.id;
   const [, setLocation] = useLocation();
   const { toast } = useToast();
+  const { user } = useAuth();
   const [coverLetter, setCoverLetter] = useState("");
+  const [screeningAnswers, setScreeningAnswers] = useState<Record<string, ScreeningAnswerValue>>({});
+  const [screeningErrors, setScreeningErrors] = useState<Record<string, string>>({});
   const [dialogOpen, setDialogOpen] = useState(false);
-  const [resumeUrl, setResumeUrl] = useState<string>("");
-  const [isUploadingResume, setIsUploadingResume] = useState(false);
+  const [resumeId, setResumeId] = useState("");
 
   const { data: job, isLoading } = useQuery<Job>({
     queryKey: ["/api/jobs", jobId],
@@ -43,6 +51,18 @@ export default function JobDetails() {
     queryKey: ["/api/profile"],
   });
 
+  const { data: match } = useQuery<Pick<JobMatch, "matchScore" | "model" | "explanation">>({
+    queryKey: ["/api/jobs", jobId, "match"],
+    enabled: user?.role === "job_seeker",
+    retry: false,
+  });
+
+  const { data: myApplications } = useQuery<Application[]>({
+    queryKey: ["/api/applications"],
+    enabled: user?.role === "job_seeker",
+  });
+  const existingApplication = myApplications?.find((application) => application.jobId === jobId);
+
   const { data: workExperience = [] } = useQuery<any[]>({
     queryKey: ["/api/profile/work-experience"],
     enabled: dialogOpen,
@@ -53,72 +73,26 @@ export default function JobDetails() {
     enabled: dialogOpen,
   });
 
-  const handleResumeUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-
-    const MAX_FILE_SIZE = 10 * 1024 * 1024;
-    const ALLOWED_TYPES = ['application/pdf', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'];
-
-    if (!ALLOWED_TYPES.includes(file.type)) {
-      toast({ 
-        title: "Invalid file type", 
-        description: "Only PDF and Word documents are allowed", 
-        variant: "destructive" 
-      });
-      return;
-    }
-
-    if (file.size > MAX_FILE_SIZE) {
-      toast({ 
-        title: "File too large", 
-        description: "Resume must be under 10MB", 
-        variant: "destructive" 
-      });
-      return;
-    }
-
-    try {
-      setIsUploadingResume(true);
-      const response: any = await apiRequest("POST", "/api/objects/upload-resume", {
-        contentType: file.type,
-        fileSize: file.size
-      });
-      const { uploadURL, objectPath } = response;
-      
-      const uploadResponse = await fetch(uploadURL, {
-        method: "PUT",
-        body: file,
-        headers: { "Content-Type": file.type },
-      });
-
-      if (!uploadResponse.ok) {
-        throw new Error("Failed to upload resume");
-      }
-      
-      setResumeUrl(objectPath);
-      toast({ title: "Resume uploaded", description: "Resume uploaded successfully" });
-    } catch (error: any) {
-      toast({ title: "Upload failed", description: error.message, variant: "destructive" });
-    } finally {
-      setIsUploadingResume(false);
-    }
-  };
-
   const applyMutation = useMutation({
     mutationFn: async () => {
-      // Ensure resume is uploaded before allowing application
-      const currentResumeUrl = resumeUrl || profile?.resumeUrl;
-      if (!currentResumeUrl) {
-        throw new Error("Please upload your resume before applying");
+      // Same checks as the API, so missing answers are shown next to their questions
+      const answers = Object.entries(screeningAnswers).map(([questionId, value]) => ({ questionId, value }));
+      const { errors } = evaluateScreening(job?.screeningQuestions ?? [], answers);
+      setScreeningErrors(errors);
+      if (Object.keys(errors).length > 0) {
+        throw new Error("Please answer all required screening questions");
       }
 
-      // Update profile with resume if changed
-      if (resumeUrl) {
-        await apiRequest("PUT", "/api/profile", { resumeUrl });
+      if (!profile?.resumeUrl) {
+        throw new Error("Please upload your resume before applying");
       }
-      
-      return await apiRequest("POST", `/api/jobs/${jobId}/apply`, { coverLetter });
+
+      // Without a resumeId the API uses the default resume
+      return await apiRequest("POST", `/api/jobs/${jobId}/apply`, {
+        coverLetter,
+        screeningAnswers: answers,
+        resumeId: resumeId || undefined,
+      });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/applications"] });
@@ -129,7 +103,8 @@ export default function JobDetails() {
       });
       setDialogOpen(false);
       setCoverLetter("");
-      setResumeUrl("");
+      setScreeningAnswers({});
+      setResumeId("");
       setLocation("/dashboard");
     },
     onError: (error: Error) => {
@@ -212,6 +187,12 @@ export default function JobDetails() {
                         <Clock className="h-4 w-4" />
                         Posted {new Date(job.createdAt).toLocaleDateString()}
                       </span>
+                      {job.applicationDeadline && (
+                        <span className="flex items-center gap-1" data-testid="text-application-deadline">
+                          <CalendarClock className="h-4 w-4" />
+                          Apply by {new Date(job.applicationDeadline).toLocaleDateString()}
+                        </span>
+                      )}
                     </CardDescription>
                   </div>
                 </div>
@@ -235,7 +216,7 @@ export default function JobDetails() {
                 {(job.salaryMin || job.salaryMax) && (
                   <div className="flex items-center gap-2 text-lg font-semibold text-primary">
                     <span>
-                      {formatPesoRange(job.salaryMin, job.salaryMax)}
+                      {formatSalaryRange(job.salaryMin, job.salaryMax, job.salaryCurrency, job.salaryPeriod)}
                     </span>
                   </div>
                 )}
@@ -243,18 +224,25 @@ export default function JobDetails() {
             </div>
           </CardHeader>
 
-          <CardContent>
+          <CardContent className="flex flex-col gap-3 sm:flex-row">
             <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
               <DialogTrigger asChild>
-                <Button size="lg" className="w-full sm:w-auto" data-testid="button-apply">
-                  Apply Now
+                <Button
+                  size="lg"
+                  className="w-full sm:w-auto"
+                  disabled={!!existingApplication || !isAcceptingApplications(job)}
+                  data-testid="button-apply"
+                >
+                  {existingApplication
+                    ? existingApplication.status === "withdrawn" ? "Application Withdrawn" : "Applied"
+                    : isAcceptingApplications(job) ? "Apply Now" : "No Longer Accepting Applications"}
                 </Button>
               </DialogTrigger>
               <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
                 <DialogHeader>
                   <DialogTitle>Apply for {job.title}</DialogTitle>
                   <DialogDescription>
-                    Review your portfolio and upload your resume to submit your application
+                    Review your portfolio and choose which resume to send with your application
                   </DialogDescription>
                 </DialogHeader>
                 <div className="space-y-6 py-4">
@@ -353,43 +341,43 @@ export default function JobDetails() {
                     </Card>
                   )}
 
-                  {/* Resume Upload */}
+                  {/* Resume */}
                   <div className="space-y-3">
                     <label className="text-sm font-medium">Resume *</label>
-                    {(resumeUrl || profile?.resumeUrl) && (
-                      <div className="flex items-center gap-2 p-3 bg-muted rounded-md">
-                        <FileText className="h-4 w-4 text-primary" />
-                        <span className="text-sm flex-1">Resume uploaded</span>
-                        <a 
-                          href={`/objects${resumeUrl || profile?.resumeUrl}`}
-                          target="_blank"
-                          rel="noopener noreferrer"
-                          className="text-sm text-primary hover:underline"
-                        >
-                          View
-                        </a>
-                      </div>
-                    )}
-                    <Input
-                      type="file"
-                      accept=".pdf,.doc,.docx"
-                      onChange={handleResumeUpload}
-                      disabled={isUploadingResume}
-                      data-testid="input-apply-resume"
-                    />
-                    {isUploadingResume && (
-                      <p className="text-sm text-muted-foreground mt-2">Uploading resume...</p>
+                    <ResumePicker value={resumeId} onChange={setResumeId} />
+                    {!profile?.resumeUrl && (
+                      <p className="text-xs text-muted-foreground">
+                        No resume file?{" "}
+                        <Link href="/profile" className="text-primary hover:underline" data-testid="link-generate-cv">
+                          Generate a CV from your profile
+                        </Link>
+                      </p>
                     )}
-                    <p className="text-xs text-muted-foreground">
-                      {profile?.resumeUrl ? "Update your resume" : "Upload your resume (PDF, DOC, or DOCX - max 10MB)"}
-                    </p>
                   </div>
 
+                  {/* Screening Questions */}
+                  {job.screeningQuestions && job.screeningQuestions.length > 0 && (
+                    <div className="space-y-3">
+                      <p className="text-sm font-medium">Screening Questions</p>
+                      <ScreeningQuestionsForm
+                        questions={job.screeningQuestions}
+                        answers={screeningAnswers}
+                        errors={screeningErrors}
+                        onChange={(questionId, value) =>
+                          setScreeningAnswers((current) => {
+                            const { [questionId]: _previous, ...rest } = current;
+                            return value === undefined ? rest : { ...rest, [questionId]: value };
+                          })
+                        }
+                      />
+                    </div>
+                  )}
+
                   {/* Cover Letter */}
                   <div className="space-y-3">
                     <label className="text-sm font-medium">Cover Letter (Optional)</label>
                     <Textarea
-                      placeholder="Tell the employer why you're a great fit for this position..."
+                      placeholder="Tailor a cover letter for this job: tell the employer why you're a great fit for this position..."
                       value={coverLetter}
                       onChange={(e) => setCoverLetter(e.target.value)}
                       rows={6}
@@ -400,12 +388,12 @@ export default function JobDetails() {
                   <Button
                     className="w-full"
                     onClick={() => applyMutation.mutate()}
-                    disabled={applyMutation.isPending || isUploadingResume || (!resumeUrl && !profile?.resumeUrl)}
+                    disabled={applyMutation.isPending || !profile?.resumeUrl}
                     data-testid="button-submit-application"
                   >
                     {applyMutation.isPending ? "Submitting..." : "Submit Application"}
                   </Button>
-                  {!resumeUrl && !profile?.resumeUrl && (
+                  {!profile?.resumeUrl && (
                     <p className="text-sm text-center text-muted-foreground">
                       Please upload your resume to continue
                     </p>
@@ -413,9 +401,26 @@ export default function JobDetails() {
                 </div>
               </DialogContent>
             </Dialog>
+            {user?.role === "job_seeker" && <SaveJobButton jobId={job.id} variant="full" />}
           </CardContent>
         </Card>
 
+        {/* Seeker's match with this job */}
+        {match?.explanation && (
+          <Card className="mb-6" data-testid="card-match-explanation">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Sparkles className="h-5 w-5 text-primary" />
+                Your Match: {match.matchScore}%
+              </CardTitle>
+              <CardDescription>Why this score, based on your profile</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <MatchExplanation explanation={match.explanation} showSuggestions />
+            </CardContent>
+          </Card>
+        )}
+
         {/* Job Description */}
         <Card className="mb-6">
           <CardHeader>
@@ -8,7 +8,6 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
@@ -16,22 +15,39 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { ArrowLeft, Users, Mail, Phone, FileText, Sparkles, MapPin, Briefcase, Download, User, Eye, Edit, Trash2, ToggleLeft, ToggleRight } from "lucide-react";
-import type { Job, Application } from "@shared/schema";
+import { LocationPicker } from "@/components/location-picker";
+import { MatchExplanation } from "@/components/match-explanation";
+import { PipelineBoard, type BoardApplication } from "@/components/pipeline-board";
+import { ApplicationTimeline } from "@/components/application-timeline";
+import { ApplicationInterviews } from "@/components/interviews";
+import { BulkApplicationActions } from "@/components/bulk-application-actions";
+import { ScreeningAnswerList, ScreeningQuestionsEditor } from "@/components/screening-questions";
+import { formatPhCity } from "@shared/ph-locations";
+import { ArrowLeft, Users, Mail, Phone, FileText, Sparkles, MapPin, Briefcase, Download, User, Eye, Edit, Trash2, ToggleLeft, ToggleRight, ChevronDown, History, Settings2, Star, StickyNote, MessageSquare } from "lucide-react";
+import { format } from "date-fns";
+import { formatSalaryRange } from "@/lib/philippines";
+import { resolveApplicationStage } from "@shared/pipeline";
+import { screeningQuestionsSchema, type ScreeningQuestion } from "@shared/screening";
+import type { Job, PipelineStage, PipelineTemplateWithStages } from "@shared/schema";
 
 const jobEditSchema = z.object({
   title: z.string().min(3, "Job title must be at least 3 characters"),
   description: z.string().min(50, "Description must be at least 50 characters"),
   location: z.string().min(1, "Location is required"),
+  locationCity: z.string().optional(),
   jobType: z.enum(["full_time", "part_time", "contract", "remote", "hybrid"]),
   salaryMin: z.string().optional(),
   salaryMax: z.string().optional(),
+  salaryPeriod: z.enum(["hourly", "daily", "monthly", "annual"]),
   category: z.string().optional(),
   requirements: z.string().optional(),
   responsibilities: z.string().optional(),
   skills: z.string().optional(),
+  applicationDeadline: z.string().optional(), // yyyy-mm-dd, blank for no deadline
 });
 
 type JobEditForm = z.infer<typeof jobEditSchema>;
@@ -42,30 +58,55 @@ export default function JobManagement() {
   const { toast } = useToast();
   const [, navigate] = useLocation();
   const [editDialogOpen, setEditDialogOpen] = useState(false);
+  const [openApplicationId, setOpenApplicationId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
 
   const { data: job, isLoading: jobLoading } = useQuery<Job>({
     queryKey: ["/api/jobs", jobId],
     enabled: !!jobId,
   });
 
-  const { data: applications, isLoading: applicationsLoading } = useQuery<Application[]>({
+  const { data: applications, isLoading: applicationsLoading } = useQuery<BoardApplication[]>({
     queryKey: ["/api/employer/jobs", jobId, "applications"],
     enabled: !!jobId,
   });
 
+  const { data: pipeline } = useQuery<PipelineTemplateWithStages>({
+    queryKey: ["/api/employer/jobs", jobId, "pipeline"],
+    enabled: !!jobId,
+  });
+
+  const { data: pipelines } = useQuery<PipelineTemplateWithStages[]>({
+    queryKey: ["/api/employer/pipelines"],
+  });
+
+  // Fetched separately because public job responses leave out the knockout rules
+  const { data: savedScreeningQuestions } = useQuery<ScreeningQuestion[]>({
+    queryKey: ["/api/employer/jobs", jobId, "screening-questions"],
+    enabled: !!jobId,
+  });
+  const [screeningQuestions, setScreeningQuestions] = useState<ScreeningQuestion[]>([]);
+
+  useEffect(() => {
+    if (savedScreeningQuestions) setScreeningQuestions(savedScreeningQuestions);
+  }, [savedScreeningQuestions]);
+
   const form = useForm<JobEditForm>({
     resolver: zodResolver(jobEditSchema),
     defaultValues: {
       title: "",
       description: "",
       location: "",
+      locationCity: "",
       jobType: "full_time",
       salaryMin: "",
       salaryMax: "",
+      salaryPeriod: "monthly",
       category: "",
       requirements: "",
       responsibilities: "",
       skills: "",
+      applicationDeadline: "",
     },
   });
 
@@ -76,13 +117,16 @@ export default function JobManagement() {
         title: job.title,
         description: job.description,
         location: job.location,
+        locationCity: job.locationCity || "",
         jobType: job.jobType,
         salaryMin: job.salaryMin?.toString() || "",
         salaryMax: job.salaryMax?.toString() || "",
+        salaryPeriod: job.salaryPeriod,
         category: job.category || "",
         requirements: job.requirements?.join("\n") || "",
         responsibilities: job.responsibilities?.join("\n") || "",
         skills: job.skills?.join(", ") || "",
+        applicationDeadline: job.applicationDeadline ? format(new Date(job.applicationDeadline), "yyyy-MM-dd") : "",
       });
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -97,6 +141,11 @@ export default function JobManagement() {
         requirements: data.requirements ? data.requirements.split("\n").filter(Boolean) : [],
         responsibilities: data.responsibilities ? data.responsibilities.split("\n").filter(Boolean) : [],
         skills: data.skills ? data.skills.split(",").map(s => s.trim()).filter(Boolean) : [],
+        // null clears an existing deadline
+        applicationDeadline: data.applicationDeadline
+          ? new Date(`${data.applicationDeadline}T23:59:59`).toISOString()
+          : null,
+        screeningQuestions,
       };
       return await apiRequest("PUT", `/api/jobs/${jobId}`, payload);
     },
@@ -151,13 +200,21 @@ export default function JobManagement() {
     },
   });
 
-  const updateApplicationStatusMutation = useMutation({
-    mutationFn: async ({ applicationId, status }: { applicationId: string; status: string }) => {
-      return await apiRequest("PUT", `/api/applications/${applicationId}`, { status });
+  const applicationsKey = ["/api/employer/jobs", jobId, "applications"];
+
+  const moveApplicationMutation = useMutation({
+    mutationFn: async ({ applicationId, stage, notifySeeker }: { applicationId: string; stage: PipelineStage; notifySeeker?: boolean }) => {
+      return await apiRequest("PUT", `/api/applications/${applicationId}`, { stageId: stage.id, notifySeeker });
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/employer/jobs", jobId, "applications"] });
-      toast({ title: "Application status updated successfully!" });
+    // Move the card right away so dragging feels instant; the refetch below corrects it on failure
+    onMutate: ({ applicationId, stage }) => {
+      queryClient.setQueryData<BoardApplication[]>(applicationsKey, (current) =>
+        current?.map((app) => (app.id === applicationId ? { ...app, stageId: stage.id, status: stage.status } : app))
+      );
+    },
+    onSuccess: (_data, { applicationId, stage }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/applications", applicationId, "timeline"] });
+      toast({ title: `Moved to ${stage.name}` });
     },
     onError: (error: Error) => {
       toast({ 
@@ -166,6 +223,22 @@ export default function JobManagement() {
         variant: "destructive" 
       });
     },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: applicationsKey });
+    },
+  });
+
+  const assignPipelineMutation = useMutation({
+    mutationFn: async (templateId: string) => {
+      return await apiRequest("PUT", `/api/employer/jobs/${jobId}/pipeline`, { templateId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/employer/jobs", jobId, "pipeline"] });
+      toast({ title: "Pipeline updated" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error changing pipeline", description: error.message, variant: "destructive" });
+    },
   });
 
   if (jobLoading) {
@@ -188,10 +261,8 @@ export default function JobManagement() {
     );
   }
 
-  const pendingApps = applications?.filter(a => a.status === "applied") || [];
-  const reviewingApps = applications?.filter(a => a.status === "reviewing") || [];
-  const acceptedApps = applications?.filter(a => a.status === "accepted") || [];
-  const rejectedApps = applications?.filter(a => a.status === "rejected") || [];
+  const stages = pipeline?.stages ?? [];
+  const openApplication = applications?.find((app) => app.id === openApplicationId);
 
   return (
     <div className="space-y-6">
@@ -235,8 +306,17 @@ export default function JobManagement() {
                   </DialogHeader>
                   <EditJobForm 
                     form={form} 
-                    onSubmit={(data) => updateJobMutation.mutate(data)} 
+                    onSubmit={(data) => {
+                      const screening = screeningQuestionsSchema.safeParse(screeningQuestions);
+                      if (!screening.success) {
+                        toast({ title: "Check your screening questions", description: screening.error.errors[0]?.message, variant: "destructive" });
+                        return;
+                      }
+                      updateJobMutation.mutate(data);
+                    }} 
                     isPending={updateJobMutation.isPending}
+                    screeningQuestions={screeningQuestions}
+                    onScreeningQuestionsChange={setScreeningQuestions}
                   />
                 </DialogContent>
               </Dialog>
@@ -308,10 +388,10 @@ export default function JobManagement() {
               <Briefcase className="h-4 w-4 text-muted-foreground" />
               <span>{job.jobType}</span>
             </div>
-            {job.salaryMin && job.salaryMax && (
+            {(job.salaryMin || job.salaryMax) && (
               <div className="flex items-center gap-2 text-sm">
                 <span className="font-medium">
-                  ${job.salaryMin.toLocaleString()} - ${job.salaryMax.toLocaleString()}
+                  {formatSalaryRange(job.salaryMin, job.salaryMax, job.salaryCurrency, job.salaryPeriod)}
                 </span>
               </div>
             )}
@@ -322,95 +402,61 @@ export default function JobManagement() {
       {/* Applications */}
       <Card>
         <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Users className="h-5 w-5" />
-            Applications
-          </CardTitle>
-          <CardDescription>Review and manage candidate applications</CardDescription>
+          <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Users className="h-5 w-5" />
+                Applications
+              </CardTitle>
+              <CardDescription>Drag candidates between stages, or select several to move them at once</CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Select
+                value={pipeline?.id}
+                onValueChange={(templateId) => assignPipelineMutation.mutate(templateId)}
+                disabled={assignPipelineMutation.isPending}
+              >
+                <SelectTrigger className="w-[200px]" data-testid="select-job-pipeline">
+                  <SelectValue placeholder="Pipeline" />
+                </SelectTrigger>
+                <SelectContent>
+                  {pipelines?.map((template) => (
+                    <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Link href="/employer/pipelines">
+                <Button variant="ghost" size="icon" aria-label="Manage pipelines" data-testid="button-manage-pipelines">
+                  <Settings2 className="h-4 w-4" />
+                </Button>
+              </Link>
+            </div>
+          </div>
         </CardHeader>
         <CardContent>
-          {applicationsLoading ? (
+          {applicationsLoading || !pipeline ? (
             <div className="space-y-4">
               <Skeleton className="h-24 w-full" />
               <Skeleton className="h-24 w-full" />
             </div>
           ) : applications && applications.length > 0 ? (
-            <Tabs defaultValue="pending" className="w-full">
-              <TabsList className="grid w-full grid-cols-4">
-                <TabsTrigger value="pending" data-testid="tab-pending">
-                  Pending ({pendingApps.length})
-                </TabsTrigger>
-                <TabsTrigger value="reviewing" data-testid="tab-reviewing">
-                  Reviewing ({reviewingApps.length})
-                </TabsTrigger>
-                <TabsTrigger value="accepted" data-testid="tab-accepted">
-                  Accepted ({acceptedApps.length})
-                </TabsTrigger>
-                <TabsTrigger value="rejected" data-testid="tab-rejected">
-                  Rejected ({rejectedApps.length})
-                </TabsTrigger>
-              </TabsList>
-
-              <TabsContent value="pending" className="space-y-4 mt-6">
-                {pendingApps.length > 0 ? (
-                  pendingApps.map((app) => (
-                    <ApplicationCard 
-                      key={app.id} 
-                      application={app} 
-                      onUpdateStatus={(status) => updateApplicationStatusMutation.mutate({ applicationId: app.id, status })}
-                      isPending={updateApplicationStatusMutation.isPending}
-                    />
-                  ))
-                ) : (
-                  <p className="text-sm text-muted-foreground text-center py-8">No pending applications</p>
-                )}
-              </TabsContent>
-
-              <TabsContent value="reviewing" className="space-y-4 mt-6">
-                {reviewingApps.length > 0 ? (
-                  reviewingApps.map((app) => (
-                    <ApplicationCard 
-                      key={app.id} 
-                      application={app} 
-                      onUpdateStatus={(status) => updateApplicationStatusMutation.mutate({ applicationId: app.id, status })}
-                      isPending={updateApplicationStatusMutation.isPending}
-                    />
-                  ))
-                ) : (
-                  <p className="text-sm text-muted-foreground text-center py-8">No applications under review</p>
-                )}
-              </TabsContent>
-
-              <TabsContent value="accepted" className="space-y-4 mt-6">
-                {acceptedApps.length > 0 ? (
-                  acceptedApps.map((app) => (
-                    <ApplicationCard 
-                      key={app.id} 
-                      application={app} 
-                      onUpdateStatus={(status) => updateApplicationStatusMutation.mutate({ applicationId: app.id, status })}
-                      isPending={updateApplicationStatusMutation.isPending}
-                    />
-                  ))
-                ) : (
-                  <p className="text-sm text-muted-foreground text-center py-8">No accepted applications</p>
-                )}
-              </TabsContent>
-
-              <TabsContent value="rejected" className="space-y-4 mt-6">
-                {rejectedApps.length > 0 ? (
-                  rejectedApps.map((app) => (
-                    <ApplicationCard 
-                      key={app.id} 
-                      application={app} 
-                      onUpdateStatus={(status) => updateApplicationStatusMutation.mutate({ applicationId: app.id, status })}
-                      isPending={updateApplicationStatusMutation.isPending}
-                    />
-                  ))
-                ) : (
-                  <p className="text-sm text-muted-foreground text-center py-8">No rejected applications</p>
-                )}
-              </TabsContent>
-            </Tabs>
+            <>
+              <BulkApplicationActions
+                jobId={job.id}
+                stages={stages}
+                applications={applications}
+                selectedIds={selectedIds}
+                onSelectionChange={setSelectedIds}
+              />
+              <PipelineBoard
+                stages={stages}
+                applications={applications}
+                onMove={(application, stage) => moveApplicationMutation.mutate({ applicationId: application.id, stage })}
+                onOpen={(application) => setOpenApplicationId(application.id)}
+                selectedIds={selectedIds}
+                onSelectionChange={setSelectedIds}
+              />
+            </>
           ) : (
             <div className="flex min-h-[300px] flex-col items-center justify-center text-center p-8">
               <Users className="h-12 w-12 text-muted-foreground/50 mb-4" />
@@ -422,19 +468,43 @@ export default function JobManagement() {
           )}
         </CardContent>
       </Card>
+
+      <Dialog open={!!openApplication} onOpenChange={(open) => !open && setOpenApplicationId(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Application</DialogTitle>
+            <DialogDescription>Candidate details and hiring progress</DialogDescription>
+          </DialogHeader>
+          {openApplication && (
+            <ApplicationCard
+              application={openApplication}
+              stages={stages}
+              onMoveToStage={(stage, notifySeeker) =>
+                moveApplicationMutation.mutate({ applicationId: openApplication.id, stage, notifySeeker })
+              }
+              isPending={moveApplicationMutation.isPending}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
 
 function ApplicationCard({ 
   application, 
-  onUpdateStatus,
+  stages,
+  onMoveToStage,
   isPending 
 }: { 
   application: any;
-  onUpdateStatus: (status: string) => void;
+  stages: PipelineStage[];
+  onMoveToStage: (stage: PipelineStage, notifySeeker: boolean) => void;
   isPending: boolean;
 }) {
+  const [notifySeeker, setNotifySeeker] = useState(false);
+  const currentStage = resolveApplicationStage(application, stages);
+  const withdrawn = application.status === "withdrawn";
   const applicant = application.applicant || {};
   const fullName = applicant.firstName && applicant.lastName 
     ? `${applicant.firstName} ${applicant.lastName}`
@@ -489,11 +559,35 @@ function ApplicationCard({
             }
             data-testid={`badge-status-${application.id}`}
           >
-            {application.status}
+            {withdrawn ? "Withdrawn by candidate" : currentStage?.name ?? application.status}
           </Badge>
         </div>
       </CardHeader>
       <CardContent className="space-y-4">
+        {/* Why the applicant got their match score */}
+        {application.matchExplanation && (
+          <Collapsible>
+            <CollapsibleTrigger asChild>
+              <Button variant="ghost" size="sm" className="gap-1 px-0" data-testid={`button-match-explanation-${application.id}`}>
+                <Sparkles className="h-4 w-4 text-primary" />
+                Why {application.aiMatchScore}% match
+                <ChevronDown className="h-4 w-4" />
+              </Button>
+            </CollapsibleTrigger>
+            <CollapsibleContent className="pt-2">
+              <MatchExplanation explanation={application.matchExplanation} />
+            </CollapsibleContent>
+          </Collapsible>
+        )}
+
+        {/* Screening Answers */}
+        {application.screeningAnswers && application.screeningAnswers.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold">Screening Answers</h4>
+            <ScreeningAnswerList answers={application.screeningAnswers} />
+          </div>
+        )}
+
         {/* Contact Information */}
         <div className="grid gap-3 md:grid-cols-2">
           {applicant.email && (
@@ -581,6 +675,9 @@ function ApplicationCard({
                 Download Resume
               </Button>
             </a>
+            {applicant.resumeLabel && (
+              <p className="text-xs text-muted-foreground mt-1">Submitted version: {applicant.resumeLabel}</p>
+            )}
           </div>
         )}
 
@@ -595,6 +692,24 @@ function ApplicationCard({
           </div>
         )}
 
+        {/* Interview */}
+        <ApplicationInterviews applicationId={application.id} applicationStatus={application.status} />
+
+        {/* Rating, notes and timeline */}
+        <ApplicationNotes application={application} />
+        <Collapsible>
+          <CollapsibleTrigger asChild>
+            <Button variant="ghost" size="sm" className="gap-1 px-0" data-testid={`button-timeline-${application.id}`}>
+              <History className="h-4 w-4" />
+              Timeline
+              <ChevronDown className="h-4 w-4" />
+            </Button>
+          </CollapsibleTrigger>
+          <CollapsibleContent className="pt-2 pl-2">
+            <ApplicationTimeline applicationId={application.id} appliedAt={application.createdAt} audience="employer" />
+          </CollapsibleContent>
+        </Collapsible>
+
         {/* Action Buttons */}
         <div className="flex flex-wrap gap-2 pt-2">
           <Link href={`/employer/applicant/${applicant.id}`}>
@@ -603,39 +718,124 @@ function ApplicationCard({
               View Portfolio
             </Button>
           </Link>
-          <Button 
-            size="sm" 
-            onClick={() => onUpdateStatus("accepted")}
-            disabled={isPending || application.status === "accepted"}
-            data-testid={`button-accept-${application.id}`}
-          >
-            Accept
-          </Button>
-          <Button 
-            size="sm" 
-            variant="outline"
-            onClick={() => onUpdateStatus("reviewing")}
-            disabled={isPending || application.status === "reviewing"}
-            data-testid={`button-review-${application.id}`}
-          >
-            Review
-          </Button>
-          <Button 
-            size="sm" 
-            variant="destructive"
-            onClick={() => onUpdateStatus("rejected")}
-            disabled={isPending || application.status === "rejected"}
-            data-testid={`button-reject-${application.id}`}
+          <Link href={`/employer/messages?application=${application.id}`}>
+            <Button size="sm" variant="outline" data-testid={`button-message-${application.id}`}>
+              <MessageSquare className="h-4 w-4 mr-2" />
+              Message
+            </Button>
+          </Link>
+          <Select
+            value={currentStage?.id}
+            onValueChange={(stageId) => {
+              const stage = stages.find((candidate) => candidate.id === stageId);
+              if (stage) onMoveToStage(stage, notifySeeker);
+            }}
+            disabled={isPending || withdrawn}
           >
-            Reject
-          </Button>
+            <SelectTrigger className="h-9 w-[200px]" data-testid={`select-stage-${application.id}`}>
+              <SelectValue placeholder="Move to stage" />
+            </SelectTrigger>
+            <SelectContent>
+              {stages.map((stage) => (
+                <SelectItem key={stage.id} value={stage.id}>{stage.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={notifySeeker}
+              onCheckedChange={(checked) => setNotifySeeker(checked === true)}
+              data-testid={`checkbox-notify-seeker-${application.id}`}
+            />
+            Email candidate about status changes
+          </label>
         </div>
       </CardContent>
     </Card>
   );
 }
 
-function EditJobForm({ form, onSubmit, isPending }: { form: any; onSubmit: (data: JobEditForm) => void; isPending: boolean }) {
+function ApplicationNotes({ application }: { application: BoardApplication }) {
+  const { toast } = useToast();
+  const [note, setNote] = useState("");
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: { note?: string; rating?: number }) => {
+      return await apiRequest("PUT", `/api/applications/${application.id}`, data);
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/employer/jobs", application.jobId, "applications"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/applications", application.id, "timeline"] });
+      if (variables.note) setNote("");
+      toast({ title: variables.note ? "Note added" : "Rating saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error updating application", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-3">
+        <h4 className="text-sm font-semibold">Your rating</h4>
+        <div className="flex items-center gap-1">
+          {[1, 2, 3, 4, 5].map((value) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => updateMutation.mutate({ rating: value })}
+              disabled={updateMutation.isPending}
+              aria-label={`Rate ${value} out of 5`}
+              data-testid={`button-rate-${value}`}
+            >
+              <Star
+                className={`h-5 w-5 ${
+                  application.rating && value <= application.rating
+                    ? "fill-yellow-400 text-yellow-400"
+                    : "text-muted-foreground/40 hover:text-yellow-400"
+                }`}
+              />
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Textarea
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="Add a private note about this candidate"
+          maxLength={2000}
+          rows={2}
+          data-testid={`input-note-${application.id}`}
+        />
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => updateMutation.mutate({ note: note.trim() })}
+          disabled={!note.trim() || updateMutation.isPending}
+          data-testid={`button-add-note-${application.id}`}
+        >
+          <StickyNote className="h-4 w-4 mr-2" />
+          Add Note
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function EditJobForm({
+  form,
+  onSubmit,
+  isPending,
+  screeningQuestions,
+  onScreeningQuestionsChange,
+}: {
+  form: any;
+  onSubmit: (data: JobEditForm) => void;
+  isPending: boolean;
+  screeningQuestions: ScreeningQuestion[];
+  onScreeningQuestionsChange: (questions: ScreeningQuestion[]) => void;
+}) {
   return (
     <Form {...form}>
       <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
@@ -672,6 +872,29 @@ function EditJobForm({ form, onSubmit, isPending }: { form: any; onSubmit: (data
           )}
         />
 
+        <FormField
+          control={form.control}
+          name="locationCity"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>City / Municipality</FormLabel>
+              <FormControl>
+                <LocationPicker
+                  value={field.value}
+                  onChange={(city) => {
+                    field.onChange(city?.code ?? "");
+                    if (city) {
+                      form.setValue("location", formatPhCity(city), { shouldValidate: true });
+                    }
+                  }}
+                  testId="select-edit-location-city"
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
         <div className="grid gap-4 md:grid-cols-2">
           <FormField
             control={form.control}
@@ -713,7 +936,31 @@ function EditJobForm({ form, onSubmit, isPending }: { form: any; onSubmit: (data
           />
         </div>
 
-        <div className="grid gap-4 md:grid-cols-2">
+        <div className="grid gap-4 md:grid-cols-3">
+          <FormField
+            control={form.control}
+            name="salaryPeriod"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Pay Period</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger data-testid="select-edit-salary-period">
+                      <SelectValue placeholder="Select pay period" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="hourly">Per Hour</SelectItem>
+                    <SelectItem value="daily">Per Day</SelectItem>
+                    <SelectItem value="monthly">Per Month</SelectItem>
+                    <SelectItem value="annual">Per Year</SelectItem>
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
           <FormField
             control={form.control}
             name="salaryMin"
@@ -771,6 +1018,20 @@ function EditJobForm({ form, onSubmit, isPending }: { form: any; onSubmit: (data
           )}
         />
 
+        <FormField
+          control={form.control}
+          name="applicationDeadline"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Application Deadline (Optional)</FormLabel>
+              <FormControl>
+                <Input {...field} type="date" data-testid="input-edit-application-deadline" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
         <FormField
           control={form.control}
           name="requirements"
@@ -809,6 +1070,14 @@ function EditJobForm({ form, onSubmit, isPending }: { form: any; onSubmit: (data
           )}
         />
 
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Screening Questions (Optional)</p>
+          <p className="text-sm text-muted-foreground">
+            Changes apply to new applicants; existing answers are kept as they were submitted.
+          </p>
+          <ScreeningQuestionsEditor value={screeningQuestions} onChange={onScreeningQuestionsChange} />
+        </div>
+
         <div className="flex justify-end gap-2 pt-4">
           <Button type="button" variant="outline" onClick={() => form.reset()} data-testid="button-reset-form">
             Reset
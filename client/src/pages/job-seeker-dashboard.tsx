@@ -7,20 +7,30 @@ import { Progress } from "@/components/ui/progress";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ApplicationTimeline } from "@/components/application-timeline";
+import { WithdrawApplicationButton } from "@/components/withdraw-application-button";
+import { SeekerInterviews } from "@/components/interviews";
+import { SavedSearchList } from "@/components/saved-searches";
+import { SavedJobList } from "@/components/saved-jobs";
 import { 
   Briefcase, 
   FileText, 
-  TrendingUp, 
-  Eye, 
   Sparkles, 
   User,
   GraduationCap,
   Award,
   Link as LinkIcon,
   Download,
-  Upload
+  Upload,
+  History,
+  ChevronDown,
+  MessageSquare,
+  CheckCircle2,
+  Circle
 } from "lucide-react";
-import type { Application, JobSeekerProfile } from "@shared/schema";
+import type { Application, JobSeekerProfile, SavedSearch } from "@shared/schema";
+import type { ProfileCompleteness } from "@shared/profile-completeness";
 
 // Extended Job type with AI matching data
 interface RecommendedJob {
@@ -48,7 +58,7 @@ import { useAuth } from "@/contexts/auth-context";
 
 export default function JobSeekerDashboard() {
   const { user } = useAuth();
-  const { data: profile, isLoading: profileLoading } = useQuery<JobSeekerProfile>({
+  const { data: profile, isLoading: profileLoading } = useQuery<JobSeekerProfile & { completeness?: ProfileCompleteness }>({
     queryKey: ["/api/profile"],
   });
 
@@ -56,11 +66,20 @@ export default function JobSeekerDashboard() {
     queryKey: ["/api/applications"],
   });
 
+  const { data: savedSearches } = useQuery<SavedSearch[]>({
+    queryKey: ["/api/saved-searches"],
+  });
+  const newSavedSearchJobs = (savedSearches || []).reduce((sum, search) => sum + search.newJobCount, 0);
+
   const { data: recommendedJobs, isLoading: jobsLoading } = useQuery<RecommendedJob[]>({
     queryKey: ["/api/jobs/recommended"],
   });
 
-  const profileCompletion = calculateProfileCompletion(profile);
+  const profileCompletion = profile?.completeness?.score ?? 0;
+  // Missing items first, biggest gains at the top
+  const checklist = [...(profile?.completeness?.items ?? [])].sort(
+    (a, b) => Number(a.complete) - Number(b.complete) || b.weight - a.weight
+  );
 
   return (
     <div className="space-y-6">
@@ -178,29 +197,30 @@ export default function JobSeekerDashboard() {
                   </div>
                   <Progress value={profileCompletion} />
                 </div>
-                {profileCompletion < 100 && (
-                  <div className="space-y-2">
-                    <p className="text-sm text-muted-foreground">Complete your profile to:</p>
-                    <ul className="space-y-1 text-sm">
-                      <li className="flex items-center gap-2">
-                        <Sparkles className="h-3 w-3 text-primary" />
-                        Get better job matches
+                {checklist.length > 0 && (
+                  <ul className="space-y-2 text-sm" data-testid="list-profile-checklist">
+                    {checklist.map((item) => (
+                      <li key={item.key} className="flex items-start gap-2" data-testid={`checklist-${item.key}`}>
+                        {item.complete ? (
+                          <CheckCircle2 className="h-4 w-4 mt-0.5 shrink-0 text-green-600" />
+                        ) : (
+                          <Circle className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+                        )}
+                        <div className="flex-1">
+                          <span className={item.complete ? "text-muted-foreground" : "font-medium"}>{item.label}</span>
+                          {!item.complete && <p className="text-xs text-muted-foreground">{item.hint}</p>}
+                        </div>
+                        {!item.complete && <span className="text-xs text-primary">+{item.weight}%</span>}
                       </li>
-                      <li className="flex items-center gap-2">
-                        <Eye className="h-3 w-3 text-primary" />
-                        Increase visibility
-                      </li>
-                      <li className="flex items-center gap-2">
-                        <TrendingUp className="h-3 w-3 text-primary" />
-                        Stand out to employers
-                      </li>
-                    </ul>
-                    <Link href="/profile">
-                      <Button className="w-full mt-2" size="sm" data-testid="button-complete-profile">
-                        Complete Profile
-                      </Button>
-                    </Link>
-                  </div>
+                    ))}
+                  </ul>
+                )}
+                {profileCompletion < 100 && (
+                  <Link href="/profile">
+                    <Button className="w-full" size="sm" data-testid="button-complete-profile">
+                      Complete Profile
+                    </Button>
+                  </Link>
                 )}
               </CardContent>
             </Card>
@@ -235,14 +255,24 @@ export default function JobSeekerDashboard() {
 
           {/* Main Content */}
           <div className="lg:col-span-2 space-y-6">
+            <SeekerInterviews />
             <Tabs defaultValue="recommended" className="w-full">
-              <TabsList className="grid w-full grid-cols-2">
+              <TabsList className="grid w-full grid-cols-4">
                 <TabsTrigger value="recommended" data-testid="tab-recommended">
                   Recommended for You
                 </TabsTrigger>
                 <TabsTrigger value="applications" data-testid="tab-applications">
                   My Applications
                 </TabsTrigger>
+                <TabsTrigger value="saved-jobs" data-testid="tab-saved-jobs">
+                  Saved Jobs
+                </TabsTrigger>
+                <TabsTrigger value="saved-searches" data-testid="tab-saved-searches">
+                  Saved Searches
+                  {newSavedSearchJobs > 0 && (
+                    <Badge className="ml-2 h-5 px-1.5" data-testid="badge-saved-search-new-jobs">{newSavedSearchJobs}</Badge>
+                  )}
+                </TabsTrigger>
               </TabsList>
 
               <TabsContent value="recommended" className="space-y-4 mt-6">
@@ -364,6 +394,33 @@ export default function JobSeekerDashboard() {
                             </Badge>
                           </div>
                         </CardHeader>
+                        <CardContent>
+                          <Collapsible>
+                            <div className="flex items-center justify-between gap-2">
+                              <CollapsibleTrigger asChild>
+                                <Button variant="ghost" size="sm" className="gap-1 px-0" data-testid={`button-timeline-${application.id}`}>
+                                  <History className="h-4 w-4" />
+                                  Timeline
+                                  <ChevronDown className="h-4 w-4" />
+                                </Button>
+                              </CollapsibleTrigger>
+                              <div className="flex items-center gap-1">
+                                <Link href={`/messages?application=${application.id}`}>
+                                  <Button size="sm" variant="ghost" data-testid={`button-message-${application.id}`}>
+                                    <MessageSquare className="h-4 w-4 mr-2" />
+                                    Message
+                                  </Button>
+                                </Link>
+                                {application.status !== "withdrawn" && application.status !== "rejected" && (
+                                  <WithdrawApplicationButton applicationId={application.id} />
+                                )}
+                              </div>
+                            </div>
+                            <CollapsibleContent className="pt-2 pl-2">
+                              <ApplicationTimeline applicationId={application.id} appliedAt={application.createdAt} audience="seeker" />
+                            </CollapsibleContent>
+                          </Collapsible>
+                        </CardContent>
                       </Card>
                     ))}
                   </div>
@@ -380,6 +437,14 @@ export default function JobSeekerDashboard() {
                   </div>
                 )}
               </TabsContent>
+
+              <TabsContent value="saved-jobs" className="space-y-4 mt-6">
+                <SavedJobList />
+              </TabsContent>
+
+              <TabsContent value="saved-searches" className="space-y-4 mt-6">
+                <SavedSearchList />
+              </TabsContent>
             </Tabs>
           </div>
         </div>
@@ -387,19 +452,3 @@ export default function JobSeekerDashboard() {
   );
 }
 
-function calculateProfileCompletion(profile?: JobSeekerProfile): number {
-  if (!profile) return 0;
-  
-  let completed = 0;
-  const total = 7;
-  
-  if (profile.headline) completed++;
-  if (profile.bio) completed++;
-  if (profile.skills && profile.skills.length > 0) completed++;
-  if (profile.resumeUrl) completed++;
-  if (profile.linkedinUrl) completed++;
-  if (profile.location) completed++;
-  if (profile.phoneNumber) completed++;
-  
-  return Math.round((completed / total) * 100);
-}
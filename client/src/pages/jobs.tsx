@@ -1,27 +1,112 @@
-import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
-import { Link } from "wouter";
+import { useEffect, useRef, useState } from "react";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { Link, useSearch } from "wouter";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Search, MapPin, Briefcase, Clock, Bookmark, Sparkles, Building2 } from "lucide-react";
-import { formatPesoRange } from "@/lib/philippines";
-import type { Job } from "@shared/schema";
+import { LocationPicker } from "@/components/location-picker";
+import { SaveSearchDialog } from "@/components/saved-searches";
+import { SaveJobButton, useSavedJobIds } from "@/components/save-job-button";
+import { useAuth } from "@/hooks/useAuth";
+import { Search, MapPin, Briefcase, Clock, BookmarkCheck, Sparkles, Building2, Loader2 } from "lucide-react";
+import { formatSalaryRange } from "@/lib/philippines";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { SEARCH_HIGHLIGHT_START, SEARCH_HIGHLIGHT_END } from "@shared/search";
+import type { JobSearchResult, JobSearchSort } from "@shared/schema";
+
+const PAGE_SIZE = 20;
+const RADIUS_OPTIONS_KM = ["10", "25", "50", "100"];
+
+// Render a search highlight, wrapping the server-marked matches in <mark>
+function HighlightedText({ text }: { text: string }) {
+  const parts = text.split(SEARCH_HIGHLIGHT_START);
+  return (
+    <>
+      {parts.map((part, i) => {
+        if (i === 0) return part;
+        const [match, rest] = part.split(SEARCH_HIGHLIGHT_END);
+        return (
+          <span key={i}>
+            <mark className="rounded-sm bg-primary/20 px-0.5 text-foreground">{match}</mark>
+            {rest}
+          </span>
+        );
+      })}
+    </>
+  );
+}
 
 export default function Jobs() {
-  const [searchTerm, setSearchTerm] = useState("");
-  const [location, setLocation] = useState("");
-  const [jobType, setJobType] = useState<string>("all");
-  const [category, setCategory] = useState<string>("all");
+  const { user } = useAuth();
+  const savedJobIds = useSavedJobIds();
+  // Filters can be preset from the URL, e.g. when opening a saved search
+  const queryString = useSearch();
+  const [initialParams] = useState(() => new URLSearchParams(queryString));
+  const [searchTerm, setSearchTerm] = useState(initialParams.get("search") ?? "");
+  const [location, setLocation] = useState(initialParams.get("location") ?? "");
+  const [jobType, setJobType] = useState<string>(initialParams.get("jobType") ?? "all");
+  const [category, setCategory] = useState<string>(initialParams.get("category") ?? "all");
+  const [minSalary, setMinSalary] = useState(initialParams.get("minSalary") ?? "");
+  const [nearCity, setNearCity] = useState(initialParams.get("nearCity") ?? "");
+  const [radiusKm, setRadiusKm] = useState(initialParams.get("radiusKm") ?? "25");
+  const [sort, setSort] = useState<JobSearchSort>("newest");
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  // Opening a saved search counts as having seen its new jobs
+  const savedSearchId = initialParams.get("savedSearch");
+  useEffect(() => {
+    if (!savedSearchId || user?.role !== "job_seeker") return;
+    apiRequest("POST", `/api/saved-searches/${savedSearchId}/viewed`)
+      .then(() => queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] }))
+      .catch((error) => console.error("Failed to mark saved search as viewed:", error));
+  }, [savedSearchId, user?.role]);
+
+  // Radius only means something with a city picked
+  const proximity = nearCity ? { nearCity, radiusKm } : {};
+  const filters = { search: searchTerm, location, jobType, category, minSalary, ...proximity, sort };
 
-  const { data: jobs, isLoading } = useQuery<Job[]>({
-    queryKey: ["/api/jobs", { search: searchTerm, location, jobType, category }],
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery<JobSearchResult>({
+    queryKey: ["/api/jobs", filters],
+    initialPageParam: 1,
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams({ page: String(pageParam), limit: String(PAGE_SIZE), sort });
+      for (const [key, value] of Object.entries({ search: searchTerm, location, jobType, category, minSalary, ...proximity })) {
+        if (value.trim() !== "" && value !== "all") {
+          params.append(key, value.trim());
+        }
+      }
+      const res = await apiRequest("GET", `/api/jobs?${params.toString()}`);
+      return await res.json();
+    },
+    getNextPageParam: (lastPage) => (lastPage.hasMore ? lastPage.page + 1 : undefined),
   });
 
-  const filteredJobs = jobs?.filter(job => job.isActive && !job.isFlagged) || [];
+  const jobs = data?.pages.flatMap((page) => page.jobs) ?? [];
+  const total = data?.pages[0]?.total ?? 0;
+
+  // Load the next page when the sentinel below the list scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0]?.isIntersecting && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    }, { rootMargin: "200px" });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
 
   return (
     <div className="min-h-screen bg-background">
@@ -73,6 +158,19 @@ export default function Jobs() {
               />
             </div>
 
+            <div className="relative w-full md:w-[200px]">
+              <span className="absolute left-3 top-1/2 -translate-y-1/2 text-sm font-semibold text-muted-foreground">₱</span>
+              <Input
+                type="number"
+                min={0}
+                placeholder="Min salary / month"
+                value={minSalary}
+                onChange={(e) => setMinSalary(e.target.value)}
+                className="pl-8"
+                data-testid="input-min-salary"
+              />
+            </div>
+
             <Select value={jobType} onValueChange={setJobType}>
               <SelectTrigger className="w-full md:w-[180px]" data-testid="select-job-type">
                 <SelectValue placeholder="Job Type" />
@@ -101,6 +199,32 @@ export default function Jobs() {
               </SelectContent>
             </Select>
           </div>
+
+          <div className="mt-4 flex flex-col gap-4 md:flex-row md:items-center">
+            <span className="text-sm text-muted-foreground">Within</span>
+            <Select value={radiusKm} onValueChange={setRadiusKm} disabled={!nearCity}>
+              <SelectTrigger className="w-full md:w-[120px]" data-testid="select-radius">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RADIUS_OPTIONS_KM.map((km) => (
+                  <SelectItem key={km} value={km}>{km} km</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span className="text-sm text-muted-foreground">of</span>
+            <div className="w-full md:w-[320px]">
+              <LocationPicker
+                value={nearCity}
+                onChange={(city) => {
+                  setNearCity(city?.code ?? "");
+                  if (!city && sort === "distance") setSort("newest");
+                }}
+                placeholder="Anywhere in the Philippines"
+                testId="select-near-city"
+              />
+            </div>
+          </div>
         </div>
       </section>
 
@@ -109,8 +233,28 @@ export default function Jobs() {
         <div className="container max-w-7xl mx-auto px-4 md:px-6 lg:px-8">
           <div className="mb-6 flex items-center justify-between">
             <p className="text-sm text-muted-foreground">
-              {filteredJobs.length} {filteredJobs.length === 1 ? 'job' : 'jobs'} found
+              {total} {total === 1 ? 'job' : 'jobs'} found
             </p>
+
+            <div className="flex items-center gap-2">
+              {user?.role === "job_seeker" && (
+                <SaveSearchDialog
+                  filters={{ search: searchTerm, location, jobType, category, minSalary, ...proximity }}
+                  defaultName={searchTerm.trim()}
+                />
+              )}
+              <Select value={sort} onValueChange={(value) => setSort(value as JobSearchSort)}>
+                <SelectTrigger className="w-[180px]" data-testid="select-sort">
+                  <SelectValue placeholder="Sort by" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="newest">Newest</SelectItem>
+                  <SelectItem value="salary">Highest Salary</SelectItem>
+                  <SelectItem value="relevance">Most Relevant</SelectItem>
+                  {nearCity && <SelectItem value="distance">Nearest</SelectItem>}
+                </SelectContent>
+              </Select>
+            </div>
           </div>
 
           {isLoading ? (
@@ -130,7 +274,7 @@ export default function Jobs() {
                 </Card>
               ))}
             </div>
-          ) : filteredJobs.length === 0 ? (
+          ) : jobs.length === 0 ? (
             <div className="flex min-h-[400px] flex-col items-center justify-center text-center">
               <Briefcase className="h-16 w-16 text-muted-foreground/50 mb-4" />
               <h3 className="text-xl font-semibold mb-2">No jobs found</h3>
@@ -139,27 +283,33 @@ export default function Jobs() {
               </p>
             </div>
           ) : (
+            <>
             <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-              {filteredJobs.map((job) => (
+              {jobs.map((job) => (
                 <Card key={job.id} className="hover-elevate flex flex-col" data-testid={`card-job-${job.id}`}>
                   <CardHeader className="space-y-0 pb-4">
                     <div className="flex items-start justify-between gap-4">
                       <div className="flex h-12 w-12 items-center justify-center rounded-md bg-primary/10">
                         <Building2 className="h-6 w-6 text-primary" />
                       </div>
-                      <Button size="icon" variant="ghost" data-testid={`button-bookmark-${job.id}`}>
-                        <Bookmark className="h-4 w-4" />
-                      </Button>
+                      {user?.role === "job_seeker" && <SaveJobButton jobId={job.id} />}
                     </div>
                     <div className="pt-4">
-                      <CardTitle className="line-clamp-1">{job.title}</CardTitle>
-                      <CardDescription className="mt-1">{job.location}</CardDescription>
+                      <CardTitle className="line-clamp-1">
+                        {job.highlight ? <HighlightedText text={job.highlight.title} /> : job.title}
+                      </CardTitle>
+                      <CardDescription className="mt-1">
+                        {job.location}
+                        {job.distanceKm !== undefined && (
+                          <span data-testid={`text-distance-${job.id}`}> · {Math.round(job.distanceKm)} km away</span>
+                        )}
+                      </CardDescription>
                     </div>
                   </CardHeader>
                   
                   <CardContent className="flex-1 space-y-4">
-                    <p className="text-sm text-muted-foreground line-clamp-3">
-                      {job.description}
+                    <p className="text-sm text-muted-foreground line-clamp-3" data-testid={`text-snippet-${job.id}`}>
+                      {job.highlight?.snippet ? <HighlightedText text={job.highlight.snippet} /> : job.description}
                     </p>
                     
                     <div className="flex flex-wrap gap-2">
@@ -167,8 +317,14 @@ export default function Jobs() {
                         <Briefcase className="h-3 w-3" />
                         {job.jobType.replace('_', ' ')}
                       </Badge>
-                      {job.category && (
-                        <Badge variant="outline">{job.category}</Badge>
+                      {job.categories?.map((cat) => (
+                        <Badge key={cat} variant="outline">{cat}</Badge>
+                      ))}
+                      {savedJobIds.has(job.id) && (
+                        <Badge variant="outline" className="gap-1" data-testid={`badge-saved-${job.id}`}>
+                          <BookmarkCheck className="h-3 w-3" />
+                          Saved
+                        </Badge>
                       )}
                       {job.aiMatchScore && job.aiMatchScore > 70 && (
                         <Badge variant="default" className="gap-1">
@@ -182,7 +338,7 @@ export default function Jobs() {
                       {(job.salaryMin || job.salaryMax) && (
                         <div className="flex items-center gap-1">
                           <span>
-                            {formatPesoRange(job.salaryMin, job.salaryMax)}
+                            {formatSalaryRange(job.salaryMin, job.salaryMax, job.salaryCurrency, job.salaryPeriod)}
                           </span>
                         </div>
                       )}
@@ -203,6 +359,13 @@ export default function Jobs() {
                 </Card>
               ))}
             </div>
+
+            <div ref={loadMoreRef} className="flex justify-center py-8" data-testid="jobs-load-more">
+              {isFetchingNextPage && (
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              )}
+            </div>
+            </>
           )}
         </div>
       </section>
@@ -0,0 +1,345 @@
+import { useEffect, useRef, useState } from "react";
+import { useLocation, useSearch } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Check, CheckCheck, Loader2, MessageSquare, Paperclip, Send, X } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { useAuth } from "@/contexts/auth-context";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { APPLICATION_STATUS_LABELS } from "@shared/pipeline";
+import type { ConversationSummary, ConversationWithMessages, Message } from "@shared/schema";
+
+const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+const ATTACHMENT_TYPES = [
+  "application/pdf",
+  "application/msword",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "image/jpeg",
+  "image/png",
+];
+
+// Threads are polled; new messages show up within this interval
+const REFRESH_INTERVAL_MS = 15 * 1000;
+
+function initials(name: string): string {
+  return name.split(/\s+/).map((part) => part[0]).join("").slice(0, 2).toUpperCase();
+}
+
+function messagePreview(message: Message | null): string {
+  if (!message) return "No messages yet";
+  return message.body || `Attachment: ${message.attachmentName ?? "file"}`;
+}
+
+function ConversationList({
+  conversations,
+  selectedId,
+  onSelect,
+}: {
+  conversations: ConversationSummary[];
+  selectedId: string | null;
+  onSelect: (applicationId: string) => void;
+}) {
+  return (
+    <div className="divide-y">
+      {conversations.map((conversation) => (
+        <button
+          key={conversation.applicationId}
+          onClick={() => onSelect(conversation.applicationId)}
+          className={`flex w-full items-start gap-3 p-3 text-left hover-elevate ${
+            conversation.applicationId === selectedId ? "bg-muted" : ""
+          }`}
+          data-testid={`conversation-${conversation.applicationId}`}
+        >
+          <Avatar className="h-9 w-9">
+            <AvatarImage src={conversation.otherParty.profileImageUrl ?? undefined} />
+            <AvatarFallback>{initials(conversation.otherParty.name)}</AvatarFallback>
+          </Avatar>
+          <div className="min-w-0 flex-1">
+            <div className="flex items-center justify-between gap-2">
+              <span className={`truncate text-sm ${conversation.unreadCount > 0 ? "font-semibold" : "font-medium"}`}>
+                {conversation.otherParty.name}
+              </span>
+              {conversation.unreadCount > 0 && (
+                <Badge className="h-5 min-w-5 justify-center px-1.5" data-testid={`badge-unread-${conversation.applicationId}`}>
+                  {conversation.unreadCount}
+                </Badge>
+              )}
+            </div>
+            <p className="truncate text-xs text-muted-foreground">{conversation.jobTitle}</p>
+            <p className="truncate text-xs text-muted-foreground">{messagePreview(conversation.lastMessage)}</p>
+          </div>
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function MessageBubble({ message, isOwn }: { message: Message; isOwn: boolean }) {
+  return (
+    <div className={`flex ${isOwn ? "justify-end" : "justify-start"}`} data-testid={`message-${message.id}`}>
+      <div className={`max-w-[75%] rounded-lg px-3 py-2 ${isOwn ? "bg-primary text-primary-foreground" : "bg-muted"}`}>
+        {message.body && <p className="whitespace-pre-wrap break-words text-sm">{message.body}</p>}
+        {message.attachmentUrl && (
+          <button
+            onClick={() => window.open("/objects" + message.attachmentUrl, "_blank")}
+            className="mt-1 flex items-center gap-1 text-sm underline underline-offset-2"
+            data-testid={`button-attachment-${message.id}`}
+          >
+            <Paperclip className="h-3 w-3" />
+            {message.attachmentName ?? "Attachment"}
+          </button>
+        )}
+        <div className={`mt-1 flex items-center justify-end gap-1 text-[11px] ${isOwn ? "text-primary-foreground/80" : "text-muted-foreground"}`}>
+          <span>{format(new Date(message.createdAt), "MMM d, h:mm a")}</span>
+          {isOwn && (message.readAt ? (
+            <span className="flex items-center gap-0.5" title={`Seen ${format(new Date(message.readAt), "MMM d, h:mm a")}`} data-testid={`status-seen-${message.id}`}>
+              <CheckCheck className="h-3 w-3" />
+              Seen
+            </span>
+          ) : (
+            <span className="flex items-center gap-0.5" data-testid={`status-sent-${message.id}`}>
+              <Check className="h-3 w-3" />
+              Sent
+            </span>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function ConversationThread({ applicationId }: { applicationId: string }) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [body, setBody] = useState("");
+  const [attachment, setAttachment] = useState<{ url: string; name: string } | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const { data, isLoading, error } = useQuery<ConversationWithMessages>({
+    queryKey: ["/api/applications", applicationId, "messages"],
+    refetchInterval: REFRESH_INTERVAL_MS,
+  });
+
+  // Loading the thread marks incoming messages read, so refresh the unread counts
+  const messageCount = data?.messages.length ?? 0;
+  useEffect(() => {
+    if (!data) return;
+    queryClient.invalidateQueries({ queryKey: ["/api/messages/unread-count"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+    bottomRef.current?.scrollIntoView({ block: "end" });
+  }, [applicationId, messageCount]);
+
+  const sendMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/applications/${applicationId}/messages`, {
+        body: body.trim(),
+        attachmentUrl: attachment?.url,
+        attachmentName: attachment?.name,
+      });
+    },
+    onSuccess: () => {
+      setBody("");
+      setAttachment(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/applications", applicationId, "messages"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Message not sent", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    if (!ATTACHMENT_TYPES.includes(file.type)) {
+      toast({
+        title: "Invalid file type",
+        description: "Attach a PDF, Word document, or JPEG/PNG image",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+      toast({ title: "File too large", description: "Attachments must be under 10MB", variant: "destructive" });
+      return;
+    }
+
+    try {
+      setIsUploading(true);
+      const response = await apiRequest("POST", "/api/objects/upload-attachment", {
+        contentType: file.type,
+        fileSize: file.size,
+      });
+      const { uploadURL, objectPath } = await response.json();
+
+      const uploadResponse = await fetch(uploadURL, {
+        method: "PUT",
+        body: file,
+        headers: { "Content-Type": file.type },
+      });
+      // GCS returns 2xx status codes for successful uploads (200 or 204)
+      if (uploadResponse.status < 200 || uploadResponse.status >= 300) {
+        throw new Error("Failed to upload attachment to storage");
+      }
+
+      setAttachment({ url: objectPath, name: file.name });
+    } catch (error: any) {
+      console.error("Attachment upload error:", error);
+      toast({ title: "Upload failed", description: error.message || "Failed to upload attachment", variant: "destructive" });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3 p-4">
+        <Skeleton className="h-12 w-2/3" />
+        <Skeleton className="ml-auto h-12 w-2/3" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return <p className="p-6 text-center text-sm text-muted-foreground">This conversation isn't available.</p>;
+  }
+
+  const { conversation, messages } = data;
+  const canSend = (body.trim() !== "" || attachment !== null) && !isUploading && !sendMutation.isPending;
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="border-b p-4">
+        <p className="font-semibold" data-testid="text-conversation-name">{conversation.otherParty.name}</p>
+        <p className="text-sm text-muted-foreground">
+          {conversation.jobTitle} · {APPLICATION_STATUS_LABELS[conversation.applicationStatus]}
+        </p>
+      </div>
+
+      <div className="flex-1 space-y-3 overflow-y-auto p-4" data-testid="message-list">
+        {messages.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            No messages yet. Say hello!
+          </p>
+        ) : (
+          messages.map((message) => (
+            <MessageBubble key={message.id} message={message} isOwn={message.senderId === user?.id} />
+          ))
+        )}
+        <div ref={bottomRef} />
+      </div>
+
+      <div className="space-y-2 border-t p-3">
+        {attachment && (
+          <div className="flex items-center gap-2 text-sm" data-testid="pending-attachment">
+            <Paperclip className="h-4 w-4" />
+            <span className="truncate">{attachment.name}</span>
+            <Button size="icon" variant="ghost" className="h-6 w-6" onClick={() => setAttachment(null)} data-testid="button-remove-attachment">
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        )}
+        <div className="flex items-end gap-2">
+          <input ref={fileInputRef} type="file" accept={ATTACHMENT_TYPES.join(",")} className="hidden" onChange={handleFileSelect} />
+          <Button
+            size="icon"
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isUploading}
+            data-testid="button-attach"
+          >
+            {isUploading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Paperclip className="h-4 w-4" />}
+          </Button>
+          <Textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && (e.metaKey || e.ctrlKey) && canSend) sendMutation.mutate();
+            }}
+            placeholder="Write a message…"
+            maxLength={5000}
+            rows={2}
+            className="flex-1 resize-none"
+            data-testid="input-message"
+          />
+          <Button size="icon" onClick={() => sendMutation.mutate()} disabled={!canSend} data-testid="button-send-message">
+            <Send className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function Messages() {
+  const { user } = useAuth();
+  const [, setLocation] = useLocation();
+  const searchParams = new URLSearchParams(useSearch());
+  const selectedId = searchParams.get("application");
+  const basePath = user?.role === "employer" ? "/employer/messages" : "/messages";
+
+  const { data: conversations, isLoading } = useQuery<ConversationSummary[]>({
+    queryKey: ["/api/conversations"],
+    refetchInterval: REFRESH_INTERVAL_MS,
+  });
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold mb-2">Messages</h1>
+        <p className="text-muted-foreground">
+          {user?.role === "employer"
+            ? "Conversations with candidates who applied to your jobs"
+            : "Conversations with employers about your applications"}
+        </p>
+      </div>
+
+      <Card className="grid h-[calc(100vh-14rem)] min-h-[420px] grid-cols-1 overflow-hidden md:grid-cols-[320px_1fr]">
+        <div className={`overflow-y-auto border-r ${selectedId ? "hidden md:block" : ""}`}>
+          <CardHeader className="border-b p-4">
+            <CardTitle className="text-base">Conversations</CardTitle>
+          </CardHeader>
+          {isLoading ? (
+            <div className="space-y-3 p-3">
+              <Skeleton className="h-14 w-full" />
+              <Skeleton className="h-14 w-full" />
+            </div>
+          ) : conversations && conversations.length > 0 ? (
+            <ConversationList
+              conversations={conversations}
+              selectedId={selectedId}
+              onSelect={(applicationId) => setLocation(`${basePath}?application=${applicationId}`)}
+            />
+          ) : (
+            <p className="p-4 text-sm text-muted-foreground" data-testid="text-no-conversations">
+              {user?.role === "employer"
+                ? "No conversations yet. Message a candidate from their application."
+                : "No conversations yet. You can message an employer from any of your applications."}
+            </p>
+          )}
+        </div>
+
+        <CardContent className={`h-full min-h-0 p-0 ${selectedId ? "" : "hidden md:block"}`}>
+          {selectedId ? (
+            <ConversationThread key={selectedId} applicationId={selectedId} />
+          ) : (
+            <div className="flex h-full flex-col items-center justify-center gap-2 text-muted-foreground">
+              <MessageSquare className="h-10 w-10" />
+              <p className="text-sm">Select a conversation</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
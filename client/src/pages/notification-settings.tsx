@@ -0,0 +1,106 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  NOTIFICATION_EVENTS,
+  NOTIFICATION_EVENT_CONFIG,
+  NOTIFICATION_FREQUENCY_LABELS,
+  type NotificationEvent,
+  type NotificationPreferenceSetting,
+} from "@shared/notifications";
+
+export default function NotificationSettings() {
+  const { toast } = useToast();
+
+  const { data: preferences, isLoading } = useQuery<NotificationPreferenceSetting[]>({
+    queryKey: ["/api/notification-preferences"],
+  });
+
+  // Each change is saved on its own, so there's no form to submit
+  const updateMutation = useMutation({
+    mutationFn: async (preference: NotificationPreferenceSetting) => {
+      const res = await apiRequest("PUT", "/api/notification-preferences", { preferences: [preference] });
+      return (await res.json()) as NotificationPreferenceSetting[];
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(["/api/notification-preferences"], updated);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't save your preference", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const events = NOTIFICATION_EVENTS.filter(event => preferences?.some(pref => pref.event === event));
+  const find = (event: NotificationEvent, channel: NotificationPreferenceSetting["channel"]) =>
+    preferences?.find(pref => pref.event === event && pref.channel === channel);
+
+  return (
+    <div className="space-y-6 max-w-3xl">
+      <div>
+        <h1 className="text-3xl font-bold mb-2">Notification Settings</h1>
+        <p className="text-muted-foreground">
+          Choose how you hear about activity on ZambaJobs. Digests arrive at 8:00 AM PHT, daily or every Monday.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-4">
+          <Skeleton className="h-24 w-full" />
+          <Skeleton className="h-24 w-full" />
+        </div>
+      ) : (
+        events.map(event => {
+          const config = NOTIFICATION_EVENT_CONFIG[event];
+          const email = find(event, "email");
+          const inApp = find(event, "in_app");
+          return (
+            <Card key={event} data-testid={`card-notification-${event}`}>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-lg">{config.label}</CardTitle>
+                <CardDescription>{config.description}</CardDescription>
+              </CardHeader>
+              <CardContent className="flex flex-col sm:flex-row gap-6">
+                {email && (
+                  <div className="space-y-2 sm:w-56">
+                    <Label htmlFor={`email-${event}`}>Email</Label>
+                    <Select
+                      value={email.frequency}
+                      onValueChange={(frequency) => updateMutation.mutate({ ...email, frequency: frequency as typeof email.frequency })}
+                      disabled={updateMutation.isPending}
+                    >
+                      <SelectTrigger id={`email-${event}`} data-testid={`select-email-${event}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {config.channels.email!.options.map(option => (
+                          <SelectItem key={option} value={option}>{NOTIFICATION_FREQUENCY_LABELS[option]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                {inApp && (
+                  <div className="flex items-center gap-3 sm:pt-7">
+                    <Switch
+                      id={`in-app-${event}`}
+                      checked={inApp.frequency !== "off"}
+                      onCheckedChange={(checked) => updateMutation.mutate({ ...inApp, frequency: checked ? "instant" : "off" })}
+                      disabled={updateMutation.isPending}
+                      data-testid={`switch-in-app-${event}`}
+                    />
+                    <Label htmlFor={`in-app-${event}`}>Show in the notification bell</Label>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+    </div>
+  );
+}
@@ -10,24 +10,35 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { MultiSelect } from "@/components/ui/multi-select";
+import { LocationPicker } from "@/components/location-picker";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDescription } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Briefcase, MapPin, Users, Clock, ArrowLeft, Upload, FileText, X } from "lucide-react";
 import { Link } from "wouter";
+import { ScreeningQuestionsEditor } from "@/components/screening-questions";
+import { formatPhCity } from "@shared/ph-locations";
+import { screeningQuestionsSchema, type ScreeningQuestion } from "@shared/screening";
 
 const jobSchema = z.object({
   title: z.string().min(3, "Job title must be at least 3 characters"),
   description: z.string().min(50, "Description must be at least 50 characters"),
   location: z.string().min(1, "Location is required"),
+  locationCity: z.string().optional(),
   jobType: z.enum(["full_time", "part_time", "contract", "remote", "hybrid"]),
   salaryMin: z.string().optional(),
   salaryMax: z.string().optional(),
+  salaryPeriod: z.enum(["hourly", "daily", "monthly", "annual"]),
   categories: z.array(z.string()).optional(),
   requirements: z.string().optional(),
   responsibilities: z.string().optional(),
   benefits: z.string().optional(),
   skills: z.string().optional(),
+  // yyyy-mm-dd from the date input; applications close at the end of that day
+  applicationDeadline: z.string().optional().refine(
+    (value) => !value || new Date(`${value}T23:59:59`) > new Date(),
+    "Deadline must be in the future"
+  ),
 });
 
 type JobForm = z.infer<typeof jobSchema>;
@@ -62,6 +73,7 @@ export default function PostJob() {
   const [, setLocation] = useLocation();
   const [isUploadingDocument, setIsUploadingDocument] = useState(false);
   const [requirementDocumentUrl, setRequirementDocumentUrl] = useState<string | null>(null);
+  const [screeningQuestions, setScreeningQuestions] = useState<ScreeningQuestion[]>([]);
 
   const form = useForm<JobForm>({
     resolver: zodResolver(jobSchema),
@@ -69,14 +81,17 @@ export default function PostJob() {
       title: "",
       description: "",
       location: "",
+      locationCity: "",
       jobType: "full_time",
       salaryMin: undefined,
       salaryMax: undefined,
+      salaryPeriod: "monthly",
       categories: [],
       requirements: "",
       responsibilities: "",
       benefits: "",
       skills: "",
+      applicationDeadline: "",
     },
   });
 
@@ -162,6 +177,10 @@ export default function PostJob() {
         benefits: data.benefits ? data.benefits.split("\n").filter(Boolean) : [],
         skills: data.skills ? data.skills.split(",").map(s => s.trim()).filter(Boolean) : [],
         requirementDocumentUrl: requirementDocumentUrl || undefined,
+        applicationDeadline: data.applicationDeadline
+          ? new Date(`${data.applicationDeadline}T23:59:59`).toISOString()
+          : undefined,
+        screeningQuestions,
       };
       return await apiRequest("POST", "/api/jobs", payload);
     },
@@ -205,7 +224,17 @@ export default function PostJob() {
         </CardHeader>
         <CardContent>
           <Form {...form}>
-            <form onSubmit={form.handleSubmit((data) => createJobMutation.mutate(data))} className="space-y-6">
+            <form
+              onSubmit={form.handleSubmit((data) => {
+                const screening = screeningQuestionsSchema.safeParse(screeningQuestions);
+                if (!screening.success) {
+                  toast({ title: "Check your screening questions", description: screening.error.errors[0]?.message, variant: "destructive" });
+                  return;
+                }
+                createJobMutation.mutate(data);
+              })}
+              className="space-y-6"
+            >
               <FormField
                 control={form.control}
                 name="title"
@@ -240,6 +269,30 @@ export default function PostJob() {
               />
 
               <div className="grid gap-4 md:grid-cols-2">
+                <FormField
+                  control={form.control}
+                  name="locationCity"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>City / Municipality</FormLabel>
+                      <FormControl>
+                        <LocationPicker
+                          value={field.value}
+                          onChange={(city) => {
+                            field.onChange(city?.code ?? "");
+                            if (city) {
+                              form.setValue("location", formatPhCity(city), { shouldValidate: true });
+                            }
+                          }}
+                          testId="select-location-city"
+                        />
+                      </FormControl>
+                      <FormDescription>Lets job seekers find this posting with "within N km" searches</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
                 <FormField
                   control={form.control}
                   name="location"
@@ -303,7 +356,32 @@ export default function PostJob() {
                 )}
               />
 
-              <div className="grid gap-4 md:grid-cols-2">
+              <div className="grid gap-4 md:grid-cols-3">
+                <FormField
+                  control={form.control}
+                  name="salaryPeriod"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Pay Period</FormLabel>
+                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-salary-period">
+                            <SelectValue placeholder="Select pay period" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="hourly">Per Hour</SelectItem>
+                          <SelectItem value="daily">Per Day</SelectItem>
+                          <SelectItem value="monthly">Per Month</SelectItem>
+                          <SelectItem value="annual">Per Year</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>How often the salary is paid</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
                 <FormField
                   control={form.control}
                   name="salaryMin"
@@ -323,7 +401,7 @@ export default function PostJob() {
                           />
                         </div>
                       </FormControl>
-                      <FormDescription>Monthly salary in Philippine Peso</FormDescription>
+                      <FormDescription>Amount in Philippine Peso per pay period</FormDescription>
                       <FormMessage />
                     </FormItem>
                   )}
@@ -348,13 +426,28 @@ export default function PostJob() {
                           />
                         </div>
                       </FormControl>
-                      <FormDescription>Monthly salary in Philippine Peso</FormDescription>
+                      <FormDescription>Amount in Philippine Peso per pay period</FormDescription>
                       <FormMessage />
                     </FormItem>
                   )}
                 />
               </div>
 
+              <FormField
+                control={form.control}
+                name="applicationDeadline"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Application Deadline (optional)</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="date" className="md:w-[240px]" data-testid="input-application-deadline" />
+                    </FormControl>
+                    <FormDescription>The job stops accepting applications after this day</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <FormField
                 control={form.control}
                 name="skills"
@@ -430,6 +523,17 @@ export default function PostJob() {
                 )}
               />
 
+              <div className="space-y-2">
+                <label className="text-sm font-medium">
+                  Screening Questions (Optional)
+                </label>
+                <p className="text-sm text-muted-foreground">
+                  Ask applicants questions when they apply. Knockout rules can reject or flag applicants automatically
+                  based on their answers; applicants don't see the rules.
+                </p>
+                <ScreeningQuestionsEditor value={screeningQuestions} onChange={setScreeningQuestions} />
+              </div>
+
               <div className="space-y-2">
                 <label className="text-sm font-medium">
                   Requirement Document (Optional)
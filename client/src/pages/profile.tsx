@@ -11,22 +11,32 @@ import { Badge } from "@/components/ui/badge";
 import { MultiSelect } from "@/components/ui/multi-select";
 import { Separator } from "@/components/ui/separator";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDescription } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/contexts/auth-context";
 import { 
-  User, Briefcase, GraduationCap, Award, FileText, Plus, Trash2, 
-  MapPin, Phone, Linkedin, Globe, Upload, Building2
+  User, Briefcase, GraduationCap, Award, Plus, Trash2, Pencil, 
+  Phone, Linkedin, Globe, Upload, Building2
 } from "lucide-react";
 import type { JobSeekerProfile, WorkExperience, Education, Certification, EmployerProfile } from "@shared/schema";
 import { PhilippineDatePicker } from "@/components/philippine-date-picker";
+import { LocationPicker } from "@/components/location-picker";
+import { ResumeImport, type ResumeProfileFields } from "@/components/resume-import";
+import { CvExport } from "@/components/cv-export";
+import { ResumeManager } from "@/components/resumes";
+import { SortableList } from "@/components/sortable-list";
+import { findPhCityByLabel, formatPhCity } from "@shared/ph-locations";
 import { formatPhilippinePhone, isValidPhilippinePhone } from "@/lib/philippines";
+import { isHttpLink } from "@/lib/utils";
 
 const profileSchema = z.object({
   headline: z.string().min(3, "Headline must be at least 3 characters").or(z.literal("")).optional(),
   bio: z.string().min(10, "Bio must be at least 10 characters").or(z.literal("")).optional(),
   location: z.string().optional(),
+  locationCity: z.string().optional(),
+  expectedSalary: z.string().regex(/^\d*$/, "Enter a whole peso amount").optional(), // PHP per month
   phoneNumber: z.string()
     .optional()
     .refine((val) => !val || val.trim() === "" || isValidPhilippinePhone(val), {
@@ -38,7 +48,6 @@ const profileSchema = z.object({
   skills: z.string().optional(), // Comma-separated
   categories: z.array(z.string()).optional(), // Multiple job categories
   profileImage: z.string().optional(),
-  resumeUrl: z.string().optional(),
 });
 
 const workExpSchema = z.object({
@@ -49,6 +58,12 @@ const workExpSchema = z.object({
   endDate: z.string().optional(), // YYYY-MM format
   isCurrent: z.boolean().default(false),
   description: z.string().optional(),
+}).refine((data) => data.isCurrent || !!data.endDate, {
+  path: ["endDate"],
+  message: "Add an end date, or tick \"I currently work here\"",
+}).refine((data) => !data.endDate || data.isCurrent || data.endDate >= data.startDate, {
+  path: ["endDate"],
+  message: "End date can't be before the start date",
 });
 
 const educationSchema = z.object({
@@ -65,7 +80,7 @@ const certificationSchema = z.object({
   issuer: z.string().min(1, "Issuer is required"),
   issueDate: z.string().optional(),
   expiryDate: z.string().optional(),
-  credentialUrl: z.string().url("Must be a valid URL").optional().or(z.literal("")),
+  credentialUrl: z.string().url("Must be a valid URL").refine(isHttpLink, "Must be a valid URL").optional().or(z.literal("")),
 });
 
 type ProfileForm = z.infer<typeof profileSchema>;
@@ -98,14 +113,24 @@ const categoryOptions = [
     { value: "environmental", label: "Environmental Services" },
   ];
 
+// Order endpoint path -> list on the /api/profile response
+const ENTRY_SECTIONS = {
+  "work-experience": "workExperience",
+  education: "education",
+  certifications: "certifications",
+} as const;
+
 export default function Profile() {
   const { user } = useAuth();
   const { toast } = useToast();
   const [showWorkExpForm, setShowWorkExpForm] = useState(false);
   const [showEducationForm, setShowEducationForm] = useState(false);
   const [showCertForm, setShowCertForm] = useState(false);
+  // Entry being edited in the form above each list; null while adding
+  const [editingWorkExpId, setEditingWorkExpId] = useState<string | null>(null);
+  const [editingEducationId, setEditingEducationId] = useState<string | null>(null);
+  const [editingCertId, setEditingCertId] = useState<string | null>(null);
   const [isUploadingImage, setIsUploadingImage] = useState(false);
-  const [isUploadingResume, setIsUploadingResume] = useState(false);
 
   const { data: profileData, isLoading } = useQuery<any>({
     queryKey: ["/api/profile"],
@@ -125,13 +150,14 @@ export default function Profile() {
       headline: "",
       bio: "",
       location: "",
+      locationCity: "",
+      expectedSalary: "",
       phoneNumber: "",
       linkedinUrl: "",
       portfolioUrl: "",
       skills: "",
       categories: [],
       profileImage: "",
-      resumeUrl: "",
     },
   });
 
@@ -142,13 +168,14 @@ export default function Profile() {
         headline: profile.headline || "",
         bio: profile.bio || "",
         location: profile.location || "",
+        locationCity: profile.locationCity || "",
+        expectedSalary: profile.expectedSalary?.toString() || "",
         phoneNumber: profile.phoneNumber || "",
         linkedinUrl: profile.linkedinUrl || "",
         portfolioUrl: profile.portfolioUrl || "",
         skills: profile.skills?.join(", ") || "",
         categories: profile.categories || [],
         profileImage: profile.profileImage || "",
-        resumeUrl: profile.resumeUrl || "",
       });
     }
   }, [profile?.id, isLoading, form]); // Include form in dependencies
@@ -207,143 +234,13 @@ export default function Profile() {
     },
   });
 
-  const handleResumeUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-
-    // Client-side validation
-    const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
-    const ALLOWED_TYPES = ['application/pdf', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'];
-
-    if (!ALLOWED_TYPES.includes(file.type)) {
-      toast({ 
-        title: "Invalid file type", 
-        description: "Only PDF and Word documents are allowed", 
-        variant: "destructive" 
-      });
-      return;
+  // Imported fields are already saved; mirror them into the form without touching other unsaved edits
+  const applyResumeFields = ({ skills, ...fields }: ResumeProfileFields) => {
+    for (const [key, value] of Object.entries(fields)) {
+      form.setValue(key as keyof ProfileForm, value);
     }
-
-    if (file.size > MAX_FILE_SIZE) {
-      toast({ 
-        title: "File too large", 
-        description: "Resume must be under 10MB", 
-        variant: "destructive" 
-      });
-      return;
-    }
-
-    try {
-      setIsUploadingResume(true);
-      
-      // Get resume upload URL with validation
-      const response = await apiRequest("POST", "/api/objects/upload-resume", {
-        contentType: file.type,
-        fileSize: file.size
-      });
-      const data: any = await response.json();
-      const { uploadURL, objectPath } = data;
-      console.log("DEBUG: Resume upload response:", { uploadURL: uploadURL ? "YES" : "NO", objectPath });
-      
-      // Upload resume to object storage
-      const uploadResponse = await fetch(uploadURL, {
-        method: "PUT",
-        body: file,
-        headers: {
-          "Content-Type": file.type,
-        },
-      });
-
-      // GCS returns 2xx status codes for successful uploads (200 or 204)
-      if (uploadResponse.status < 200 || uploadResponse.status >= 300) {
-        const errorText = await uploadResponse.text().catch(() => 'Unknown error');
-        console.error("GCS resume upload failed:", uploadResponse.status, errorText);
-        throw new Error("Failed to upload resume to storage");
-      }
-      
-      // DO NOT set form value here - wait until save succeeds
-      
-      // Automatically save the complete current form state with new resume URL
-      try {
-        const currentFormData = form.getValues();
-        
-        // Convert empty strings to undefined for optional fields (allows validation to pass)
-        const dataToValidate = {
-          headline: currentFormData.headline?.trim() || undefined,
-          bio: currentFormData.bio?.trim() || undefined,
-          location: currentFormData.location?.trim() || undefined,
-          phoneNumber: currentFormData.phoneNumber?.trim() || undefined,
-          linkedinUrl: currentFormData.linkedinUrl?.trim() || undefined,
-          portfolioUrl: currentFormData.portfolioUrl?.trim() || undefined,
-          skills: currentFormData.skills?.trim() || undefined,
-          profileImage: currentFormData.profileImage || undefined,
-          resumeUrl: objectPath || undefined,
-        };
-        
-        // Validate form data before auto-saving
-        const validationResult = await profileSchema.safeParseAsync(dataToValidate);
-        
-        if (!validationResult.success) {
-          // Reset form value to previous state since we can't auto-save
-          form.setValue("resumeUrl", profile?.resumeUrl || "");
-          
-          // Show specific validation errors
-          const errors = validationResult.error.issues.map(i => i.message).join(", ");
-          toast({ 
-            title: "Resume uploaded but not saved", 
-            description: `Please fix validation errors: ${errors}`,
-            variant: "destructive"
-          });
-          return;
-        }
-        
-        // Use validated data (includes transforms like phone number formatting)
-        const validatedData = validationResult.data;
-        const skillsArray = validatedData.skills?.trim() 
-          ? validatedData.skills.split(",").map(s => s.trim()).filter(Boolean)
-          : [];
-        const categoriesArray = validatedData.categories || [];
-        
-        // Build profile update with explicit file URLs
-        const profileUpdate: any = {
-          headline: validatedData.headline,
-          bio: validatedData.bio,
-          location: validatedData.location,
-          phoneNumber: validatedData.phoneNumber,
-          linkedinUrl: validatedData.linkedinUrl,
-          portfolioUrl: validatedData.portfolioUrl,
-          skills: skillsArray,
-          categories: categoriesArray,
-          resumeUrl: objectPath, // NEW resume URL from upload
-        };
-        
-        // Preserve existing profile image
-        if (currentFormData.profileImage) {
-          profileUpdate.profileImage = currentFormData.profileImage;
-        }
-        
-        console.log("DEBUG: Sending resume update with:", { resumeUrl: profileUpdate.resumeUrl });
-        await apiRequest("PUT", "/api/profile", profileUpdate);
-        
-        // Only update form value AFTER successful save
-        form.setValue("resumeUrl", objectPath);
-        
-        // Update the query cache to reflect the change (for dashboard/other views)
-        queryClient.setQueryData(["/api/profile"], (old: any) => ({
-          ...old,
-          resumeUrl: objectPath
-        }));
-        
-        toast({ title: "Resume uploaded", description: "Resume uploaded and profile saved successfully" });
-      } catch (saveError: any) {
-        // If save fails, reset form value to maintain UI consistency
-        form.setValue("resumeUrl", profile?.resumeUrl || "");
-        throw new Error("Failed to save resume: " + saveError.message);
-      }
-    } catch (error: any) {
-      toast({ title: "Upload failed", description: error.message, variant: "destructive" });
-    } finally {
-      setIsUploadingResume(false);
+    if (skills) {
+      form.setValue("skills", skills.join(", "));
     }
   };
 
@@ -417,7 +314,6 @@ export default function Profile() {
           portfolioUrl: currentFormData.portfolioUrl?.trim() || undefined,
           skills: currentFormData.skills?.trim() || undefined,
           profileImage: objectPath,
-          resumeUrl: currentFormData.resumeUrl || undefined,
         };
         
         // Validate form data before auto-saving
@@ -457,11 +353,6 @@ export default function Profile() {
           profileImage: objectPath, // NEW profile image from upload
         };
         
-        // Preserve existing resume
-        if (currentFormData.resumeUrl) {
-          profileUpdate.resumeUrl = currentFormData.resumeUrl;
-        }
-        
         console.log("DEBUG: Sending image update with:", { profileImage: profileUpdate.profileImage });
         await apiRequest("PUT", "/api/profile", profileUpdate);
         
@@ -494,6 +385,8 @@ export default function Profile() {
         headline: data.headline?.trim() || undefined,
         bio: data.bio?.trim() || undefined,
         location: data.location?.trim() || undefined,
+        locationCity: data.locationCity || "",
+        expectedSalary: data.expectedSalary ? Number(data.expectedSalary) : null,
         phoneNumber: data.phoneNumber?.trim() || undefined,
         linkedinUrl: data.linkedinUrl?.trim() || undefined,
         portfolioUrl: data.portfolioUrl?.trim() || undefined,
@@ -502,7 +395,6 @@ export default function Profile() {
           : [],
         categories: data.categories || [],
         profileImage: data.profileImage || undefined,
-        resumeUrl: data.resumeUrl || undefined,
       };
       return await apiRequest("PUT", "/api/profile", cleanedData);
     },
@@ -515,15 +407,17 @@ export default function Profile() {
     },
   });
 
-  const addWorkExpMutation = useMutation({
+  const saveWorkExpMutation = useMutation({
     mutationFn: async (data: WorkExpForm) => {
-      return await apiRequest("POST", "/api/profile/work-experience", data);
+      const entry = { ...data, endDate: data.isCurrent ? "" : data.endDate };
+      return editingWorkExpId
+        ? await apiRequest("PUT", `/api/profile/work-experience/${editingWorkExpId}`, entry)
+        : await apiRequest("POST", "/api/profile/work-experience", entry);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/profile"] });
-      toast({ title: "Work experience added" });
-      setShowWorkExpForm(false);
-      workExpForm.reset();
+      toast({ title: editingWorkExpId ? "Work experience updated" : "Work experience added" });
+      closeWorkExpForm();
     },
     onError: (error: Error) => {
       toast({ title: "Error", description: error.message, variant: "destructive" });
@@ -540,15 +434,16 @@ export default function Profile() {
     },
   });
 
-  const addEducationMutation = useMutation({
+  const saveEducationMutation = useMutation({
     mutationFn: async (data: EducationForm) => {
-      return await apiRequest("POST", "/api/profile/education", data);
+      return editingEducationId
+        ? await apiRequest("PUT", `/api/profile/education/${editingEducationId}`, data)
+        : await apiRequest("POST", "/api/profile/education", data);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/profile"] });
-      toast({ title: "Education added" });
-      setShowEducationForm(false);
-      educationForm.reset();
+      toast({ title: editingEducationId ? "Education updated" : "Education added" });
+      closeEducationForm();
     },
     onError: (error: Error) => {
       toast({ title: "Error", description: error.message, variant: "destructive" });
@@ -565,15 +460,16 @@ export default function Profile() {
     },
   });
 
-  const addCertificationMutation = useMutation({
+  const saveCertificationMutation = useMutation({
     mutationFn: async (data: CertificationForm) => {
-      return await apiRequest("POST", "/api/profile/certifications", data);
+      return editingCertId
+        ? await apiRequest("PUT", `/api/profile/certifications/${editingCertId}`, data)
+        : await apiRequest("POST", "/api/profile/certifications", data);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/profile"] });
-      toast({ title: "Certification added" });
-      setShowCertForm(false);
-      certForm.reset();
+      toast({ title: editingCertId ? "Certification updated" : "Certification added" });
+      closeCertForm();
     },
     onError: (error: Error) => {
       toast({ title: "Error", description: error.message, variant: "destructive" });
@@ -590,6 +486,83 @@ export default function Profile() {
     },
   });
 
+  // Shows the new order straight away and rolls back if the server rejects it
+  const reorderMutation = useMutation({
+    mutationFn: async ({ section, ids }: { section: keyof typeof ENTRY_SECTIONS; ids: string[] }) => {
+      return await apiRequest("PUT", `/api/profile/${section}/order`, { ids });
+    },
+    onMutate: ({ section, ids }) => {
+      const key = ENTRY_SECTIONS[section];
+      queryClient.setQueryData(["/api/profile"], (old: any) => old && {
+        ...old,
+        [key]: ids.map((id) => old[key].find((entry: { id: string }) => entry.id === id)).filter(Boolean),
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/profile"] });
+    },
+  });
+
+  const closeWorkExpForm = () => {
+    setShowWorkExpForm(false);
+    setEditingWorkExpId(null);
+    workExpForm.reset();
+  };
+
+  const closeEducationForm = () => {
+    setShowEducationForm(false);
+    setEditingEducationId(null);
+    educationForm.reset();
+  };
+
+  const closeCertForm = () => {
+    setShowCertForm(false);
+    setEditingCertId(null);
+    certForm.reset();
+  };
+
+  const editWorkExp = (exp: WorkExperience) => {
+    setEditingWorkExpId(exp.id);
+    workExpForm.reset({
+      companyName: exp.companyName,
+      position: exp.position,
+      location: exp.location ?? "",
+      startDate: exp.startDate,
+      endDate: exp.endDate ?? "",
+      isCurrent: exp.isCurrent,
+      description: exp.description ?? "",
+    });
+    setShowWorkExpForm(true);
+  };
+
+  const editEducation = (edu: Education) => {
+    setEditingEducationId(edu.id);
+    educationForm.reset({
+      institution: edu.institution,
+      degree: edu.degree,
+      fieldOfStudy: edu.fieldOfStudy ?? "",
+      startYear: edu.startYear,
+      endYear: edu.endYear ?? "",
+      description: edu.description ?? "",
+    });
+    setShowEducationForm(true);
+  };
+
+  const editCertification = (cert: Certification) => {
+    setEditingCertId(cert.id);
+    certForm.reset({
+      name: cert.name,
+      issuer: cert.issuer,
+      issueDate: cert.issueDate ?? "",
+      expiryDate: cert.expiryDate ?? "",
+      credentialUrl: cert.credentialUrl ?? "",
+    });
+    setShowCertForm(true);
+  };
+
   // Employer update mutation - always initialize to avoid hooks violation
   const updateEmployerMutation = useMutation({
     mutationFn: async (data: any) => {
@@ -694,10 +667,12 @@ export default function Profile() {
                       <FormItem>
                         <FormLabel>Location</FormLabel>
                         <FormControl>
-                          <div className="relative">
-                            <MapPin className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-                            <Input {...field} placeholder="City, Country" className="pl-10" data-testid="input-location" />
-                          </div>
+                          <LocationPicker
+                            value={findPhCityByLabel(field.value)?.code}
+                            onChange={(city) => field.onChange(city ? formatPhCity(city) : "")}
+                            placeholder={field.value || "Search city or municipality"}
+                            testId="input-location"
+                          />
                         </FormControl>
                         <FormMessage />
                       </FormItem>
@@ -781,50 +756,18 @@ export default function Profile() {
                 )}
               />
 
-              {/* Resume Upload */}
-              <FormField
-                control={form.control}
-                name="resumeUrl"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Resume</FormLabel>
-                    <div className="space-y-2">
-                      {field.value && (
-                        <div className="flex items-center gap-2 p-3 bg-muted rounded-md">
-                          <FileText className="h-4 w-4 text-primary" />
-                          <span className="text-sm flex-1">Resume uploaded</span>
-                          <a 
-                            href={`/objects${field.value}`} 
-                            target="_blank" 
-                            rel="noopener noreferrer"
-                            className="text-sm text-primary hover:underline"
-                            data-testid="link-resume-view"
-                          >
-                            View
-                          </a>
-                        </div>
-                      )}
-                      <FormControl>
-                        <div>
-                          <Input
-                            type="file"
-                            accept=".pdf,.doc,.docx"
-                            onChange={handleResumeUpload}
-                            disabled={isUploadingResume}
-                            className="max-w-sm"
-                            data-testid="input-resume"
-                          />
-                          {isUploadingResume && (
-                            <p className="text-sm text-muted-foreground mt-2">Uploading resume...</p>
-                          )}
-                        </div>
-                      </FormControl>
-                    </div>
-                    <FormDescription>Upload your resume (PDF, DOC, or DOCX - max 10MB)</FormDescription>
-                    <FormMessage />
-                  </FormItem>
+              {/* Resumes */}
+              <div className="space-y-2">
+                <ResumeManager />
+                {profile?.resumeUrl && (
+                  <div className="flex items-center gap-2 p-3 bg-muted rounded-md">
+                    <span className="text-sm flex-1">Fill in your profile from your default resume</span>
+                    <ResumeImport profile={profile} onFieldsApplied={applyResumeFields} />
+                  </div>
                 )}
-              />
+              </div>
+
+              <CvExport />
 
               <FormField
                 control={form.control}
@@ -858,15 +801,21 @@ export default function Profile() {
               <div className="grid gap-4 md:grid-cols-2">
                 <FormField
                   control={form.control}
-                  name="location"
+                  name="locationCity"
                   render={({ field }) => (
                     <FormItem>
                       <FormLabel>Location</FormLabel>
                       <FormControl>
-                        <div className="relative">
-                          <MapPin className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-                          <Input {...field} placeholder="City, Country" className="pl-10" data-testid="input-location" />
-                        </div>
+                        <LocationPicker
+                          value={field.value}
+                          onChange={(city) => {
+                            field.onChange(city?.code ?? "");
+                            form.setValue("location", city ? formatPhCity(city) : "");
+                          }}
+                          // Profiles saved before the picker existed only have free text
+                          placeholder={form.watch("location") || "Search city or municipality"}
+                          testId="input-location"
+                        />
                       </FormControl>
                       <FormMessage />
                     </FormItem>
@@ -891,6 +840,24 @@ export default function Profile() {
                   )}
                 />
 
+                <FormField
+                  control={form.control}
+                  name="expectedSalary"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Expected Monthly Salary</FormLabel>
+                      <FormControl>
+                        <div className="relative">
+                          <span className="absolute left-3 top-1/2 -translate-y-1/2 text-sm font-semibold text-muted-foreground">₱</span>
+                          <Input {...field} type="number" min={0} placeholder="25000" className="pl-8" data-testid="input-expected-salary" />
+                        </div>
+                      </FormControl>
+                      <FormDescription>Used to rank job recommendations by pay</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
                 <FormField
                   control={form.control}
                   name="linkedinUrl"
@@ -983,7 +950,7 @@ export default function Profile() {
             <Button
               variant="outline"
               size="sm"
-              onClick={() => setShowWorkExpForm(!showWorkExpForm)}
+              onClick={() => (showWorkExpForm ? closeWorkExpForm() : setShowWorkExpForm(true))}
               data-testid="button-add-work-exp"
             >
               <Plus className="h-4 w-4 mr-2" />
@@ -996,7 +963,7 @@ export default function Profile() {
             <Card className="bg-muted/30">
               <CardContent className="pt-6">
                 <Form {...workExpForm}>
-                  <form onSubmit={workExpForm.handleSubmit((data) => addWorkExpMutation.mutate(data))} className="space-y-4">
+                  <form onSubmit={workExpForm.handleSubmit((data) => saveWorkExpMutation.mutate(data))} className="space-y-4">
                     <div className="grid gap-4 md:grid-cols-2">
                       <FormField
                         control={workExpForm.control}
@@ -1065,23 +1032,40 @@ export default function Profile() {
                         name="endDate"
                         render={({ field }) => (
                           <FormItem>
-                            <FormLabel>End Date (Optional)</FormLabel>
+                            <FormLabel>End Date</FormLabel>
                             <FormControl>
                               <PhilippineDatePicker
-                                value={field.value || ""}
+                                value={workExpForm.watch("isCurrent") ? "" : field.value || ""}
                                 onChange={field.onChange}
                                 mode="month-year"
-                                placeholder="Select end date or leave blank"
+                                placeholder={workExpForm.watch("isCurrent") ? "Present" : "Select end date"}
+                                disabled={workExpForm.watch("isCurrent")}
                                 testId="input-end-date"
                               />
                             </FormControl>
-                            <FormDescription>Leave blank if currently working here</FormDescription>
                             <FormMessage />
                           </FormItem>
                         )}
                       />
                     </div>
 
+                    <FormField
+                      control={workExpForm.control}
+                      name="isCurrent"
+                      render={({ field }) => (
+                        <FormItem className="flex flex-row items-center space-x-3 space-y-0">
+                          <FormControl>
+                            <Checkbox
+                              checked={field.value}
+                              onCheckedChange={(checked) => field.onChange(checked === true)}
+                              data-testid="checkbox-is-current"
+                            />
+                          </FormControl>
+                          <FormLabel className="font-normal">I currently work here</FormLabel>
+                        </FormItem>
+                      )}
+                    />
+
                     <FormField
                       control={workExpForm.control}
                       name="description"
@@ -1097,10 +1081,10 @@ export default function Profile() {
                     />
 
                     <div className="flex gap-2">
-                      <Button type="submit" disabled={addWorkExpMutation.isPending} data-testid="button-save-work-exp">
-                        {addWorkExpMutation.isPending ? "Adding..." : "Add"}
+                      <Button type="submit" disabled={saveWorkExpMutation.isPending} data-testid="button-save-work-exp">
+                        {saveWorkExpMutation.isPending ? "Saving..." : editingWorkExpId ? "Save" : "Add"}
                       </Button>
-                      <Button type="button" variant="ghost" onClick={() => setShowWorkExpForm(false)}>
+                      <Button type="button" variant="ghost" onClick={closeWorkExpForm}>
                         Cancel
                       </Button>
                     </div>
@@ -1111,35 +1095,49 @@ export default function Profile() {
           )}
 
           {profile?.workExperience && profile.workExperience.length > 0 ? (
-            <div className="space-y-4">
-              {profile.workExperience.map((exp: WorkExperience) => (
-                <Card key={exp.id} data-testid={`work-exp-${exp.id}`}>
+            <SortableList
+              items={profile.workExperience as WorkExperience[]}
+              onReorder={(ids) => reorderMutation.mutate({ section: "work-experience", ids })}
+              disabled={reorderMutation.isPending}
+              testId="sortable-work-exp"
+              renderItem={(exp) => (
+                <Card data-testid={`work-exp-${exp.id}`}>
                   <CardHeader>
                     <div className="flex items-start justify-between">
                       <div>
                         <CardTitle className="text-lg">{exp.position}</CardTitle>
                         <CardDescription>{exp.companyName} • {exp.location}</CardDescription>
                         <p className="text-sm text-muted-foreground mt-1">
-                          {exp.startDate} - {exp.endDate || "Present"}
+                          {exp.startDate} - {exp.isCurrent ? "Present" : exp.endDate}
                         </p>
                       </div>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => deleteWorkExpMutation.mutate(exp.id)}
-                        disabled={deleteWorkExpMutation.isPending}
-                        data-testid={`button-delete-work-${exp.id}`}
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
+                      <div className="flex">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => editWorkExp(exp)}
+                          data-testid={`button-edit-work-${exp.id}`}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => deleteWorkExpMutation.mutate(exp.id)}
+                          disabled={deleteWorkExpMutation.isPending}
+                          data-testid={`button-delete-work-${exp.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
                     </div>
                     {exp.description && (
                       <p className="text-sm mt-2">{exp.description}</p>
                     )}
                   </CardHeader>
                 </Card>
-              ))}
-            </div>
+              )}
+            />
           ) : !showWorkExpForm && (
             <p className="text-sm text-muted-foreground text-center py-8">No work experience added yet</p>
           )}
@@ -1160,7 +1158,7 @@ export default function Profile() {
             <Button
               variant="outline"
               size="sm"
-              onClick={() => setShowEducationForm(!showEducationForm)}
+              onClick={() => (showEducationForm ? closeEducationForm() : setShowEducationForm(true))}
               data-testid="button-add-education"
             >
               <Plus className="h-4 w-4 mr-2" />
@@ -1173,7 +1171,7 @@ export default function Profile() {
             <Card className="bg-muted/30">
               <CardContent className="pt-6">
                 <Form {...educationForm}>
-                  <form onSubmit={educationForm.handleSubmit((data) => addEducationMutation.mutate(data))} className="space-y-4">
+                  <form onSubmit={educationForm.handleSubmit((data) => saveEducationMutation.mutate(data))} className="space-y-4">
                     <FormField
                       control={educationForm.control}
                       name="institution"
@@ -1274,10 +1272,10 @@ export default function Profile() {
                     />
 
                     <div className="flex gap-2">
-                      <Button type="submit" disabled={addEducationMutation.isPending} data-testid="button-save-education">
-                        {addEducationMutation.isPending ? "Adding..." : "Add"}
+                      <Button type="submit" disabled={saveEducationMutation.isPending} data-testid="button-save-education">
+                        {saveEducationMutation.isPending ? "Saving..." : editingEducationId ? "Save" : "Add"}
                       </Button>
-                      <Button type="button" variant="ghost" onClick={() => setShowEducationForm(false)}>
+                      <Button type="button" variant="ghost" onClick={closeEducationForm}>
                         Cancel
                       </Button>
                     </div>
@@ -1288,9 +1286,13 @@ export default function Profile() {
           )}
 
           {profile?.education && profile.education.length > 0 ? (
-            <div className="space-y-4">
-              {profile.education.map((edu: Education) => (
-                <Card key={edu.id} data-testid={`education-${edu.id}`}>
+            <SortableList
+              items={profile.education as Education[]}
+              onReorder={(ids) => reorderMutation.mutate({ section: "education", ids })}
+              disabled={reorderMutation.isPending}
+              testId="sortable-education"
+              renderItem={(edu) => (
+                <Card data-testid={`education-${edu.id}`}>
                   <CardHeader>
                     <div className="flex items-start justify-between">
                       <div>
@@ -1300,23 +1302,33 @@ export default function Profile() {
                           {edu.startYear} - {edu.endYear || "Present"}
                         </p>
                       </div>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => deleteEducationMutation.mutate(edu.id)}
-                        disabled={deleteEducationMutation.isPending}
-                        data-testid={`button-delete-edu-${edu.id}`}
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
+                      <div className="flex">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => editEducation(edu)}
+                          data-testid={`button-edit-edu-${edu.id}`}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => deleteEducationMutation.mutate(edu.id)}
+                          disabled={deleteEducationMutation.isPending}
+                          data-testid={`button-delete-edu-${edu.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
                     </div>
                     {edu.description && (
                       <p className="text-sm mt-2">{edu.description}</p>
                     )}
                   </CardHeader>
                 </Card>
-              ))}
-            </div>
+              )}
+            />
           ) : !showEducationForm && (
             <p className="text-sm text-muted-foreground text-center py-8">No education added yet</p>
           )}
@@ -1337,7 +1349,7 @@ export default function Profile() {
             <Button
               variant="outline"
               size="sm"
-              onClick={() => setShowCertForm(!showCertForm)}
+              onClick={() => (showCertForm ? closeCertForm() : setShowCertForm(true))}
               data-testid="button-add-certification"
             >
               <Plus className="h-4 w-4 mr-2" />
@@ -1350,7 +1362,7 @@ export default function Profile() {
             <Card className="bg-muted/30">
               <CardContent className="pt-6">
                 <Form {...certForm}>
-                  <form onSubmit={certForm.handleSubmit((data) => addCertificationMutation.mutate(data))} className="space-y-4">
+                  <form onSubmit={certForm.handleSubmit((data) => saveCertificationMutation.mutate(data))} className="space-y-4">
                     <div className="grid gap-4 md:grid-cols-2">
                       <FormField
                         control={certForm.control}
@@ -1437,10 +1449,10 @@ export default function Profile() {
                     />
 
                     <div className="flex gap-2">
-                      <Button type="submit" disabled={addCertificationMutation.isPending} data-testid="button-save-cert">
-                        {addCertificationMutation.isPending ? "Adding..." : "Add"}
+                      <Button type="submit" disabled={saveCertificationMutation.isPending} data-testid="button-save-cert">
+                        {saveCertificationMutation.isPending ? "Saving..." : editingCertId ? "Save" : "Add"}
                       </Button>
-                      <Button type="button" variant="ghost" onClick={() => setShowCertForm(false)}>
+                      <Button type="button" variant="ghost" onClick={closeCertForm}>
                         Cancel
                       </Button>
                     </div>
@@ -1451,9 +1463,13 @@ export default function Profile() {
           )}
 
           {profile?.certifications && profile.certifications.length > 0 ? (
-            <div className="space-y-4">
-              {profile.certifications.map((cert: Certification) => (
-                <Card key={cert.id} data-testid={`cert-${cert.id}`}>
+            <SortableList
+              items={profile.certifications as Certification[]}
+              onReorder={(ids) => reorderMutation.mutate({ section: "certifications", ids })}
+              disabled={reorderMutation.isPending}
+              testId="sortable-cert"
+              renderItem={(cert) => (
+                <Card data-testid={`cert-${cert.id}`}>
                   <CardHeader>
                     <div className="flex items-start justify-between">
                       <div>
@@ -1463,7 +1479,7 @@ export default function Profile() {
                           Issued: {cert.issueDate || "N/A"}
                           {cert.expiryDate && ` • Expires: ${cert.expiryDate}`}
                         </p>
-                        {cert.credentialUrl && (
+                        {isHttpLink(cert.credentialUrl) && (
                           <a 
                             href={cert.credentialUrl} 
                             target="_blank" 
@@ -1474,20 +1490,30 @@ export default function Profile() {
                           </a>
                         )}
                       </div>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => deleteCertificationMutation.mutate(cert.id)}
-                        disabled={deleteCertificationMutation.isPending}
-                        data-testid={`button-delete-cert-${cert.id}`}
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
+                      <div className="flex">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => editCertification(cert)}
+                          data-testid={`button-edit-cert-${cert.id}`}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => deleteCertificationMutation.mutate(cert.id)}
+                          disabled={deleteCertificationMutation.isPending}
+                          data-testid={`button-delete-cert-${cert.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
                     </div>
                   </CardHeader>
                 </Card>
-              ))}
-            </div>
+              )}
+            />
           ) : !showCertForm && (
             <p className="text-sm text-muted-foreground text-center py-8">No certifications added yet</p>
           )}
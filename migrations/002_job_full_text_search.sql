@@ -0,0 +1,27 @@
+-- Migration to add full-text and trigram search support for job postings
+-- Run this before `npm run db:push` so the search indexes declared in shared/schema.ts can be created
+
+-- Trigram matching for typo-tolerant title and company name search
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- array_to_string is only STABLE, which Postgres refuses inside index expressions.
+-- For text[] columns the result never changes, so wrap it as IMMUTABLE.
+CREATE OR REPLACE FUNCTION immutable_array_to_string(text[], text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE PARALLEL SAFE
+AS $$ SELECT coalesce(array_to_string($1, $2), '') $$;
+
+-- Weighted search document: title/company (A), skills/categories (B), requirements (C), description (D)
+-- Note: this expression must match JOB_SEARCH_DOCUMENT in shared/schema.ts exactly
+CREATE INDEX IF NOT EXISTS idx_jobs_search ON jobs USING gin ((
+  setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(company_name, '')), 'A') ||
+  setweight(to_tsvector('english', immutable_array_to_string(skills, ' ')), 'B') ||
+  setweight(to_tsvector('english', immutable_array_to_string(categories, ' ')), 'B') ||
+  setweight(to_tsvector('english', immutable_array_to_string(requirements, ' ')), 'C') ||
+  setweight(to_tsvector('english', coalesce(description, '')), 'D')
+));
+
+CREATE INDEX IF NOT EXISTS idx_jobs_title_trgm ON jobs USING gin (title gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_jobs_company_trgm ON jobs USING gin (company_name gin_trgm_ops);
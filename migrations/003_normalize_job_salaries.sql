@@ -0,0 +1,17 @@
+-- Migration to backfill normalized monthly PHP salaries for existing job postings
+-- Run after `npm run db:push` has added salary_period and the salary_monthly_* columns
+
+-- Existing postings were all entered as monthly amounts, which is the salary_period
+-- default db:push filled in for them
+
+-- POST /api/jobs always stored PHP, so these amounts are already monthly PHP
+UPDATE jobs
+SET salary_monthly_min_php = salary_min,
+    salary_monthly_max_php = salary_max
+WHERE coalesce(salary_currency, 'PHP') = 'PHP';
+
+-- Any legacy USD rows use the default rate from server/salary.ts
+UPDATE jobs
+SET salary_monthly_min_php = round(salary_min * 56),
+    salary_monthly_max_php = round(salary_max * 56)
+WHERE salary_currency = 'USD';
@@ -0,0 +1,41 @@
+-- Migration to backfill structured locations for existing jobs and job seeker profiles
+-- Run after `npm run db:push` has added the location_* and latitude/longitude columns
+
+-- Best-effort: map the most common free-text spellings to city codes from
+-- shared/ph-locations.ts. Rows that don't match keep working through the text
+-- location filter and pick up structured fields the next time they are saved.
+CREATE TEMP TABLE location_backfill (pattern text, city text, province text, region text, latitude double precision, longitude double precision);
+
+INSERT INTO location_backfill VALUES
+  ('%zamboanga city%', 'zamboanga-del-sur/zamboanga-city', 'zamboanga-del-sur', '09', 6.9214, 122.079),
+  ('%pagadian%', 'zamboanga-del-sur/pagadian', 'zamboanga-del-sur', '09', 7.8257, 123.437),
+  ('%dipolog%', 'zamboanga-del-norte/dipolog', 'zamboanga-del-norte', '09', 8.5883, 123.3409),
+  ('%dapitan%', 'zamboanga-del-norte/dapitan', 'zamboanga-del-norte', '09', 8.6549, 123.4243),
+  ('%ipil%', 'zamboanga-sibugay/ipil', 'zamboanga-sibugay', '09', 7.7822, 122.5867),
+  ('%isabela city%', 'basilan/isabela-city', 'basilan', '09', 6.7033, 121.9719),
+  ('%quezon city%', 'metro-manila/quezon-city', 'metro-manila', '13', 14.676, 121.0437),
+  ('%makati%', 'metro-manila/makati', 'metro-manila', '13', 14.5547, 121.0244),
+  ('%taguig%', 'metro-manila/taguig', 'metro-manila', '13', 14.5176, 121.0509),
+  ('%cebu city%', 'cebu/cebu-city', 'cebu', '07', 10.3157, 123.8854),
+  ('%davao city%', 'davao-del-sur/davao-city', 'davao-del-sur', '11', 7.1907, 125.4553),
+  ('%cagayan de oro%', 'misamis-oriental/cagayan-de-oro', 'misamis-oriental', '10', 8.4542, 124.6319);
+
+UPDATE jobs j
+SET location_city = b.city,
+    location_province = b.province,
+    location_region = b.region,
+    latitude = b.latitude,
+    longitude = b.longitude
+FROM location_backfill b
+WHERE j.location_city IS NULL AND j.location ILIKE b.pattern;
+
+UPDATE job_seeker_profiles p
+SET location_city = b.city,
+    location_province = b.province,
+    location_region = b.region,
+    latitude = b.latitude,
+    longitude = b.longitude
+FROM location_backfill b
+WHERE p.location_city IS NULL AND p.location ILIKE b.pattern;
+
+DROP TABLE location_backfill;
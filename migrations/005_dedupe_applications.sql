@@ -0,0 +1,9 @@
+-- Migration to remove duplicate applications before the unique (job_id, seeker_id) index
+-- Run BEFORE `npm run db:push`, which fails to create idx_applications_job_seeker while duplicates exist
+
+-- Double-clicked applies created identical rows seconds apart; keep the earliest one
+DELETE FROM applications a
+USING applications b
+WHERE a.job_id = b.job_id
+  AND a.seeker_id = b.seeker_id
+  AND (a.created_at, a.id) > (b.created_at, b.id);
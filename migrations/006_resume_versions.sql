@@ -0,0 +1,20 @@
+-- Migration to move profile resumes into the resumes table and snapshot them on applications
+-- Run after `npm run db:push` has created the resumes table and the applications.resume_* columns
+
+-- Each profile's current file becomes its first, default version
+INSERT INTO resumes (user_id, label, file_url, is_default, created_at)
+SELECT p.user_id, 'Resume', p.resume_url, true, p.updated_at
+FROM job_seeker_profiles p
+WHERE p.resume_url IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM resumes r WHERE r.user_id = p.user_id);
+
+-- Best-effort snapshot for existing applications: the file employers were being shown,
+-- since the original submission wasn't recorded before this change
+UPDATE applications a
+SET resume_id = r.id,
+    resume_url = r.file_url,
+    resume_label = r.label
+FROM resumes r
+WHERE a.resume_url IS NULL
+  AND r.user_id = a.seeker_id
+  AND r.is_default;
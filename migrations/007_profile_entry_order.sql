@@ -0,0 +1,43 @@
+-- Migration to add display ordering to profile entries and allow one current role per profile
+-- Run BEFORE `npm run db:push`, which fails to create idx_work_experience_current while a profile has several current roles
+
+ALTER TABLE work_experience ADD COLUMN IF NOT EXISTS display_order integer NOT NULL DEFAULT 0;
+ALTER TABLE education ADD COLUMN IF NOT EXISTS display_order integer NOT NULL DEFAULT 0;
+ALTER TABLE certifications ADD COLUMN IF NOT EXISTS display_order integer NOT NULL DEFAULT 0;
+
+-- Keep the order the profile page showed before: newest first
+UPDATE work_experience w
+SET display_order = ranked.position
+FROM (
+  SELECT id, row_number() OVER (PARTITION BY profile_id ORDER BY start_date DESC, created_at) - 1 AS position
+  FROM work_experience
+) ranked
+WHERE w.id = ranked.id;
+
+UPDATE education e
+SET display_order = ranked.position
+FROM (
+  SELECT id, row_number() OVER (PARTITION BY profile_id ORDER BY start_year DESC, created_at) - 1 AS position
+  FROM education
+) ranked
+WHERE e.id = ranked.id;
+
+UPDATE certifications c
+SET display_order = ranked.position
+FROM (
+  SELECT id, row_number() OVER (PARTITION BY profile_id ORDER BY issue_date DESC, created_at) - 1 AS position
+  FROM certifications
+) ranked
+WHERE c.id = ranked.id;
+
+-- Where several roles were marked current, the most recently started one stays current.
+-- The others keep their missing end date until the seeker next edits them.
+UPDATE work_experience w
+SET is_current = false
+FROM (
+  SELECT id, row_number() OVER (PARTITION BY profile_id ORDER BY start_date DESC, created_at DESC) AS rank
+  FROM work_experience
+  WHERE is_current
+) ranked
+WHERE w.id = ranked.id
+  AND ranked.rank > 1;
@@ -0,0 +1,6 @@
+-- Migration to add jobs.published_at, which saved search alerts use to find new jobs
+-- Run BEFORE `npm run db:push`; otherwise every existing job gets the current time and is alerted again
+
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS published_at timestamp NOT NULL DEFAULT now();
+
+UPDATE jobs SET published_at = created_at;
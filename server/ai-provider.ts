@@ -0,0 +1,299 @@
+import OpenAI from "openai";
+import { storage } from "./storage";
+import type { AiTask } from "@shared/schema";
+
+export type AiMessageContent =
+  | string
+  | Array<
+      | { type: "text"; text: string }
+      | { type: "image_url"; image_url: { url: string; detail?: "auto" | "low" | "high" } }
+    >;
+
+export interface AiMessage {
+  role: "system" | "user";
+  content: AiMessageContent;
+}
+
+export interface AiCompletionRequest {
+  task: AiTask;
+  model: string;
+  messages: AiMessage[];
+  maxTokens: number;
+  signal: AbortSignal;
+}
+
+export interface AiCompletion {
+  content: string | null; // JSON text; null when the model returned nothing
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+// A chat model that answers in JSON. Implementations only make the call;
+// rate limiting, timeouts, retries and usage logging live in runAiTask.
+export interface AiProvider {
+  readonly name: string;
+  completeJson(request: AiCompletionRequest): Promise<AiCompletion>;
+}
+
+export class OpenAiProvider implements AiProvider {
+  readonly name = "openai";
+  private client: OpenAI;
+
+  constructor(apiKey: string, baseURL?: string) {
+    // Retries are handled by runAiTask so every attempt is rate limited and counted
+    this.client = new OpenAI({ apiKey, baseURL, maxRetries: 0 });
+  }
+
+  async completeJson({ model, messages, maxTokens, signal }: AiCompletionRequest): Promise<AiCompletion> {
+    const response = await this.client.chat.completions.create(
+      {
+        model,
+        messages: messages as OpenAI.Chat.ChatCompletionMessageParam[],
+        response_format: { type: "json_object" },
+        max_completion_tokens: maxTokens,
+      },
+      { signal }
+    );
+    return {
+      content: response.choices[0]?.message?.content ?? null,
+      model: response.model || model,
+      promptTokens: response.usage?.prompt_tokens ?? 0,
+      completionTokens: response.usage?.completion_tokens ?? 0,
+    };
+  }
+}
+
+const STUB_FRAUD_RESPONSE = { isFraudulent: false, confidence: 0, reasons: [], alertType: "None" };
+
+const DEFAULT_STUB_RESPONSES: Record<AiTask, unknown> = {
+  profile_fraud: STUB_FRAUD_RESPONSE,
+  job_fraud: STUB_FRAUD_RESPONSE,
+  // No answer, so the match worker keeps the local engine's score instead of a flat placeholder
+  job_match: null,
+  // Fails validation on purpose, so resume parsing keeps its heuristic result
+  resume_parse: {},
+};
+
+// Canned JSON answers with no network access, for tests and offline development.
+// Select it with AI_PROVIDER=local, or pass responses to setAiProvider in tests.
+export class LocalStubProvider implements AiProvider {
+  readonly name = "local";
+
+  constructor(private responses: Partial<Record<AiTask, unknown>> = {}) {}
+
+  async completeJson({ task, messages }: AiCompletionRequest): Promise<AiCompletion> {
+    const response = this.responses[task] ?? DEFAULT_STUB_RESPONSES[task];
+    const content = response === null ? null : JSON.stringify(response);
+    return {
+      content,
+      model: "local-stub",
+      // Rough estimate so the cost dashboard has something to show
+      promptTokens: Math.ceil(JSON.stringify(messages).length / 4),
+      completionTokens: Math.ceil((content?.length ?? 0) / 4),
+    };
+  }
+}
+
+interface AiTaskConfig {
+  model: string;
+  maxTokens: number;
+  timeoutMs: number;
+  maxRetries: number;
+}
+
+// Per-task model settings. Models can be overridden per task, e.g. AI_MODEL_JOB_MATCH=gpt-5-mini
+function taskConfig(task: AiTask, defaults: AiTaskConfig): AiTaskConfig {
+  return { ...defaults, model: process.env[`AI_MODEL_${task.toUpperCase()}`] || defaults.model };
+}
+
+// the newest OpenAI model is "gpt-5" which was released August 7, 2025. do not change this unless explicitly requested by the user
+const AI_TASK_CONFIG: Record<AiTask, AiTaskConfig> = {
+  profile_fraud: taskConfig("profile_fraud", { model: "gpt-5", maxTokens: 4096, timeoutMs: 60_000, maxRetries: 2 }),
+  // gpt-4 is kept for job postings to avoid issues seen with gpt-5 there
+  job_fraud: taskConfig("job_fraud", { model: "gpt-4", maxTokens: 500, timeoutMs: 30_000, maxRetries: 2 }),
+  job_match: taskConfig("job_match", { model: "gpt-5", maxTokens: 4096, timeoutMs: 60_000, maxRetries: 2 }),
+  // The seeker is waiting on this one, and the heuristic result is a fallback, so retry once at most
+  resume_parse: taskConfig("resume_parse", { model: "gpt-5-mini", maxTokens: 4096, timeoutMs: 45_000, maxRetries: 1 }),
+};
+
+export function getAiModel(task: AiTask): string {
+  return AI_TASK_CONFIG[task].model;
+}
+
+// USD per million tokens [input, output]; dated model names match by prefix
+const MODEL_PRICES_PER_MILLION: Record<string, [number, number]> = {
+  "gpt-5": [1.25, 10],
+  "gpt-5-mini": [0.25, 2],
+  "gpt-5-nano": [0.05, 0.4],
+  "gpt-4.1": [2, 8],
+  "gpt-4.1-mini": [0.4, 1.6],
+  "gpt-4o": [2.5, 10],
+  "gpt-4o-mini": [0.15, 0.6],
+  "gpt-4": [30, 60],
+};
+
+export function estimateCostUsd(model: string, promptTokens: number, completionTokens: number): number {
+  const key = Object.keys(MODEL_PRICES_PER_MILLION)
+    .filter(name => model === name || model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!key) return 0;
+  const [input, output] = MODEL_PRICES_PER_MILLION[key];
+  return (promptTokens * input + completionTokens * output) / 1_000_000;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Allows short bursts up to capacity, then refillPerSecond calls per second on average
+class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+
+  constructor(private capacity: number, private refillPerSecond: number) {
+    this.tokens = capacity;
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) / 1000) * this.refillPerSecond);
+    this.lastRefill = now;
+  }
+
+  async take(): Promise<void> {
+    for (;;) {
+      this.refill();
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await sleep(((1 - this.tokens) / this.refillPerSecond) * 1000);
+    }
+  }
+}
+
+const requestsPerMinute = Number(process.env.AI_REQUESTS_PER_MINUTE) || 60;
+const rateLimiter = new TokenBucket(Number(process.env.AI_BURST_SIZE) || 5, requestsPerMinute / 60);
+
+export class AiNotConfiguredError extends Error {
+  constructor() {
+    super("AI service not configured");
+    this.name = "AiNotConfiguredError";
+    Object.setPrototypeOf(this, AiNotConfiguredError.prototype);
+  }
+}
+
+export class AiTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`AI call timed out after ${timeoutMs}ms`);
+    this.name = "AiTimeoutError";
+    Object.setPrototypeOf(this, AiTimeoutError.prototype);
+  }
+}
+
+function createDefaultProvider(): AiProvider | null {
+  if (process.env.AI_PROVIDER === "local") {
+    return new LocalStubProvider();
+  }
+  const apiKey = process.env.AI_INTEGRATIONS_OPENAI_API_KEY || process.env.OPENAI_API_KEY;
+  return apiKey ? new OpenAiProvider(apiKey, process.env.AI_INTEGRATIONS_OPENAI_BASE_URL || undefined) : null;
+}
+
+let provider: AiProvider | null = createDefaultProvider();
+
+export const isAiAvailable = () => provider !== null;
+
+export function getAiProvider(): AiProvider | null {
+  return provider;
+}
+
+// Swap the provider at runtime, e.g. a LocalStubProvider in tests
+export function setAiProvider(next: AiProvider | null): void {
+  provider = next;
+}
+
+// Timeouts, connection failures, rate limiting and server errors; not bad requests or an exhausted quota
+function isRetryable(error: any): boolean {
+  if (error instanceof AiTimeoutError || error instanceof OpenAI.APIConnectionError) return true;
+  if (error?.code === "insufficient_quota") return false;
+  const status = error?.status;
+  return status === 408 || status === 409 || status === 429 || (typeof status === "number" && status >= 500);
+}
+
+// Exponential backoff with jitter, or the server's Retry-After when it sends one
+function retryDelayMs(error: any, attempt: number): number {
+  const retryAfter = Number(error?.headers?.get?.("retry-after"));
+  if (retryAfter > 0) return Math.min(retryAfter * 1000, 30_000);
+  return 1000 * 2 ** (attempt - 1) + Math.floor(Math.random() * 250);
+}
+
+async function withTimeout<T>(run: (signal: AbortSignal) => Promise<T>, timeoutMs: number): Promise<T> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await run(controller.signal);
+  } catch (error) {
+    if (controller.signal.aborted) throw new AiTimeoutError(timeoutMs);
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function recordUsage(entry: Parameters<typeof storage.createAiUsageLog>[0]): void {
+  // Never let bookkeeping fail the AI call itself
+  storage.createAiUsageLog(entry).catch(error => console.error("[AI] Failed to record usage:", error));
+}
+
+// Run one AI task through the configured provider with rate limiting, a per-attempt
+// timeout and retries, logging tokens, cost and latency for the admin dashboard.
+// Throws AiNotConfiguredError when no provider is set up.
+export async function runAiTask(task: AiTask, messages: AiMessage[]): Promise<AiCompletion> {
+  const activeProvider = provider;
+  if (!activeProvider) {
+    throw new AiNotConfiguredError();
+  }
+
+  const config = AI_TASK_CONFIG[task];
+  const startedAt = Date.now();
+  let attempts = 0;
+
+  for (;;) {
+    attempts++;
+    try {
+      await rateLimiter.take();
+      const completion = await withTimeout(
+        signal => activeProvider.completeJson({ task, model: config.model, messages, maxTokens: config.maxTokens, signal }),
+        config.timeoutMs
+      );
+      recordUsage({
+        task,
+        provider: activeProvider.name,
+        model: completion.model,
+        status: "success",
+        promptTokens: completion.promptTokens,
+        completionTokens: completion.completionTokens,
+        costUsd: estimateCostUsd(completion.model, completion.promptTokens, completion.completionTokens),
+        latencyMs: Date.now() - startedAt,
+        attempts,
+      });
+      return completion;
+    } catch (error: any) {
+      if (attempts <= config.maxRetries && isRetryable(error)) {
+        const delay = retryDelayMs(error, attempts);
+        console.log(`[AI] ${task} attempt ${attempts} failed (${error.message}), retrying in ${delay}ms`);
+        await sleep(delay);
+        continue;
+      }
+      recordUsage({
+        task,
+        provider: activeProvider.name,
+        model: config.model,
+        status: "error",
+        latencyMs: Date.now() - startedAt,
+        attempts,
+        error: String(error?.message ?? error).slice(0, 500),
+      });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,309 @@
+import PDFDocument from "pdfkit";
+import { storage } from "./storage";
+import { ObjectStorageService } from "./objectStorage";
+import type { CvTemplate } from "@shared/cv";
+import type { Certification, Education, JobSeekerProfile, User, WorkExperience } from "@shared/schema";
+
+interface CvData {
+  user: User;
+  profile: JobSeekerProfile;
+  workExperience: WorkExperience[];
+  education: Education[];
+  certifications: Certification[];
+  // JPEG or PNG bytes of the profile photo, for templates that show it
+  photo: Buffer | null;
+}
+
+interface CvStyle {
+  regular: string;
+  bold: string;
+  italic: string;
+  accent: string;
+  text: string;
+  muted: string;
+}
+
+const STYLES: Record<CvTemplate, CvStyle> = {
+  classic: { regular: "Times-Roman", bold: "Times-Bold", italic: "Times-Italic", accent: "#111111", text: "#111111", muted: "#555555" },
+  modern: { regular: "Helvetica", bold: "Helvetica-Bold", italic: "Helvetica-Oblique", accent: "#1d4ed8", text: "#1f2937", muted: "#6b7280" },
+  philippine: { regular: "Helvetica", bold: "Helvetica-Bold", italic: "Helvetica-Oblique", accent: "#0f3d91", text: "#111111", muted: "#444444" },
+};
+
+const MARGIN = 50;
+// A 2x2 ID photo at 72pt per inch
+const PHOTO_SIZE = 144;
+
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+// "2021-03" as "Mar 2021"; anything else is shown as entered
+function formatMonth(value: string | null): string {
+  if (!value) return "";
+  const match = value.match(/^(\d{4})-(\d{2})/);
+  if (!match) return value;
+  const month = MONTHS[parseInt(match[2]) - 1];
+  return month ? `${month} ${match[1]}` : match[1];
+}
+
+function dateRange(start: string, end: string | null, isCurrent: boolean): string {
+  return `${formatMonth(start)} - ${isCurrent ? "Present" : formatMonth(end) || "Present"}`;
+}
+
+function fullName(user: User): string {
+  return [user.firstName, user.lastName].filter(Boolean).join(" ") || "Applicant";
+}
+
+// Most recent first: current jobs, then by start date
+function sortWorkExperience(entries: WorkExperience[]): WorkExperience[] {
+  return [...entries].sort((a, b) => Number(b.isCurrent) - Number(a.isCurrent) || b.startDate.localeCompare(a.startDate));
+}
+
+function sortEducation(entries: Education[]): Education[] {
+  return [...entries].sort((a, b) => (b.endYear || b.startYear).localeCompare(a.endYear || a.startYear));
+}
+
+async function loadPhoto(profile: JobSeekerProfile): Promise<Buffer | null> {
+  // PDFKit only embeds JPEG and PNG
+  if (!profile.profileImage || !/\.(jpe?g|png)$/i.test(profile.profileImage)) return null;
+  try {
+    const file = await new ObjectStorageService().getObjectEntityFile(`/objects${profile.profileImage}`);
+    const [data] = await file.download();
+    return data;
+  } catch (error) {
+    console.error("[CV] Failed to load profile photo:", error);
+    return null;
+  }
+}
+
+async function loadCvData(userId: string, withPhoto: boolean): Promise<CvData | null> {
+  const [user, profile] = await Promise.all([storage.getUser(userId), storage.getJobSeekerProfile(userId)]);
+  if (!user || !profile) return null;
+
+  const [workExperience, education, certifications, photo] = await Promise.all([
+    storage.getWorkExperience(profile.id),
+    storage.getEducation(profile.id),
+    storage.getCertifications(profile.id),
+    withPhoto ? loadPhoto(profile) : Promise.resolve(null),
+  ]);
+  return {
+    user,
+    profile,
+    workExperience: sortWorkExperience(workExperience),
+    education: sortEducation(education),
+    certifications,
+    photo,
+  };
+}
+
+class CvWriter {
+  constructor(private doc: PDFKit.PDFDocument, private style: CvStyle) {}
+
+  get contentWidth(): number {
+    return this.doc.page.width - MARGIN * 2;
+  }
+
+  heading(title: string): void {
+    const { doc, style } = this;
+    // Keep a heading together with at least the first lines of its section
+    if (doc.y > doc.page.height - MARGIN - 80) doc.addPage();
+    doc.moveDown(0.8);
+    doc.font(style.bold).fontSize(12).fillColor(style.accent).text(title.toUpperCase(), MARGIN, doc.y, { characterSpacing: 0.5 });
+    const y = doc.y + 2;
+    doc.moveTo(MARGIN, y).lineTo(MARGIN + this.contentWidth, y).lineWidth(0.75).strokeColor(style.accent).stroke();
+    doc.y = y + 6;
+  }
+
+  paragraph(text: string): void {
+    this.doc.font(this.style.regular).fontSize(10.5).fillColor(this.style.text).text(text, MARGIN, this.doc.y, {
+      width: this.contentWidth,
+      lineGap: 2,
+    });
+  }
+
+  // Title on the left, dates right-aligned on the same line, then a muted subtitle and details
+  entry(title: string, dates: string, subtitle: string, details: string | null): void {
+    const { doc, style } = this;
+    if (doc.y > doc.page.height - MARGIN - 50) doc.addPage();
+    doc.moveDown(0.4);
+    const top = doc.y;
+    const datesWidth = 130;
+    doc.font(style.regular).fontSize(10).fillColor(style.muted)
+      .text(dates, MARGIN + this.contentWidth - datesWidth, top, { width: datesWidth, align: "right" });
+    doc.font(style.bold).fontSize(11).fillColor(style.text)
+      .text(title, MARGIN, top, { width: this.contentWidth - datesWidth - 10 });
+    if (subtitle) {
+      doc.font(style.italic).fontSize(10.5).fillColor(style.muted).text(subtitle, MARGIN, doc.y, { width: this.contentWidth });
+    }
+    if (details) {
+      doc.moveDown(0.2);
+      doc.font(style.regular).fontSize(10).fillColor(style.text).text(details, MARGIN + 10, doc.y, {
+        width: this.contentWidth - 10,
+        lineGap: 1.5,
+      });
+    }
+  }
+
+  workExperience(entries: WorkExperience[]): void {
+    for (const entry of entries) {
+      const subtitle = [entry.companyName, entry.location].filter(Boolean).join(", ");
+      this.entry(entry.position, dateRange(entry.startDate, entry.endDate, entry.isCurrent), subtitle, entry.description);
+    }
+  }
+
+  education(entries: Education[]): void {
+    for (const entry of entries) {
+      const degree = entry.fieldOfStudy ? `${entry.degree} in ${entry.fieldOfStudy}` : entry.degree;
+      const years = entry.endYear && entry.endYear !== entry.startYear ? `${entry.startYear} - ${entry.endYear}` : entry.startYear;
+      this.entry(degree, years, entry.institution, entry.description);
+    }
+  }
+
+  certifications(entries: Certification[]): void {
+    for (const entry of entries) {
+      const subtitle = entry.expiryDate ? `${entry.issuer} · Valid until ${formatMonth(entry.expiryDate)}` : entry.issuer;
+      this.entry(entry.name, formatMonth(entry.issueDate), subtitle, entry.credentialUrl);
+    }
+  }
+
+  skills(skills: string[]): void {
+    this.paragraph(skills.join("  •  "));
+  }
+
+  // The sections every template shares, in the order recruiters read them
+  body(data: CvData, titles: { summary: string; work: string; education: string; certifications: string }): void {
+    const { profile } = data;
+    if (profile.bio) {
+      this.heading(titles.summary);
+      this.paragraph(profile.bio);
+    }
+    if (data.workExperience.length > 0) {
+      this.heading(titles.work);
+      this.workExperience(data.workExperience);
+    }
+    if (data.education.length > 0) {
+      this.heading(titles.education);
+      this.education(data.education);
+    }
+    if (profile.skills?.length) {
+      this.heading("Skills");
+      this.skills(profile.skills);
+    }
+    if (data.certifications.length > 0) {
+      this.heading(titles.certifications);
+      this.certifications(data.certifications);
+    }
+  }
+}
+
+function contactParts(data: CvData): string[] {
+  return [data.profile.location, data.profile.phoneNumber, data.user.email, data.profile.linkedinUrl, data.profile.portfolioUrl]
+    .filter((part): part is string => !!part);
+}
+
+function renderClassic(doc: PDFKit.PDFDocument, data: CvData, writer: CvWriter, style: CvStyle): void {
+  doc.font(style.bold).fontSize(22).fillColor(style.text).text(fullName(data.user), { align: "center" });
+  if (data.profile.headline) {
+    doc.font(style.italic).fontSize(12).fillColor(style.muted).text(data.profile.headline, { align: "center" });
+  }
+  doc.moveDown(0.3);
+  doc.font(style.regular).fontSize(10).fillColor(style.text).text(contactParts(data).join("  |  "), { align: "center" });
+  writer.body(data, { summary: "Summary", work: "Work Experience", education: "Education", certifications: "Certifications" });
+}
+
+function renderModern(doc: PDFKit.PDFDocument, data: CvData, writer: CvWriter, style: CvStyle): void {
+  const bannerHeight = data.profile.headline ? 96 : 78;
+  doc.rect(0, 0, doc.page.width, bannerHeight).fill(style.accent);
+  doc.font(style.bold).fontSize(24).fillColor("#ffffff").text(fullName(data.user), MARGIN, 28, { width: writer.contentWidth });
+  if (data.profile.headline) {
+    doc.font(style.regular).fontSize(12).fillColor("#dbeafe").text(data.profile.headline, MARGIN, doc.y + 2, { width: writer.contentWidth });
+  }
+  doc.y = bannerHeight + 14;
+  doc.font(style.regular).fontSize(9.5).fillColor(style.muted).text(contactParts(data).join("   ·   "), MARGIN, doc.y, { width: writer.contentWidth });
+  writer.body(data, { summary: "Profile", work: "Experience", education: "Education", certifications: "Certifications" });
+}
+
+function renderPhilippine(doc: PDFKit.PDFDocument, data: CvData, writer: CvWriter, style: CvStyle): void {
+  const { user, profile, photo } = data;
+  const name = fullName(user);
+  const photoX = doc.page.width - MARGIN - PHOTO_SIZE;
+  const textWidth = writer.contentWidth - (photo ? PHOTO_SIZE + 20 : 0);
+
+  if (photo) {
+    try {
+      doc.image(photo, photoX, MARGIN, { fit: [PHOTO_SIZE, PHOTO_SIZE], align: "center", valign: "center" });
+      doc.rect(photoX, MARGIN, PHOTO_SIZE, PHOTO_SIZE).lineWidth(0.5).strokeColor(style.muted).stroke();
+    } catch (error) {
+      console.error("[CV] Failed to embed profile photo:", error);
+    }
+  }
+
+  doc.font(style.bold).fontSize(22).fillColor(style.accent).text(name.toUpperCase(), MARGIN, MARGIN + 10, { width: textWidth });
+  if (profile.headline) {
+    doc.font(style.regular).fontSize(12).fillColor(style.muted).text(profile.headline, MARGIN, doc.y + 2, { width: textWidth });
+  }
+  doc.moveDown(0.6);
+  const contactLines: Array<[string, string | null]> = [
+    ["Address", profile.location],
+    ["Mobile", profile.phoneNumber],
+    ["Email", user.email],
+    ["LinkedIn", profile.linkedinUrl],
+    ["Portfolio", profile.portfolioUrl],
+  ];
+  for (const [label, value] of contactLines) {
+    if (!value) continue;
+    doc.font(style.bold).fontSize(10).fillColor(style.text).text(`${label}: `, MARGIN, doc.y, { continued: true, width: textWidth })
+      .font(style.regular).text(value);
+  }
+  // Start the sections below the photo whatever the length of the contact block
+  if (photo) doc.y = Math.max(doc.y, MARGIN + PHOTO_SIZE);
+
+  writer.body(data, {
+    summary: "Career Objective",
+    work: "Work Experience",
+    education: "Educational Background",
+    certifications: "Trainings and Certifications",
+  });
+
+  writer.heading("Certification");
+  writer.paragraph("I hereby certify that the above information is true and correct to the best of my knowledge and belief.");
+  if (doc.y > doc.page.height - MARGIN - 70) doc.addPage();
+  const lineY = doc.y + 45;
+  const lineX = doc.page.width - MARGIN - 200;
+  doc.moveTo(lineX, lineY).lineTo(lineX + 200, lineY).lineWidth(0.75).strokeColor(style.text).stroke();
+  doc.font(style.bold).fontSize(10.5).fillColor(style.text).text(name.toUpperCase(), lineX, lineY + 4, { width: 200, align: "center" });
+  doc.font(style.regular).fontSize(9).fillColor(style.muted).text("Signature over printed name", lineX, doc.y, { width: 200, align: "center" });
+}
+
+const RENDERERS: Record<CvTemplate, (doc: PDFKit.PDFDocument, data: CvData, writer: CvWriter, style: CvStyle) => void> = {
+  classic: renderClassic,
+  modern: renderModern,
+  philippine: renderPhilippine,
+};
+
+function renderPdf(data: CvData, template: CvTemplate): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const name = fullName(data.user);
+    const doc = new PDFDocument({ size: "A4", margin: MARGIN, info: { Title: `${name} - CV`, Author: name, Creator: "ZambaJobs" } });
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    try {
+      const style = STYLES[template];
+      RENDERERS[template](doc, data, new CvWriter(doc, style), style);
+      doc.end();
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+// Renders the seeker's CV from their profile; null when they have no seeker profile
+export async function generateCv(userId: string, template: CvTemplate): Promise<{ pdf: Buffer; fileName: string } | null> {
+  const data = await loadCvData(userId, template === "philippine");
+  if (!data) return null;
+
+  const pdf = await renderPdf(data, template);
+  const slug = fullName(data.user).toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "applicant";
+  return { pdf, fileName: `${slug}-cv.pdf` };
+}
@@ -0,0 +1,119 @@
+import { storage } from "./storage";
+import { getEmailProvider } from "./email-providers";
+import type { InsertOutboxEmail, OutboxEmail } from "@shared/schema";
+
+// New emails are sent straight away (see queueEmail); the interval picks up retries
+const CHECK_INTERVAL_MS = 30 * 1000;
+const BATCH_SIZE = 20;
+
+// How long a claimed email is reserved for one send attempt
+const SEND_LEASE_MS = 5 * 60 * 1000;
+
+// Retries back off 1, 4, 16, 64 and 256 minutes; after that the email is marked failed
+// and can be retried from the admin outbox
+const MAX_ATTEMPTS = 6;
+const RETRY_BASE_MS = 60 * 1000;
+const RETRY_MULTIPLIER = 4;
+
+// Sent and failed emails are kept this long for the admin outbox, then deleted
+const RETENTION_DAYS = 30;
+const PRUNE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+// The code or reset link is only useful to the recipient, so it isn't kept once delivered
+const REDACTED_AFTER_SEND = new Set(["otp", "password_reset"]);
+const REDACTED_HTML = "<p>Removed after sending: this email contained a one-time code or password reset link.</p>";
+
+function retryDelayMs(attempts: number): number {
+  return RETRY_BASE_MS * Math.pow(RETRY_MULTIPLIER, attempts - 1);
+}
+
+async function deliver(email: OutboxEmail): Promise<void> {
+  let sent: { provider: string; messageId: string | null };
+  try {
+    const provider = getEmailProvider();
+    const { messageId } = await provider.send({
+      to: email.to,
+      subject: email.subject,
+      html: email.html,
+      attachments: email.attachments,
+      headers: email.headers,
+    });
+    sent = { provider: provider.name, messageId };
+  } catch (error: any) {
+    const message = error?.message || String(error);
+    const retryAt = email.attempts < MAX_ATTEMPTS ? new Date(Date.now() + retryDelayMs(email.attempts)) : null;
+    await storage.markOutboxEmailFailed(email.id, message, retryAt);
+    if (retryAt) {
+      console.warn(`[Email] Attempt ${email.attempts} for "${email.subject}" to ${email.to} failed, retrying at ${retryAt.toISOString()}: ${message}`);
+    } else {
+      console.error(`[Email] Giving up on "${email.subject}" to ${email.to} after ${email.attempts} attempts: ${message}`);
+    }
+    return;
+  }
+  // Not a provider error, so a failure to record the send isn't counted as a failed attempt
+  await storage.markOutboxEmailSent(
+    email.id,
+    sent.provider,
+    sent.messageId,
+    REDACTED_AFTER_SEND.has(email.template) ? REDACTED_HTML : undefined
+  );
+  console.log(`[Email] Sent "${email.subject}" to ${email.to} via ${sent.provider}`);
+}
+
+async function sendDueEmails(): Promise<void> {
+  while (true) {
+    const now = new Date();
+    const batch = await storage.claimDueOutboxEmails(now, new Date(now.getTime() + SEND_LEASE_MS), BATCH_SIZE);
+    for (const email of batch) {
+      await deliver(email);
+    }
+    if (batch.length < BATCH_SIZE) return;
+  }
+}
+
+let isChecking = false;
+let checkRequested = false;
+
+async function runCheck(): Promise<void> {
+  if (isChecking) {
+    // Picked up as soon as the current run finishes, not on the next interval
+    checkRequested = true;
+    return;
+  }
+  isChecking = true;
+  try {
+    do {
+      checkRequested = false;
+      await sendDueEmails();
+    } while (checkRequested);
+  } catch (error) {
+    console.error("[Email] Outbox check failed:", error);
+  } finally {
+    isChecking = false;
+  }
+}
+
+// Stores the email and kicks off delivery without waiting for it, so a provider outage
+// never fails the request that triggered the email
+export async function queueEmail(email: InsertOutboxEmail): Promise<void> {
+  await storage.createOutboxEmail(email);
+  void runCheck();
+}
+
+async function pruneOutbox(): Promise<void> {
+  try {
+    const deleted = await storage.deleteFinishedOutboxEmails(new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000));
+    if (deleted > 0) {
+      console.log(`[Email] Deleted ${deleted} outbox emails older than ${RETENTION_DAYS} days`);
+    }
+  } catch (error) {
+    console.error("[Email] Outbox cleanup failed:", error);
+  }
+}
+
+export function startEmailOutbox(): void {
+  setInterval(runCheck, CHECK_INTERVAL_MS);
+  void pruneOutbox();
+  setInterval(pruneOutbox, PRUNE_INTERVAL_MS);
+  console.log(`[Email] Outbox started (provider: ${getEmailProvider().name})`);
+}
@@ -0,0 +1,136 @@
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer, { type Transporter } from 'nodemailer';
+import { getUncachableResendClient } from './resend-client';
+import { getUncachableSendGridClient } from './sendgrid-client';
+import type { EmailAttachment } from '@shared/schema';
+
+export interface OutgoingEmail {
+  to: string;
+  subject: string;
+  html: string;
+  attachments: EmailAttachment[];
+  headers: Record<string, string>;
+}
+
+// Throws when the provider rejects the email; the outbox retries it later
+export interface EmailProvider {
+  name: string;
+  send(email: OutgoingEmail): Promise<{ messageId: string | null }>;
+}
+
+const resendProvider: EmailProvider = {
+  name: 'resend',
+  async send(email) {
+    const { client, fromEmail } = await getUncachableResendClient();
+    const { data, error } = await client.emails.send({
+      from: fromEmail,
+      to: email.to,
+      subject: email.subject,
+      html: email.html,
+      attachments: email.attachments,
+      headers: email.headers,
+    });
+    if (error) throw new Error(`Resend: ${error.message}`);
+    return { messageId: data?.id ?? null };
+  },
+};
+
+const sendGridProvider: EmailProvider = {
+  name: 'sendgrid',
+  async send(email) {
+    const { client, fromEmail } = await getUncachableSendGridClient();
+    const [response] = await client.send({
+      from: fromEmail,
+      to: email.to,
+      subject: email.subject,
+      html: email.html,
+      headers: email.headers,
+      attachments: email.attachments.map(attachment => ({
+        filename: attachment.filename,
+        content: Buffer.from(attachment.content).toString('base64'),
+        type: attachment.contentType,
+        disposition: 'attachment',
+      })),
+    });
+    const messageId = response.headers['x-message-id'];
+    return { messageId: typeof messageId === 'string' ? messageId : null };
+  },
+};
+
+let smtpTransport: Transporter | null = null;
+
+// Configured with SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS and SMTP_FROM
+const smtpProvider: EmailProvider = {
+  name: 'smtp',
+  async send(email) {
+    const from = process.env.SMTP_FROM;
+    if (!process.env.SMTP_HOST || !from) {
+      throw new Error('SMTP not configured - missing SMTP_HOST or SMTP_FROM');
+    }
+    if (!smtpTransport) {
+      const port = parseInt(process.env.SMTP_PORT || '587');
+      smtpTransport = nodemailer.createTransport({
+        host: process.env.SMTP_HOST,
+        port,
+        secure: port === 465,
+        auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined,
+      });
+    }
+    const info = await smtpTransport.sendMail({
+      from,
+      to: email.to,
+      subject: email.subject,
+      html: email.html,
+      headers: email.headers,
+      attachments: email.attachments.map(attachment => ({
+        filename: attachment.filename,
+        content: attachment.content,
+        contentType: attachment.contentType,
+      })),
+    });
+    return { messageId: info.messageId ?? null };
+  },
+};
+
+// For local development and tests: writes each email to EMAIL_SINK_DIR (default
+// .email-sink) as an HTML file you can open in a browser, plus a JSON file with the
+// headers and attachments, instead of sending it
+const fileSinkProvider: EmailProvider = {
+  name: 'file',
+  async send(email) {
+    const dir = process.env.EMAIL_SINK_DIR || path.resolve(process.cwd(), '.email-sink');
+    await fs.mkdir(dir, { recursive: true });
+    const slug = email.subject.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60);
+    const messageId = `${Date.now()}-${slug || 'email'}`;
+    await fs.writeFile(path.join(dir, `${messageId}.html`), email.html);
+    await fs.writeFile(path.join(dir, `${messageId}.json`), JSON.stringify({
+      to: email.to,
+      subject: email.subject,
+      headers: email.headers,
+      attachments: email.attachments,
+    }, null, 2));
+    console.log(`[Email] Wrote "${email.subject}" for ${email.to} to ${path.join(dir, `${messageId}.html`)}`);
+    return { messageId };
+  },
+};
+
+const PROVIDERS: Record<string, EmailProvider> = {
+  resend: resendProvider,
+  sendgrid: sendGridProvider,
+  smtp: smtpProvider,
+  file: fileSinkProvider,
+};
+
+// EMAIL_PROVIDER picks one explicitly. Without it, production uses Resend and
+// development uses Resend only when it's configured, otherwise the file sink.
+export function getEmailProvider(): EmailProvider {
+  const configured = process.env.EMAIL_PROVIDER;
+  if (configured) {
+    const provider = PROVIDERS[configured];
+    if (!provider) throw new Error(`Unknown EMAIL_PROVIDER "${configured}"`);
+    return provider;
+  }
+  if (process.env.NODE_ENV === 'production' || process.env.RESEND_API_KEY) return resendProvider;
+  return fileSinkProvider;
+}
@@ -0,0 +1,479 @@
+// Every email ZambaJobs sends, rendered from plain data. Outbox rows record the template
+// name and version they were rendered with, so bump a template's version whenever its
+// wording or layout changes. Admins can preview each one with its sample data at
+// /api/admin/email-templates/:name/preview.
+
+interface EmailTemplate<T> {
+  version: number;
+  description: string;
+  subject: (data: T) => string;
+  html: (data: T) => string;
+  sample: T;
+}
+
+function defineTemplate<T>(template: EmailTemplate<T>): EmailTemplate<T> {
+  return template;
+}
+
+function appUrl(): string {
+  return process.env.APP_URL || 'http://localhost:5000';
+}
+
+// Most fields are user- or employer-written, so escape them before putting them in HTML
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function greeting(firstName?: string): string {
+  return `<p>Hi${firstName ? ` ${escapeHtml(firstName)}` : ''},</p>`;
+}
+
+// The yellow ZambaJobs layout shared by the notification emails; extraStyles holds the
+// classes only one template uses
+function renderLayout(heading: string, body: string, extraStyles = ''): string {
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background: linear-gradient(135deg, #EAB308 0%, #F59E0B 100%); color: white; padding: 30px; text-align: center; border-radius: 8px 8px 0 0; }
+        .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 8px 8px; }${extraStyles}
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>${heading}</h1>
+        </div>
+        <div class="content">
+          ${body}
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+}
+
+const CARD_STYLES = `
+        .details { background: white; border-left: 4px solid #EAB308; border-radius: 6px; padding: 12px 16px; margin: 12px 0; }`;
+
+// Shown in every interview email so both sides know where and when to meet
+export interface InterviewEmailDetails {
+  jobTitle: string;
+  when: string; // already formatted in Manila time
+  format: string;
+  location?: string | null;
+  meetingUrl?: string | null;
+}
+
+function renderInterviewDetails(details: InterviewEmailDetails): string {
+  const place = details.meetingUrl
+    ? `<a href="${escapeHtml(details.meetingUrl)}">${escapeHtml(details.meetingUrl)}</a>`
+    : escapeHtml(details.location || '');
+  return `
+          <div class="details">
+            <strong>${escapeHtml(details.when)}</strong><br>
+            ${escapeHtml(details.format)}${place ? ` · ${place}` : ''}
+          </div>`;
+}
+
+const SAMPLE_INTERVIEW: InterviewEmailDetails = {
+  jobTitle: 'Customer Service Representative',
+  when: 'Mon, Nov 3, 2025, 10:00 AM PHT',
+  format: 'Video call',
+  meetingUrl: 'https://meet.example.com/abc-defg-hij',
+};
+
+// One digest section per notification event, e.g. "New applicants"
+export interface DigestSection {
+  heading: string;
+  items: Array<{ title: string; body: string | null; link: string | null }>;
+}
+
+const APPLICATION_STATUS_MESSAGES: Record<string, string> = {
+  reviewing: "is being reviewed",
+  shortlisted: "has been shortlisted! 🎉",
+  rejected: "was not selected this time",
+  accepted: "has been accepted! 🎉 Congratulations!",
+};
+
+const templates = {
+  otp: defineTemplate<{ otp: string; firstName?: string }>({
+    version: 1,
+    description: 'Verification code sent at registration and login',
+    subject: () => 'Your ZambaJobs Verification Code',
+    html: ({ otp, firstName }) => `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background: linear-gradient(135deg, #EAB308 0%, #F59E0B 100%); color: white; padding: 30px; text-align: center; border-radius: 8px 8px 0 0; }
+        .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 8px 8px; }
+        .otp-box { background: white; border: 2px dashed #EAB308; border-radius: 8px; padding: 20px; text-align: center; margin: 20px 0; }
+        .otp-code { font-size: 32px; font-weight: bold; color: #EAB308; letter-spacing: 8px; }
+        .footer { text-align: center; margin-top: 20px; font-size: 12px; color: #666; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>🔐 ZambaJobs Verification Code</h1>
+        </div>
+        <div class="content">
+          ${greeting(firstName)}
+          <p>Your verification code for ZambaJobs is:</p>
+
+          <div class="otp-box">
+            <div class="otp-code">${escapeHtml(otp)}</div>
+          </div>
+
+          <p><strong>This code will expire in 10 minutes.</strong></p>
+          <p>If you didn't request this code, please ignore this email.</p>
+
+          <p>Need help? Contact us at support@zambajobs.digital</p>
+        </div>
+        <div class="footer">
+          <p>© 2025 ZambaJobs. Connecting talent with opportunity in the Philippines.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `,
+    sample: { otp: '482913', firstName: 'Maria' },
+  }),
+
+  password_reset: defineTemplate<{ token: string; firstName?: string }>({
+    version: 1,
+    description: 'Password reset link, valid for one hour',
+    subject: () => 'Reset your ZambaJobs password',
+    html: ({ token, firstName }) => `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background: linear-gradient(135deg, #EAB308 0%, #F59E0B 100%); color: white; padding: 30px; text-align: center; border-radius: 8px 8px 0 0; }
+        .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 8px 8px; }
+        .button { display: inline-block; background: #EAB308; color: white; padding: 12px 30px; text-decoration: none; border-radius: 6px; font-weight: bold; margin: 20px 0; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>🔑 Password Reset Request</h1>
+        </div>
+        <div class="content">
+          ${greeting(firstName)}
+          <p>We received a request to reset your password. Click the button below to set a new password:</p>
+
+          <p style="text-align: center;">
+            <a href="${appUrl()}/reset-password?token=${encodeURIComponent(token)}" class="button">Reset Password</a>
+          </p>
+
+          <p><strong>This link will expire in 1 hour.</strong></p>
+          <p>If you didn't request a password reset, please ignore this email and your password will remain unchanged.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `,
+    sample: { token: 'sample-reset-token', firstName: 'Maria' },
+  }),
+
+  fraud_alert: defineTemplate<{ alertType: string; description: string; entityType: string; entityId: string; confidence: number }>({
+    version: 1,
+    description: 'Sent to the admin inbox when fraud detection flags a user or job',
+    subject: ({ alertType, confidence }) => `🚨 Fraud Alert: ${alertType} (${confidence}% confidence)`,
+    html: ({ alertType, description, entityType, entityId, confidence }) => `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background: linear-gradient(135deg, #DC2626 0%, #EF4444 100%); color: white; padding: 30px; text-align: center; border-radius: 8px 8px 0 0; }
+        .content { background: #fff; padding: 30px; border: 2px solid #DC2626; border-radius: 0 0 8px 8px; }
+        .alert-box { background: #FEE2E2; border-left: 4px solid #DC2626; padding: 15px; margin: 20px 0; }
+        .confidence { font-size: 24px; font-weight: bold; color: #DC2626; }
+        .button { display: inline-block; background: #DC2626; color: white; padding: 12px 30px; text-decoration: none; border-radius: 6px; font-weight: bold; margin: 20px 0; }
+        ul { background: #f9f9f9; padding: 20px; border-radius: 6px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>🚨 URGENT: Fraud Detection Alert</h1>
+        </div>
+        <div class="content">
+          <div class="alert-box">
+            <p><strong>⚠️ The AI fraud detection system has flagged potentially fraudulent activity that requires immediate review.</strong></p>
+          </div>
+
+          <h3>Alert Details:</h3>
+          <ul>
+            <li><strong>Alert Type:</strong> ${escapeHtml(alertType)}</li>
+            <li><strong>Entity Type:</strong> ${escapeHtml(entityType)}</li>
+            <li><strong>Entity ID:</strong> ${escapeHtml(entityId)}</li>
+            <li><strong>AI Confidence:</strong> <span class="confidence">${confidence}%</span></li>
+          </ul>
+
+          <h3>Description:</h3>
+          <p>${escapeHtml(description)}</p>
+
+          <p style="text-align: center;">
+            <a href="${appUrl()}/admin/fraud-detection" class="button">Review in Admin Dashboard</a>
+          </p>
+
+          <p><strong>Recommended Action:</strong> Please review this alert immediately and take appropriate action (flag account, suspend listing, or dismiss if false positive).</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `,
+    sample: {
+      alertType: 'fake_job',
+      description: 'Asks applicants for an upfront training fee; salary far above market rate',
+      entityType: 'job',
+      entityId: '00000000-0000-0000-0000-000000000000',
+      confidence: 87,
+    },
+  }),
+
+  application_status: defineTemplate<{ jobTitle: string; status: string; employerMessage?: string; firstName?: string }>({
+    version: 1,
+    description: 'Tells a seeker their application moved to a new status',
+    subject: ({ jobTitle }) => `Application Update: ${jobTitle}`,
+    html: ({ jobTitle, status, employerMessage, firstName }) => renderLayout('📋 Application Status Update', `
+          ${greeting(firstName)}
+          <p>Your application for <strong>${escapeHtml(jobTitle)}</strong> ${APPLICATION_STATUS_MESSAGES[status] || "has been updated"}.</p>
+          ${employerMessage ? `<p style="white-space: pre-wrap;">${escapeHtml(employerMessage)}</p>` : ''}
+          <p>Log in to your ZambaJobs account to view more details.</p>`),
+    sample: { jobTitle: 'Customer Service Representative', status: 'shortlisted', firstName: 'Maria' },
+  }),
+
+  saved_search_alert: defineTemplate<{
+    searchName: string;
+    jobs: Array<{ id: string; title: string; companyName: string | null; location: string }>;
+    isDigest: boolean;
+    firstName?: string;
+  }>({
+    version: 1,
+    description: 'New jobs matching a seeker\'s saved search, instantly or as a daily digest',
+    subject: ({ searchName, jobs }) => jobs.length === 1
+      ? `New job for "${searchName}": ${jobs[0].title}`
+      : `${jobs.length} new jobs for "${searchName}"`,
+    html: ({ searchName, jobs, isDigest, firstName }) => {
+      const intro = isDigest
+        ? `Here are today's new jobs for your saved search <strong>${escapeHtml(searchName)}</strong>:`
+        : `New jobs were just posted that match your saved search <strong>${escapeHtml(searchName)}</strong>:`;
+      const jobItems = jobs.map(job => `
+            <div class="job">
+              <a href="${appUrl()}/jobs/${job.id}" class="job-title">${escapeHtml(job.title)}</a>
+              <div class="job-meta">${escapeHtml([job.companyName, job.location].filter(Boolean).join(' · '))}</div>
+            </div>`).join('');
+      return renderLayout('🔔 New Jobs For You', `
+          ${greeting(firstName)}
+          <p>${intro}</p>
+          ${jobItems}
+          <p>Manage your saved searches from your <a href="${appUrl()}/dashboard">ZambaJobs dashboard</a>.</p>
+          <p style="font-size: 12px; color: #666;">You're receiving this because you saved a job search on ZambaJobs. Unsubscribing turns off alerts for this search only.</p>`, `
+        .job { background: white; border-left: 4px solid #EAB308; border-radius: 6px; padding: 12px 16px; margin: 12px 0; }
+        .job-title { font-weight: bold; color: #B45309; text-decoration: none; }
+        .job-meta { font-size: 14px; color: #666; }`);
+    },
+    sample: {
+      searchName: 'Remote customer support',
+      jobs: [
+        { id: 'sample-1', title: 'Customer Service Representative', companyName: 'Mindanao BPO', location: 'Zamboanga City' },
+        { id: 'sample-2', title: 'Chat Support Specialist', companyName: null, location: 'Remote' },
+      ],
+      isDigest: false,
+      firstName: 'Maria',
+    },
+  }),
+
+  unread_messages: defineTemplate<{
+    senderName: string;
+    jobTitle: string;
+    messageCount: number;
+    preview: string;
+    messagesPath: string;
+    firstName?: string;
+  }>({
+    version: 1,
+    description: 'Messages left unread for a few minutes in an application thread',
+    subject: ({ senderName, jobTitle }) => `New message from ${senderName}: ${jobTitle}`,
+    html: ({ senderName, jobTitle, messageCount, preview, messagesPath, firstName }) => renderLayout('💬 New Message', `
+          ${greeting(firstName)}
+          <p>You have ${messageCount === 1 ? 'a new message' : `${messageCount} new messages`} from <strong>${escapeHtml(senderName)}</strong> about <strong>${escapeHtml(jobTitle)}</strong>.</p>
+          ${preview ? `<div class="preview">${escapeHtml(preview)}</div>` : ''}
+          <p><a href="${appUrl()}${messagesPath}">Read and reply on ZambaJobs</a></p>`, `
+        .preview { background: white; border-left: 4px solid #EAB308; border-radius: 6px; padding: 12px 16px; margin: 12px 0; white-space: pre-wrap; }`),
+    sample: {
+      senderName: 'Mindanao BPO',
+      jobTitle: 'Customer Service Representative',
+      messageCount: 2,
+      preview: 'Hi Maria, thanks for applying! Could you send us a copy of your NBI clearance?',
+      messagesPath: '/messages',
+      firstName: 'Maria',
+    },
+  }),
+
+  new_applicant: defineTemplate<{ jobTitle: string; summary: string; jobPath: string; firstName?: string }>({
+    version: 1,
+    description: 'Tells an employer someone applied to one of their jobs',
+    subject: ({ jobTitle }) => `New applicant: ${jobTitle}`,
+    html: ({ jobTitle, summary, jobPath, firstName }) => renderLayout('🙋 New Applicant', `
+          ${greeting(firstName)}
+          <p>You have a new applicant for <strong>${escapeHtml(jobTitle)}</strong>. ${escapeHtml(summary)}</p>
+          <p><a href="${appUrl()}${jobPath}">Review applicants on ZambaJobs</a></p>`),
+    sample: { jobTitle: 'Customer Service Representative', summary: 'Maria Santos applied.', jobPath: '/employer/dashboard', firstName: 'Jose' },
+  }),
+
+  interview_proposal: defineTemplate<{
+    jobTitle: string;
+    companyName: string;
+    slots: string[];
+    isReschedule: boolean;
+    previousTimeCancelled: boolean;
+    firstName?: string;
+  }>({
+    version: 1,
+    description: 'Proposed interview times for the seeker to choose from',
+    subject: ({ jobTitle, isReschedule }) => `${isReschedule ? 'New interview times' : 'Interview invitation'}: ${jobTitle}`,
+    html: ({ jobTitle, companyName, slots, isReschedule, previousTimeCancelled, firstName }) => {
+      const intro = isReschedule
+        ? `<strong>${escapeHtml(companyName)}</strong> proposed new interview times for <strong>${escapeHtml(jobTitle)}</strong>.`
+        : `<strong>${escapeHtml(companyName)}</strong> would like to interview you for <strong>${escapeHtml(jobTitle)}</strong>.`;
+      return renderLayout('📅 Interview Invitation', `
+          ${greeting(firstName)}
+          <p>${intro} Pick the time that works best for you:</p>
+          <ul>${slots.map(slot => `<li>${escapeHtml(slot)}</li>`).join('')}</ul>
+          <p><a href="${appUrl()}/dashboard">Choose a time on your ZambaJobs dashboard</a></p>
+          ${previousTimeCancelled ? '<p>The previously scheduled time has been removed from your calendar.</p>' : ''}`, CARD_STYLES);
+    },
+    sample: {
+      jobTitle: 'Customer Service Representative',
+      companyName: 'Mindanao BPO',
+      slots: ['Mon, Nov 3, 2025, 10:00 AM PHT', 'Tue, Nov 4, 2025, 2:00 PM PHT'],
+      isReschedule: false,
+      previousTimeCancelled: false,
+      firstName: 'Maria',
+    },
+  }),
+
+  interview_confirmation: defineTemplate<{ details: InterviewEmailDetails; firstName?: string }>({
+    version: 1,
+    description: 'Confirmed interview time, sent to both sides with a calendar invite',
+    subject: ({ details }) => `Interview confirmed: ${details.jobTitle}`,
+    html: ({ details, firstName }) => renderLayout('✅ Interview Confirmed', `
+          ${greeting(firstName)}
+          <p>Your interview for <strong>${escapeHtml(details.jobTitle)}</strong> is confirmed.</p>
+          ${renderInterviewDetails(details)}
+          <p>Open the attached invite to add it to your calendar.</p>`, CARD_STYLES),
+    sample: { details: SAMPLE_INTERVIEW, firstName: 'Maria' },
+  }),
+
+  interview_cancellation: defineTemplate<{ jobTitle: string; when: string | null; reason: string | null; firstName?: string }>({
+    version: 1,
+    description: 'Cancelled interview; removes it from calendars when it had been scheduled',
+    subject: ({ jobTitle }) => `Interview cancelled: ${jobTitle}`,
+    html: ({ jobTitle, when, reason, firstName }) => renderLayout('Interview Cancelled', `
+          ${greeting(firstName)}
+          <p>The interview for <strong>${escapeHtml(jobTitle)}</strong>${when ? ` on <strong>${escapeHtml(when)}</strong>` : ''} has been cancelled.</p>
+          ${reason ? `<p style="white-space: pre-wrap;">${escapeHtml(reason)}</p>` : ''}
+          <p>Log in to your ZambaJobs account to view more details.</p>`, CARD_STYLES),
+    sample: { jobTitle: 'Customer Service Representative', when: SAMPLE_INTERVIEW.when, reason: 'The position has been filled.', firstName: 'Maria' },
+  }),
+
+  interview_reschedule_request: defineTemplate<{ jobTitle: string; candidateName: string; reason: string | null; firstName?: string }>({
+    version: 1,
+    description: 'Tells the employer a candidate asked for a different interview time',
+    subject: ({ jobTitle }) => `New interview time requested: ${jobTitle}`,
+    html: ({ jobTitle, candidateName, reason, firstName }) => renderLayout('🔁 New Interview Time Requested', `
+          ${greeting(firstName)}
+          <p><strong>${escapeHtml(candidateName)}</strong> asked for a different interview time for <strong>${escapeHtml(jobTitle)}</strong>.</p>
+          ${reason ? `<p style="white-space: pre-wrap;">${escapeHtml(reason)}</p>` : ''}
+          <p>Log in to ZambaJobs to propose new times.</p>`, CARD_STYLES),
+    sample: { jobTitle: 'Customer Service Representative', candidateName: 'Maria Santos', reason: 'I have an exam that morning.', firstName: 'Jose' },
+  }),
+
+  interview_reminder: defineTemplate<{ details: InterviewEmailDetails; hoursUntil: number; firstName?: string }>({
+    version: 1,
+    description: 'Reminder 24 hours and 1 hour before a scheduled interview',
+    subject: ({ details, hoursUntil }) => `Reminder: ${details.jobTitle} interview ${startsIn(hoursUntil)}`,
+    html: ({ details, hoursUntil, firstName }) => renderLayout('⏰ Interview Reminder', `
+          ${greeting(firstName)}
+          <p>Your interview for <strong>${escapeHtml(details.jobTitle)}</strong> starts ${startsIn(hoursUntil)}.</p>
+          ${renderInterviewDetails(details)}`, CARD_STYLES),
+    sample: { details: SAMPLE_INTERVIEW, hoursUntil: 24, firstName: 'Maria' },
+  }),
+
+  notification_digest: defineTemplate<{ frequency: 'daily' | 'weekly'; sections: DigestSection[]; firstName?: string }>({
+    version: 1,
+    description: 'Daily or weekly roundup of notifications the user chose to batch',
+    subject: ({ frequency, sections }) => {
+      const itemCount = sections.reduce((total, section) => total + section.items.length, 0);
+      return `Your ZambaJobs ${frequency} digest: ${itemCount} ${itemCount === 1 ? 'update' : 'updates'}`;
+    },
+    html: ({ frequency, sections, firstName }) => {
+      const sectionHtml = sections.map(section => `
+          <h3>${escapeHtml(section.heading)}</h3>
+          ${section.items.map(item => `
+            <div class="item">
+              ${item.link
+                ? `<a href="${appUrl()}${item.link}" class="item-title">${escapeHtml(item.title)}</a>`
+                : `<span class="item-title">${escapeHtml(item.title)}</span>`}
+              ${item.body ? `<div class="item-body">${escapeHtml(item.body)}</div>` : ''}
+            </div>`).join('')}`).join('');
+      return renderLayout(`📬 Your ${frequency === 'daily' ? 'Daily' : 'Weekly'} Digest`, `
+          ${greeting(firstName)}
+          <p>Here's what happened on ZambaJobs in the past ${frequency === 'daily' ? 'day' : 'week'}.</p>
+          ${sectionHtml}`, `
+        .item { background: white; border-left: 4px solid #EAB308; border-radius: 6px; padding: 12px 16px; margin: 12px 0; }
+        .item-title { font-weight: bold; color: #B45309; text-decoration: none; }
+        .item-body { font-size: 14px; color: #666; white-space: pre-wrap; }`);
+    },
+    sample: {
+      frequency: 'daily',
+      sections: [
+        {
+          heading: 'New applicants',
+          items: [
+            { title: 'Customer Service Representative', body: 'Maria Santos applied.', link: '/employer/dashboard' },
+            { title: 'Customer Service Representative', body: 'Juan Dela Cruz applied.', link: '/employer/dashboard' },
+          ],
+        },
+      ],
+      firstName: 'Jose',
+    },
+  }),
+};
+
+function startsIn(hoursUntil: number): string {
+  return hoursUntil <= 1 ? 'in about an hour' : `in about ${hoursUntil} hours`;
+}
+
+export type EmailTemplateName = keyof typeof templates;
+export type EmailTemplateData<N extends EmailTemplateName> = typeof templates[N]['sample'];
+
+// As a mapped type, EMAIL_TEMPLATES[name] keeps the data type of a generic name
+export const EMAIL_TEMPLATES: { [N in EmailTemplateName]: EmailTemplate<EmailTemplateData<N>> } = templates;
+
+export function isEmailTemplateName(name: string): name is EmailTemplateName {
+  return Object.prototype.hasOwnProperty.call(EMAIL_TEMPLATES, name);
+}
+
+export function renderEmailTemplate<N extends EmailTemplateName>(name: N, data: EmailTemplateData<N>): { subject: string; html: string; version: number } {
+  const template = EMAIL_TEMPLATES[name];
+  return { subject: template.subject(data), html: template.html(data), version: template.version };
+}
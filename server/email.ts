@@ -1,29 +1,61 @@
-import { getUncachableResendClient } from './resend-client';
 import crypto from 'crypto';
+import { queueEmail } from './email-outbox';
+import {
+  renderEmailTemplate,
+  type EmailTemplateName,
+  type EmailTemplateData,
+  type InterviewEmailDetails,
+  type DigestSection,
+} from './email-templates';
+import type { EmailAttachment } from '@shared/schema';
+
+export type { InterviewEmailDetails, DigestSection } from './email-templates';
 
 const ADMIN_EMAIL = 'admin@zambajobs.digital';
 
-async function sendEmail(to: string, subject: string, html: string): Promise<void> {
-  console.log('DEBUG: sendEmail called with:', { to, subject });
-  
-  try {
-    const { client, fromEmail } = await getUncachableResendClient();
-    
-    console.log(`Attempting to send email from ${fromEmail} to ${to}...`);
-    
-    const result = await client.emails.send({
-      from: fromEmail,
-      to,
-      subject,
-      html,
-    });
-    
-    console.log(`✅ Email sent successfully! ID: ${result.data?.id}, From: ${fromEmail}, To: ${to}, Subject: ${subject}`);
-  } catch (error: any) {
-    console.log('❌ Failed to send email:', error.message);
-    console.log('❌ Full error details:', error);
-    throw error;
-  }
+interface SendEmailOptions {
+  attachments?: EmailAttachment[];
+  // Notification emails pass the recipient's signed unsubscribe link; it's added as a
+  // footer and as the List-Unsubscribe headers mail clients show as a one-click button.
+  // Account emails (OTP, password reset) and admin alerts go out without one.
+  unsubscribeUrl?: string;
+}
+
+// Trailing argument of the notification email senders below
+export type NotificationEmailOptions = Pick<SendEmailOptions, 'unsubscribeUrl'>;
+
+function withUnsubscribeFooter(html: string, unsubscribeUrl: string): string {
+  const settingsUrl = `${process.env.APP_URL || 'http://localhost:5000'}/profile/notifications`;
+  const footer = `
+      <div style="max-width: 600px; margin: 0 auto; text-align: center; font-size: 12px; color: #666;">
+        <p><a href="${unsubscribeUrl}">Unsubscribe</a> · <a href="${settingsUrl}">Notification settings</a></p>
+      </div>
+    </body>`;
+  return html.replace('</body>', footer);
+}
+
+// Renders the template and puts the email in the outbox; server/email-outbox.ts delivers
+// it and retries on provider errors, so this only fails if the database does
+async function sendEmail<N extends EmailTemplateName>(
+  to: string,
+  template: N,
+  data: EmailTemplateData<N>,
+  options: SendEmailOptions = {}
+): Promise<void> {
+  const { attachments = [], unsubscribeUrl } = options;
+  const { subject, html, version } = renderEmailTemplate(template, data);
+
+  await queueEmail({
+    to,
+    subject,
+    html: unsubscribeUrl ? withUnsubscribeFooter(html, unsubscribeUrl) : html,
+    template,
+    templateVersion: version,
+    attachments,
+    headers: unsubscribeUrl
+      ? { 'List-Unsubscribe': `<${unsubscribeUrl}>`, 'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click' }
+      : {},
+  });
 }
 
 export function generateOTP(): string {
@@ -38,47 +70,7 @@ export async function sendOTPEmail(
   // Log OTP for easy access during testing if email fails
   console.log(`[AUTH] Verification code for ${email}: ${otp}`);
 
-  const html = `
-    <!DOCTYPE html>
-    <html>
-    <head>
-      <style>
-        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
-        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-        .header { background: linear-gradient(135deg, #EAB308 0%, #F59E0B 100%); color: white; padding: 30px; text-align: center; border-radius: 8px 8px 0 0; }
-        .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 8px 8px; }
-        .otp-box { background: white; border: 2px dashed #EAB308; border-radius: 8px; padding: 20px; text-align: center; margin: 20px 0; }
-        .otp-code { font-size: 32px; font-weight: bold; color: #EAB308; letter-spacing: 8px; }
-        .footer { text-align: center; margin-top: 20px; font-size: 12px; color: #666; }
-      </style>
-    </head>
-    <body>
-      <div class="container">
-        <div class="header">
-          <h1>🔐 ZambaJobs Verification Code</h1>
-        </div>
-        <div class="content">
-          <p>Hi${firstName ? ` ${firstName}` : ''},</p>
-          <p>Your verification code for ZambaJobs is:</p>
-          
-          <div class="otp-box">
-            <div class="otp-code">${otp}</div>
-          </div>
-          
-          <p><strong>This code will expire in 10 minutes.</strong></p>
-          <p>If you didn't request this code, please ignore this email.</p>
-          
-          <p>Need help? Contact us at support@zambajobs.digital</p>
-        </div>
-        <div class="footer">
-          <p>© 2025 ZambaJobs. Connecting talent with opportunity in the Philippines.</p>
-        </div>
-      </div>
-    </body>
-    </html>
-  `;
-  
-  await sendEmail(email, 'Your ZambaJobs Verification Code', html);
+  await sendEmail(email, 'otp', { otp, firstName });
 }
 
 export async function sendPasswordResetEmail(
@@ -86,42 +78,7 @@ export async function sendPasswordResetEmail(
   token: string,
   firstName?: string
 ): Promise<void> {
-  const resetUrl = `${process.env.APP_URL || 'http://localhost:5000'}/reset-password?token=${token}`;
-  
-  const html = `
-    <!DOCTYPE html>
-    <html>
-    <head>
-      <style>
-        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
-        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-        .header { background: linear-gradient(135deg, #EAB308 0%, #F59E0B 100%); color: white; padding: 30px; text-align: center; border-radius: 8px 8px 0 0; }
-        .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 8px 8px; }
-        .button { display: inline-block; background: #EAB308; color: white; padding: 12px 30px; text-decoration: none; border-radius: 6px; font-weight: bold; margin: 20px 0; }
-      </style>
-    </head>
-    <body>
-      <div class="container">
-        <div class="header">
-          <h1>🔑 Password Reset Request</h1>
-        </div>
-        <div class="content">
-          <p>Hi${firstName ? ` ${firstName}` : ''},</p>
-          <p>We received a request to reset your password. Click the button below to set a new password:</p>
-          
-          <p style="text-align: center;">
-            <a href="${resetUrl}" class="button">Reset Password</a>
-          </p>
-          
-          <p><strong>This link will expire in 1 hour.</strong></p>
-          <p>If you didn't request a password reset, please ignore this email and your password will remain unchanged.</p>
-        </div>
-      </div>
-    </body>
-    </html>
-  `;
-  
-  await sendEmail(email, 'Reset your ZambaJobs password', html);
+  await sendEmail(email, 'password_reset', { token, firstName });
 }
 
 export async function sendFraudAlertEmail(
@@ -131,98 +88,137 @@ export async function sendFraudAlertEmail(
   entityId: string,
   confidence: number
 ): Promise<void> {
-  const dashboardUrl = `${process.env.APP_URL || 'http://localhost:5000'}/admin/fraud-detection`;
-  
-  const html = `
-    <!DOCTYPE html>
-    <html>
-    <head>
-      <style>
-        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
-        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-        .header { background: linear-gradient(135deg, #DC2626 0%, #EF4444 100%); color: white; padding: 30px; text-align: center; border-radius: 8px 8px 0 0; }
-        .content { background: #fff; padding: 30px; border: 2px solid #DC2626; border-radius: 0 0 8px 8px; }
-        .alert-box { background: #FEE2E2; border-left: 4px solid #DC2626; padding: 15px; margin: 20px 0; }
-        .confidence { font-size: 24px; font-weight: bold; color: #DC2626; }
-        .button { display: inline-block; background: #DC2626; color: white; padding: 12px 30px; text-decoration: none; border-radius: 6px; font-weight: bold; margin: 20px 0; }
-        ul { background: #f9f9f9; padding: 20px; border-radius: 6px; }
-      </style>
-    </head>
-    <body>
-      <div class="container">
-        <div class="header">
-          <h1>🚨 URGENT: Fraud Detection Alert</h1>
-        </div>
-        <div class="content">
-          <div class="alert-box">
-            <p><strong>⚠️ The AI fraud detection system has flagged potentially fraudulent activity that requires immediate review.</strong></p>
-          </div>
-          
-          <h3>Alert Details:</h3>
-          <ul>
-            <li><strong>Alert Type:</strong> ${alertType}</li>
-            <li><strong>Entity Type:</strong> ${entityType}</li>
-            <li><strong>Entity ID:</strong> ${entityId}</li>
-            <li><strong>AI Confidence:</strong> <span class="confidence">${confidence}%</span></li>
-          </ul>
-          
-          <h3>Description:</h3>
-          <p>${description}</p>
-          
-          <p style="text-align: center;">
-            <a href="${dashboardUrl}" class="button">Review in Admin Dashboard</a>
-          </p>
-          
-          <p><strong>Recommended Action:</strong> Please review this alert immediately and take appropriate action (flag account, suspend listing, or dismiss if false positive).</p>
-        </div>
-      </div>
-    </body>
-    </html>
-  `;
-  
-  await sendEmail(ADMIN_EMAIL, `🚨 Fraud Alert: ${alertType} (${confidence}% confidence)`, html);
+  await sendEmail(ADMIN_EMAIL, 'fraud_alert', { alertType, description, entityType, entityId, confidence });
 }
 
 export async function sendApplicationStatusEmail(
   email: string,
   jobTitle: string,
   status: string,
+  firstName?: string,
+  employerMessage?: string,
+  options: NotificationEmailOptions = {}
+): Promise<void> {
+  await sendEmail(email, 'application_status', { jobTitle, status, employerMessage, firstName }, options);
+}
+
+export async function sendSavedSearchAlertEmail(
+  email: string,
+  searchName: string,
+  jobs: Array<{ id: string; title: string; companyName: string | null; location: string }>,
+  unsubscribeToken: string,
+  isDigest: boolean,
   firstName?: string
 ): Promise<void> {
-  const statusMessages = {
-    reviewing: "is being reviewed",
-    shortlisted: "has been shortlisted! 🎉",
-    rejected: "was not selected this time",
-    accepted: "has been accepted! 🎉 Congratulations!",
-  };
-
-  const message = statusMessages[status as keyof typeof statusMessages] || "has been updated";
-  
-  const html = `
-    <!DOCTYPE html>
-    <html>
-    <head>
-      <style>
-        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
-        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-        .header { background: linear-gradient(135deg, #EAB308 0%, #F59E0B 100%); color: white; padding: 30px; text-align: center; border-radius: 8px 8px 0 0; }
-        .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 8px 8px; }
-      </style>
-    </head>
-    <body>
-      <div class="container">
-        <div class="header">
-          <h1>📋 Application Status Update</h1>
-        </div>
-        <div class="content">
-          <p>Hi${firstName ? ` ${firstName}` : ''},</p>
-          <p>Your application for <strong>${jobTitle}</strong> ${message}.</p>
-          <p>Log in to your ZambaJobs account to view more details.</p>
-        </div>
-      </div>
-    </body>
-    </html>
-  `;
-  
-  await sendEmail(email, `Application Update: ${jobTitle}`, html);
+  const unsubscribeUrl = `${process.env.APP_URL || 'http://localhost:5000'}/api/saved-searches/unsubscribe/${unsubscribeToken}`;
+  await sendEmail(email, 'saved_search_alert', { searchName, jobs, isDigest, firstName }, { unsubscribeUrl });
+}
+
+export async function sendUnreadMessagesEmail(
+  email: string,
+  senderName: string,
+  jobTitle: string,
+  messageCount: number,
+  preview: string,
+  messagesPath: string,
+  firstName?: string,
+  options: NotificationEmailOptions = {}
+): Promise<void> {
+  await sendEmail(
+    email,
+    'unread_messages',
+    { senderName, jobTitle, messageCount, preview, messagesPath, firstName },
+    options
+  );
+}
+
+function inviteAttachment(invite: string, method: 'REQUEST' | 'CANCEL'): EmailAttachment {
+  return { filename: 'interview.ics', content: invite, contentType: `text/calendar; charset=utf-8; method=${method}` };
+}
+
+export async function sendInterviewProposalEmail(
+  email: string,
+  jobTitle: string,
+  companyName: string,
+  slots: string[],
+  isReschedule: boolean,
+  cancelledInvite?: string,
+  firstName?: string,
+  options: NotificationEmailOptions = {}
+): Promise<void> {
+  await sendEmail(
+    email,
+    'interview_proposal',
+    { jobTitle, companyName, slots, isReschedule, previousTimeCancelled: !!cancelledInvite, firstName },
+    { attachments: cancelledInvite ? [inviteAttachment(cancelledInvite, 'CANCEL')] : undefined, ...options }
+  );
+}
+
+export async function sendInterviewConfirmationEmail(
+  email: string,
+  details: InterviewEmailDetails,
+  invite: string,
+  firstName?: string,
+  options: NotificationEmailOptions = {}
+): Promise<void> {
+  await sendEmail(email, 'interview_confirmation', { details, firstName }, { attachments: [inviteAttachment(invite, 'REQUEST')], ...options });
+}
+
+export async function sendInterviewCancellationEmail(
+  email: string,
+  jobTitle: string,
+  when: string | null,
+  reason: string | null,
+  invite: string | null,
+  firstName?: string,
+  options: NotificationEmailOptions = {}
+): Promise<void> {
+  await sendEmail(
+    email,
+    'interview_cancellation',
+    { jobTitle, when, reason, firstName },
+    { attachments: invite ? [inviteAttachment(invite, 'CANCEL')] : undefined, ...options }
+  );
+}
+
+export async function sendInterviewRescheduleRequestEmail(
+  email: string,
+  jobTitle: string,
+  candidateName: string,
+  reason: string | null,
+  firstName?: string,
+  options: NotificationEmailOptions = {}
+): Promise<void> {
+  await sendEmail(email, 'interview_reschedule_request', { jobTitle, candidateName, reason, firstName }, options);
+}
+
+export async function sendInterviewReminderEmail(
+  email: string,
+  details: InterviewEmailDetails,
+  hoursUntil: number,
+  firstName?: string,
+  options: NotificationEmailOptions = {}
+): Promise<void> {
+  await sendEmail(email, 'interview_reminder', { details, hoursUntil, firstName }, options);
+}
+
+export async function sendNewApplicantEmail(
+  email: string,
+  jobTitle: string,
+  summary: string,
+  jobPath: string,
+  firstName?: string,
+  options: NotificationEmailOptions = {}
+): Promise<void> {
+  await sendEmail(email, 'new_applicant', { jobTitle, summary, jobPath, firstName }, options);
+}
+
+export async function sendNotificationDigestEmail(
+  email: string,
+  frequency: 'daily' | 'weekly',
+  sections: DigestSection[],
+  firstName?: string,
+  options: NotificationEmailOptions = {}
+): Promise<void> {
+  await sendEmail(email, 'notification_digest', { frequency, sections, firstName }, options);
 }
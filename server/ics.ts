@@ -0,0 +1,93 @@
+// iCalendar (RFC 5545) invites for interviews. Times are written in Asia/Manila with
+// a matching VTIMEZONE so calendar apps show the slot exactly as it was offered.
+import { INTERVIEW_TIMEZONE, MANILA_OFFSET_MS } from "@shared/interviews";
+
+export interface CalendarParticipant {
+  name: string;
+  email: string;
+}
+
+export interface InterviewInvite {
+  uid: string; // stays the same across updates so calendars replace the event
+  sequence: number;
+  method: "REQUEST" | "CANCEL";
+  start: Date;
+  durationMinutes: number;
+  summary: string;
+  description: string;
+  location?: string | null;
+  url?: string | null;
+  organizer: CalendarParticipant;
+  attendee: CalendarParticipant;
+}
+
+// 20261020T140000 in Manila time
+function formatManilaTime(date: Date): string {
+  return new Date(date.getTime() + MANILA_OFFSET_MS).toISOString().replace(/[-:]/g, "").slice(0, 15);
+}
+
+// 20261020T060000Z
+function formatUtcTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").slice(0, 15) + "Z";
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Lines longer than 75 octets are folded onto continuation lines starting with a space
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let rest = line;
+  while (Buffer.byteLength(rest) > 75) {
+    let cut = 74;
+    while (Buffer.byteLength(rest.slice(0, cut)) > 74) cut--;
+    parts.push(rest.slice(0, cut));
+    rest = rest.slice(cut);
+  }
+  parts.push(rest);
+  return parts.join("\r\n ");
+}
+
+export function buildInterviewInvite(invite: InterviewInvite): string {
+  const end = new Date(invite.start.getTime() + invite.durationMinutes * 60 * 1000);
+  const participant = (label: string, person: CalendarParticipant, extra = "") =>
+    `${label};CN="${person.name.replace(/"/g, "'")}"${extra}:mailto:${person.email}`;
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//ZambaJobs//Interviews//EN",
+    "CALSCALE:GREGORIAN",
+    `METHOD:${invite.method}`,
+    "BEGIN:VTIMEZONE",
+    `TZID:${INTERVIEW_TIMEZONE}`,
+    "BEGIN:STANDARD",
+    "DTSTART:19700101T000000",
+    "TZOFFSETFROM:+0800",
+    "TZOFFSETTO:+0800",
+    "TZNAME:PHT",
+    "END:STANDARD",
+    "END:VTIMEZONE",
+    "BEGIN:VEVENT",
+    `UID:${invite.uid}`,
+    `SEQUENCE:${invite.sequence}`,
+    `DTSTAMP:${formatUtcTime(new Date())}`,
+    `DTSTART;TZID=${INTERVIEW_TIMEZONE}:${formatManilaTime(invite.start)}`,
+    `DTEND;TZID=${INTERVIEW_TIMEZONE}:${formatManilaTime(end)}`,
+    `SUMMARY:${escapeText(invite.summary)}`,
+    `DESCRIPTION:${escapeText(invite.description)}`,
+    ...(invite.location ? [`LOCATION:${escapeText(invite.location)}`] : []),
+    ...(invite.url ? [`URL:${invite.url}`] : []),
+    participant("ORGANIZER", invite.organizer),
+    participant("ATTENDEE", invite.attendee, ";ROLE=REQ-PARTICIPANT;PARTSTAT=ACCEPTED"),
+    `STATUS:${invite.method === "CANCEL" ? "CANCELLED" : "CONFIRMED"}`,
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -1,6 +1,12 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startMatchWorker } from "./match-worker";
+import { startSavedSearchAlerts } from "./saved-search-alerts";
+import { startMessageNotifier } from "./message-notifier";
+import { startInterviewReminders } from "./interview-notifications";
+import { startNotificationDigests } from "./notification-digests";
+import { startEmailOutbox } from "./email-outbox";
 
 const app = express();
 
@@ -77,5 +83,11 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    startMatchWorker();
+    startSavedSearchAlerts();
+    startMessageNotifier();
+    startInterviewReminders();
+    startNotificationDigests();
+    startEmailOutbox();
   });
 })();
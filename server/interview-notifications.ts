@@ -0,0 +1,208 @@
+import { storage } from "./storage";
+import {
+  sendInterviewProposalEmail,
+  sendInterviewConfirmationEmail,
+  sendInterviewCancellationEmail,
+  sendInterviewRescheduleRequestEmail,
+  sendInterviewReminderEmail,
+  type InterviewEmailDetails,
+} from "./email";
+import { buildInterviewInvite } from "./ics";
+import { deliverEmail } from "./notifications";
+import { INTERVIEW_FORMAT_LABELS, formatInterviewTime } from "@shared/interviews";
+import type { Interview, Job, User } from "@shared/schema";
+
+// Reminders go out 24 hours and 1 hour before a scheduled interview
+const CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+interface InterviewContext {
+  job: Job;
+  seeker: User;
+  employer: User;
+}
+
+async function loadContext(interview: Interview): Promise<InterviewContext | null> {
+  const application = await storage.getApplication(interview.applicationId);
+  const job = application && await storage.getJob(application.jobId);
+  if (!application || !job) return null;
+  const [seeker, employer] = await Promise.all([storage.getUser(application.seekerId), storage.getUser(job.employerId)]);
+  if (!seeker || !employer) return null;
+  return { job, seeker, employer };
+}
+
+function displayName(user: User): string {
+  return [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email || "ZambaJobs user";
+}
+
+function companyName({ job, employer }: InterviewContext): string {
+  return job.companyName || displayName(employer);
+}
+
+function emailDetails(interview: Interview, job: Job, scheduledAt: Date): InterviewEmailDetails {
+  return {
+    jobTitle: job.title,
+    when: formatInterviewTime(scheduledAt),
+    format: INTERVIEW_FORMAT_LABELS[interview.format],
+    location: interview.format === "onsite" ? interview.location : null,
+    meetingUrl: interview.format === "video" ? interview.meetingUrl : null,
+  };
+}
+
+// The calendar entry for the interview's scheduled time; method CANCEL removes it again
+function buildInvite(interview: Interview, context: InterviewContext, scheduledAt: Date, method: "REQUEST" | "CANCEL"): string | null {
+  if (!context.seeker.email || !context.employer.email) return null;
+  return buildInterviewInvite({
+    uid: `interview-${interview.id}@zambajobs.digital`,
+    sequence: interview.sequence,
+    method,
+    start: scheduledAt,
+    durationMinutes: interview.durationMinutes,
+    summary: `Interview: ${context.job.title} (${companyName(context)})`,
+    description: [
+      `Interview with ${companyName(context)} for ${context.job.title}.`,
+      `Candidate: ${displayName(context.seeker)}`,
+      interview.notes,
+    ].filter(Boolean).join("\n"),
+    location: interview.format === "onsite" ? interview.location : interview.meetingUrl,
+    url: interview.format === "video" ? interview.meetingUrl : null,
+    organizer: { name: companyName(context), email: context.employer.email },
+    attendee: { name: displayName(context.seeker), email: context.seeker.email },
+  });
+}
+
+// Interview emails are instant or off (see NOTIFICATION_EVENT_CONFIG), so the digest
+// line is only a fallback
+function emailRecipient(recipient: User, title: string, send: (email: string, unsubscribeUrl: string) => Promise<void>): Promise<boolean> {
+  if (!recipient.email) return Promise.resolve(false);
+  const email = recipient.email;
+  return deliverEmail(recipient.id, "interviews", { title, link: null }, unsubscribeUrl => send(email, unsubscribeUrl));
+}
+
+// Each notifier logs failures instead of throwing: the interview change itself has
+// already been saved, and the seeker or employer can still see it on their dashboard.
+
+// previousScheduledAt is set when an already scheduled interview is being moved
+export async function notifyInterviewProposed(interview: Interview, isReschedule: boolean, previousScheduledAt?: Date | null): Promise<void> {
+  try {
+    const context = await loadContext(interview);
+    if (!context) return;
+    const cancelledInvite = previousScheduledAt ? buildInvite(interview, context, previousScheduledAt, "CANCEL") : null;
+    await emailRecipient(context.seeker, `Interview invitation: ${context.job.title}`, (email, unsubscribeUrl) => sendInterviewProposalEmail(
+      email,
+      context.job.title,
+      companyName(context),
+      interview.proposedSlots.map(slot => formatInterviewTime(slot)),
+      isReschedule,
+      cancelledInvite ?? undefined,
+      context.seeker.firstName || undefined,
+      { unsubscribeUrl }
+    ));
+  } catch (error) {
+    console.error("Interview proposal email error:", error);
+  }
+}
+
+// Both sides get the confirmation with a calendar invite
+export async function notifyInterviewScheduled(interview: Interview): Promise<void> {
+  try {
+    const context = await loadContext(interview);
+    if (!context || !interview.scheduledAt) return;
+    const invite = buildInvite(interview, context, interview.scheduledAt, "REQUEST");
+    if (!invite) return;
+    const details = emailDetails(interview, context.job, interview.scheduledAt);
+    for (const recipient of [context.seeker, context.employer]) {
+      await emailRecipient(recipient, `Interview confirmed: ${context.job.title}`, (email, unsubscribeUrl) =>
+        sendInterviewConfirmationEmail(email, details, invite, recipient.firstName || undefined, { unsubscribeUrl }));
+    }
+  } catch (error) {
+    console.error("Interview confirmation email error:", error);
+  }
+}
+
+// A scheduled interview is removed from both calendars; otherwise only the other side is told
+export async function notifyInterviewCancelled(interview: Interview, cancelledBy: string, previousScheduledAt: Date | null): Promise<void> {
+  try {
+    const context = await loadContext(interview);
+    if (!context) return;
+    const invite = previousScheduledAt ? buildInvite(interview, context, previousScheduledAt, "CANCEL") : null;
+    const when = previousScheduledAt ? formatInterviewTime(previousScheduledAt) : null;
+    const recipients = previousScheduledAt
+      ? [context.seeker, context.employer]
+      : [context.seeker, context.employer].filter(user => user.id !== cancelledBy);
+    for (const recipient of recipients) {
+      await emailRecipient(recipient, `Interview cancelled: ${context.job.title}`, (email, unsubscribeUrl) =>
+        sendInterviewCancellationEmail(email, context.job.title, when, interview.statusReason, invite, recipient.firstName || undefined, { unsubscribeUrl }));
+    }
+  } catch (error) {
+    console.error("Interview cancellation email error:", error);
+  }
+}
+
+export async function notifyInterviewRescheduleRequested(interview: Interview): Promise<void> {
+  try {
+    const context = await loadContext(interview);
+    if (!context) return;
+    await emailRecipient(context.employer, `New interview time requested: ${context.job.title}`, (email, unsubscribeUrl) => sendInterviewRescheduleRequestEmail(
+      email,
+      context.job.title,
+      displayName(context.seeker),
+      interview.statusReason,
+      context.employer.firstName || undefined,
+      { unsubscribeUrl }
+    ));
+  } catch (error) {
+    console.error("Interview reschedule request email error:", error);
+  }
+}
+
+async function sendReminder(interview: Interview, now: Date): Promise<void> {
+  const scheduledAt = interview.scheduledAt!;
+  const msUntil = scheduledAt.getTime() - now.getTime();
+  const isFinalReminder = msUntil <= 60 * 60 * 1000;
+  const context = await loadContext(interview);
+
+  if (context) {
+    const details = emailDetails(interview, context.job, scheduledAt);
+    const hoursUntil = Math.max(1, Math.round(msUntil / (60 * 60 * 1000)));
+    for (const recipient of [context.seeker, context.employer]) {
+      await emailRecipient(recipient, `Interview reminder: ${context.job.title}`, (email, unsubscribeUrl) =>
+        sendInterviewReminderEmail(email, details, hoursUntil, recipient.firstName || undefined, { unsubscribeUrl }));
+    }
+  }
+  // The 1h reminder also covers a missed 24h one, so only one email goes out per check
+  await storage.updateInterview(interview.id, isFinalReminder
+    ? { reminder24hSentAt: interview.reminder24hSentAt ?? now, reminder1hSentAt: now }
+    : { reminder24hSentAt: now });
+}
+
+async function sendDueReminders(): Promise<void> {
+  const now = new Date();
+  const due = await storage.getInterviewsNeedingReminders(now);
+  for (const interview of due) {
+    try {
+      await sendReminder(interview, now);
+    } catch (error) {
+      // Left unmarked, so the reminder is retried on the next check
+      console.error(`[Interviews] Failed to send reminder for interview ${interview.id}:`, error);
+    }
+  }
+}
+
+let isChecking = false;
+
+async function runCheck(): Promise<void> {
+  if (isChecking) return;
+  isChecking = true;
+  try {
+    await sendDueReminders();
+  } catch (error) {
+    console.error("[Interviews] Reminder check failed:", error);
+  } finally {
+    isChecking = false;
+  }
+}
+
+export function startInterviewReminders(): void {
+  setInterval(runCheck, CHECK_INTERVAL_MS);
+  console.log("[Interviews] Reminders started");
+}
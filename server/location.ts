@@ -0,0 +1,27 @@
+import { resolvePhCity } from "@shared/ph-locations";
+
+// Columns on jobs and job_seeker_profiles that are derived from locationCity
+export interface LocationFields {
+  locationCity: string | null;
+  locationProvince: string | null;
+  locationRegion: string | null;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+const NO_LOCATION: LocationFields = {
+  locationCity: null,
+  locationProvince: null,
+  locationRegion: null,
+  latitude: null,
+  longitude: null,
+};
+
+// Expand a city code into the full set of structured location columns. A blank
+// code clears them; an unknown code returns undefined so the route can reject it.
+export function resolveLocationFields(locationCity: string | null | undefined): LocationFields | undefined {
+  if (!locationCity) {
+    return NO_LOCATION;
+  }
+  return resolvePhCity(locationCity);
+}
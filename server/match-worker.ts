@@ -0,0 +1,227 @@
+import crypto from "crypto";
+import { storage } from "./storage";
+import { buildJobMatchInput, calculateJobMatchWithReasoning, type JobMatchResult } from "./ai";
+import { getAiModel, getAiProvider, isAiAvailable } from "./ai-provider";
+import { scoreJobMatchLocally, LOCAL_MATCH_MODEL, type LocalMatchResult, type SeekerMatchProfile } from "./matching";
+import type { Job, JobMatch, JobSeekerProfile, MatchExplanation } from "@shared/schema";
+
+// How often queued seekers/jobs are processed, and how often every seeker is
+// re-checked to catch changes that were never queued (e.g. edits made in the DB)
+const TICK_INTERVAL_MS = 30 * 1000;
+const FULL_SWEEP_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+// Only the best pairs by local score are sent to the LLM; the rest keep the local score
+const AI_TOP_N = 20;
+
+// Seekers whose history is loaded per round of queries when scoring a job against everyone
+const SEEKER_BATCH_SIZE = 500;
+
+type SeekerMatchData = SeekerMatchProfile & { seekerId: string };
+
+async function loadSeekerMatchData(profile: JobSeekerProfile): Promise<SeekerMatchData> {
+  const [workExperience, education, certifications] = await Promise.all([
+    storage.getWorkExperience(profile.id),
+    storage.getEducation(profile.id),
+    storage.getCertifications(profile.id),
+  ]);
+  return { seekerId: profile.userId, profile, workExperience, education, certifications };
+}
+
+function aiMatchInput(seeker: SeekerMatchData, job: Job) {
+  return buildJobMatchInput(
+    seeker.profile,
+    job,
+    seeker.workExperience.map(w => ({ companyName: w.companyName, position: w.position, description: w.description || undefined })),
+    seeker.education.map(e => ({ institution: e.institution, degree: e.degree, fieldOfStudy: e.fieldOfStudy || undefined })),
+    seeker.certifications.map(c => ({ name: c.name, issuer: c.issuer }))
+  );
+}
+
+// Covers what both the LLM and the local engine look at, plus the AI provider and
+// both model versions, so any change to the inputs or the scoring invalidates a stored match
+function matchInputHash(seeker: SeekerMatchData, job: Job): string {
+  const { profile } = seeker;
+  const localInput = {
+    profile: [profile.categories, profile.locationCity, profile.locationRegion, profile.latitude, profile.longitude, profile.expectedSalary],
+    experience: seeker.workExperience.map(w => [w.startDate, w.endDate, w.isCurrent]),
+    job: [job.categories, job.locationCity, job.locationRegion, job.latitude, job.longitude, job.salaryMonthlyMinPhp, job.salaryMonthlyMaxPhp],
+  };
+  return crypto
+    .createHash("sha256")
+    .update(JSON.stringify({
+      models: [getAiProvider()?.name, getAiModel("job_match"), LOCAL_MATCH_MODEL],
+      ai: aiMatchInput(seeker, job),
+      local: localInput,
+    }))
+    .digest("hex");
+}
+
+// Score a seeker against a job unless the stored match was computed from the same
+// inputs. With useAi the LLM scores the pair, falling back to the local score if
+// the call fails; a locally scored row is upgraded once the pair qualifies for AI.
+async function refreshMatch(
+  seeker: SeekerMatchData,
+  job: Job,
+  existing: JobMatch | undefined,
+  useAi: boolean,
+  local: LocalMatchResult = scoreJobMatchLocally(seeker, job)
+): Promise<JobMatch> {
+  const inputHash = matchInputHash(seeker, job);
+  const wantsAi = useAi && isAiAvailable();
+  if (existing?.inputHash === inputHash && (!wantsAi || existing.model !== LOCAL_MATCH_MODEL)) {
+    return existing;
+  }
+
+  let result: JobMatchResult = local;
+  let explanation: MatchExplanation = local.explanation;
+  if (wantsAi) {
+    const { profile, job: jobInput } = aiMatchInput(seeker, job);
+    const aiResult = await calculateJobMatchWithReasoning(
+      seeker.profile,
+      job,
+      profile.workExperience,
+      profile.education,
+      profile.certifications
+    );
+    if (aiResult.model) {
+      result = aiResult;
+      // The LLM's reading of skills and fit wins; the local engine fills whatever it left out
+      explanation = { ...local.explanation, ...aiResult.explanation, summary: aiResult.reasoning };
+    } else {
+      console.log(`[Match Worker] AI scoring failed for "${jobInput.title}", keeping local score`);
+    }
+  }
+
+  return await storage.upsertJobMatch({
+    seekerId: seeker.seekerId,
+    jobId: job.id,
+    matchScore: Math.round(result.matchScore),
+    reasoning: result.reasoning,
+    model: result.model ?? LOCAL_MATCH_MODEL,
+    breakdown: local.breakdown,
+    explanation,
+    inputHash,
+  });
+}
+
+const isMatchable = (job: Job) => job.isActive && !job.isFlagged;
+
+// Local scores for every candidate pair, best first, flagging the top N for the LLM
+function rankLocally<T>(items: T[], score: (item: T) => LocalMatchResult) {
+  return items
+    .map(item => ({ item, local: score(item) }))
+    .sort((a, b) => b.local.matchScore - a.local.matchScore)
+    .map((entry, index) => ({ ...entry, useAi: index < AI_TOP_N }));
+}
+
+async function refreshSeeker(seekerId: string): Promise<void> {
+  const profile = await storage.getJobSeekerProfile(seekerId);
+  if (!profile) return;
+
+  const seeker = await loadSeekerMatchData(profile);
+  const [allJobs, matches] = await Promise.all([
+    storage.getAllJobs({ isActive: true }),
+    storage.getJobMatchesBySeeker(seekerId),
+  ]);
+  const existing = new Map(matches.map(m => [m.jobId, m]));
+
+  const ranked = rankLocally(allJobs.filter(isMatchable), job => scoreJobMatchLocally(seeker, job));
+  for (const { item: job, local, useAi } of ranked) {
+    await refreshMatch(seeker, job, existing.get(job.id), useAi, local);
+  }
+}
+
+async function refreshJob(jobId: string): Promise<void> {
+  const job = await storage.getJob(jobId);
+  if (!job || !isMatchable(job)) return;
+
+  const [profiles, matches] = await Promise.all([
+    storage.getAllJobSeekerProfiles(),
+    storage.getJobMatchesByJob(jobId),
+  ]);
+  const existing = new Map(matches.map(m => [m.seekerId, m]));
+  const seekers: SeekerMatchData[] = [];
+  for (let start = 0; start < profiles.length; start += SEEKER_BATCH_SIZE) {
+    const batch = profiles.slice(start, start + SEEKER_BATCH_SIZE);
+    const histories = await storage.getProfileHistories(batch.map(profile => profile.id));
+    for (const profile of batch) {
+      seekers.push({ seekerId: profile.userId, profile, ...histories.get(profile.id)! });
+    }
+  }
+
+  const ranked = rankLocally(seekers, seeker => scoreJobMatchLocally(seeker, job));
+  for (const { item: seeker, local, useAi } of ranked) {
+    await refreshMatch(seeker, job, existing.get(seeker.seekerId), useAi, local);
+  }
+}
+
+const pendingSeekers = new Set<string>();
+const pendingJobs = new Set<string>();
+let isProcessing = false;
+
+// Call after a seeker's profile, work experience, education or certifications change
+export function queueSeekerMatches(seekerId: string): void {
+  pendingSeekers.add(seekerId);
+}
+
+// Call after a job is created or edited
+export function queueJobMatches(jobId: string): void {
+  pendingJobs.add(jobId);
+}
+
+async function processQueue(): Promise<void> {
+  if (isProcessing) return;
+  isProcessing = true;
+
+  try {
+    while (pendingSeekers.size > 0 || pendingJobs.size > 0) {
+      for (const seekerId of Array.from(pendingSeekers)) {
+        pendingSeekers.delete(seekerId);
+        try {
+          await refreshSeeker(seekerId);
+        } catch (error) {
+          console.error(`[Match Worker] Failed to refresh seeker ${seekerId}:`, error);
+        }
+      }
+      for (const jobId of Array.from(pendingJobs)) {
+        pendingJobs.delete(jobId);
+        try {
+          await refreshJob(jobId);
+        } catch (error) {
+          console.error(`[Match Worker] Failed to refresh job ${jobId}:`, error);
+        }
+      }
+    }
+  } finally {
+    isProcessing = false;
+  }
+}
+
+async function queueFullSweep(): Promise<void> {
+  try {
+    const profiles = await storage.getAllJobSeekerProfiles();
+    profiles.forEach(p => pendingSeekers.add(p.userId));
+  } catch (error) {
+    console.error("[Match Worker] Failed to queue full sweep:", error);
+  }
+}
+
+// Match for one seeker/job pair, reusing the stored match when it is current.
+// Pass useAi = false where an LLM call per request would be too slow or costly.
+export async function getJobMatch(seekerId: string, job: Job, useAi = true): Promise<JobMatch | undefined> {
+  const profile = await storage.getJobSeekerProfile(seekerId);
+  if (!profile) return undefined;
+
+  const seeker = await loadSeekerMatchData(profile);
+  const matches = await storage.getJobMatchesBySeeker(seekerId);
+  return await refreshMatch(seeker, job, matches.find(m => m.jobId === job.id), useAi);
+}
+
+export function startMatchWorker(): void {
+  queueFullSweep();
+  setInterval(() => {
+    processQueue().catch(error => console.error("[Match Worker] Queue error:", error));
+  }, TICK_INTERVAL_MS);
+  setInterval(queueFullSweep, FULL_SWEEP_INTERVAL_MS);
+  console.log("[Match Worker] Started");
+}
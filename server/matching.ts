@@ -0,0 +1,353 @@
+import type {
+  Job,
+  JobSeekerProfile,
+  WorkExperience,
+  Education,
+  Certification,
+  MatchFactor,
+  MatchFactorKey,
+  MatchExplanation,
+} from "@shared/schema";
+import { distanceKm, getPhCity, normalizeLocationText } from "@shared/ph-locations";
+import type { JobMatchResult } from "./ai";
+
+// Deterministic, offline job matching. Used when OpenAI is unavailable or a call
+// fails, and to pick which pairs are worth sending to the LLM at all.
+// Bump the version whenever the scoring rules change so stored scores are redone.
+export const LOCAL_MATCH_MODEL = "local-v2";
+
+const FACTOR_WEIGHTS: Record<MatchFactorKey, number> = {
+  skills: 35,
+  categories: 15,
+  location: 15,
+  experience: 15,
+  education: 10,
+  salary: 10,
+};
+
+// Score given to a factor the job or profile has no data for
+const NEUTRAL_SCORE = 0.5;
+
+export interface SeekerMatchProfile {
+  profile: JobSeekerProfile;
+  workExperience: WorkExperience[];
+  education: Education[];
+  certifications: Certification[];
+}
+
+export interface LocalMatchResult extends JobMatchResult {
+  model: string;
+  breakdown: MatchFactor[];
+  explanation: MatchExplanation;
+}
+
+const normalize = (value: string) => value.toLowerCase().replace(/\s+/g, " ").trim();
+
+// "React" matches "react.js" and "ReactJS"; short skills like "C" must match exactly
+function skillsMatch(a: string, b: string): boolean {
+  if (a === b) return true;
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  return shorter.length >= 3 && longer.includes(shorter);
+}
+
+// The job's skills split by whether the seeker's skills or certifications cover them,
+// keeping the job's original spelling for display
+function compareSkills(seeker: SeekerMatchProfile, job: Job): { matched: string[]; missing: string[] } {
+  const seen = new Set<string>();
+  const jobSkills = (job.skills || []).map(s => s.trim()).filter(skill => {
+    const key = normalize(skill);
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  const seekerSkills = [
+    ...(seeker.profile.skills || []),
+    ...seeker.certifications.map(c => c.name),
+  ].map(normalize);
+  const hasSkill = (skill: string) => seekerSkills.some(own => skillsMatch(own, normalize(skill)));
+  return {
+    matched: jobSkills.filter(hasSkill),
+    missing: jobSkills.filter(skill => !hasSkill(skill)),
+  };
+}
+
+function scoreSkills(seeker: SeekerMatchProfile, job: Job): Omit<MatchFactor, "factor" | "weight"> {
+  const { matched, missing } = compareSkills(seeker, job);
+  const total = matched.length + missing.length;
+  if (total === 0) {
+    return { score: NEUTRAL_SCORE, detail: "The job lists no specific skills" };
+  }
+  return {
+    score: matched.length / total,
+    detail: `Matches ${matched.length} of ${total} required skills`,
+  };
+}
+
+function scoreCategories(seeker: SeekerMatchProfile, job: Job): Omit<MatchFactor, "factor" | "weight"> {
+  const jobCategories = job.categories || [];
+  const seekerCategories = seeker.profile.categories || [];
+  if (jobCategories.length === 0 || seekerCategories.length === 0) {
+    return { score: NEUTRAL_SCORE, detail: "No categories to compare" };
+  }
+
+  const shared = jobCategories.filter(c => seekerCategories.includes(c));
+  return shared.length > 0
+    ? { score: 1, detail: `Shares the ${shared.join(", ")} ${shared.length === 1 ? "category" : "categories"}` }
+    : { score: 0, detail: "None of the job's categories are in the profile" };
+}
+
+function scoreLocation(seeker: SeekerMatchProfile, job: Job): Omit<MatchFactor, "factor" | "weight"> {
+  if (job.jobType === "remote") {
+    return { score: 1, detail: "Remote role" };
+  }
+
+  const { profile } = seeker;
+  if (profile.latitude != null && profile.longitude != null && job.latitude != null && job.longitude != null) {
+    if (profile.locationCity && profile.locationCity === job.locationCity) {
+      return { score: 1, detail: `Both in ${getPhCity(job.locationCity)?.name ?? job.location}` };
+    }
+    const km = Math.round(distanceKm(
+      { latitude: profile.latitude, longitude: profile.longitude },
+      { latitude: job.latitude, longitude: job.longitude },
+    ));
+    if (km <= 25) return { score: 0.9, detail: `${km} km away` };
+    if (km <= 75) return { score: 0.6, detail: `${km} km away` };
+    if (profile.locationRegion && profile.locationRegion === job.locationRegion) {
+      return { score: 0.4, detail: `${km} km away, same region` };
+    }
+    return { score: 0.1, detail: `${km} km away` };
+  }
+
+  // Fall back to comparing the free-text locations
+  if (!profile.location) {
+    return { score: NEUTRAL_SCORE, detail: "No location on the profile" };
+  }
+  const seekerLocation = normalizeLocationText(profile.location);
+  const jobLocation = normalizeLocationText(job.location);
+  return seekerLocation.includes(jobLocation) || jobLocation.includes(seekerLocation)
+    ? { score: 0.8, detail: `Located in ${job.location}` }
+    : { score: 0.3, detail: `Job is in ${job.location}` };
+}
+
+// Parse the repo's YYYY-MM work experience dates into a month index
+function monthIndex(value: string | null | undefined): number | undefined {
+  const match = value?.match(/^(\d{4})-(\d{2})/);
+  return match ? Number(match[1]) * 12 + Number(match[2]) - 1 : undefined;
+}
+
+// Total years worked, merging overlapping roles so concurrent jobs aren't double counted
+export function yearsOfExperience(workExperience: WorkExperience[], now = new Date()): number {
+  const currentMonth = now.getFullYear() * 12 + now.getMonth();
+  const ranges = workExperience
+    .map(w => {
+      const start = monthIndex(w.startDate);
+      const end = w.isCurrent ? currentMonth : monthIndex(w.endDate) ?? currentMonth;
+      return start !== undefined && end >= start ? [start, end] as const : undefined;
+    })
+    .filter((range): range is readonly [number, number] => range !== undefined)
+    .sort((a, b) => a[0] - b[0]);
+
+  let months = 0;
+  let coveredUntil = -Infinity;
+  for (const [start, end] of ranges) {
+    const from = Math.max(start, coveredUntil + 1);
+    if (end >= from) {
+      months += end - from + 1;
+      coveredUntil = end;
+    }
+  }
+  return months / 12;
+}
+
+const jobText = (job: Job) => [...(job.requirements || []), job.description].join("\n");
+
+// "3+ years of experience", "2-4 yrs work exp", "at least 5 years' relevant experience"
+// -> the lowest number mentioned. The experience wording is required so that
+// "18 years old" or "2 years warranty" don't read as requirements.
+const REQUIRED_YEARS = /(\d{1,2})\s*\+?\s*(?:(?:-|to)\s*\d{1,2}\s*\+?\s*)?(?:years?|yrs?)'?\s+(?!old\b|of\s+age\b)(?:of\s+)?(?:[a-z-]+\s+){0,2}?(?:experience|exp)\b/gi;
+
+function requiredYears(job: Job): number | undefined {
+  const matches = Array.from(jobText(job).matchAll(REQUIRED_YEARS));
+  const years = matches.map(m => Number(m[1])).filter(n => n > 0 && n <= 40);
+  return years.length > 0 ? Math.min(...years) : undefined;
+}
+
+function scoreExperience(seeker: SeekerMatchProfile, job: Job): Omit<MatchFactor, "factor" | "weight"> {
+  const years = yearsOfExperience(seeker.workExperience);
+  const rounded = Math.round(years * 10) / 10;
+  const required = requiredYears(job);
+
+  if (required === undefined) {
+    return years > 0
+      ? { score: 1, detail: `${rounded} years of experience; none specified` }
+      : { score: 0.7, detail: "No experience required or listed" };
+  }
+  return {
+    score: Math.min(1, years / required),
+    detail: `${rounded} of ${required}+ years of experience`,
+  };
+}
+
+// Philippine education ladder, lowest to highest. The vocational and master's patterns only
+// take degree wording, since "technical skills", "sales associate", "MS Office" and
+// "mastery of Excel" are common in ordinary requirements. A seeker's degree field names
+// nothing but a degree, so there the short forms in degreeField count too.
+const EDUCATION_LEVELS: Array<{ label: string; pattern: RegExp; degreeField?: RegExp }> = [
+  { label: "elementary", pattern: /elementary|primary school/i },
+  { label: "high school", pattern: /high school|senior high|\bshs\b|secondary/i },
+  { label: "vocational", pattern: /vocational|\btesda\b|\btvet\b|\bnc\s?(i|ii|iii|iv)\b|national certificate|associate'?s? degree/i, degreeField: /\bassociate\b|\btechnical\b/i },
+  { label: "college", pattern: /bachelor|college|university|\bb\.?s\.?\b|\bb\.?a\.?\b|\bab\b|degree holder/i },
+  { label: "master's", pattern: /\bmaster'?s?\s+(degree|of|in)\b|\bmasteral\b|\bmba\b|\bm\.?[sa]\.?\s+in\b|\bm\.[sa]\./i, degreeField: /\bmaster|\bm\.?s\.?c?\b|\bm\.?a\.?(ed)?\b/i },
+  { label: "doctorate", pattern: /doctorate|\bph\.?d\b|\bdoctor of\b/i },
+];
+
+// Index into EDUCATION_LEVELS; the highest level mentioned wins for a degree,
+// the lowest for a job ("high school or college graduate")
+function educationLevel(text: string, pick: "highest" | "lowest", isDegreeField = false): number | undefined {
+  const levels = EDUCATION_LEVELS
+    .map((level, index) => (level.pattern.test(text) || (isDegreeField && level.degreeField?.test(text)) ? index : -1))
+    .filter(index => index >= 0);
+  if (levels.length === 0) return undefined;
+  return pick === "highest" ? Math.max(...levels) : Math.min(...levels);
+}
+
+function scoreEducation(seeker: SeekerMatchProfile, job: Job): Omit<MatchFactor, "factor" | "weight"> {
+  const seekerLevels = seeker.education
+    .map(e => educationLevel(`${e.degree} ${e.fieldOfStudy ?? ""}`, "highest", true))
+    .filter((level): level is number => level !== undefined);
+  const seekerLevel = seekerLevels.length > 0 ? Math.max(...seekerLevels) : undefined;
+  // Only the requirements list, since descriptions often mention "college" in other senses
+  const required = educationLevel((job.requirements || []).join("\n"), "lowest");
+
+  if (required === undefined) {
+    return seeker.education.length > 0
+      ? { score: 1, detail: "No education requirement" }
+      : { score: 0.6, detail: "No education requirement; none listed on profile" };
+  }
+  const requiredLabel = EDUCATION_LEVELS[required].label;
+  if (seekerLevel === undefined) {
+    return { score: 0.2, detail: `Requires ${requiredLabel}; no education listed` };
+  }
+  if (seekerLevel >= required) {
+    return { score: 1, detail: `Meets the ${requiredLabel} requirement` };
+  }
+  return {
+    score: seekerLevel === required - 1 ? 0.5 : 0.2,
+    detail: `Requires ${requiredLabel}; highest listed is ${EDUCATION_LEVELS[seekerLevel].label}`,
+  };
+}
+
+function scoreSalary(seeker: SeekerMatchProfile, job: Job): Omit<MatchFactor, "factor" | "weight"> {
+  const expected = seeker.profile.expectedSalary;
+  const offered = job.salaryMonthlyMaxPhp ?? job.salaryMonthlyMinPhp;
+  if (!expected || !offered) {
+    return { score: NEUTRAL_SCORE, detail: "Salary expectation or offer not specified" };
+  }
+
+  const ratio = offered / expected;
+  const detail = `Pays up to ₱${offered.toLocaleString()}/month vs ₱${expected.toLocaleString()} expected`;
+  if (ratio >= 1) return { score: 1, detail };
+  if (ratio >= 0.9) return { score: 0.7, detail };
+  if (ratio >= 0.75) return { score: 0.4, detail };
+  return { score: 0.1, detail };
+}
+
+const FACTOR_SCORERS: Record<MatchFactorKey, (seeker: SeekerMatchProfile, job: Job) => Omit<MatchFactor, "factor" | "weight">> = {
+  skills: scoreSkills,
+  categories: scoreCategories,
+  location: scoreLocation,
+  experience: scoreExperience,
+  education: scoreEducation,
+  salary: scoreSalary,
+};
+
+// Concrete next steps for the seeker, starting with the factors that cost the most points
+function suggestImprovements(
+  seeker: SeekerMatchProfile,
+  breakdown: MatchFactor[],
+  missingSkills: string[]
+): string[] {
+  const { profile } = seeker;
+  const suggestions: string[] = [];
+  const pointsLost = (f: MatchFactor) => (1 - f.score) * f.weight;
+  const weakest = [...breakdown].sort((a, b) => pointsLost(b) - pointsLost(a));
+
+  for (const { factor, score } of weakest) {
+    if (score >= 0.8) continue;
+    switch (factor) {
+      case "skills":
+        if (missingSkills.length > 0) {
+          suggestions.push(`Add ${missingSkills.slice(0, 3).join(", ")} to your skills if you have them, or take a short course or certification`);
+        } else if ((profile.skills || []).length === 0) {
+          suggestions.push("List your skills on your profile");
+        }
+        break;
+      case "categories":
+        suggestions.push("Add this job's category to your preferred categories if it interests you");
+        break;
+      case "experience":
+        if (seeker.workExperience.length === 0) {
+          suggestions.push("Add your work experience, including part-time jobs, internships and OJT");
+        } else {
+          suggestions.push("Describe relevant projects or responsibilities in your work experience to show equivalent experience");
+        }
+        break;
+      case "education":
+        if (seeker.education.length === 0) {
+          suggestions.push("Add your education to your profile");
+        } else {
+          suggestions.push("List trainings or TESDA certificates that complement your education");
+        }
+        break;
+      case "location":
+        if (!profile.locationCity) {
+          suggestions.push("Set your city on your profile so distance can be matched");
+        } else {
+          suggestions.push("Mention in your cover letter if you are willing to relocate or commute");
+        }
+        break;
+      case "salary":
+        if (!profile.expectedSalary) {
+          suggestions.push("Add your expected monthly salary to your profile");
+        }
+        break;
+    }
+  }
+  return suggestions.slice(0, 4);
+}
+
+export function scoreJobMatchLocally(seeker: SeekerMatchProfile, job: Job): LocalMatchResult {
+  const breakdown = (Object.keys(FACTOR_SCORERS) as MatchFactorKey[]).map((factor): MatchFactor => {
+    const { score, detail } = FACTOR_SCORERS[factor](seeker, job);
+    return { factor, score: Math.round(score * 100) / 100, weight: FACTOR_WEIGHTS[factor], detail };
+  });
+
+  const totalWeight = breakdown.reduce((sum, f) => sum + f.weight, 0);
+  const weighted = breakdown.reduce((sum, f) => sum + f.score * f.weight, 0);
+
+  // Summarize with the three heaviest factors, e.g. "Matches 3 of 5 required skills; ..."
+  const reasoning = [...breakdown]
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, 3)
+    .map(f => f.detail)
+    .join("; ");
+
+  const { matched, missing } = compareSkills(seeker, job);
+  const detailOf = (key: MatchFactorKey) => breakdown.find(f => f.factor === key)?.detail ?? "";
+
+  return {
+    matchScore: Math.round((weighted / totalWeight) * 100),
+    reasoning,
+    model: LOCAL_MATCH_MODEL,
+    breakdown,
+    explanation: {
+      summary: reasoning,
+      matchedSkills: matched,
+      missingSkills: missing,
+      experienceFit: detailOf("experience"),
+      locationFit: detailOf("location"),
+      suggestions: suggestImprovements(seeker, breakdown, missing),
+    },
+  };
+}
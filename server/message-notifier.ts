@@ -0,0 +1,89 @@
+import { storage } from "./storage";
+import { sendUnreadMessagesEmail } from "./email";
+import { deliverEmail, hasOpenNotificationStream } from "./notifications";
+import type { Message } from "@shared/schema";
+
+// Messages still unread this long after being sent get one email per conversation,
+// unless the recipient has the site open right now and can see them there
+const CHECK_INTERVAL_MS = 5 * 60 * 1000;
+const UNREAD_GRACE_MS = 10 * 60 * 1000;
+
+const MAX_PREVIEW_LENGTH = 300;
+
+async function notifyThread(recipientId: string, threadMessages: Message[]): Promise<void> {
+  const latest = threadMessages[threadMessages.length - 1];
+  const [recipient, sender, application] = await Promise.all([
+    storage.getUser(recipientId),
+    storage.getUser(latest.senderId),
+    storage.getApplication(latest.applicationId),
+  ]);
+  const job = application && await storage.getJob(application.jobId);
+
+  if (recipient?.email && job) {
+    const senderIsEmployer = sender?.id === job.employerId;
+    const personName = [sender?.firstName, sender?.lastName].filter(Boolean).join(" ");
+    const senderName = (senderIsEmployer ? job.companyName || personName : personName) || "Someone";
+    const preview = latest.body.length > MAX_PREVIEW_LENGTH
+      ? `${latest.body.slice(0, MAX_PREVIEW_LENGTH)}…`
+      : latest.body || (latest.attachmentName ? `Attachment: ${latest.attachmentName}` : "");
+    const messagesPath = `${recipient.role === "employer" ? "/employer/messages" : "/messages"}?application=${latest.applicationId}`;
+
+    await deliverEmail(
+      recipient.id,
+      "messages",
+      { title: `${senderName} about ${job.title}`, body: preview, link: messagesPath },
+      unsubscribeUrl => sendUnreadMessagesEmail(
+        recipient.email!,
+        senderName,
+        job.title,
+        threadMessages.length,
+        preview,
+        messagesPath,
+        recipient.firstName || undefined,
+        { unsubscribeUrl }
+      )
+    );
+  }
+  // Marked even when there was no address to email, so the thread isn't retried forever
+  await storage.markMessagesEmailNotified(threadMessages.map(message => message.id));
+}
+
+async function notifyUnreadMessages(): Promise<void> {
+  const pending = await storage.getUnnotifiedMessages(new Date(Date.now() - UNREAD_GRACE_MS));
+
+  const threads = new Map<string, Message[]>();
+  for (const message of pending) {
+    const key = `${message.recipientId}:${message.applicationId}`;
+    threads.set(key, [...(threads.get(key) ?? []), message]);
+  }
+
+  for (const threadMessages of Array.from(threads.values())) {
+    // Left unmarked, so the email still goes out if they leave without reading
+    if (hasOpenNotificationStream(threadMessages[0].recipientId)) continue;
+    try {
+      await notifyThread(threadMessages[0].recipientId, threadMessages);
+    } catch (error) {
+      // Left unmarked, so the email is retried on the next check
+      console.error(`[Messages] Failed to notify about application ${threadMessages[0].applicationId}:`, error);
+    }
+  }
+}
+
+let isChecking = false;
+
+async function runCheck(): Promise<void> {
+  if (isChecking) return;
+  isChecking = true;
+  try {
+    await notifyUnreadMessages();
+  } catch (error) {
+    console.error("[Messages] Check failed:", error);
+  } finally {
+    isChecking = false;
+  }
+}
+
+export function startMessageNotifier(): void {
+  setInterval(runCheck, CHECK_INTERVAL_MS);
+  console.log("[Messages] Unread message emails started");
+}
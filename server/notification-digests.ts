@@ -0,0 +1,82 @@
+import { storage } from "./storage";
+import { sendNotificationDigestEmail, type DigestSection } from "./email";
+import { unsubscribeUrl } from "./notifications";
+import { DIGEST_FREQUENCIES, NOTIFICATION_EVENT_CONFIG, type DigestFrequency } from "@shared/notifications";
+import type { NotificationDigestItem } from "@shared/schema";
+
+const CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+// Digests go out at 8:00 AM Manila time, which is midnight UTC: daily ones every day
+// and weekly ones on Mondays. Items queued before the latest send time are due.
+function latestDigestTime(frequency: DigestFrequency, now: Date): Date {
+  const sendTime = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  if (frequency === "weekly") {
+    sendTime.setUTCDate(sendTime.getUTCDate() - ((sendTime.getUTCDay() + 6) % 7));
+  }
+  return sendTime;
+}
+
+// Sections follow the order events are listed in the settings page
+function toSections(items: NotificationDigestItem[]): DigestSection[] {
+  return Object.entries(NOTIFICATION_EVENT_CONFIG)
+    .map(([event, config]) => ({
+      heading: config.label,
+      items: items.filter(item => item.event === event),
+    }))
+    .filter(section => section.items.length > 0);
+}
+
+async function sendDigest(userId: string, frequency: DigestFrequency, items: NotificationDigestItem[]): Promise<void> {
+  const user = await storage.getUser(userId);
+  if (user?.email) {
+    await sendNotificationDigestEmail(
+      user.email,
+      frequency,
+      toSections(items),
+      user.firstName || undefined,
+      { unsubscribeUrl: unsubscribeUrl(userId, frequency) }
+    );
+  }
+  // Deleted even when there was no address to email, so they aren't retried forever
+  await storage.deleteDigestItems(items.map(item => item.id));
+}
+
+async function sendDueDigests(frequency: DigestFrequency, now: Date): Promise<void> {
+  const due = await storage.getDueDigestItems(frequency, latestDigestTime(frequency, now));
+
+  const byUser = new Map<string, NotificationDigestItem[]>();
+  for (const item of due) {
+    byUser.set(item.userId, [...(byUser.get(item.userId) ?? []), item]);
+  }
+
+  for (const [userId, items] of Array.from(byUser.entries())) {
+    try {
+      await sendDigest(userId, frequency, items);
+    } catch (error) {
+      // Left queued, so the digest is retried on the next check
+      console.error(`[Digests] Failed to send ${frequency} digest to user ${userId}:`, error);
+    }
+  }
+}
+
+let isChecking = false;
+
+async function runCheck(): Promise<void> {
+  if (isChecking) return;
+  isChecking = true;
+  try {
+    const now = new Date();
+    for (const frequency of DIGEST_FREQUENCIES) {
+      await sendDueDigests(frequency, now);
+    }
+  } catch (error) {
+    console.error("[Digests] Check failed:", error);
+  } finally {
+    isChecking = false;
+  }
+}
+
+export function startNotificationDigests(): void {
+  setInterval(runCheck, CHECK_INTERVAL_MS);
+  console.log("[Digests] Digest emails started");
+}
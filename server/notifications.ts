@@ -0,0 +1,150 @@
+import type { Response } from "express";
+import crypto from "crypto";
+import { storage } from "./storage";
+import type { InsertNotification, Notification } from "@shared/schema";
+import {
+  DIGEST_FREQUENCIES,
+  NOTIFICATION_EVENTS,
+  NOTIFICATION_EVENT_CONFIG,
+  resolveNotificationFrequency,
+  type DigestFrequency,
+  type NotificationEvent,
+  type NotificationPreferenceSetting,
+} from "@shared/notifications";
+
+// Comment lines sent on idle streams so proxies don't close them
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+export type NotificationInput = Omit<InsertNotification, "userId">;
+
+// Open Server-Sent Events streams per user, one per browser tab. Streams live in this
+// process only, so a notification created elsewhere shows up on the next fetch instead.
+const streams = new Map<string, Set<Response>>();
+
+function push(notification: Notification): void {
+  const userStreams = streams.get(notification.userId);
+  if (!userStreams) return;
+  const payload = `event: notification\ndata: ${JSON.stringify(notification)}\n\n`;
+  userStreams.forEach(res => res.write(payload));
+}
+
+// Keeps res open as the user's live notification stream until the client disconnects
+export function openNotificationStream(userId: string, res: Response): void {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.write("retry: 5000\n\n");
+
+  const userStreams = streams.get(userId) ?? new Set<Response>();
+  userStreams.add(res);
+  streams.set(userId, userStreams);
+
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), HEARTBEAT_INTERVAL_MS);
+  res.on("close", () => {
+    clearInterval(heartbeat);
+    userStreams.delete(res);
+    if (userStreams.size === 0) streams.delete(userId);
+  });
+}
+
+// Whether the user has the site open in a tab served by this process
+export function hasOpenNotificationStream(userId: string): boolean {
+  return streams.has(userId);
+}
+
+// Stores a notification for each user who hasn't turned this type off and pushes it to
+// their open tabs. Failures are logged, not thrown, so a notification never breaks the
+// action that triggered it.
+export async function notifyUsers(userIds: string[], notification: NotificationInput): Promise<void> {
+  try {
+    const preferences = await storage.getNotificationPreferences(userIds);
+    const recipients = userIds.filter(userId => resolveNotificationFrequency(
+      preferences.filter(pref => pref.userId === userId),
+      notification.type,
+      "in_app"
+    ) !== "off");
+    const created = await storage.createNotifications(recipients.map(userId => ({ ...notification, userId })));
+    created.forEach(push);
+  } catch (error) {
+    console.error("Create notification error:", error);
+  }
+}
+
+export async function notifyUser(userId: string, notification: NotificationInput): Promise<void> {
+  await notifyUsers([userId], notification);
+}
+
+export async function notifyAdmins(notification: NotificationInput): Promise<void> {
+  try {
+    const admins = (await storage.getAllUsers()).filter(user => user.role === "admin");
+    await notifyUsers(admins.map(admin => admin.id), notification);
+  } catch (error) {
+    console.error("Notify admins error:", error);
+  }
+}
+
+// Unsubscribe links name either one event or a whole digest, signed so they work without a login
+type UnsubscribeScope = NotificationEvent | DigestFrequency;
+
+function unsubscribeSecret(): string {
+  const secret = process.env.JWT_SECRET || process.env.SESSION_SECRET;
+  if (!secret) throw new Error("JWT_SECRET or SESSION_SECRET is required to sign unsubscribe links");
+  return secret;
+}
+
+function signUnsubscribe(payload: string): string {
+  return crypto.createHmac("sha256", unsubscribeSecret()).update(`unsubscribe:${payload}`).digest("base64url");
+}
+
+export function unsubscribeUrl(userId: string, scope: UnsubscribeScope): string {
+  const appUrl = process.env.APP_URL || "http://localhost:5000";
+  const payload = `${userId}.${scope}`;
+  return `${appUrl}/api/notifications/unsubscribe/${payload}.${signUnsubscribe(payload)}`;
+}
+
+export function verifyUnsubscribeToken(token: string): { userId: string; scope: UnsubscribeScope } | null {
+  const [userId, scope, signature, ...rest] = token.split(".");
+  if (!userId || !scope || !signature || rest.length > 0) return null;
+  const expected = Buffer.from(signUnsubscribe(`${userId}.${scope}`));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) return null;
+  const scopes: readonly string[] = [...NOTIFICATION_EVENTS, ...DIGEST_FREQUENCIES];
+  return scopes.includes(scope) ? { userId, scope: scope as UnsubscribeScope } : null;
+}
+
+// Turns email off for one event, or for every event currently delivered in the given digest
+export async function unsubscribeFromEmails(userId: string, scope: UnsubscribeScope): Promise<void> {
+  const saved = await storage.getNotificationPreferences([userId]);
+  const events = NOTIFICATION_EVENTS.filter(event => NOTIFICATION_EVENT_CONFIG[event].channels.email &&
+    (scope === event || resolveNotificationFrequency(saved, event, "email") === scope));
+  const preferences: NotificationPreferenceSetting[] = events.map(event => ({ event, channel: "email", frequency: "off" }));
+  await storage.setNotificationPreferences(userId, preferences);
+}
+
+export interface DigestItemInput {
+  title: string;
+  body?: string | null;
+  link?: string | null;
+}
+
+// Sends an email now, queues it as a line in the next digest, or drops it, following the
+// recipient's email preference for the event. send gets the unsubscribe link to include.
+// Returns whether the email was sent now.
+export async function deliverEmail(
+  userId: string,
+  event: NotificationEvent,
+  digestItem: DigestItemInput,
+  send: (unsubscribeLink: string) => Promise<void>
+): Promise<boolean> {
+  const frequency = resolveNotificationFrequency(await storage.getNotificationPreferences([userId]), event, "email");
+  if (frequency === "off") return false;
+  if (frequency === "instant") {
+    await send(unsubscribeUrl(userId, event));
+    return true;
+  }
+  await storage.createDigestItem({ userId, event, frequency, ...digestItem });
+  return false;
+}
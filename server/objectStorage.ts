@@ -176,6 +176,22 @@ export class ObjectStorageService {
     return objectFile;
   }
 
+  // Stores a file the server generated itself; browser uploads use getObjectEntityUploadURL
+  async saveObjectEntity(objectPath: string, data: Buffer, contentType: string): Promise<File> {
+    if (!objectPath.startsWith("/objects/")) {
+      throw new Error(`Invalid object path: ${objectPath}`);
+    }
+
+    let entityDir = this.getPrivateObjectDir();
+    if (!entityDir.endsWith("/")) {
+      entityDir = `${entityDir}/`;
+    }
+    const { bucketName, objectName } = parseObjectPath(`${entityDir}${objectPath.slice("/objects/".length)}`);
+    const objectFile = objectStorageClient.bucket(bucketName).file(objectName);
+    await objectFile.save(data, { contentType, resumable: false });
+    return objectFile;
+  }
+
   normalizeObjectEntityPath(rawPath: string): string {
     if (!rawPath.startsWith("https://storage.googleapis.com/")) {
       return rawPath;
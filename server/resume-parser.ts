@@ -0,0 +1,337 @@
+import mammoth from "mammoth";
+import { extractText, getDocumentProxy } from "unpdf";
+import { parsedResumeSchema, type ParsedResume, type ResumeParseResult } from "@shared/schema";
+import { isAiAvailable, runAiTask } from "./ai-provider";
+
+export class UnsupportedResumeFormatError extends Error {
+  constructor(extension: string) {
+    super(`Resumes in .${extension} format can't be read. Upload a PDF or .docx file instead.`);
+    this.name = "UnsupportedResumeFormatError";
+    Object.setPrototypeOf(this, UnsupportedResumeFormatError.prototype);
+  }
+}
+
+// Plain text of a PDF or DOCX resume, one line per line of the document
+export async function extractResumeText(data: Buffer, fileName: string): Promise<string> {
+  const extension = fileName.split(".").pop()?.toLowerCase() ?? "";
+  if (extension === "pdf") {
+    const pdf = await getDocumentProxy(new Uint8Array(data));
+    const { text } = await extractText(pdf, { mergePages: true });
+    return text;
+  }
+  if (extension === "docx") {
+    const { value } = await mammoth.extractRawText({ buffer: data });
+    return value;
+  }
+  throw new UnsupportedResumeFormatError(extension);
+}
+
+// Heuristic parsing. Resumes vary too much for this to be exact; it aims to get the
+// common Philippine resume layouts mostly right and leave the rest to the seeker's review.
+
+type Section = "header" | "summary" | "experience" | "education" | "certifications" | "skills" | "other";
+
+const SECTION_HEADINGS: Array<[Section, string[]]> = [
+  ["experience", ["experience", "work experience", "professional experience", "employment history", "work history", "employment", "relevant experience"]],
+  ["education", ["education", "educational background", "educational attainment", "academic background"]],
+  ["certifications", ["certifications", "certification", "certificates", "licenses", "licenses and certifications", "certifications and licenses", "trainings", "trainings and seminars", "seminars and trainings"]],
+  ["skills", ["skills", "technical skills", "key skills", "core competencies", "competencies", "skills and abilities"]],
+  ["summary", ["summary", "professional summary", "objective", "career objective", "profile", "about me"]],
+  ["other", ["references", "character references", "personal information", "personal data", "personal details", "projects", "achievements", "awards", "languages", "interests", "hobbies", "affiliations", "volunteer experience"]],
+];
+
+const MONTHS: Record<string, string> = {
+  jan: "01", feb: "02", mar: "03", apr: "04", may: "05", jun: "06",
+  jul: "07", aug: "08", sep: "09", sept: "09", oct: "10", nov: "11", dec: "12",
+};
+
+const DATE_TOKEN = String.raw`(?:(?:jan|feb|mar|apr|may|jun|jul|aug|sept?|oct|nov|dec)[a-z]*\.?,?\s+\d{4}|\d{1,2}\/\d{4}|\d{4})`;
+const DATE_RANGE = new RegExp(String.raw`(${DATE_TOKEN})\s*(?:-|–|—|to|until)\s*(${DATE_TOKEN}|present|current|now|to date)`, "i");
+const SINGLE_DATE = new RegExp(DATE_TOKEN, "i");
+const YEAR = /\b(19|20)\d{2}\b/g;
+
+const EMAIL = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/;
+// PH mobile numbers are taken from anywhere. Other numbers only count in the header and
+// need a leading + or 0, so "2018 - 2020" isn't read as a phone number.
+const PH_MOBILE = /(?:\+?63[\s-]?|0)9\d{2}[\s-]?\d{3}[\s-]?\d{4}/;
+const OTHER_PHONE = /(?:\+|\(?\b0)\d[\d\s()-]{7,}\d/;
+const YEAR_RANGE = /^\(?(19|20)\d{2}\)?\s*[-–]\s*\(?(19|20)\d{2}\)?$/;
+const LINKEDIN = /(?:https?:\/\/)?(?:www\.)?linkedin\.com\/in\/[\w-]+\/?/i;
+const URL_PATTERN = /(?:https?:\/\/)?(?:www\.)?[\w-]+\.(?:com|net|org|io|dev|me|ph|site)(?:\/[\w./-]*)?/i;
+const SURNAME_PARTICLES = new Set(["de", "del", "dela", "della", "delos", "los", "las", "san", "santa", "van", "von"]);
+const PH_PLACE = /\b(city|province|philippines|metro manila|del (sur|norte)|zamboanga|manila|cebu|davao)\b/i;
+
+const COMPANY_HINT = /\b(inc|corp|corporation|company|co|ltd|llc|enterprises?|group|bank|hospital|school|university|college|agency|services|solutions)\b\.?/i;
+const INSTITUTION_HINT = /\b(university|college|institute|school|academy|polytechnic|colegio|universidad)\b/i;
+const DEGREE_HINT = /\b(bachelor|master|doctor|associate|diploma|ph\.?d|mba|b\.?s\.?|b\.?a\.?|a\.?b\.?|m\.?s\.?|m\.?a\.?|bs[a-z]{1,4}|senior high|junior high|high school|vocational|tesda|certificate in)\b/i;
+
+const MAX_SKILLS = 30;
+const MAX_ENTRIES = 15;
+
+function normalizeLine(line: string): string {
+  return line.replace(/\s+/g, " ").trim();
+}
+
+function isBullet(line: string): boolean {
+  return /^[•·▪●○◦\-*–]\s*/.test(line);
+}
+
+function stripBullet(line: string): string {
+  return line.replace(/^[•·▪●○◦\-*–]\s*/, "").trim();
+}
+
+function headingSection(line: string): Section | null {
+  if (line.length > 40) return null;
+  const key = line.toLowerCase().replace(/[^a-z& ]/g, "").replace(/&/g, "and").replace(/\s+/g, " ").trim();
+  for (const [section, headings] of SECTION_HEADINGS) {
+    if (headings.includes(key)) return section;
+  }
+  return null;
+}
+
+function splitSections(lines: string[]): Record<Section, string[]> {
+  const sections: Record<Section, string[]> = {
+    header: [], summary: [], experience: [], education: [], certifications: [], skills: [], other: [],
+  };
+  let current: Section = "header";
+  for (const line of lines) {
+    const heading = headingSection(line);
+    if (heading) {
+      current = heading;
+    } else {
+      sections[current].push(line);
+    }
+  }
+  return sections;
+}
+
+// "Mar 2021", "03/2021" or "2021" as YYYY-MM; a bare year becomes January, or December for end dates
+function toYearMonth(token: string, isEnd: boolean): string {
+  const year = token.match(/\d{4}/)?.[0] ?? "";
+  const monthName = token.match(/^[a-z]+/i)?.[0].toLowerCase().slice(0, 4);
+  const month = monthName ? MONTHS[monthName] ?? MONTHS[monthName.slice(0, 3)] : token.match(/^(\d{1,2})\//)?.[1]?.padStart(2, "0");
+  return `${year}-${month ?? (isEnd ? "12" : "01")}`;
+}
+
+// Splits "Position | Company", "Position at Company" and "Company - Location" style lines
+function splitParts(text: string): string[] {
+  return text
+    .split(/\s+(?:\||–|—|-|at|@)\s+|\s*\|\s*|,\s+(?=[A-Z])/)
+    .map(part => part.replace(/^[,\s]+|[,\s]+$/g, ""))
+    .filter(Boolean);
+}
+
+function findPhone(header: string[], text: string): string | null {
+  const phone = text.match(PH_MOBILE)?.[0] ?? header
+    .map(line => line.match(OTHER_PHONE)?.[0])
+    .find(match => match && !YEAR_RANGE.test(match));
+  return phone ? phone.replace(/\s+/g, " ").trim() : null;
+}
+
+function parseContact(sections: Record<Section, string[]>, text: string): ParsedResume["contact"] {
+  const header = sections.header.slice(0, 10);
+  const nameLine = header.find(line =>
+    !EMAIL.test(line) && !/\d/.test(line) && /^[A-Za-zÀ-ÿñÑ.' -]+$/.test(line) &&
+    line.split(" ").length >= 2 && line.split(" ").length <= 5
+  );
+  const nameParts = nameLine
+    ? nameLine.split(" ").map(part => part.toLowerCase().replace(/(^|[-'])[a-zà-ÿ]/g, c => c.toUpperCase()))
+    : [];
+  // Surnames like "Dela Cruz" and "De los Santos" start at their particle
+  let surnameStart = nameParts.length - 1;
+  while (surnameStart > 1 && SURNAME_PARTICLES.has(nameParts[surnameStart - 1].toLowerCase())) surnameStart--;
+
+  const linkedin = text.match(LINKEDIN)?.[0] ?? null;
+  const portfolio = header
+    .map(line => line.replace(new RegExp(EMAIL, "g"), "").match(URL_PATTERN)?.[0])
+    .find(url => url && !LINKEDIN.test(url)) ?? null;
+  const location = header.find(line => line !== nameLine && PH_PLACE.test(line) && !EMAIL.test(line) && line.length <= 80);
+
+  return {
+    firstName: nameParts.length > 1 ? nameParts.slice(0, surnameStart).join(" ") : null,
+    lastName: nameParts.length > 1 ? nameParts.slice(surnameStart).join(" ") : null,
+    email: text.match(EMAIL)?.[0] ?? null,
+    phoneNumber: findPhone(header, text),
+    location: location ? location.replace(/^(address|location)\s*:\s*/i, "") : null,
+    linkedinUrl: linkedin ? (linkedin.startsWith("http") ? linkedin : `https://${linkedin}`) : null,
+    portfolioUrl: portfolio ? (portfolio.startsWith("http") ? portfolio : `https://${portfolio}`) : null,
+  };
+}
+
+function parseHeadline(sections: Record<Section, string[]>, contact: ParsedResume["contact"]): string | null {
+  const name = [contact.firstName, contact.lastName].filter(Boolean).join(" ").toLowerCase();
+  const line = sections.header.slice(0, 6).find(candidate =>
+    candidate.toLowerCase() !== name && !EMAIL.test(candidate) &&
+    !PH_MOBILE.test(candidate) && !OTHER_PHONE.test(candidate) &&
+    !URL_PATTERN.test(candidate) && !PH_PLACE.test(candidate) && candidate.length >= 5 && candidate.length <= 80
+  );
+  return line ?? null;
+}
+
+function parseSkills(lines: string[]): string[] {
+  const seen = new Set<string>();
+  const skills: string[] = [];
+  for (const line of lines) {
+    const withoutLabel = stripBullet(line).replace(/^[A-Za-z ]{2,30}:\s*/, "");
+    for (const raw of withoutLabel.split(/[,;•·|]|\s{2,}/)) {
+      const skill = raw.replace(/\.$/, "").trim();
+      if (skill.length < 2 || skill.length > 40 || seen.has(skill.toLowerCase())) continue;
+      seen.add(skill.toLowerCase());
+      skills.push(skill);
+    }
+  }
+  return skills.slice(0, MAX_SKILLS);
+}
+
+// Entries are anchored on their date range; the one or two lines right above it (or the
+// rest of the date line) name the position and company, and what follows is the description
+function parseWorkExperience(lines: string[]): ParsedResume["workExperience"] {
+  const dateLines = lines.map((line, index) => (DATE_RANGE.test(line) ? index : -1)).filter(index => index >= 0);
+  const starts = dateLines.map((dateLine, k) => {
+    const boundary = k === 0 ? 0 : dateLines[k - 1] + 1;
+    let start = dateLine;
+    while (start > boundary && dateLine - start < 2 && !isBullet(lines[start - 1])) start--;
+    return start;
+  });
+
+  const entries: ParsedResume["workExperience"] = [];
+  dateLines.forEach((dateLine, k) => {
+    const range = lines[dateLine].match(DATE_RANGE)!;
+    const rest = lines[dateLine].replace(range[0], "").replace(/^[\s,|–—-]+|[\s,|–—(-]+$/g, "");
+    const parts = [...lines.slice(starts[k], dateLine), rest].filter(Boolean).flatMap(splitParts);
+    if (parts.length === 0) return;
+
+    // Position usually comes first, but some resumes lead with the company
+    let [position, companyName = "", ...others] = parts;
+    if (COMPANY_HINT.test(position) && !COMPANY_HINT.test(companyName) && companyName) {
+      [position, companyName] = [companyName, position];
+    }
+    const isCurrent = /present|current|now|to date/i.test(range[2]);
+    const descriptionEnd = k + 1 < dateLines.length ? starts[k + 1] : lines.length;
+    const description = lines.slice(dateLine + 1, descriptionEnd).map(stripBullet).filter(Boolean).join("\n");
+
+    entries.push({
+      companyName,
+      position,
+      location: others.find(part => PH_PLACE.test(part)) ?? null,
+      startDate: toYearMonth(range[1], false),
+      endDate: isCurrent ? null : toYearMonth(range[2], true),
+      isCurrent,
+      description: description || null,
+    });
+  });
+  return entries.slice(0, MAX_ENTRIES);
+}
+
+// A new entry starts at each school name; degree and years come from the lines around it
+function parseEducation(lines: string[]): ParsedResume["education"] {
+  const groups: string[][] = [];
+  for (const line of lines.map(stripBullet)) {
+    const current = groups[groups.length - 1];
+    const startsEntry = INSTITUTION_HINT.test(line) && (!current || current.some(l => INSTITUTION_HINT.test(l)));
+    if (!current || startsEntry) {
+      groups.push([line]);
+    } else {
+      current.push(line);
+    }
+  }
+
+  const entries: ParsedResume["education"] = [];
+  for (const group of groups) {
+    const institutionLine = group.find(line => INSTITUTION_HINT.test(line));
+    if (!institutionLine) continue;
+    const institution = splitParts(institutionLine.replace(DATE_RANGE, "").replace(YEAR, ""))
+      .find(part => INSTITUTION_HINT.test(part)) ?? institutionLine;
+    const degreeLine = group.find(line => line !== institutionLine && DEGREE_HINT.test(line))
+      ?? (DEGREE_HINT.test(institutionLine) && !/high school/i.test(institution) ? institutionLine : undefined);
+    const degreeText = degreeLine ? degreeLine.replace(DATE_RANGE, "").replace(YEAR, "").replace(/[\s,|–—-]+$/, "").trim() : "";
+    const [degree, fieldOfStudy] = degreeText.split(/\s+(?:in|major in|major:)\s+/i);
+    const finalDegree = degree || (/high school/i.test(institution) ? "High School Diploma" : "");
+    if (!finalDegree) continue;
+
+    const years = group.join(" ").match(YEAR) ?? [];
+    const others = group.filter(line => line !== institutionLine && line !== degreeLine && !/^\s*(19|20)\d{2}/.test(line));
+    entries.push({
+      institution: institution.trim(),
+      degree: finalDegree.trim(),
+      fieldOfStudy: fieldOfStudy?.trim() || null,
+      // A single year is usually the graduation year
+      startYear: years[0] ?? "",
+      endYear: years.length > 1 ? years[years.length - 1] : years[0] ?? null,
+      description: others.join("\n") || null,
+    });
+  }
+  return entries.filter(entry => entry.startYear).slice(0, MAX_ENTRIES);
+}
+
+function parseCertifications(lines: string[]): ParsedResume["certifications"] {
+  const entries: ParsedResume["certifications"] = [];
+  for (const line of lines.map(stripBullet)) {
+    if (line.length < 4 || line.length > 150) continue;
+    const date = line.match(SINGLE_DATE)?.[0];
+    const withoutDate = (date ? line.replace(date, "") : line).replace(/[\s,|–—(-]+$/, "").replace(/\(\s*\)/, "").trim();
+    const [name, ...rest] = withoutDate.split(/\s+(?:-|–|—|by|from)\s+|\s*\|\s*|,\s+/);
+    if (!name) continue;
+    entries.push({
+      name: name.trim(),
+      issuer: rest.join(", ").trim(),
+      issueDate: date ? toYearMonth(date, false) : null,
+      expiryDate: null,
+      credentialUrl: line.match(URL_PATTERN)?.[0] ?? null,
+    });
+  }
+  return entries.slice(0, MAX_ENTRIES);
+}
+
+export function parseResumeText(text: string): ParsedResume {
+  const lines = text.split(/\r?\n/).map(normalizeLine).filter(Boolean);
+  const sections = splitSections(lines);
+  const contact = parseContact(sections, text);
+
+  return {
+    contact,
+    headline: parseHeadline(sections, contact),
+    skills: parseSkills(sections.skills),
+    workExperience: parseWorkExperience(sections.experience),
+    education: parseEducation(sections.education),
+    certifications: parseCertifications(sections.certifications),
+  };
+}
+
+// Long resumes are cut to keep the prompt within budget; the first pages hold what we need
+const MAX_AI_TEXT_LENGTH = 15_000;
+
+async function parseWithAi(text: string, heuristic: ParsedResume): Promise<ParsedResume | null> {
+  const { content } = await runAiTask("resume_parse", [
+    {
+      role: "system",
+      content: "You extract structured profile data from resumes for a Philippine job portal. Only use facts stated in the resume; use null or empty arrays for anything missing. Dates for work experience and certifications are YYYY-MM; education years are YYYY. Respond in JSON format.",
+    },
+    {
+      role: "user",
+      content: `Resume text:\n${text.slice(0, MAX_AI_TEXT_LENGTH)}\n\nA rule-based parser produced this draft, which may be incomplete or wrong:\n${JSON.stringify(heuristic)}\n\nReturn JSON with exactly the same shape as the draft: { "contact": { "firstName", "lastName", "email", "phoneNumber", "location", "linkedinUrl", "portfolioUrl" }, "headline", "skills": string[], "workExperience": [{ "companyName", "position", "location", "startDate", "endDate", "isCurrent", "description" }], "education": [{ "institution", "degree", "fieldOfStudy", "startYear", "endYear", "description" }], "certifications": [{ "name", "issuer", "issueDate", "expiryDate", "credentialUrl" }] }`,
+    },
+  ]);
+  const result = parsedResumeSchema.safeParse(JSON.parse(content || "{}"));
+  if (!result.success) {
+    console.error("[Resume] AI result failed validation:", result.error.message);
+    return null;
+  }
+  return result.data;
+}
+
+// Heuristic parsing, refined by the AI when one is configured. Any AI failure falls
+// back to the heuristic result rather than failing the request.
+export async function parseResume(text: string): Promise<ResumeParseResult> {
+  const heuristic = parseResumeText(text);
+  if (!isAiAvailable() || !text.trim()) {
+    return { parsed: heuristic, source: "heuristic" };
+  }
+  try {
+    const enhanced = await parseWithAi(text, heuristic);
+    return enhanced ? { parsed: enhanced, source: "ai" } : { parsed: heuristic, source: "heuristic" };
+  } catch (error) {
+    console.error("[Resume] AI parsing failed, using heuristic result:", error);
+    return { parsed: heuristic, source: "heuristic" };
+  }
+}
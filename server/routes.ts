@@ -1,6 +1,6 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, type ApplicationStageMove } from "./storage";
 import fs from "fs";
 import path from "path";
 import { 
@@ -18,19 +18,32 @@ import {
   sendOTPEmail,
   sendPasswordResetEmail,
   sendApplicationStatusEmail,
+  sendNewApplicantEmail,
   sendFraudAlertEmail,
   generateOTP,
 } from "./email";
 import {
   analyzeUserProfileForFraud,
   analyzeJobPostingForFraud,
-  calculateJobMatch,
-  calculateJobMatchWithReasoning,
-  findMatchingCandidates,
 } from "./ai";
+import { normalizeJobSalary, isSupportedCurrency } from "./salary";
+import { resolveLocationFields } from "./location";
+import { queueSeekerMatches, queueJobMatches, getJobMatch } from "./match-worker";
+import { checkSavedSearchesNow } from "./saved-search-alerts";
+import { extractResumeText, parseResume, UnsupportedResumeFormatError } from "./resume-parser";
+import { generateCv } from "./cv-generator";
 import { ObjectStorageService, ObjectNotFoundError } from "./objectStorage";
 import { ObjectPermission } from "./objectAcl";
-import { insertUserSchema, insertJobSchema, insertApplicationSchema, insertContactMessageSchema, users, type User, type JobSeekerProfile } from "@shared/schema";
+import { insertUserSchema, insertJobSchema, updateJobSchema, insertApplicationSchema, updateApplicationSchema, bulkApplicationActionSchema, withdrawApplicationSchema, sendMessageSchema, proposeInterviewSchema, selectInterviewSlotSchema, interviewReasonSchema, updateNotificationPreferencesSchema, createResumeSchema, updateResumeSchema, workExperienceInputSchema, educationInputSchema, certificationInputSchema, reorderProfileEntriesSchema, pipelineTemplateInputSchema, insertContactMessageSchema, insertSavedSearchSchema, jobSearchQuerySchema, users, type User, type JobSeekerProfile, type ApplicationTimelineEvent, type Application, type BulkApplicationItemResult, type Job, type WorkExperienceInput } from "@shared/schema";
+import { isAcceptingApplications } from "@shared/job-status";
+import { APPLICATION_STATUS_LABELS, resolveApplicationStage, SEEKER_VISIBLE_EVENT_TYPES, type ApplicationStatus } from "@shared/pipeline";
+import { NOTIFICATION_PAGE_SIZE, resolveNotificationPreferences } from "@shared/notifications";
+import { evaluateScreening, screeningAnswerInputSchema } from "@shared/screening";
+import { CV_TEMPLATE_CONFIG, DEFAULT_CV_TEMPLATE, isCvTemplate } from "@shared/cv";
+import { computeProfileCompleteness } from "@shared/profile-completeness";
+import { ACTIVE_INTERVIEW_STATUSES, formatInterviewTime } from "@shared/interviews";
+import { openNotificationStream, notifyUser, notifyUsers, notifyAdmins, deliverEmail, verifyUnsubscribeToken, unsubscribeFromEmails } from "./notifications";
+import { notifyInterviewProposed, notifyInterviewScheduled, notifyInterviewCancelled, notifyInterviewRescheduleRequested } from "./interview-notifications";
 import { ActivityLogger } from "./logger";
 import { createAdminRouter } from "./routes/admin";
 import { setupAuth, isAuthenticated as isReplitAuthenticated } from "./replitAuth";
@@ -38,6 +51,9 @@ import { setupGoogleAuth } from "./googleAuth";
 
 const ADMIN_EMAIL = process.env.ADMIN_EMAIL || "admin@zambajobs.com";
 
+// Points of candidate ranking per point of profile completeness (so at most 10)
+const COMPLETENESS_RANK_WEIGHT = 0.1;
+
 // Type predicate to ensure required user fields are present
 type UserWithCoreFields = typeof users.$inferSelect & {
   email: string;
@@ -74,6 +90,165 @@ function noCacheMiddleware(req: any, res: any, next: any) {
   next();
 }
 
+// Seekers see a job's screening questions but not the knockout rules behind them.
+// Knockout questions still show as required, since the apply check enforces that.
+function withPublicScreening<T extends Job>(job: T): T {
+  if (!job.screeningQuestions) return job;
+  return {
+    ...job,
+    screeningQuestions: job.screeningQuestions.map(({ knockout, ...question }) => ({
+      ...question,
+      required: question.required || !!knockout,
+    })),
+  };
+}
+
+// Seekers see their own answers but not which ones failed a knockout or how screening came out
+function withPublicScreeningAnswers(application: Application): Application {
+  return {
+    ...application,
+    screeningAnswers: application.screeningAnswers?.map(({ knockout, ...answer }) => answer) ?? null,
+    screeningOutcome: null,
+  };
+}
+
+// Emails the seeker their application's new status and records it in the timeline.
+// Failures are logged, not thrown: the status change itself has already been saved.
+async function notifyApplicationStatus(
+  application: Application,
+  jobTitle: string,
+  actorId: string,
+  employerMessage?: string
+): Promise<boolean> {
+  try {
+    const seeker = await storage.getUser(application.seekerId);
+    if (!seeker?.email) return false;
+    const email = seeker.email;
+    // Seekers on a digest get the update there instead, so nothing counts as emailed yet
+    const sent = await deliverEmail(
+      seeker.id,
+      "application_status",
+      { title: `${jobTitle}: ${APPLICATION_STATUS_LABELS[application.status]}`, body: employerMessage ?? null, link: "/dashboard" },
+      unsubscribeUrl => sendApplicationStatusEmail(email, jobTitle, application.status, seeker.firstName || undefined, employerMessage, { unsubscribeUrl })
+    );
+    if (!sent) return false;
+    await storage.createApplicationEvent({
+      applicationId: application.id,
+      type: "email_sent",
+      actorId,
+      toStatus: application.status,
+    });
+    return true;
+  } catch (error) {
+    console.error("Application status email error:", error);
+    return false;
+  }
+}
+
+// In-app counterpart of the status email. Unlike the email it is sent for every
+// status change the seeker can see, since the dashboard shows the new status anyway.
+async function notifySeekerOfStatus(seekerIds: string[], status: ApplicationStatus, jobTitle: string): Promise<void> {
+  await notifyUsers(seekerIds, {
+    type: "application_status",
+    title: `Application update: ${jobTitle}`,
+    body: `Your application status is now ${APPLICATION_STATUS_LABELS[status]}.`,
+    link: "/dashboard",
+  });
+}
+
+// Tells the employer in-app and, per their preferences, by email or in their digest
+async function notifyNewApplicant(job: Job, seekerId: string, screenedOut: boolean): Promise<void> {
+  const [seeker, employer] = await Promise.all([storage.getUser(seekerId), storage.getUser(job.employerId)]);
+  const seekerName = [seeker?.firstName, seeker?.lastName].filter(Boolean).join(" ") || "A candidate";
+  const summary = screenedOut
+    ? `${seekerName} applied but was screened out by a knockout question.`
+    : `${seekerName} applied.`;
+  const link = `/employer/jobs/${job.id}`;
+
+  await notifyUser(job.employerId, { type: "new_applicant", title: `New applicant for ${job.title}`, body: summary, link });
+
+  if (!employer?.email) return;
+  const email = employer.email;
+  try {
+    await deliverEmail(
+      employer.id,
+      "new_applicant",
+      { title: job.title, body: summary, link },
+      unsubscribeUrl => sendNewApplicantEmail(email, job.title, summary, link, employer.firstName || undefined, { unsubscribeUrl })
+    );
+  } catch (error) {
+    console.error("New applicant email error:", error);
+  }
+}
+
+// The other side of an application's message thread, or null when userId is neither
+// the seeker who applied nor the employer who owns the job
+function getMessageRecipientId(application: Application, job: Job, userId: string): string | null {
+  if (application.seekerId === userId) return job.employerId;
+  if (job.employerId === userId) return application.seekerId;
+  return null;
+}
+
+// An interview with the application and job it belongs to, and which side of it userId
+// is on (null when they are neither the applicant nor the employer who owns the job)
+async function loadInterviewForUser(interviewId: string, userId: string) {
+  const interview = await storage.getInterview(interviewId);
+  const application = interview && await storage.getApplication(interview.applicationId);
+  const job = application && await storage.getJob(application.jobId);
+  if (!interview || !application || !job) return null;
+  const side = application.seekerId === userId ? "seeker" as const
+    : job.employerId === userId ? "employer" as const
+    : null;
+  return { interview, application, job, side };
+}
+
+// Resume files must be in the seeker's own folder, named by /api/objects/upload-resume.
+// Returns the normalized path, or null when it doesn't qualify.
+function normalizeResumePath(userId: string, rawPath: string): string | null {
+  const resumePath = rawPath.replace(/\.\./g, '').replace(/\/+/g, '/');
+  const pathRegex = new RegExp(`^/users/${userId}/resume-\\d+-[a-z0-9]+\\.(pdf|doc|docx)$`);
+  return pathRegex.test(resumePath) ? resumePath : null;
+}
+
+// Exactly the path POST /api/objects/upload-attachment hands the sender, nothing else under their folder
+function isMessageAttachmentPath(userId: string, attachmentPath: string): boolean {
+  return new RegExp(`^/users/${userId}/attachment-\\d+-[a-z0-9]+\\.(pdf|doc|docx|jpg|jpeg|png)$`).test(attachmentPath);
+}
+
+// Label for a resume added without one, e.g. through the older single-resume endpoints
+function defaultResumeLabel(): string {
+  return `Resume (${new Date().toLocaleDateString("en-PH", { month: "short", day: "numeric", year: "numeric", timeZone: "Asia/Manila" })})`;
+}
+
+// Only the current role may be open-ended, so a seeker ends the old one before starting another
+async function findCurrentRoleConflict(profileId: string, entry: WorkExperienceInput, exceptId?: string): Promise<string | null> {
+  if (!entry.isCurrent) return null;
+  const current = (await storage.getWorkExperience(profileId)).find(exp => exp.isCurrent && exp.id !== exceptId);
+  return current ? `You already have a current role at ${current.companyName}. Add an end date to it first.` : null;
+}
+
+// Postgres unique_violation on the given index
+function isUniqueViolation(error: any, constraint: string): boolean {
+  return error?.code === "23505" && error?.constraint === constraint;
+}
+
+// Two saves racing past findCurrentRoleConflict are stopped by idx_work_experience_current instead
+async function currentRoleViolationMessage(error: any, profileId: string, entry: WorkExperienceInput, exceptId?: string): Promise<string | null> {
+  if (!isUniqueViolation(error, "idx_work_experience_current")) return null;
+  return await findCurrentRoleConflict(profileId, entry, exceptId) ?? "You already have a current role. Add an end date to it first.";
+}
+
+// GET on an unsubscribe link only asks, since mail scanners and link previews open every
+// URL in an email. The button POSTs back to the same URL, as one-click clients do.
+function unsubscribeConfirmationPage(question: string): string {
+  return `<form method="post"><p>${question}</p><button type="submit">Unsubscribe</button></form>`;
+}
+
+function isSameIdSet(ids: string[], entries: { id: string }[]): boolean {
+  const unique = new Set(ids);
+  return unique.size === ids.length && ids.length === entries.length && entries.every(entry => unique.has(entry.id));
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Add local upload endpoint for development
   app.put("/api/local-upload/*", async (req: any, res) => {
@@ -576,6 +751,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
           workExperience: workExp,
           education: edu,
           certifications: certs,
+          completeness: computeProfileCompleteness({
+            ...profile,
+            workExperienceCount: workExp.length,
+            educationCount: edu.length,
+            certificationCount: certs.length,
+          }),
         });
       } else if (user.role === "employer") {
         const profile = await storage.getEmployerProfile(user.id);
@@ -636,16 +817,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
 
         // Verify and set ACL for resume if provided
+        let resumePath: string | null = null;
         if (req.body.resumeUrl) {
-          let resumePath = req.body.resumeUrl;
-          
-          // Normalize path - remove any traversal attempts
-          resumePath = resumePath.replace(/\.\./g, '').replace(/\/+/g, '/');
-          
-          // Strict validation - must match exact pattern
-          const pathRegex = new RegExp(`^/users/${user.id}/resume-\\d+-[a-z0-9]+\\.(pdf|doc|docx)$`);
-          if (!pathRegex.test(resumePath)) {
-            console.error("Invalid resume path format:", resumePath);
+          resumePath = normalizeResumePath(user.id, req.body.resumeUrl);
+          if (!resumePath) {
+            console.error("Invalid resume path format:", req.body.resumeUrl);
             return res.status(403).json({ message: "Invalid resume path format" });
           }
 
@@ -663,7 +839,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
           }
         }
 
-        const updated = await storage.updateJobSeekerProfile(profile.id, req.body);
+        // Province, region and coordinates always come from the city code, never the client
+        const { locationProvince, locationRegion, latitude, longitude, resumeUrl, ...profileUpdate } = req.body;
+        if (profileUpdate.locationCity !== undefined) {
+          const locationFields = resolveLocationFields(profileUpdate.locationCity);
+          if (!locationFields) {
+            return res.status(400).json({ message: `Unknown city: ${profileUpdate.locationCity}` });
+          }
+          Object.assign(profileUpdate, locationFields);
+        }
+
+        // A new file here becomes the default resume version and a null or blank one clears
+        // the default; resumeUrl itself is only ever set from the default resume
+        if (resumePath && resumePath !== profile.resumeUrl) {
+          await storage.createResume({ userId: user.id, label: defaultResumeLabel(), fileUrl: resumePath, isDefault: true });
+        } else if ((resumeUrl === null || resumeUrl === "") && profile.resumeUrl) {
+          await storage.clearDefaultResume(user.id);
+        }
+
+        const updated = await storage.updateJobSeekerProfile(profile.id, profileUpdate);
+        queueSeekerMatches(user.id);
         
         // Run fraud detection analysis on profile update
         // Note: Skip image analysis for now (internal paths not accessible to OpenAI API)
@@ -676,6 +871,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
             description: fraudResult.reasons.join("; "),
             aiConfidence: fraudResult.confidence,
           });
+          await notifyAdmins({
+            type: "fraud_alert",
+            title: `Possible fraud on a user profile (${fraudResult.confidence}% confidence)`,
+            body: fraudResult.reasons.join("; "),
+            link: "/admin/fraud",
+          });
           await sendFraudAlertEmail(
             fraudResult.alertType,
             fraudResult.reasons.join("; "),
@@ -710,20 +911,104 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Profile not found" });
       }
 
-      const workExp = await storage.createWorkExperience({
-        ...req.body,
-        profileId: profile.id,
-      });
+      const entry = workExperienceInputSchema.parse(req.body);
+      const conflict = await findCurrentRoleConflict(profile.id, entry);
+      if (conflict) {
+        return res.status(400).json({ message: conflict });
+      }
+
+      let workExp;
+      try {
+        workExp = await storage.createWorkExperience({
+          ...entry,
+          profileId: profile.id,
+        });
+      } catch (error) {
+        const message = await currentRoleViolationMessage(error, profile.id, entry);
+        if (!message) throw error;
+        return res.status(400).json({ message });
+      }
+      queueSeekerMatches(userId);
       res.json(workExp);
     } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid work experience", errors: error.errors });
+      }
       console.error("Create work experience error:", error);
       res.status(500).json({ message: "Failed to create work experience" });
     }
   });
 
+  // Registered before /:id so "order" isn't taken for an entry id
+  app.put("/api/profile/work-experience/order", isAuthenticated, isJobSeeker, async (req, res) => {
+    try {
+      const profile = await storage.getJobSeekerProfile(getUserId(req));
+      if (!profile) {
+        return res.status(404).json({ message: "Profile not found" });
+      }
+
+      const { ids } = reorderProfileEntriesSchema.parse(req.body);
+      const entries = await storage.getWorkExperience(profile.id);
+      if (!isSameIdSet(ids, entries)) {
+        return res.status(400).json({ message: "The new order must list each of your entries exactly once" });
+      }
+
+      await storage.reorderWorkExperience(profile.id, ids);
+      res.json(await storage.getWorkExperience(profile.id));
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid order", errors: error.errors });
+      }
+      console.error("Reorder work experience error:", error);
+      res.status(500).json({ message: "Failed to reorder work experience" });
+    }
+  });
+
+  app.put("/api/profile/work-experience/:id", isAuthenticated, isJobSeeker, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const profile = await storage.getJobSeekerProfile(userId);
+      const existing = await storage.getWorkExperienceEntry(req.params.id);
+      if (!profile || !existing || existing.profileId !== profile.id) {
+        return res.status(404).json({ message: "Work experience not found" });
+      }
+
+      const entry = workExperienceInputSchema.parse(req.body);
+      const conflict = await findCurrentRoleConflict(profile.id, entry, existing.id);
+      if (conflict) {
+        return res.status(400).json({ message: conflict });
+      }
+
+      let workExp;
+      try {
+        workExp = await storage.updateWorkExperience(existing.id, entry);
+      } catch (error) {
+        const message = await currentRoleViolationMessage(error, profile.id, entry, existing.id);
+        if (!message) throw error;
+        return res.status(400).json({ message });
+      }
+      queueSeekerMatches(userId);
+      res.json(workExp);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid work experience", errors: error.errors });
+      }
+      console.error("Update work experience error:", error);
+      res.status(500).json({ message: "Failed to update work experience" });
+    }
+  });
+
   app.delete("/api/profile/work-experience/:id", isAuthenticated, isJobSeeker, async (req, res) => {
     try {
-      await storage.deleteWorkExperience(req.params.id);
+      const userId = getUserId(req);
+      const profile = await storage.getJobSeekerProfile(userId);
+      const existing = await storage.getWorkExperienceEntry(req.params.id);
+      if (!profile || !existing || existing.profileId !== profile.id) {
+        return res.status(404).json({ message: "Work experience not found" });
+      }
+
+      await storage.deleteWorkExperience(existing.id);
+      queueSeekerMatches(userId);
       res.json({ message: "Work experience deleted" });
     } catch (error: any) {
       console.error("Delete work experience error:", error);
@@ -740,20 +1025,80 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Profile not found" });
       }
 
+      const entry = educationInputSchema.parse(req.body);
       const education = await storage.createEducation({
-        ...req.body,
+        ...entry,
         profileId: profile.id,
       });
+      queueSeekerMatches(userId);
       res.json(education);
     } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid education", errors: error.errors });
+      }
       console.error("Create education error:", error);
       res.status(500).json({ message: "Failed to create education" });
     }
   });
 
+  // Registered before /:id so "order" isn't taken for an entry id
+  app.put("/api/profile/education/order", isAuthenticated, isJobSeeker, async (req, res) => {
+    try {
+      const profile = await storage.getJobSeekerProfile(getUserId(req));
+      if (!profile) {
+        return res.status(404).json({ message: "Profile not found" });
+      }
+
+      const { ids } = reorderProfileEntriesSchema.parse(req.body);
+      const entries = await storage.getEducation(profile.id);
+      if (!isSameIdSet(ids, entries)) {
+        return res.status(400).json({ message: "The new order must list each of your entries exactly once" });
+      }
+
+      await storage.reorderEducation(profile.id, ids);
+      res.json(await storage.getEducation(profile.id));
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid order", errors: error.errors });
+      }
+      console.error("Reorder education error:", error);
+      res.status(500).json({ message: "Failed to reorder education" });
+    }
+  });
+
+  app.put("/api/profile/education/:id", isAuthenticated, isJobSeeker, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const profile = await storage.getJobSeekerProfile(userId);
+      const existing = await storage.getEducationEntry(req.params.id);
+      if (!profile || !existing || existing.profileId !== profile.id) {
+        return res.status(404).json({ message: "Education not found" });
+      }
+
+      const entry = educationInputSchema.parse(req.body);
+      const education = await storage.updateEducation(existing.id, entry);
+      queueSeekerMatches(userId);
+      res.json(education);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid education", errors: error.errors });
+      }
+      console.error("Update education error:", error);
+      res.status(500).json({ message: "Failed to update education" });
+    }
+  });
+
   app.delete("/api/profile/education/:id", isAuthenticated, isJobSeeker, async (req, res) => {
     try {
-      await storage.deleteEducation(req.params.id);
+      const userId = getUserId(req);
+      const profile = await storage.getJobSeekerProfile(userId);
+      const existing = await storage.getEducationEntry(req.params.id);
+      if (!profile || !existing || existing.profileId !== profile.id) {
+        return res.status(404).json({ message: "Education not found" });
+      }
+
+      await storage.deleteEducation(existing.id);
+      queueSeekerMatches(userId);
       res.json({ message: "Education deleted" });
     } catch (error: any) {
       console.error("Delete education error:", error);
@@ -770,20 +1115,80 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Profile not found" });
       }
 
+      const entry = certificationInputSchema.parse(req.body);
       const certification = await storage.createCertification({
-        ...req.body,
+        ...entry,
         profileId: profile.id,
       });
+      queueSeekerMatches(userId);
       res.json(certification);
     } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid certification", errors: error.errors });
+      }
       console.error("Create certification error:", error);
       res.status(500).json({ message: "Failed to create certification" });
     }
   });
 
+  // Registered before /:id so "order" isn't taken for an entry id
+  app.put("/api/profile/certifications/order", isAuthenticated, isJobSeeker, async (req, res) => {
+    try {
+      const profile = await storage.getJobSeekerProfile(getUserId(req));
+      if (!profile) {
+        return res.status(404).json({ message: "Profile not found" });
+      }
+
+      const { ids } = reorderProfileEntriesSchema.parse(req.body);
+      const entries = await storage.getCertifications(profile.id);
+      if (!isSameIdSet(ids, entries)) {
+        return res.status(400).json({ message: "The new order must list each of your entries exactly once" });
+      }
+
+      await storage.reorderCertifications(profile.id, ids);
+      res.json(await storage.getCertifications(profile.id));
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid order", errors: error.errors });
+      }
+      console.error("Reorder certifications error:", error);
+      res.status(500).json({ message: "Failed to reorder certifications" });
+    }
+  });
+
+  app.put("/api/profile/certifications/:id", isAuthenticated, isJobSeeker, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const profile = await storage.getJobSeekerProfile(userId);
+      const existing = await storage.getCertificationEntry(req.params.id);
+      if (!profile || !existing || existing.profileId !== profile.id) {
+        return res.status(404).json({ message: "Certification not found" });
+      }
+
+      const entry = certificationInputSchema.parse(req.body);
+      const certification = await storage.updateCertification(existing.id, entry);
+      queueSeekerMatches(userId);
+      res.json(certification);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid certification", errors: error.errors });
+      }
+      console.error("Update certification error:", error);
+      res.status(500).json({ message: "Failed to update certification" });
+    }
+  });
+
   app.delete("/api/profile/certifications/:id", isAuthenticated, isJobSeeker, async (req, res) => {
     try {
-      await storage.deleteCertification(req.params.id);
+      const userId = getUserId(req);
+      const profile = await storage.getJobSeekerProfile(userId);
+      const existing = await storage.getCertificationEntry(req.params.id);
+      if (!profile || !existing || existing.profileId !== profile.id) {
+        return res.status(404).json({ message: "Certification not found" });
+      }
+
+      await storage.deleteCertification(existing.id);
+      queueSeekerMatches(userId);
       res.json({ message: "Certification deleted" });
     } catch (error: any) {
       console.error("Delete certification error:", error);
@@ -794,49 +1199,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Jobs routes
   app.get("/api/jobs", async (req, res) => {
     try {
-      const { search, location, jobType, category } = req.query;
-      
-      const jobs = await storage.getAllJobs({ isActive: true });
-      let filteredJobs = jobs.filter(j => !j.isFlagged);
-      
-      // Apply search filter (search in title and description)
-      if (search && typeof search === 'string' && search.trim() !== '') {
-        const searchLower = search.toLowerCase().trim();
-        filteredJobs = filteredJobs.filter(job => 
-          job.title?.toLowerCase().includes(searchLower) ||
-          job.description?.toLowerCase().includes(searchLower)
-        );
-      }
-      
-      // Apply location filter
-      if (location && typeof location === 'string' && location.trim() !== '') {
-        const locationLower = location.toLowerCase().trim();
-        filteredJobs = filteredJobs.filter(job => 
-          job.location?.toLowerCase().includes(locationLower)
-        );
-      }
-      
-      // Apply job type filter
-      if (jobType && typeof jobType === 'string' && jobType !== 'all') {
-        filteredJobs = filteredJobs.filter(job => 
-          job.jobType === jobType
-        );
-      }
-      
-      // Apply category filter
-      if (category && typeof category === 'string' && category !== 'all') {
-        filteredJobs = filteredJobs.filter(job => {
-          // Handle new categories array if available
-          if (job.categories && Array.isArray(job.categories)) {
-            return job.categories.includes(category);
-          }
-          // If categories doesn't exist yet, no jobs will match
-          return false;
-        });
-      }
-      
-      res.json(filteredJobs);
+      const query = jobSearchQuerySchema.parse(req.query);
+      const result = await storage.searchJobs(query);
+      res.json({ ...result, jobs: result.jobs.map(withPublicScreening) });
     } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid search parameters", errors: error.errors });
+      }
       console.error("Get jobs error:", error);
       res.status(500).json({ message: "Failed to get jobs" });
     }
@@ -845,68 +1214,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // IMPORTANT: Specific routes must come before dynamic :id routes
   app.get("/api/jobs/recommended", isAuthenticated, isJobSeeker, async (req, res) => {
     try {
-      const profile = await storage.getJobSeekerProfile(getUserId(req));
+      const userId = getUserId(req);
+      const profile = await storage.getJobSeekerProfile(userId);
       if (!profile) {
         return res.json([]);
       }
 
-      // Fetch complete profile data for enhanced matching (only once per request)
-      const [workExp, education, certifications] = await Promise.all([
-        storage.getWorkExperience(profile.id),
-        storage.getEducation(profile.id),
-        storage.getCertifications(profile.id)
-      ]);
-
-      const allJobs = await storage.getAllJobs({ isActive: true });
-      const activeJobs = allJobs.filter(j => !j.isFlagged);
-      
-      // Prepare profile data once for all comparisons
-      const workExpData = workExp.map(w => ({ 
-        companyName: w.companyName, 
-        position: w.position, 
-        description: w.description || undefined 
-      }));
-      const educationData = education.map(e => ({ 
-        institution: e.institution, 
-        degree: e.degree, 
-        fieldOfStudy: e.fieldOfStudy || undefined 
-      }));
-      const certData = certifications.map(c => ({ 
-        name: c.name, 
-        issuer: c.issuer 
-      }));
-      
-      // Process ALL jobs with concurrency limit for API calls (batch of 5)
-      const BATCH_SIZE = 5;
-      const jobsWithScores: Array<any> = [];
-      
-      for (let i = 0; i < activeJobs.length; i += BATCH_SIZE) {
-        const batch = activeJobs.slice(i, i + BATCH_SIZE);
-        const batchResults = await Promise.all(
-          batch.map(async (job) => {
-            const result = await calculateJobMatchWithReasoning(
-              profile, 
-              job,
-              workExpData,
-              educationData,
-              certData
-            );
-            return { 
-              ...job, 
-              aiMatchScore: result.matchScore,
-              aiMatchReasoning: result.reasoning
-            };
-          })
-        );
-        jobsWithScores.push(...batchResults);
+      // Scores are precomputed by the match worker; only jobs scoring 30+ are recommended
+      const recommended = await storage.getRecommendedJobs(userId, 30);
+      if (recommended.length === 0) {
+        // First visit or nothing scored yet - make sure the worker picks this seeker up
+        queueSeekerMatches(userId);
       }
 
-      // Return ALL jobs that meet minimum threshold (30+), sorted by score
-      const recommended = jobsWithScores
-        .filter(j => j.aiMatchScore >= 30)
-        .sort((a, b) => b.aiMatchScore - a.aiMatchScore);
-
-      res.json(recommended);
+      res.json(recommended.map(withPublicScreening));
     } catch (error: any) {
       console.error("Get recommended jobs error:", error);
       res.status(500).json({ message: "Failed to get recommended jobs" });
@@ -919,22 +1240,60 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!job) {
         return res.status(404).json({ message: "Job not found" });
       }
-      res.json(job);
+      res.json(withPublicScreening(job));
     } catch (error: any) {
       console.error("Get job error:", error);
       res.status(500).json({ message: "Failed to get job" });
     }
   });
 
+  // How well the signed-in seeker matches a job, with the explanation behind the score
+  app.get("/api/jobs/:id/match", isAuthenticated, isJobSeeker, async (req, res) => {
+    try {
+      const job = await storage.getJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      // Never waits on the LLM here; AI scores arrive through the match worker or on apply
+      const match = await getJobMatch(getUserId(req), job, false);
+      if (!match) {
+        return res.status(404).json({ message: "Complete your profile to see how you match" });
+      }
+      res.json({
+        matchScore: match.matchScore,
+        model: match.model,
+        explanation: match.explanation,
+        computedAt: match.computedAt,
+      });
+    } catch (error: any) {
+      console.error("Get job match error:", error);
+      res.status(500).json({ message: "Failed to get job match" });
+    }
+  });
+
   app.post("/api/jobs", isAuthenticated, isEmployer, async (req, res) => {
     try {
       const validatedData = insertJobSchema.parse(req.body);
+      const salaryCurrency = (validatedData.salaryCurrency || "PHP").toUpperCase(); // Default to Philippine Peso
+      if (!isSupportedCurrency(salaryCurrency)) {
+        return res.status(400).json({ message: `Unsupported salary currency: ${salaryCurrency}` });
+      }
+      const locationFields = resolveLocationFields(validatedData.locationCity);
+      if (!locationFields) {
+        return res.status(400).json({ message: `Unknown city: ${validatedData.locationCity}` });
+      }
+      const defaultPipeline = await storage.getDefaultPipelineTemplate(getUserId(req));
       const jobData = {
         ...validatedData,
         employerId: getUserId(req),
-        salaryCurrency: "PHP", // Default to Philippine Peso
+        pipelineTemplateId: defaultPipeline.id,
+        salaryCurrency,
+        ...normalizeJobSalary({ ...validatedData, salaryCurrency }),
+        ...locationFields,
       };
       const job = await storage.createJob(jobData);
+      queueJobMatches(job.id);
 
       // Run fraud detection on new job posting
       const fraudResult = await analyzeJobPostingForFraud(job);
@@ -947,6 +1306,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
           description: fraudResult.reasons.join("; "),
           aiConfidence: fraudResult.confidence,
         });
+        await notifyAdmins({
+          type: "fraud_alert",
+          title: `Possible fraud on a job posting (${fraudResult.confidence}% confidence)`,
+          body: fraudResult.reasons.join("; "),
+          link: "/admin/fraud",
+        });
         await sendFraudAlertEmail(
           fraudResult.alertType,
           fraudResult.reasons.join("; "),
@@ -954,6 +1319,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           job.id,
           fraudResult.confidence
         );
+      } else {
+        checkSavedSearchesNow();
       }
 
       res.json(job);
@@ -975,8 +1342,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Validate and update the job
-      const validatedData = insertJobSchema.partial().parse(req.body);
-      const updatedJob = await storage.updateJob(req.params.id, validatedData);
+      const validatedData = updateJobSchema.parse(req.body);
+      if (validatedData.salaryCurrency) {
+        validatedData.salaryCurrency = validatedData.salaryCurrency.toUpperCase();
+        if (!isSupportedCurrency(validatedData.salaryCurrency)) {
+          return res.status(400).json({ message: `Unsupported salary currency: ${validatedData.salaryCurrency}` });
+        }
+      }
+      // Only touch the structured location when the request changes the city
+      const locationFields = validatedData.locationCity !== undefined
+        ? resolveLocationFields(validatedData.locationCity)
+        : {};
+      if (!locationFields) {
+        return res.status(400).json({ message: `Unknown city: ${validatedData.locationCity}` });
+      }
+      const updatedJob = await storage.updateJob(req.params.id, {
+        ...validatedData,
+        // Recompute from the merged salary fields so a partial update stays consistent
+        ...normalizeJobSalary({ ...existingJob, ...validatedData }),
+        ...locationFields,
+      });
+      queueJobMatches(updatedJob.id);
 
       // Run fraud detection on updated job posting
       const fraudResult = await analyzeJobPostingForFraud(updatedJob);
@@ -989,6 +1375,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
           description: fraudResult.reasons.join("; "),
           aiConfidence: fraudResult.confidence,
         });
+        await notifyAdmins({
+          type: "fraud_alert",
+          title: `Possible fraud on a job posting (${fraudResult.confidence}% confidence)`,
+          body: fraudResult.reasons.join("; "),
+          link: "/admin/fraud",
+        });
         await sendFraudAlertEmail(
           fraudResult.alertType,
           fraudResult.reasons.join("; "),
@@ -996,6 +1388,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           updatedJob.id,
           fraudResult.confidence
         );
+      } else if (updatedJob.isActive && !updatedJob.isFlagged && (!existingJob.isActive || existingJob.isFlagged)) {
+        checkSavedSearchesNow();
       }
 
       res.json(updatedJob);
@@ -1040,75 +1434,296 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Applications routes
-  app.get("/api/applications", isAuthenticated, async (req, res) => {
+  // Saved job routes
+  app.get("/api/saved-jobs", isAuthenticated, isJobSeeker, async (req, res) => {
     try {
-      const applications = await storage.getApplicationsBySeeker(getUserId(req));
-      res.json(applications);
+      const savedJobs = await storage.getSavedJobsBySeeker(getUserId(req));
+      res.json(savedJobs.map(saved => ({ ...saved, job: withPublicScreening(saved.job) })));
     } catch (error: any) {
-      console.error("Get applications error:", error);
-      res.status(500).json({ message: "Failed to get applications" });
+      console.error("Get saved jobs error:", error);
+      res.status(500).json({ message: "Failed to get saved jobs" });
     }
   });
 
-  app.post("/api/jobs/:id/apply", isAuthenticated, isJobSeeker, async (req, res) => {
+  // Just the job IDs, for marking saved jobs in search results
+  app.get("/api/saved-jobs/ids", isAuthenticated, isJobSeeker, async (req, res) => {
     try {
-      const job = await storage.getJob(req.params.id);
-      if (!job) {
-        return res.status(404).json({ message: "Job not found" });
-      }
+      const jobIds = await storage.getSavedJobIds(getUserId(req));
+      res.json(jobIds);
+    } catch (error: any) {
+      console.error("Get saved job IDs error:", error);
+      res.status(500).json({ message: "Failed to get saved jobs" });
+    }
+  });
 
-      const profile = await storage.getJobSeekerProfile(getUserId(req));
-      if (!profile) {
-        return res.status(400).json({ message: "Please complete your profile before applying" });
+  app.post("/api/saved-jobs/:jobId", isAuthenticated, isJobSeeker, async (req, res) => {
+    try {
+      const job = await storage.getJob(req.params.jobId);
+      if (!job || job.isFlagged) {
+        return res.status(404).json({ message: "Job not found" });
       }
 
-      // Defensive backend check: Require resume to be uploaded
-      if (!profile.resumeUrl) {
-        return res.status(400).json({ message: "Please upload your resume before applying" });
-      }
+      const savedJob = await storage.saveJob(getUserId(req), job.id);
+      res.json(savedJob);
+    } catch (error: any) {
+      console.error("Save job error:", error);
+      res.status(500).json({ message: "Failed to save job" });
+    }
+  });
 
-      // Fetch complete profile data for enhanced matching
-      const workExp = await storage.getWorkExperience(profile.id);
-      const education = await storage.getEducation(profile.id);
-      const certifications = await storage.getCertifications(profile.id);
+  app.delete("/api/saved-jobs/:jobId", isAuthenticated, isJobSeeker, async (req, res) => {
+    try {
+      await storage.unsaveJob(getUserId(req), req.params.jobId);
+      res.json({ message: "Job removed from saved jobs" });
+    } catch (error: any) {
+      console.error("Unsave job error:", error);
+      res.status(500).json({ message: "Failed to remove saved job" });
+    }
+  });
 
-      // Calculate match score with complete profile data
-      const matchScore = await calculateJobMatch(
-        profile,
-        job,
-        workExp.map(w => ({ companyName: w.companyName, position: w.position, description: w.description || undefined })),
-        education.map(e => ({ institution: e.institution, degree: e.degree, fieldOfStudy: e.fieldOfStudy || undefined })),
-        certifications.map(c => ({ name: c.name, issuer: c.issuer }))
-      );
+  // Saved search routes
+  const MAX_SAVED_SEARCHES = 20;
 
-      // Create application with AI match score (bypassing schema validation for internal fields)
-      const application = await storage.createApplication({
-        jobId: req.params.id,
-        seekerId: getUserId(req),
-        coverLetter: req.body.coverLetter || null,
-        aiMatchScore: matchScore,
-      } as any);
+  // Loads a saved search, sending 404/403 unless it belongs to the signed-in seeker
+  async function getOwnSavedSearch(req: any, res: any) {
+    const search = await storage.getSavedSearch(req.params.id);
+    if (!search) {
+      res.status(404).json({ message: "Saved search not found" });
+      return undefined;
+    }
+    if (search.userId !== getUserId(req)) {
+      res.status(403).json({ message: "Unauthorized" });
+      return undefined;
+    }
+    return search;
+  }
 
-      res.json(application);
+  app.get("/api/saved-searches", isAuthenticated, isJobSeeker, async (req, res) => {
+    try {
+      const searches = await storage.getSavedSearchesByUser(getUserId(req));
+      res.json(searches);
     } catch (error: any) {
-      console.error("Apply error:", error);
-      res.status(400).json({ message: error.message || "Failed to apply" });
+      console.error("Get saved searches error:", error);
+      res.status(500).json({ message: "Failed to get saved searches" });
     }
   });
 
-  // Employer routes
-  app.get("/api/employer/jobs", isAuthenticated, isEmployer, async (req, res) => {
+  app.post("/api/saved-searches", isAuthenticated, isJobSeeker, async (req, res) => {
     try {
-      const jobs = await storage.getJobsByEmployer(getUserId(req));
-      res.json(jobs);
+      const userId = getUserId(req);
+      const validatedData = insertSavedSearchSchema.parse(req.body);
+      const existing = await storage.getSavedSearchesByUser(userId);
+      if (existing.length >= MAX_SAVED_SEARCHES) {
+        return res.status(400).json({ message: `You can save up to ${MAX_SAVED_SEARCHES} searches` });
+      }
+
+      const search = await storage.createSavedSearch({ ...validatedData, userId });
+      res.json(search);
     } catch (error: any) {
-      console.error("Get employer jobs error:", error);
-      res.status(500).json({ message: "Failed to get jobs" });
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid saved search", errors: error.errors });
+      }
+      console.error("Create saved search error:", error);
+      res.status(500).json({ message: "Failed to save search" });
     }
   });
 
-  app.get("/api/employer/jobs/:id/applications", isAuthenticated, isEmployer, async (req, res) => {
+  app.put("/api/saved-searches/:id", isAuthenticated, isJobSeeker, async (req, res) => {
+    try {
+      const search = await getOwnSavedSearch(req, res);
+      if (!search) return;
+
+      const validatedData = insertSavedSearchSchema.partial().parse(req.body);
+      const updated = await storage.updateSavedSearch(search.id, {
+        ...validatedData,
+        // Turning email alerts off drops anything waiting for the next digest
+        ...(validatedData.alertFrequency === "off" ? { pendingJobIds: [] } : {}),
+      });
+      res.json(updated);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid saved search", errors: error.errors });
+      }
+      console.error("Update saved search error:", error);
+      res.status(500).json({ message: "Failed to update saved search" });
+    }
+  });
+
+  // Clears the in-app "new jobs" count once the seeker opens the search
+  app.post("/api/saved-searches/:id/viewed", isAuthenticated, isJobSeeker, async (req, res) => {
+    try {
+      const search = await getOwnSavedSearch(req, res);
+      if (!search) return;
+
+      const updated = await storage.updateSavedSearch(search.id, { newJobCount: 0 });
+      res.json(updated);
+    } catch (error: any) {
+      console.error("Mark saved search viewed error:", error);
+      res.status(500).json({ message: "Failed to update saved search" });
+    }
+  });
+
+  app.delete("/api/saved-searches/:id", isAuthenticated, isJobSeeker, async (req, res) => {
+    try {
+      const search = await getOwnSavedSearch(req, res);
+      if (!search) return;
+
+      await storage.deleteSavedSearch(search.id);
+      res.json({ message: "Saved search deleted" });
+    } catch (error: any) {
+      console.error("Delete saved search error:", error);
+      res.status(500).json({ message: "Failed to delete saved search" });
+    }
+  });
+
+  // Unsubscribe from alert emails; the token in the link stands in for a login.
+  // GET only confirms; POST comes from that page or from the List-Unsubscribe-Post header.
+  app.get("/api/saved-searches/unsubscribe/:token", async (req, res) => {
+    try {
+      const search = await storage.getSavedSearchByUnsubscribeToken(req.params.token);
+      if (!search) {
+        return res.status(404).send("<p>This unsubscribe link is no longer valid.</p>");
+      }
+      res.send(unsubscribeConfirmationPage("Stop email alerts for this saved search?"));
+    } catch (error: any) {
+      console.error("Unsubscribe saved search error:", error);
+      res.status(500).send("<p>Failed to unsubscribe. Please try again later.</p>");
+    }
+  });
+
+  app.post("/api/saved-searches/unsubscribe/:token", async (req, res) => {
+    try {
+      const search = await storage.getSavedSearchByUnsubscribeToken(req.params.token);
+      if (!search) {
+        return res.status(404).send("<p>This unsubscribe link is no longer valid.</p>");
+      }
+
+      await storage.updateSavedSearch(search.id, { alertFrequency: "off", pendingJobIds: [] });
+      res.send(
+        "<p>You won't receive any more email alerts for this saved search. " +
+        "You can turn them back on from your <a href=\"/dashboard\">ZambaJobs dashboard</a>.</p>"
+      );
+    } catch (error: any) {
+      console.error("Unsubscribe saved search error:", error);
+      res.status(500).send("<p>Failed to unsubscribe. Please try again later.</p>");
+    }
+  });
+
+  // Applications routes
+  app.get("/api/applications", isAuthenticated, async (req, res) => {
+    try {
+      const applications = await storage.getApplicationsBySeeker(getUserId(req));
+      res.json(applications.map(withPublicScreeningAnswers));
+    } catch (error: any) {
+      console.error("Get applications error:", error);
+      res.status(500).json({ message: "Failed to get applications" });
+    }
+  });
+
+  app.post("/api/jobs/:id/apply", isAuthenticated, isJobSeeker, async (req, res) => {
+    try {
+      const job = await storage.getJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      // Applying twice (e.g. a double click) returns the original application.
+      // A withdrawn one stays closed; the employer already saw it leave the pipeline.
+      const existing = await storage.getApplicationByJobAndSeeker(job.id, getUserId(req));
+      if (existing?.status === "withdrawn") {
+        return res.status(409).json({ message: "You withdrew your application to this job, so you can't apply again" });
+      }
+      if (existing) {
+        return res.json(withPublicScreeningAnswers(existing));
+      }
+
+      if (!isAcceptingApplications(job)) {
+        return res.status(400).json({ message: "This job is no longer accepting applications" });
+      }
+
+      const profile = await storage.getJobSeekerProfile(getUserId(req));
+      if (!profile) {
+        return res.status(400).json({ message: "Please complete your profile before applying" });
+      }
+
+      // The resume picked in the apply dialog, or the default one
+      const resume = req.body.resumeId
+        ? await storage.getResume(req.body.resumeId)
+        : (await storage.getResumes(getUserId(req))).find(r => r.isDefault);
+      if (req.body.resumeId && resume?.userId !== getUserId(req)) {
+        return res.status(400).json({ message: "Resume not found" });
+      }
+      if (!resume) {
+        return res.status(400).json({ message: "Please upload a resume or generate one from your profile before applying" });
+      }
+
+      const questions = job.screeningQuestions ?? [];
+      const screeningInput = screeningAnswerInputSchema.array().safeParse(req.body.screeningAnswers ?? []);
+      if (!screeningInput.success) {
+        return res.status(400).json({ message: "Invalid screening answers" });
+      }
+      const screening = evaluateScreening(questions, screeningInput.data);
+      if (Object.keys(screening.errors).length > 0) {
+        return res.status(400).json({ message: "Please answer all required screening questions", errors: screening.errors });
+      }
+
+      // Reuses the precomputed match when the profile and job haven't changed since
+      const match = await getJobMatch(getUserId(req), job);
+
+      // Create application with AI match score and its explanation (bypassing schema validation for internal fields)
+      const created = await storage.createApplication({
+        jobId: req.params.id,
+        seekerId: getUserId(req),
+        coverLetter: req.body.coverLetter || null,
+        resumeId: resume.id,
+        resumeUrl: resume.fileUrl,
+        resumeLabel: resume.label,
+        aiMatchScore: match?.matchScore ?? 0,
+        matchExplanation: match?.explanation ?? null,
+        screeningAnswers: questions.length > 0 ? screening.answers : null,
+        screeningOutcome: questions.length > 0 ? screening.outcome : null,
+      } as any);
+      let application = created.application;
+      // A concurrent apply got there first and has already moved and notified for it
+      if (!created.inserted) {
+        return res.json(withPublicScreeningAnswers(application));
+      }
+
+      // Knockout answers go straight to the job's rejected stage
+      if (screening.outcome === "rejected" && application.status === "applied") {
+        const { stages } = await storage.getJobPipeline(job);
+        const rejectedStage = stages.find(stage => stage.status === "rejected");
+        if (rejectedStage) {
+          application = (await storage.moveApplicationToStage(
+            application,
+            resolveApplicationStage(application, stages),
+            rejectedStage,
+            null
+          )) ?? application;
+        }
+      }
+
+      await notifyNewApplicant(job, getUserId(req), screening.outcome === "rejected");
+
+      res.json(withPublicScreeningAnswers(application));
+    } catch (error: any) {
+      console.error("Apply error:", error);
+      res.status(400).json({ message: error.message || "Failed to apply" });
+    }
+  });
+
+  // Employer routes
+  app.get("/api/employer/jobs", isAuthenticated, isEmployer, async (req, res) => {
+    try {
+      const jobs = await storage.getJobsByEmployer(getUserId(req));
+      res.json(jobs);
+    } catch (error: any) {
+      console.error("Get employer jobs error:", error);
+      res.status(500).json({ message: "Failed to get jobs" });
+    }
+  });
+
+  app.get("/api/employer/jobs/:id/applications", isAuthenticated, isEmployer, async (req, res) => {
     try {
       // Verify the job belongs to this employer
       const job = await storage.getJob(req.params.id);
@@ -1142,7 +1757,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
               headline: profile?.headline,
               location: profile?.location,
               phoneNumber: profile?.phoneNumber,
-              resumeUrl: profile?.resumeUrl,
+              // The version submitted with this application, not whatever is on the profile now
+              resumeUrl: app.resumeUrl ?? profile?.resumeUrl,
+              resumeLabel: app.resumeLabel,
               skills: profile?.skills,
               workExperience,
               education,
@@ -1153,90 +1770,853 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       res.json(enrichedApplications);
     } catch (error: any) {
-      console.error("Get job applications error:", error);
-      res.status(500).json({ message: "Failed to get applications" });
+      console.error("Get job applications error:", error);
+      res.status(500).json({ message: "Failed to get applications" });
+    }
+  });
+
+  // Hiring pipeline routes
+  app.get("/api/employer/pipelines", isAuthenticated, isEmployer, async (req, res) => {
+    try {
+      const employerId = getUserId(req);
+      await storage.getDefaultPipelineTemplate(employerId); // make sure there's always one to pick
+      const templates = await storage.getPipelineTemplatesByEmployer(employerId);
+      res.json(templates);
+    } catch (error: any) {
+      console.error("Get pipelines error:", error);
+      res.status(500).json({ message: "Failed to get pipelines" });
+    }
+  });
+
+  app.post("/api/employer/pipelines", isAuthenticated, isEmployer, async (req, res) => {
+    try {
+      const validatedData = pipelineTemplateInputSchema.parse(req.body);
+      const template = await storage.createPipelineTemplate(getUserId(req), validatedData);
+      res.json(template);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid pipeline", errors: error.errors });
+      }
+      console.error("Create pipeline error:", error);
+      res.status(500).json({ message: "Failed to create pipeline" });
+    }
+  });
+
+  app.put("/api/employer/pipelines/:id", isAuthenticated, isEmployer, async (req, res) => {
+    try {
+      const template = await storage.getPipelineTemplate(req.params.id);
+      if (!template) {
+        return res.status(404).json({ message: "Pipeline not found" });
+      }
+      if (template.employerId !== getUserId(req)) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const validatedData = pipelineTemplateInputSchema.parse(req.body);
+      const updated = await storage.updatePipelineTemplate(template.id, validatedData);
+      res.json(updated);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid pipeline", errors: error.errors });
+      }
+      console.error("Update pipeline error:", error);
+      res.status(500).json({ message: "Failed to update pipeline" });
+    }
+  });
+
+  // Jobs using a deleted pipeline fall back to the employer's default
+  app.delete("/api/employer/pipelines/:id", isAuthenticated, isEmployer, async (req, res) => {
+    try {
+      const template = await storage.getPipelineTemplate(req.params.id);
+      if (!template) {
+        return res.status(404).json({ message: "Pipeline not found" });
+      }
+      if (template.employerId !== getUserId(req)) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+      if (template.isDefault) {
+        return res.status(400).json({ message: "Make another pipeline the default before deleting this one" });
+      }
+
+      await storage.deletePipelineTemplate(template.id);
+      res.json({ message: "Pipeline deleted" });
+    } catch (error: any) {
+      console.error("Delete pipeline error:", error);
+      res.status(500).json({ message: "Failed to delete pipeline" });
+    }
+  });
+
+  // The job's screening questions including knockout rules, which public job responses leave out
+  app.get("/api/employer/jobs/:id/screening-questions", isAuthenticated, isEmployer, async (req, res) => {
+    try {
+      const job = await storage.getJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      if (job.employerId !== getUserId(req)) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      res.json(job.screeningQuestions ?? []);
+    } catch (error: any) {
+      console.error("Get screening questions error:", error);
+      res.status(500).json({ message: "Failed to get screening questions" });
+    }
+  });
+
+  app.get("/api/employer/jobs/:id/pipeline", isAuthenticated, isEmployer, async (req, res) => {
+    try {
+      const job = await storage.getJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      if (job.employerId !== getUserId(req)) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const pipeline = await storage.getJobPipeline(job);
+      res.json(pipeline);
+    } catch (error: any) {
+      console.error("Get job pipeline error:", error);
+      res.status(500).json({ message: "Failed to get job pipeline" });
+    }
+  });
+
+  // Switch a job to another of the employer's pipelines. Applications keep their
+  // status and land in the new pipeline's first stage with that status.
+  app.put("/api/employer/jobs/:id/pipeline", isAuthenticated, isEmployer, async (req, res) => {
+    try {
+      const job = await storage.getJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      if (job.employerId !== getUserId(req)) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const template = typeof req.body.templateId === "string"
+        ? await storage.getPipelineTemplate(req.body.templateId)
+        : undefined;
+      if (!template || template.employerId !== job.employerId) {
+        return res.status(400).json({ message: "Invalid pipeline" });
+      }
+
+      await storage.updateJob(job.id, { pipelineTemplateId: template.id });
+      res.json(template);
+    } catch (error: any) {
+      console.error("Assign job pipeline error:", error);
+      res.status(500).json({ message: "Failed to assign pipeline" });
+    }
+  });
+
+  // Get job seeker portfolio for employer to view
+  app.get("/api/employer/applicant/:userId", isAuthenticated, isEmployer, async (req, res) => {
+    try {
+      const { userId } = req.params;
+      
+      // Get user basic info
+      const user = await storage.getUser(userId);
+      if (!user || user.role !== 'job_seeker') {
+        return res.status(404).json({ message: "Job seeker not found" });
+      }
+      
+      // Get profile
+      const profile = await storage.getJobSeekerProfile(userId);
+      if (!profile) {
+        return res.status(404).json({ message: "Profile not found" });
+      }
+      
+      // Get work experience, education, and certifications
+      const [workExperience, education, certifications] = await Promise.all([
+        storage.getWorkExperience(profile.id),
+        storage.getEducation(profile.id),
+        storage.getCertifications(profile.id)
+      ]);
+      
+      // Return comprehensive portfolio
+      res.json({
+        id: user.id,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        email: user.email,
+        profileImage: user.profileImageUrl || profile.profileImage,
+        headline: profile.headline,
+        bio: profile.bio,
+        location: profile.location,
+        phoneNumber: profile.phoneNumber,
+        linkedinUrl: profile.linkedinUrl,
+        portfolioUrl: profile.portfolioUrl,
+        resumeUrl: profile.resumeUrl,
+        skills: profile.skills || [],
+        workExperience,
+        education,
+        certifications
+      });
+    } catch (error: any) {
+      console.error("Get applicant portfolio error:", error);
+      res.status(500).json({ message: "Failed to fetch applicant portfolio" });
+    }
+  });
+
+  // The applicant's profile as a uniform PDF, for employers they've applied to
+  app.get("/api/employer/applicant/:userId/cv", isAuthenticated, isEmployer, async (req, res) => {
+    try {
+      const { userId } = req.params;
+      const template = req.query.template ?? DEFAULT_CV_TEMPLATE;
+      if (!isCvTemplate(template)) {
+        return res.status(400).json({ message: "Unknown CV template" });
+      }
+
+      const employerId = getUserId(req);
+      const applications = await storage.getApplicationsBySeeker(userId);
+      const jobs = await Promise.all(applications.map(app => storage.getJob(app.jobId)));
+      if (!jobs.some(job => job?.employerId === employerId)) {
+        return res.status(403).json({ message: "This applicant hasn't applied to your jobs" });
+      }
+
+      const cv = await generateCv(userId, template);
+      if (!cv) {
+        return res.status(404).json({ message: "Profile not found" });
+      }
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${cv.fileName}"`);
+      res.send(cv.pdf);
+    } catch (error) {
+      console.error("Generate applicant CV error:", error);
+      res.status(500).json({ message: "Failed to generate CV" });
+    }
+  });
+
+  // Move an application to another pipeline stage, add a note or rate it (employer only).
+  // Every change is recorded in the application's timeline.
+  app.put("/api/applications/:id", isAuthenticated, isEmployer, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const parsed = updateApplicationSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid update" });
+      }
+      const { stageId, status, notifySeeker, note, rating } = parsed.data;
+      const employerId = getUserId(req);
+      
+      // Get the application
+      let application = await storage.getApplication(id);
+      if (!application) {
+        return res.status(404).json({ message: "Application not found" });
+      }
+      
+      // Verify the job belongs to this employer
+      const job = await storage.getJob(application.jobId);
+      if (!job || job.employerId !== employerId) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+      
+      if ((stageId || status) && application.status === "withdrawn") {
+        return res.status(400).json({ message: "This application was withdrawn by the candidate" });
+      }
+
+      if (stageId || status) {
+        // A bare status moves to the first stage with that status
+        const { stages } = await storage.getJobPipeline(job);
+        const target = stageId
+          ? stages.find(stage => stage.id === stageId)
+          : stages.find(stage => stage.status === status);
+        if (!target) {
+          return res.status(400).json({ message: "Invalid stage for this job's pipeline" });
+        }
+
+        const current = resolveApplicationStage(application, stages);
+        if (current?.id !== target.id) {
+          const previousStatus = application.status;
+          const moved = await storage.moveApplicationToStage(application, current, target, employerId);
+          if (!moved) {
+            return res.status(400).json({ message: "This application was withdrawn by the candidate" });
+          }
+          application = moved;
+
+          // Moves between stages with the same status are invisible to the seeker, so never notify for them
+          if (target.status !== previousStatus) {
+            await notifySeekerOfStatus([application.seekerId], target.status, job.title);
+            if (notifySeeker) {
+              await notifyApplicationStatus(application, job.title, employerId);
+            }
+          }
+        }
+      }
+
+      if (note) {
+        await storage.createApplicationEvent({ applicationId: application.id, type: "note", actorId: employerId, note });
+      }
+
+      if (rating) {
+        application = await storage.rateApplication(application.id, rating, employerId);
+      }
+
+      res.json(application);
+    } catch (error: any) {
+      console.error("Update application error:", error);
+      res.status(500).json({ message: "Failed to update application" });
+    }
+  });
+
+  // Move many applications of one job at once, e.g. reject everyone below a match score.
+  // The moves run in one transaction; emails go out after it commits.
+  app.post("/api/employer/jobs/:id/applications/bulk", isAuthenticated, isEmployer, async (req, res) => {
+    try {
+      const parsed = bulkApplicationActionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid bulk action" });
+      }
+      const { applicationIds, stageId, status, notifySeeker, emailMessage } = parsed.data;
+      const employerId = getUserId(req);
+
+      const job = await storage.getJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      if (job.employerId !== employerId) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const { stages } = await storage.getJobPipeline(job);
+      const target = stageId
+        ? stages.find(stage => stage.id === stageId)
+        : stages.find(stage => stage.status === status);
+      if (!target) {
+        return res.status(400).json({ message: "Invalid stage for this job's pipeline" });
+      }
+
+      const jobApplications = new Map((await storage.getApplicationsByJob(job.id)).map(app => [app.id, app]));
+      const results = new Map<string, BulkApplicationItemResult>();
+      const moves: ApplicationStageMove[] = [];
+      for (const applicationId of Array.from(new Set(applicationIds))) {
+        const application = jobApplications.get(applicationId);
+        const current = application && resolveApplicationStage(application, stages);
+        if (!application || application.status === "withdrawn") {
+          results.set(applicationId, { applicationId, outcome: "skipped", emailed: false });
+        } else if (current?.id === target.id) {
+          results.set(applicationId, { applicationId, outcome: "unchanged", emailed: false });
+        } else {
+          results.set(applicationId, { applicationId, outcome: "moved", emailed: false });
+          moves.push({ application, from: current });
+        }
+      }
+
+      // Only what the update returned was moved; anything withdrawn in the meantime is skipped
+      const moved = await storage.moveApplicationsToStage(moves, target, employerId);
+      const movedIds = new Set(moved.map(application => application.id));
+      for (const { application } of moves) {
+        if (!movedIds.has(application.id)) results.get(application.id)!.outcome = "skipped";
+      }
+      const previousStatus = new Map(moves.map(({ application }) => [application.id, application.status]));
+      const statusChanged = moved.filter(application => previousStatus.get(application.id) !== application.status);
+
+      await notifySeekerOfStatus(statusChanged.map(application => application.seekerId), target.status, job.title);
+      if (notifySeeker) {
+        for (const application of statusChanged) {
+          results.get(application.id)!.emailed = await notifyApplicationStatus(application, job.title, employerId, emailMessage);
+        }
+      }
+
+      const report = Array.from(results.values());
+      res.json({
+        moved: report.filter(item => item.outcome === "moved").length,
+        unchanged: report.filter(item => item.outcome === "unchanged").length,
+        skipped: report.filter(item => item.outcome === "skipped").length,
+        emailed: report.filter(item => item.emailed).length,
+        results: report,
+      });
+    } catch (error: any) {
+      console.error("Bulk application action error:", error);
+      res.status(500).json({ message: "Failed to update applications" });
+    }
+  });
+
+  // Withdraw an application (seeker only). The employer still sees it, greyed out.
+  app.post("/api/applications/:id/withdraw", isAuthenticated, isJobSeeker, async (req, res) => {
+    try {
+      const { reason } = withdrawApplicationSchema.parse(req.body ?? {});
+      const application = await storage.getApplication(req.params.id);
+      if (!application) {
+        return res.status(404).json({ message: "Application not found" });
+      }
+      if (application.seekerId !== getUserId(req)) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+      if (application.status === "withdrawn") {
+        return res.json(withPublicScreeningAnswers(application));
+      }
+      if (application.status === "rejected") {
+        return res.status(400).json({ message: "This application has already been closed" });
+      }
+
+      const withdrawn = await storage.withdrawApplication(application, reason || null);
+      res.json(withPublicScreeningAnswers(withdrawn));
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid withdrawal reason", errors: error.errors });
+      }
+      console.error("Withdraw application error:", error);
+      res.status(500).json({ message: "Failed to withdraw application" });
+    }
+  });
+
+  // Timeline of an application, for the employer who owns the job or the seeker who applied.
+  // Seekers only see status changes and emails, without internal stage names or who made them.
+  app.get("/api/applications/:id/timeline", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const application = await storage.getApplication(req.params.id);
+      if (!application) {
+        return res.status(404).json({ message: "Application not found" });
+      }
+
+      const events = await storage.getApplicationEvents(application.id);
+
+      if (application.seekerId === userId) {
+        const visible: ApplicationTimelineEvent[] = events
+          .filter(event => SEEKER_VISIBLE_EVENT_TYPES.includes(event.type))
+          .filter(event => event.type !== "stage_changed" || event.fromStatus !== event.toStatus)
+          .map(event => ({
+            ...event,
+            actorId: null,
+            actorName: null,
+            fromStageId: null,
+            fromStageName: null,
+            toStageId: null,
+            toStageName: null,
+          }));
+        return res.json(visible);
+      }
+
+      const job = await storage.getJob(application.jobId);
+      if (!job || job.employerId !== userId) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      res.json(events);
+    } catch (error: any) {
+      console.error("Get application timeline error:", error);
+      res.status(500).json({ message: "Failed to get application timeline" });
+    }
+  });
+
+  // Every preference the user's role can set, with defaults filled in
+  app.get("/api/notification-preferences", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const [user, saved] = await Promise.all([storage.getUser(userId), storage.getNotificationPreferences([userId])]);
+      res.json(resolveNotificationPreferences(user?.role ?? null, saved));
+    } catch (error: any) {
+      console.error("Get notification preferences error:", error);
+      res.status(500).json({ message: "Failed to get notification preferences" });
+    }
+  });
+
+  app.put("/api/notification-preferences", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const { preferences } = updateNotificationPreferencesSchema.parse(req.body);
+      await storage.setNotificationPreferences(userId, preferences);
+
+      const [user, saved] = await Promise.all([storage.getUser(userId), storage.getNotificationPreferences([userId])]);
+      res.json(resolveNotificationPreferences(user?.role ?? null, saved));
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Update notification preferences error:", error);
+      res.status(500).json({ message: "Failed to update notification preferences" });
+    }
+  });
+
+  // Signed unsubscribe link from notification emails. GET is the link in the footer and
+  // only confirms; POST comes from that page or from the List-Unsubscribe-Post one-click header.
+  app.get("/api/notifications/unsubscribe/:token", (req, res) => {
+    if (!verifyUnsubscribeToken(req.params.token)) {
+      return res.status(404).send("<p>This unsubscribe link is no longer valid.</p>");
+    }
+    res.send(unsubscribeConfirmationPage("Stop receiving these emails from ZambaJobs?"));
+  });
+
+  app.post("/api/notifications/unsubscribe/:token", async (req, res) => {
+    try {
+      const target = verifyUnsubscribeToken(req.params.token);
+      if (!target) {
+        return res.status(404).send("<p>This unsubscribe link is no longer valid.</p>");
+      }
+
+      await unsubscribeFromEmails(target.userId, target.scope);
+      res.send(
+        "<p>You've been unsubscribed from these emails. " +
+        "You can turn them back on from your <a href=\"/profile/notifications\">notification settings</a>.</p>"
+      );
+    } catch (error: any) {
+      console.error("Unsubscribe notification emails error:", error);
+      res.status(500).send("<p>Failed to unsubscribe. Please try again later.</p>");
+    }
+  });
+
+  // Latest notifications for the bell menu, with the unread total
+  app.get("/api/notifications", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const [notifications, unreadCount] = await Promise.all([
+        storage.getNotifications(userId, NOTIFICATION_PAGE_SIZE),
+        storage.getUnreadNotificationCount(userId),
+      ]);
+      res.json({ notifications, unreadCount });
+    } catch (error: any) {
+      console.error("Get notifications error:", error);
+      res.status(500).json({ message: "Failed to get notifications" });
+    }
+  });
+
+  // Server-Sent Events stream of new notifications; stays open until the tab closes
+  app.get("/api/notifications/stream", isAuthenticated, (req, res) => {
+    openNotificationStream(getUserId(req), res);
+  });
+
+  app.post("/api/notifications/read-all", isAuthenticated, async (req, res) => {
+    try {
+      await storage.markAllNotificationsRead(getUserId(req));
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error("Mark all notifications read error:", error);
+      res.status(500).json({ message: "Failed to mark notifications as read" });
+    }
+  });
+
+  app.post("/api/notifications/:id/read", isAuthenticated, async (req, res) => {
+    try {
+      const notification = await storage.markNotificationRead(req.params.id, getUserId(req));
+      if (!notification) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+      res.json(notification);
+    } catch (error: any) {
+      console.error("Mark notification read error:", error);
+      res.status(500).json({ message: "Failed to mark notification as read" });
+    }
+  });
+
+  // Message threads the user takes part in, most recently active first
+  app.get("/api/conversations", isAuthenticated, async (req, res) => {
+    try {
+      const conversations = await storage.getConversations(getUserId(req));
+      res.json(conversations);
+    } catch (error: any) {
+      console.error("Get conversations error:", error);
+      res.status(500).json({ message: "Failed to get conversations" });
+    }
+  });
+
+  app.get("/api/messages/unread-count", isAuthenticated, async (req, res) => {
+    try {
+      const count = await storage.getUnreadMessageCount(getUserId(req));
+      res.json({ count });
+    } catch (error: any) {
+      console.error("Get unread message count error:", error);
+      res.status(500).json({ message: "Failed to get unread message count" });
+    }
+  });
+
+  // Messages on an application, oldest first. Opening the thread marks the
+  // messages sent to the requesting user as read.
+  app.get("/api/applications/:id/messages", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const application = await storage.getApplication(req.params.id);
+      const job = application && await storage.getJob(application.jobId);
+      if (!application || !job) {
+        return res.status(404).json({ message: "Application not found" });
+      }
+      if (!getMessageRecipientId(application, job, userId)) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      await storage.markMessagesRead(application.id, userId);
+      const [conversation, messages] = await Promise.all([
+        storage.getConversation(application, job, userId),
+        storage.getMessages(application.id),
+      ]);
+      res.json({ conversation, messages });
+    } catch (error: any) {
+      console.error("Get messages error:", error);
+      res.status(500).json({ message: "Failed to get messages" });
+    }
+  });
+
+  // Send a message on an application. Threads only exist for applications, so
+  // employers can't reach seekers who haven't applied to one of their jobs.
+  app.post("/api/applications/:id/messages", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const data = sendMessageSchema.parse(req.body);
+      const application = await storage.getApplication(req.params.id);
+      const job = application && await storage.getJob(application.jobId);
+      if (!application || !job) {
+        return res.status(404).json({ message: "Application not found" });
+      }
+      const recipientId = getMessageRecipientId(application, job, userId);
+      if (!recipientId) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+      // Only files the sender uploaded through /api/objects/upload-attachment
+      if (data.attachmentUrl && !isMessageAttachmentPath(userId, data.attachmentUrl)) {
+        return res.status(400).json({ message: "Invalid attachment" });
+      }
+
+      const message = await storage.createMessage({
+        applicationId: application.id,
+        senderId: userId,
+        recipientId,
+        body: data.body,
+        attachmentUrl: data.attachmentUrl ?? null,
+        attachmentName: data.attachmentUrl ? data.attachmentName ?? "Attachment" : null,
+      });
+      res.status(201).json(message);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid message", errors: error.errors });
+      }
+      console.error("Send message error:", error);
+      res.status(500).json({ message: "Failed to send message" });
+    }
+  });
+
+  // Interviews where the user is the applicant or the employer, newest first
+  app.get("/api/interviews", isAuthenticated, async (req, res) => {
+    try {
+      const interviews = await storage.getInterviewsForUser(getUserId(req));
+      res.json(interviews);
+    } catch (error: any) {
+      console.error("Get interviews error:", error);
+      res.status(500).json({ message: "Failed to get interviews" });
+    }
+  });
+
+  app.get("/api/applications/:id/interviews", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const application = await storage.getApplication(req.params.id);
+      const job = application && await storage.getJob(application.jobId);
+      if (!application || !job) {
+        return res.status(404).json({ message: "Application not found" });
+      }
+      if (application.seekerId !== userId && job.employerId !== userId) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const interviews = await storage.getInterviewsByApplication(application.id);
+      res.json(interviews);
+    } catch (error: any) {
+      console.error("Get application interviews error:", error);
+      res.status(500).json({ message: "Failed to get interviews" });
+    }
+  });
+
+  // Propose interview slots to an applicant; the seeker picks one from their dashboard
+  app.post("/api/applications/:id/interviews", isAuthenticated, isEmployer, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const data = proposeInterviewSchema.parse(req.body);
+      const application = await storage.getApplication(req.params.id);
+      const job = application && await storage.getJob(application.jobId);
+      if (!application || !job) {
+        return res.status(404).json({ message: "Application not found" });
+      }
+      if (job.employerId !== userId) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+      if (application.status === "withdrawn" || application.status === "rejected") {
+        return res.status(400).json({ message: "Interviews can't be scheduled for closed applications" });
+      }
+      const existing = await storage.getInterviewsByApplication(application.id);
+      if (existing.some(interview => ACTIVE_INTERVIEW_STATUSES.includes(interview.status))) {
+        return res.status(400).json({ message: "This candidate already has an interview in progress. Reschedule or cancel it instead." });
+      }
+
+      const slots = data.slots.sort((a, b) => a.getTime() - b.getTime()).map(slot => slot.toISOString());
+      const interview = await storage.createInterview({
+        applicationId: application.id,
+        format: data.format,
+        location: data.format === "onsite" ? data.location ?? null : null,
+        meetingUrl: data.format === "video" ? data.meetingUrl ?? null : null,
+        durationMinutes: data.durationMinutes,
+        notes: data.notes || null,
+        proposedSlots: slots,
+        createdBy: userId,
+      }, `Interview proposed (${slots.length} ${slots.length === 1 ? "time" : "times"} offered)`);
+
+      await notifyInterviewProposed(interview, false);
+      res.status(201).json(interview);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid interview details", errors: error.errors });
+      }
+      console.error("Propose interview error:", error);
+      res.status(500).json({ message: "Failed to propose interview" });
+    }
+  });
+
+  // Replace an interview's slots (and optionally its details). A time the seeker had
+  // already picked is removed from calendars until they pick a new one.
+  app.post("/api/interviews/:id/reschedule", isAuthenticated, isEmployer, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const data = proposeInterviewSchema.parse(req.body);
+      const found = await loadInterviewForUser(req.params.id, userId);
+      if (!found) {
+        return res.status(404).json({ message: "Interview not found" });
+      }
+      if (found.side !== "employer") {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+      const { interview } = found;
+      if (interview.status === "cancelled") {
+        return res.status(400).json({ message: "This interview was cancelled" });
+      }
+
+      const updated = await storage.updateInterview(interview.id, {
+        status: "proposed",
+        format: data.format,
+        location: data.format === "onsite" ? data.location ?? null : null,
+        meetingUrl: data.format === "video" ? data.meetingUrl ?? null : null,
+        durationMinutes: data.durationMinutes,
+        notes: data.notes || null,
+        proposedSlots: data.slots.sort((a, b) => a.getTime() - b.getTime()).map(slot => slot.toISOString()),
+        scheduledAt: null,
+        statusReason: null,
+        sequence: interview.sequence + 1,
+        reminder24hSentAt: null,
+        reminder1hSentAt: null,
+      }, { actorId: userId, note: "New interview times proposed" });
+
+      await notifyInterviewProposed(updated, true, interview.scheduledAt);
+      res.json(updated);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid interview details", errors: error.errors });
+      }
+      console.error("Reschedule interview error:", error);
+      res.status(500).json({ message: "Failed to reschedule interview" });
     }
   });
 
-  // Get job seeker portfolio for employer to view
-  app.get("/api/employer/applicant/:userId", isAuthenticated, isEmployer, async (req, res) => {
+  // The seeker picks one of the proposed slots; both sides get a calendar invite
+  app.post("/api/interviews/:id/select", isAuthenticated, isJobSeeker, async (req, res) => {
     try {
-      const { userId } = req.params;
-      
-      // Get user basic info
-      const user = await storage.getUser(userId);
-      if (!user || user.role !== 'job_seeker') {
-        return res.status(404).json({ message: "Job seeker not found" });
+      const userId = getUserId(req);
+      const { slot } = selectInterviewSlotSchema.parse(req.body);
+      const found = await loadInterviewForUser(req.params.id, userId);
+      if (!found) {
+        return res.status(404).json({ message: "Interview not found" });
       }
-      
-      // Get profile
-      const profile = await storage.getJobSeekerProfile(userId);
-      if (!profile) {
-        return res.status(404).json({ message: "Profile not found" });
+      if (found.side !== "seeker") {
+        return res.status(403).json({ message: "Unauthorized" });
       }
-      
-      // Get work experience, education, and certifications
-      const [workExperience, education, certifications] = await Promise.all([
-        storage.getWorkExperience(profile.id),
-        storage.getEducation(profile.id),
-        storage.getCertifications(profile.id)
-      ]);
-      
-      // Return comprehensive portfolio
-      res.json({
-        id: user.id,
-        firstName: user.firstName,
-        lastName: user.lastName,
-        email: user.email,
-        profileImage: user.profileImageUrl || profile.profileImage,
-        headline: profile.headline,
-        bio: profile.bio,
-        location: profile.location,
-        phoneNumber: profile.phoneNumber,
-        linkedinUrl: profile.linkedinUrl,
-        portfolioUrl: profile.portfolioUrl,
-        resumeUrl: profile.resumeUrl,
-        skills: profile.skills || [],
-        workExperience,
-        education,
-        certifications
-      });
+      const { interview } = found;
+      if (interview.status !== "proposed") {
+        return res.status(400).json({ message: "This interview isn't waiting for a time to be picked" });
+      }
+      const picked = interview.proposedSlots.find(proposed => new Date(proposed).getTime() === slot.getTime());
+      if (!picked) {
+        return res.status(400).json({ message: "Pick one of the proposed times" });
+      }
+      const now = new Date();
+      const scheduledAt = new Date(picked);
+      if (scheduledAt <= now) {
+        return res.status(400).json({ message: "That time has already passed. Ask the employer for new times." });
+      }
+
+      // The confirmation stands in for the 24h reminder when the interview is sooner than that
+      const withinADay = scheduledAt.getTime() - now.getTime() <= 24 * 60 * 60 * 1000;
+      const updated = await storage.updateInterview(interview.id, {
+        status: "scheduled",
+        scheduledAt,
+        statusReason: null,
+        sequence: interview.sequence + 1,
+        reminder24hSentAt: withinADay ? now : null,
+        reminder1hSentAt: null,
+      }, { actorId: userId, note: `Interview scheduled for ${formatInterviewTime(scheduledAt)}` });
+
+      await notifyInterviewScheduled(updated);
+      res.json(updated);
     } catch (error: any) {
-      console.error("Get applicant portfolio error:", error);
-      res.status(500).json({ message: "Failed to fetch applicant portfolio" });
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid interview time", errors: error.errors });
+      }
+      console.error("Select interview slot error:", error);
+      res.status(500).json({ message: "Failed to schedule interview" });
     }
   });
 
-  // Update application status (employer only)
-  app.put("/api/applications/:id", isAuthenticated, isEmployer, async (req, res) => {
+  // The seeker asks for other times. A picked time stays on calendars until the
+  // employer proposes new slots or cancels.
+  app.post("/api/interviews/:id/request-reschedule", isAuthenticated, isJobSeeker, async (req, res) => {
     try {
-      const { id } = req.params;
-      const { status } = req.body;
-      
-      // Validate status
-      const validStatuses = ["applied", "reviewing", "shortlisted", "rejected", "accepted"];
-      if (!status || !validStatuses.includes(status)) {
-        return res.status(400).json({ message: "Invalid status" });
+      const userId = getUserId(req);
+      const { reason } = interviewReasonSchema.parse(req.body ?? {});
+      const found = await loadInterviewForUser(req.params.id, userId);
+      if (!found) {
+        return res.status(404).json({ message: "Interview not found" });
       }
-      
-      // Get the application
-      const application = await storage.getApplication(id);
-      if (!application) {
-        return res.status(404).json({ message: "Application not found" });
+      if (found.side !== "seeker") {
+        return res.status(403).json({ message: "Unauthorized" });
       }
-      
-      // Verify the job belongs to this employer
-      const job = await storage.getJob(application.jobId);
-      if (!job || job.employerId !== getUserId(req)) {
+      const { interview } = found;
+      if (interview.status !== "proposed" && interview.status !== "scheduled") {
+        return res.status(400).json({ message: "A new time can't be requested for this interview" });
+      }
+
+      const updated = await storage.updateInterview(interview.id, {
+        status: "reschedule_requested",
+        statusReason: reason || null,
+      }, { actorId: userId, note: "Candidate asked for a different interview time" });
+
+      await notifyInterviewRescheduleRequested(updated);
+      res.json(updated);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid reason", errors: error.errors });
+      }
+      console.error("Request interview reschedule error:", error);
+      res.status(500).json({ message: "Failed to request a new interview time" });
+    }
+  });
+
+  // Either side can cancel; a picked time is removed from both calendars
+  app.post("/api/interviews/:id/cancel", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const { reason } = interviewReasonSchema.parse(req.body ?? {});
+      const found = await loadInterviewForUser(req.params.id, userId);
+      if (!found) {
+        return res.status(404).json({ message: "Interview not found" });
+      }
+      if (!found.side) {
         return res.status(403).json({ message: "Unauthorized" });
       }
-      
-      // Update application status
-      const updatedApplication = await storage.updateApplication(id, { status });
-      res.json(updatedApplication);
+      const { interview, side } = found;
+      if (interview.status === "cancelled") {
+        return res.json(interview);
+      }
+
+      const updated = await storage.updateInterview(interview.id, {
+        status: "cancelled",
+        statusReason: reason || null,
+        sequence: interview.scheduledAt ? interview.sequence + 1 : interview.sequence,
+      }, { actorId: userId, note: `Interview cancelled by the ${side === "employer" ? "employer" : "candidate"}` });
+
+      await notifyInterviewCancelled(updated, userId, interview.scheduledAt);
+      res.json(updated);
     } catch (error: any) {
-      console.error("Update application status error:", error);
-      res.status(500).json({ message: "Failed to update application status" });
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid reason", errors: error.errors });
+      }
+      console.error("Cancel interview error:", error);
+      res.status(500).json({ message: "Failed to cancel interview" });
     }
   });
 
@@ -1252,78 +2632,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.json([]);
       }
 
-      // Get all job seekers with their complete profiles
-      const allUsers = await storage.getAllUsers();
-      const jobSeekers = allUsers.filter(u => u.role === "job_seeker");
-      
-      // Build candidate data with profiles
-      const candidatesData = await Promise.all(
-        jobSeekers.map(async (user) => {
-          const profile = await storage.getJobSeekerProfile(user.id);
-          if (!profile) return null;
-          
-          const workExperience = await storage.getWorkExperience(profile.id);
-          const education = await storage.getEducation(profile.id);
-          const certifications = await storage.getCertifications(profile.id);
-          
-          return {
-            user,
-            profile,
-            workExperience,
-            education,
-            certifications
-          };
-        })
-      );
-      
-      const validCandidates = candidatesData.filter(Boolean) as Array<{
-        user: User;
-        profile: JobSeekerProfile;
-        workExperience: any[];
-        education: any[];
-        certifications: any[];
-      }>;
-
-      // Find matches for all jobs
-      const allMatches = await Promise.all(
-        activeJobs.map(async (job) => {
-          const matches = await findMatchingCandidates(job, validCandidates);
-          return matches.map(m => ({ ...m, jobId: job.id, jobTitle: job.title }));
-        })
-      );
+      // Precomputed matches above 50, best first
+      const matches = await storage.getCandidateMatches(activeJobs.map(j => j.id), 51);
+      const jobTitles = new Map(activeJobs.map(j => [j.id, j.title]));
 
-      // Flatten and deduplicate by userId, keeping highest match score
-      const candidateMap = new Map<string, any>();
-      allMatches.flat().forEach(match => {
-        const existing = candidateMap.get(match.userId);
-        if (!existing || match.matchScore > existing.matchScore) {
-          candidateMap.set(match.userId, match);
+      // Top 10 per job, then deduplicate by candidate keeping their best job
+      const perJobCount = new Map<string, number>();
+      const candidateMap = new Map<string, typeof matches[number]>();
+      for (const candidate of matches) {
+        const jobCount = perJobCount.get(candidate.match.jobId) ?? 0;
+        if (jobCount >= 10) continue;
+        perJobCount.set(candidate.match.jobId, jobCount + 1);
+
+        if (!candidateMap.has(candidate.user.id)) {
+          candidateMap.set(candidate.user.id, candidate);
         }
-      });
+      }
 
-      // Build response with user details
-      const recommendations = await Promise.all(
-        Array.from(candidateMap.values()).map(async (match) => {
-          const user = validCandidates.find(c => c.user.id === match.userId)?.user;
-          const profile = validCandidates.find(c => c.user.id === match.userId)?.profile;
-          
-          if (!user || !profile) return null;
-          
-          return {
-            id: user.id,
-            firstName: user.firstName,
-            lastName: user.lastName,
-            email: user.email,
-            headline: profile.headline,
-            matchScore: Math.round(match.matchScore),
-            jobId: match.jobId,
-            jobTitle: match.jobTitle
-          };
-        })
-      );
+      const candidates = Array.from(candidateMap.values());
+      const completeness = await storage.getProfilesCompleteness(candidates.map(candidate => candidate.profile));
+      const recommendations = candidates.map(({ match, user, profile }) => ({
+        id: user.id,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        email: user.email,
+        headline: profile.headline,
+        matchScore: match.matchScore,
+        profileCompleteness: completeness.get(profile.id)?.score ?? 0,
+        jobId: match.jobId,
+        jobTitle: jobTitles.get(match.jobId),
+      }));
+
+      // A fuller profile gives the employer more to go on, so it can lift a
+      // candidate past a slightly better match with an empty profile
+      const rank = (candidate: typeof recommendations[number]) =>
+        candidate.matchScore + candidate.profileCompleteness * COMPLETENESS_RANK_WEIGHT;
+      recommendations.sort((a, b) => rank(b) - rank(a));
 
-      const validRecommendations = recommendations.filter(Boolean);
-      res.json(validRecommendations);
+      res.json(recommendations);
     } catch (error: any) {
       console.error("Get candidates error:", error);
       res.status(500).json({ message: "Failed to get candidates" });
@@ -1517,6 +2863,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { isFlagged } = req.body;
       const updated = await storage.updateJob(req.params.id, { isFlagged });
+      if (updated.isActive && !updated.isFlagged) {
+        checkSavedSearchesNow();
+      }
       res.json(updated);
     } catch (error: any) {
       console.error("Flag job error:", error);
@@ -1637,7 +2986,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         reviewing: applications.filter(a => a.status === 'reviewing').length,
         shortlisted: applications.filter(a => a.status === 'shortlisted').length,
         rejected: applications.filter(a => a.status === 'rejected').length,
-        accepted: applications.filter(a => a.status === 'accepted').length
+        accepted: applications.filter(a => a.status === 'accepted').length,
+        withdrawn: applications.filter(a => a.status === 'withdrawn').length
       };
 
       // Fraud alerts breakdown
@@ -1747,7 +3097,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         reviewing: applications.filter(a => a.status === 'reviewing').length,
         shortlisted: applications.filter(a => a.status === 'shortlisted').length,
         rejected: applications.filter(a => a.status === 'rejected').length,
-        accepted: applications.filter(a => a.status === 'accepted').length
+        accepted: applications.filter(a => a.status === 'accepted').length,
+        withdrawn: applications.filter(a => a.status === 'withdrawn').length
       };
 
       // Match score distribution
@@ -1824,7 +3175,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         reviewing: applications.filter((a: typeof applications[0]) => a.status === 'reviewing').length,
         shortlisted: applications.filter((a: typeof applications[0]) => a.status === 'shortlisted').length,
         rejected: applications.filter((a: typeof applications[0]) => a.status === 'rejected').length,
-        accepted: applications.filter((a: typeof applications[0]) => a.status === 'accepted').length
+        accepted: applications.filter((a: typeof applications[0]) => a.status === 'accepted').length,
+        withdrawn: applications.filter((a: typeof applications[0]) => a.status === 'withdrawn').length
       };
 
       // Match score distribution
@@ -2120,6 +3472,72 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Message attachment upload endpoint - documents and images shared in application threads
+  app.post("/api/objects/upload-attachment", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      if (!userId) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const { contentType, fileSize } = req.body;
+
+      const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB for attachments
+      // Strictly map contentType to extension (no user input)
+      const extensionMap: Record<string, string> = {
+        'application/pdf': 'pdf',
+        'application/msword': 'doc',
+        'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+        'image/jpeg': 'jpg',
+        'image/png': 'png',
+      };
+
+      if (!contentType || typeof contentType !== 'string') {
+        return res.status(400).json({ message: "Content type is required" });
+      }
+
+      const extension = extensionMap[contentType];
+      if (!extension) {
+        return res.status(400).json({
+          message: "Invalid file type. Only PDF, Word documents and JPEG or PNG images are allowed."
+        });
+      }
+
+      if (!fileSize || typeof fileSize !== 'number' || fileSize <= 0) {
+        return res.status(400).json({ message: "Valid file size is required" });
+      }
+
+      if (fileSize > MAX_FILE_SIZE) {
+        return res.status(400).json({
+          message: `File size must be under ${MAX_FILE_SIZE / 1024 / 1024}MB`
+        });
+      }
+
+      // Server-controlled path; POST /api/applications/:id/messages only accepts this exact form
+      const timestamp = Date.now();
+      const randomId = Math.random().toString(36).substring(2, 15);
+      const userScopedPath = `/users/${userId}/attachment-${timestamp}-${randomId}.${extension}`;
+
+      const objectStorageService = new ObjectStorageService();
+      const uploadURL = await objectStorageService.getObjectEntityUploadURL(userScopedPath);
+
+      if (!uploadURL) {
+        console.error("ObjectStorageService returned falsy uploadURL for message attachment");
+        return res.status(500).json({ message: "Failed to generate upload URL - object storage misconfigured" });
+      }
+
+      res.json({
+        uploadURL,
+        objectPath: userScopedPath,
+        expectedContentType: contentType,
+        expectedSize: fileSize
+      });
+    } catch (error: any) {
+      console.error("Get attachment upload URL error:", error);
+      res.status(500).json({ message: "Failed to get upload URL" });
+    }
+  });
+
   // Local upload endpoint for development (bypasses Replit Object Storage)
   app.put("/api/local-upload/*", isAuthenticated, async (req, res) => {
     try {
@@ -2167,11 +3585,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         },
       );
 
+      // Adds a new default version rather than replacing the file earlier applications point at
+      const resumePath = normalizeResumePath(getUserId(req), objectPath.replace(/^\/objects/, ""));
       const profile = await storage.getJobSeekerProfile(getUserId(req));
-      if (profile) {
-        await storage.updateJobSeekerProfile(profile.id, {
-          resumeUrl: objectPath,
-        });
+      if (profile && resumePath) {
+        await storage.createResume({ userId: getUserId(req), label: defaultResumeLabel(), fileUrl: resumePath, isDefault: true });
       }
 
       res.status(200).json({ objectPath });
@@ -2181,6 +3599,171 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Resume versions
+  app.get("/api/resumes", isAuthenticated, isJobSeeker, async (req, res) => {
+    try {
+      const resumes = await storage.getResumes(getUserId(req));
+      res.json(resumes);
+    } catch (error) {
+      console.error("Get resumes error:", error);
+      res.status(500).json({ message: "Failed to get resumes" });
+    }
+  });
+
+  app.post("/api/resumes", isAuthenticated, isJobSeeker, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const { label, fileUrl, fileName, isDefault } = createResumeSchema.parse(req.body);
+      const resumePath = normalizeResumePath(userId, fileUrl);
+      if (!resumePath) {
+        return res.status(403).json({ message: "Invalid resume path format" });
+      }
+
+      const objectStorageService = new ObjectStorageService();
+      await objectStorageService.trySetObjectEntityAclPolicy(`/objects${resumePath}`, {
+        owner: userId,
+        visibility: "private",
+      });
+
+      const resume = await storage.createResume({ userId, label, fileUrl: resumePath, fileName: fileName ?? null, isDefault: isDefault ?? false });
+      res.json(resume);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid resume", errors: error.errors });
+      }
+      if (error instanceof ObjectNotFoundError) {
+        return res.status(400).json({ message: "Upload the resume file before saving it" });
+      }
+      console.error("Create resume error:", error);
+      res.status(500).json({ message: "Failed to save resume" });
+    }
+  });
+
+  app.patch("/api/resumes/:id", isAuthenticated, isJobSeeker, async (req, res) => {
+    try {
+      const resume = await storage.getResume(req.params.id);
+      if (!resume || resume.userId !== getUserId(req)) {
+        return res.status(404).json({ message: "Resume not found" });
+      }
+
+      const updates = updateResumeSchema.parse(req.body);
+      const updated = await storage.updateResume(resume.id, updates);
+      res.json(updated);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid resume", errors: error.errors });
+      }
+      console.error("Update resume error:", error);
+      res.status(500).json({ message: "Failed to update resume" });
+    }
+  });
+
+  app.delete("/api/resumes/:id", isAuthenticated, isJobSeeker, async (req, res) => {
+    try {
+      const resume = await storage.getResume(req.params.id);
+      if (!resume || resume.userId !== getUserId(req)) {
+        return res.status(404).json({ message: "Resume not found" });
+      }
+
+      await storage.deleteResume(resume.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Delete resume error:", error);
+      res.status(500).json({ message: "Failed to delete resume" });
+    }
+  });
+
+  // CVs generated from the structured profile, as an alternative to an uploaded resume file
+  app.get("/api/profile/cv", isAuthenticated, isJobSeeker, async (req, res) => {
+    try {
+      const template = req.query.template ?? DEFAULT_CV_TEMPLATE;
+      if (!isCvTemplate(template)) {
+        return res.status(400).json({ message: "Unknown CV template" });
+      }
+
+      const cv = await generateCv(getUserId(req), template);
+      if (!cv) {
+        return res.status(404).json({ message: "Profile not found" });
+      }
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${cv.fileName}"`);
+      res.send(cv.pdf);
+    } catch (error) {
+      console.error("Generate CV error:", error);
+      res.status(500).json({ message: "Failed to generate CV" });
+    }
+  });
+
+  // Saves a generated CV as a new resume version and makes it the default
+  app.post("/api/profile/cv/resume", isAuthenticated, isJobSeeker, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const template = req.body.template ?? DEFAULT_CV_TEMPLATE;
+      if (!isCvTemplate(template)) {
+        return res.status(400).json({ message: "Unknown CV template" });
+      }
+
+      const profile = await storage.getJobSeekerProfile(userId);
+      const cv = profile && await generateCv(userId, template);
+      if (!profile || !cv) {
+        return res.status(404).json({ message: "Profile not found" });
+      }
+
+      // Same naming as uploaded resumes, so the existing path checks and employer access apply
+      const timestamp = Date.now();
+      const randomId = Math.random().toString(36).substring(2, 15);
+      const resumePath = `/users/${userId}/resume-${timestamp}-${randomId}.pdf`;
+      const objectStorageService = new ObjectStorageService();
+      await objectStorageService.saveObjectEntity(`/objects${resumePath}`, cv.pdf, "application/pdf");
+      await objectStorageService.trySetObjectEntityAclPolicy(`/objects${resumePath}`, {
+        owner: userId,
+        visibility: "private",
+      });
+
+      const resume = await storage.createResume({
+        userId,
+        label: `${CV_TEMPLATE_CONFIG[template].label} (generated)`,
+        fileUrl: resumePath,
+        fileName: cv.fileName,
+        isDefault: true,
+      });
+      res.json(resume);
+    } catch (error) {
+      console.error("Save CV as resume error:", error);
+      res.status(500).json({ message: "Failed to save CV as resume" });
+    }
+  });
+
+  // Parses the seeker's uploaded resume into profile fields for them to review. Nothing
+  // is saved here; accepted entries go through the regular profile endpoints.
+  app.post("/api/resume/parse", isAuthenticated, isJobSeeker, async (req, res) => {
+    try {
+      const profile = await storage.getJobSeekerProfile(getUserId(req));
+      if (!profile?.resumeUrl) {
+        return res.status(400).json({ message: "Upload a resume before importing it" });
+      }
+
+      const objectPath = profile.resumeUrl.startsWith("/objects/") ? profile.resumeUrl : `/objects${profile.resumeUrl}`;
+      const objectFile = await new ObjectStorageService().getObjectEntityFile(objectPath);
+      const [data] = await objectFile.download();
+      const text = await extractResumeText(data, objectPath);
+      if (!text.trim()) {
+        return res.status(422).json({ message: "No text could be read from your resume. Scanned resumes aren't supported yet." });
+      }
+
+      res.json(await parseResume(text));
+    } catch (error) {
+      if (error instanceof UnsupportedResumeFormatError) {
+        return res.status(415).json({ message: error.message });
+      }
+      if (error instanceof ObjectNotFoundError) {
+        return res.status(404).json({ message: "Resume file not found. Please upload it again." });
+      }
+      console.error("Parse resume error:", error);
+      res.status(500).json({ message: "Failed to parse resume" });
+    }
+  });
+
   app.get("/objects/:objectPath(*)", isAuthenticated, async (req, res) => {
     try {
       const userId = getUserId(req);
@@ -2216,6 +3799,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
           }
         }
         
+        // Allow both sides of a conversation to open its message attachments
+        if (req.path.includes('/attachment-')) {
+          const message = await storage.getMessageByAttachment(req.path.replace(/^\/objects/, ''));
+          if (message && (message.senderId === userId || message.recipientId === userId)) {
+            objectStorageService.downloadObject(objectFile, res);
+            return;
+          }
+        }
+
         // Also allow admins to view any document
         if (user?.role === 'admin') {
           objectStorageService.downloadObject(objectFile, res);
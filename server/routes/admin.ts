@@ -2,6 +2,9 @@ import { Router } from "express";
 import { storage } from "../storage";
 import { insertContactMessageSchema, insertUserSchema } from "@shared/schema";
 import { ActivityLogger } from "../logger";
+import { notifyUser } from "../notifications";
+import { checkSavedSearchesNow } from "../saved-search-alerts";
+import { EMAIL_TEMPLATES, isEmailTemplateName, renderEmailTemplate } from "../email-templates";
 import { z } from "zod";
 import bcrypt from "bcrypt";
 
@@ -20,6 +23,19 @@ export function createAdminRouter() {
     }
   });
 
+  // AI Usage - call volume, tokens, estimated cost and latency per task and model
+  router.get("/ai-usage", async (req, res) => {
+    try {
+      const days = Math.min(Math.max(parseInt(req.query.days as string) || 30, 1), 365);
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+      const summary = await storage.getAiUsageSummary(since);
+      res.json({ days, ...summary });
+    } catch (error: any) {
+      console.error("Get AI usage error:", error);
+      res.status(500).json({ message: "Failed to fetch AI usage" });
+    }
+  });
+
   // Contact Messages - List all with optional status filter
   router.get("/contacts", async (req, res) => {
     try {
@@ -65,6 +81,16 @@ export function createAdminRouter() {
       }
       
       const updated = await storage.updateContactMessage(id, updateData);
+
+      // Signed-in senders also see the reply in-app; the contact page doesn't list past messages
+      if (updated?.userId && validatedData.status === 'replied' && validatedData.replyMessage) {
+        await notifyUser(updated.userId, {
+          type: "contact_reply",
+          title: `Reply to your message${updated.subject ? `: ${updated.subject}` : ""}`,
+          body: validatedData.replyMessage,
+          link: null,
+        });
+      }
       
       res.json(updated);
     } catch (error: any) {
@@ -88,6 +114,9 @@ export function createAdminRouter() {
       }
 
       const updated = await storage.updateJob(id, { isFlagged: flagged });
+      if (updated.isActive && !updated.isFlagged) {
+        checkSavedSearchesNow();
+      }
       
       // Log the action
       const adminEmail = (req as any).session?.userEmail || 'admin';
@@ -132,12 +161,16 @@ export function createAdminRouter() {
 
       // Search jobs (if type is 'job' or 'all')
       if (type === 'job' || type === 'all') {
-        const allJobs = await storage.getAllJobs();
-        results.jobs = allJobs.filter(job => 
-          job.title?.toLowerCase().includes(query.toLowerCase()) ||
-          job.description?.toLowerCase().includes(query.toLowerCase()) ||
-          job.location?.toLowerCase().includes(query.toLowerCase())
-        ).slice(0, 20); // Limit to 20 results
+        // Text matches first, then jobs whose location matches
+        const [textResults, locationResults] = await Promise.all([
+          storage.searchJobs({ search: query, sort: "relevance", page: 1, limit: 20 }, { includeHidden: true }),
+          storage.searchJobs({ location: query, sort: "newest", page: 1, limit: 20 }, { includeHidden: true }),
+        ]);
+        const textIds = new Set(textResults.jobs.map(job => job.id));
+        results.jobs = [
+          ...textResults.jobs,
+          ...locationResults.jobs.filter(job => !textIds.has(job.id)),
+        ].slice(0, 20); // Limit to 20 results
       }
 
       res.json({
@@ -240,5 +273,61 @@ export function createAdminRouter() {
     }
   });
 
+  // Email templates, with the version new emails are rendered with
+  router.get("/email-templates", async (req, res) => {
+    res.json(Object.entries(EMAIL_TEMPLATES).map(([name, template]) => ({
+      name,
+      version: template.version,
+      description: template.description,
+    })));
+  });
+
+  // Renders a template with its sample data, as the recipient would see it
+  router.get("/email-templates/:name/preview", async (req, res) => {
+    try {
+      const { name } = req.params;
+      if (!isEmailTemplateName(name)) {
+        return res.status(404).json({ message: "Email template not found" });
+      }
+      const { subject, html } = renderEmailTemplate(name, EMAIL_TEMPLATES[name].sample);
+      res.setHeader("X-Email-Subject", encodeURIComponent(subject));
+      res.type("html").send(html);
+    } catch (error: any) {
+      console.error("Preview email template error:", error);
+      res.status(500).json({ message: "Failed to preview email template" });
+    }
+  });
+
+  // Recent outbox emails, optionally only one status (e.g. ?status=failed)
+  router.get("/email-outbox", async (req, res) => {
+    try {
+      const status = z.enum(["pending", "sent", "failed"]).optional().parse(req.query.status);
+      const limit = parseInt(req.query.limit as string) || 50;
+      const emails = await storage.getOutboxEmails(status, Math.min(limit, 200));
+      // Leaves out the rendered HTML, which is large
+      res.json(emails.map(({ html, ...email }) => email));
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid status", errors: error.errors });
+      }
+      console.error("Get email outbox error:", error);
+      res.status(500).json({ message: "Failed to fetch email outbox" });
+    }
+  });
+
+  router.post("/email-outbox/:id/retry", async (req, res) => {
+    try {
+      const email = await storage.retryOutboxEmail(req.params.id);
+      if (!email) {
+        return res.status(404).json({ message: "No failed email with that ID" });
+      }
+      const { html, ...rest } = email;
+      res.json(rest);
+    } catch (error: any) {
+      console.error("Retry outbox email error:", error);
+      res.status(500).json({ message: "Failed to retry email" });
+    }
+  });
+
   return router;
 }
@@ -0,0 +1,80 @@
+import type { Job } from "@shared/schema";
+
+type SalaryPeriod = Job["salaryPeriod"];
+
+// Conversion rates into Philippine Peso. Override or extend with the
+// SALARY_RATES_TO_PHP env var, e.g. {"USD": 57.5, "SGD": 43}
+const DEFAULT_RATES_TO_PHP: Record<string, number> = {
+  PHP: 1,
+  USD: 56,
+  EUR: 61,
+  GBP: 71,
+  AUD: 37,
+  SGD: 42,
+  JPY: 0.38,
+};
+
+// Philippine payroll convention: 22 working days of 8 hours per month
+const WORKING_DAYS_PER_MONTH = 22;
+const WORKING_HOURS_PER_DAY = 8;
+
+const MONTHLY_MULTIPLIER: Record<SalaryPeriod, number> = {
+  hourly: WORKING_HOURS_PER_DAY * WORKING_DAYS_PER_MONTH,
+  daily: WORKING_DAYS_PER_MONTH,
+  monthly: 1,
+  annual: 1 / 12,
+};
+
+function loadRates(): Record<string, number> {
+  const rates = { ...DEFAULT_RATES_TO_PHP };
+  const override = process.env.SALARY_RATES_TO_PHP;
+  if (!override) {
+    return rates;
+  }
+
+  try {
+    const parsed = JSON.parse(override);
+    for (const [currency, rate] of Object.entries(parsed)) {
+      if (typeof rate === "number" && rate > 0) {
+        rates[currency.toUpperCase()] = rate;
+      }
+    }
+  } catch (error) {
+    console.error("Invalid SALARY_RATES_TO_PHP, using default rates:", error);
+  }
+  return rates;
+}
+
+const ratesToPhp = loadRates();
+
+export function isSupportedCurrency(currency: string): boolean {
+  return currency.toUpperCase() in ratesToPhp;
+}
+
+export function toMonthlyPhp(
+  amount: number | null | undefined,
+  currency: string,
+  period: SalaryPeriod
+): number | null {
+  if (amount === null || amount === undefined) return null;
+
+  const rate = ratesToPhp[currency.toUpperCase()];
+  if (rate === undefined) return null;
+
+  return Math.round(amount * rate * MONTHLY_MULTIPLIER[period]);
+}
+
+// Compute the normalized monthly PHP columns stored alongside a job's salary
+export function normalizeJobSalary(job: {
+  salaryMin?: number | null;
+  salaryMax?: number | null;
+  salaryCurrency?: string | null;
+  salaryPeriod?: SalaryPeriod | null;
+}): Pick<Job, "salaryMonthlyMinPhp" | "salaryMonthlyMaxPhp"> {
+  const currency = job.salaryCurrency || "PHP";
+  const period = job.salaryPeriod || "monthly";
+  return {
+    salaryMonthlyMinPhp: toMonthlyPhp(job.salaryMin, currency, period),
+    salaryMonthlyMaxPhp: toMonthlyPhp(job.salaryMax, currency, period),
+  };
+}
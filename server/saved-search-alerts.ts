@@ -0,0 +1,98 @@
+import { storage } from "./storage";
+import { sendSavedSearchAlertEmail } from "./email";
+import { jobSearchQuerySchema, type SavedSearch } from "@shared/schema";
+
+// How often saved searches are checked for new jobs, and how far apart daily digests are sent.
+// Jobs going live also trigger a check, so instant alerts don't wait for the interval.
+const CHECK_INTERVAL_MS = 15 * 60 * 1000;
+const DIGEST_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+// Caps per check and per email; anything beyond still shows up when the seeker opens the search
+const MAX_NEW_JOBS_PER_CHECK = 50;
+const MAX_JOBS_PER_EMAIL = 10;
+
+async function findNewJobs(search: SavedSearch, until: Date): Promise<string[]> {
+  const query = jobSearchQuerySchema.safeParse({ ...search.filters, sort: "newest", limit: MAX_NEW_JOBS_PER_CHECK });
+  if (!query.success) {
+    // e.g. a city code that no longer exists; the seeker can fix it by editing the search
+    console.error(`[Saved Searches] Invalid filters on search ${search.id}:`, query.error.message);
+    return [];
+  }
+  const { jobs } = await storage.searchJobs(query.data, {
+    publishedBetween: { after: search.lastCheckedAt, until },
+  });
+  return jobs.map(job => job.id);
+}
+
+async function sendPendingAlert(search: SavedSearch, now: Date): Promise<void> {
+  if (search.alertFrequency === "off" || search.pendingJobIds.length === 0) return;
+  const digestDue = !search.lastEmailedAt || now.getTime() - search.lastEmailedAt.getTime() >= DIGEST_INTERVAL_MS;
+  if (search.alertFrequency === "daily" && !digestDue) return;
+
+  const user = await storage.getUser(search.userId);
+  if (!user?.email) return;
+
+  // Skip jobs taken down since they were found; newest first
+  const pendingJobs = await Promise.all(search.pendingJobIds.slice(-MAX_JOBS_PER_EMAIL).reverse().map(id => storage.getJob(id)));
+  const jobs = pendingJobs.filter((job): job is NonNullable<typeof job> => !!job && job.isActive && !job.isFlagged);
+
+  if (jobs.length > 0) {
+    await sendSavedSearchAlertEmail(
+      user.email,
+      search.name,
+      jobs,
+      search.unsubscribeToken,
+      search.alertFrequency === "daily",
+      user.firstName || undefined
+    );
+  }
+  await storage.updateSavedSearch(search.id, { pendingJobIds: [], lastEmailedAt: now });
+}
+
+async function checkSavedSearches(): Promise<void> {
+  const searches = await storage.getAllSavedSearches();
+  for (const search of searches) {
+    try {
+      // Jobs posted after this moment are left for the next check
+      const now = new Date();
+      const newJobIds = await findNewJobs(search, now);
+      const updated = await storage.recordSavedSearchMatches(search.id, newJobIds, now, search.alertFrequency !== "off");
+      await sendPendingAlert(updated, now);
+    } catch (error) {
+      // Pending jobs stay queued, so a failed email is retried on the next check
+      console.error(`[Saved Searches] Failed to check search ${search.id}:`, error);
+    }
+  }
+}
+
+let isChecking = false;
+let checkRequested = false;
+
+async function runCheck(): Promise<void> {
+  if (isChecking) {
+    // Picked up as soon as the current run finishes, not on the next interval
+    checkRequested = true;
+    return;
+  }
+  isChecking = true;
+  try {
+    do {
+      checkRequested = false;
+      await checkSavedSearches();
+    } while (checkRequested);
+  } catch (error) {
+    console.error("[Saved Searches] Check failed:", error);
+  } finally {
+    isChecking = false;
+  }
+}
+
+// Call when a job becomes visible to seekers: posted, reactivated or unflagged
+export function checkSavedSearchesNow(): void {
+  void runCheck();
+}
+
+export function startSavedSearchAlerts(): void {
+  setInterval(runCheck, CHECK_INTERVAL_MS);
+  console.log("[Saved Searches] Alerts started");
+}
@@ -4,11 +4,25 @@ import {
   workExperience,
   education,
   certifications,
+  resumes,
   employerProfiles,
+  pipelineTemplates,
+  pipelineStages,
   jobs,
   applications,
+  applicationEvents,
+  messages,
+  interviews,
+  notifications,
+  notificationPreferences,
+  notificationDigestItems,
+  emailOutbox,
+  jobMatches,
+  savedJobs,
+  savedSearches,
   fraudAlerts,
   activityLogs,
+  aiUsageLogs,
   contactMessages,
   type User,
   type UpsertUser,
@@ -21,21 +35,179 @@ import {
   type InsertEducation,
   type Certification,
   type InsertCertification,
+  type Resume,
+  type InsertResume,
+  type UpdateResume,
   type EmployerProfile,
   type InsertEmployerProfile,
   type Job,
   type InsertJob,
+  type JobSearchQuery,
+  type JobSearchResult,
+  type JobSearchHit,
+  JOB_SEARCH_DOCUMENT,
+  type JobMatch,
+  type InsertJobMatch,
   type Application,
   type InsertApplication,
+  type PipelineStage,
+  type PipelineTemplateWithStages,
+  type PipelineTemplateInput,
+  type InsertApplicationEvent,
+  type ApplicationEvent,
+  type ApplicationTimelineEvent,
+  type Message,
+  type InsertMessage,
+  type ConversationSummary,
+  type Interview,
+  type InsertInterview,
+  type InterviewWithDetails,
+  type Notification,
+  type InsertNotification,
+  type NotificationPreference,
+  type NotificationDigestItem,
+  type InsertNotificationDigestItem,
+  type OutboxEmail,
+  type InsertOutboxEmail,
+  type SavedJob,
+  type SavedJobWithJob,
+  type SavedSearch,
+  type InsertSavedSearch,
   type FraudAlert,
   type InsertFraudAlert,
   type ActivityLog,
   type InsertActivityLog,
+  type AiUsageLog,
+  type InsertAiUsageLog,
   type ContactMessage,
   type InsertContactMessage,
 } from "@shared/schema";
+import { SEARCH_HIGHLIGHT_START, SEARCH_HIGHLIGHT_END } from "@shared/search";
+import { getPhCity, matchPhLocations } from "@shared/ph-locations";
+import { DEFAULT_PIPELINE_NAME, DEFAULT_PIPELINE_STAGES } from "@shared/pipeline";
+import type { DigestFrequency, NotificationPreferenceSetting } from "@shared/notifications";
+import { computeProfileCompleteness, type ProfileCompleteness } from "@shared/profile-completeness";
 import { db } from "./db";
-import { eq, and, desc, sql, ilike, or } from "drizzle-orm";
+import { eq, ne, and, desc, gt, gte, lt, lte, sql, isNull, ilike, or, count, arrayContains, inArray, between, getTableColumns, type SQL } from "drizzle-orm";
+
+export interface JobSearchOptions {
+  // Admin search also covers inactive and flagged postings
+  includeHidden?: boolean;
+  // Only jobs published in (after, until], used by saved search alerts
+  publishedBetween?: { after: Date; until: Date };
+}
+
+// Minimum pg_trgm word similarity for a title/company match to count despite typos.
+// The <% operator reads it from pg_trgm.word_similarity_threshold (default 0.6).
+const TYPO_SIMILARITY_THRESHOLD = 0.4;
+
+const SEARCH_HEADLINE_OPTIONS =
+  `StartSel=${SEARCH_HIGHLIGHT_START}, StopSel=${SEARCH_HIGHLIGHT_END}, ` +
+  `MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "`;
+
+// Radius used when a "near" search doesn't say how far
+const DEFAULT_SEARCH_RADIUS_KM = 25;
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE_LATITUDE = 111.045;
+
+// Turn free text into a prefix tsquery ("react dev" -> "react:* & dev:*").
+// Only letters (including accented ones like ñ) and digits survive, so the result
+// is always valid to_tsquery input.
+function buildPrefixTsQuery(search: string): string | null {
+  const terms = search
+    .split(/[^0-9a-zA-ZÀ-ÿ]+/)
+    .filter((term) => term.length > 0)
+    .map((term) => `${term.toLowerCase()}:*`);
+  return terms.length > 0 ? terms.join(" & ") : null;
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Resume writes for one user take turns, so two concurrent ones can't both pick a default
+// and trip idx_resumes_default. Holds a lock on the user's row until the transaction ends.
+async function lockUserResumes(tx: Transaction, userId: string): Promise<void> {
+  await tx.select({ id: users.id }).from(users).where(eq(users.id, userId)).for("no key update");
+}
+
+// jobSeekerProfiles.resumeUrl follows the seeker's default resume
+async function syncProfileResume(tx: Transaction, userId: string): Promise<void> {
+  const [defaultResume] = await tx
+    .select({ fileUrl: resumes.fileUrl })
+    .from(resumes)
+    .where(and(eq(resumes.userId, userId), eq(resumes.isDefault, true)));
+  await tx
+    .update(jobSeekerProfiles)
+    .set({ resumeUrl: defaultResume?.fileUrl ?? null, updatedAt: new Date() })
+    .where(eq(jobSeekerProfiles.userId, userId));
+}
+
+function conversationSummary(
+  application: Application,
+  job: Job,
+  userId: string,
+  other: User | undefined,
+  lastMessage: Message | undefined,
+  unreadCount: number
+): ConversationSummary {
+  const isSeeker = application.seekerId === userId;
+  const personName = [other?.firstName, other?.lastName].filter(Boolean).join(" ");
+  return {
+    applicationId: application.id,
+    jobId: job.id,
+    jobTitle: job.title,
+    applicationStatus: application.status,
+    otherParty: {
+      id: other?.id ?? "",
+      name: (isSeeker ? job.companyName || personName : personName) || "Unknown user",
+      profileImageUrl: other?.profileImageUrl ?? null,
+    },
+    lastMessage: lastMessage ?? null,
+    unreadCount,
+  };
+}
+
+// Jobs past their application deadline drop out of listings and recommendations
+const isOpenForApplications = sql`(${jobs.applicationDeadline} is null or ${jobs.applicationDeadline} > now())`;
+
+export type RecommendedJob = Job & {
+  aiMatchScore: number;
+  aiMatchReasoning: string | null;
+};
+
+export interface CandidateMatch {
+  match: JobMatch;
+  user: User;
+  profile: JobSeekerProfile;
+}
+
+// A seeker's work experience, education and certifications, each in display order
+export interface ProfileHistory {
+  workExperience: WorkExperience[];
+  education: Education[];
+  certifications: Certification[];
+}
+
+// An application and the pipeline stage it is leaving
+export interface ApplicationStageMove {
+  application: Application;
+  from: PipelineStage | undefined;
+}
+
+// AI spend per task and model over a period, for the admin cost dashboard
+export interface AiUsageSummary {
+  byTaskModel: Array<{
+    task: string;
+    model: string;
+    calls: number;
+    errors: number;
+    promptTokens: number;
+    completionTokens: number;
+    costUsd: number;
+    avgLatencyMs: number;
+  }>;
+  daily: Array<{ date: string; calls: number; costUsd: number }>;
+  recentErrors: AiUsageLog[];
+}
 
 export interface IStorage {
   // User operations
@@ -48,24 +220,44 @@ export interface IStorage {
   
   // Job Seeker Profile operations
   getJobSeekerProfile(userId: string): Promise<JobSeekerProfile | undefined>;
+  getAllJobSeekerProfiles(): Promise<JobSeekerProfile[]>;
   createJobSeekerProfile(profile: InsertJobSeekerProfile): Promise<JobSeekerProfile>;
   updateJobSeekerProfile(id: string, data: Partial<JobSeekerProfile>): Promise<JobSeekerProfile>;
+  getProfilesCompleteness(profiles: JobSeekerProfile[]): Promise<Map<string, ProfileCompleteness>>;
+  getProfileHistories(profileIds: string[]): Promise<Map<string, ProfileHistory>>;
   
   // Work Experience operations
   getWorkExperience(profileId: string): Promise<WorkExperience[]>;
+  getWorkExperienceEntry(id: string): Promise<WorkExperience | undefined>;
   createWorkExperience(experience: InsertWorkExperience): Promise<WorkExperience>;
+  updateWorkExperience(id: string, data: Partial<InsertWorkExperience>): Promise<WorkExperience>;
+  reorderWorkExperience(profileId: string, ids: string[]): Promise<void>;
   deleteWorkExperience(id: string): Promise<void>;
   
   // Education operations
   getEducation(profileId: string): Promise<Education[]>;
+  getEducationEntry(id: string): Promise<Education | undefined>;
   createEducation(edu: InsertEducation): Promise<Education>;
+  updateEducation(id: string, data: Partial<InsertEducation>): Promise<Education>;
+  reorderEducation(profileId: string, ids: string[]): Promise<void>;
   deleteEducation(id: string): Promise<void>;
   
   // Certification operations
   getCertifications(profileId: string): Promise<Certification[]>;
+  getCertificationEntry(id: string): Promise<Certification | undefined>;
   createCertification(cert: InsertCertification): Promise<Certification>;
+  updateCertification(id: string, data: Partial<InsertCertification>): Promise<Certification>;
+  reorderCertifications(profileId: string, ids: string[]): Promise<void>;
   deleteCertification(id: string): Promise<void>;
   
+  // Resume operations
+  getResumes(userId: string): Promise<Resume[]>;
+  getResume(id: string): Promise<Resume | undefined>;
+  createResume(resume: InsertResume): Promise<Resume>;
+  updateResume(id: string, updates: UpdateResume): Promise<Resume>;
+  deleteResume(id: string): Promise<void>;
+  clearDefaultResume(userId: string): Promise<void>;
+  
   // Employer Profile operations
   getEmployerProfile(userId: string): Promise<EmployerProfile | undefined>;
   createEmployerProfile(profile: InsertEmployerProfile): Promise<EmployerProfile>;
@@ -73,19 +265,103 @@ export interface IStorage {
   
   // Job operations
   getAllJobs(filters?: any): Promise<Job[]>;
+  searchJobs(query: JobSearchQuery, options?: JobSearchOptions): Promise<JobSearchResult>;
   getJob(id: string): Promise<Job | undefined>;
   getJobsByEmployer(employerId: string): Promise<Job[]>;
   createJob(job: InsertJob): Promise<Job>;
   updateJob(id: string, data: Partial<Job>): Promise<Job>;
   deleteJob(id: string): Promise<void>;
   
+  // Job Match operations
+  getJobMatchesBySeeker(seekerId: string): Promise<JobMatch[]>;
+  getJobMatchesByJob(jobId: string): Promise<JobMatch[]>;
+  upsertJobMatch(match: InsertJobMatch): Promise<JobMatch>;
+  getRecommendedJobs(seekerId: string, minScore: number): Promise<RecommendedJob[]>;
+  getCandidateMatches(jobIds: string[], minScore: number): Promise<CandidateMatch[]>;
+  
   // Application operations
   getAllApplications(): Promise<Application[]>;
   getApplication(id: string): Promise<Application | undefined>;
   getApplicationsBySeeker(seekerId: string): Promise<Application[]>;
   getApplicationsByJob(jobId: string): Promise<Application[]>;
-  createApplication(application: InsertApplication): Promise<Application>;
+  getApplicationByJobAndSeeker(jobId: string, seekerId: string): Promise<Application | undefined>;
+  createApplication(application: InsertApplication): Promise<{ application: Application; inserted: boolean }>;
   updateApplication(id: string, data: Partial<Application>): Promise<Application>;
+  withdrawApplication(application: Application, reason: string | null): Promise<Application>;
+  
+  // Hiring Pipeline operations
+  getPipelineTemplatesByEmployer(employerId: string): Promise<PipelineTemplateWithStages[]>;
+  getPipelineTemplate(id: string): Promise<PipelineTemplateWithStages | undefined>;
+  getDefaultPipelineTemplate(employerId: string): Promise<PipelineTemplateWithStages>;
+  getJobPipeline(job: Job): Promise<PipelineTemplateWithStages>;
+  createPipelineTemplate(employerId: string, input: PipelineTemplateInput): Promise<PipelineTemplateWithStages>;
+  updatePipelineTemplate(id: string, input: PipelineTemplateInput): Promise<PipelineTemplateWithStages>;
+  deletePipelineTemplate(id: string): Promise<void>;
+  // actorId is null for automatic moves, e.g. screening knockouts. Withdrawn applications
+  // are never moved, so only the applications actually moved come back.
+  moveApplicationToStage(application: Application, from: PipelineStage | undefined, to: PipelineStage, actorId: string | null): Promise<Application | undefined>;
+  moveApplicationsToStage(moves: ApplicationStageMove[], to: PipelineStage, actorId: string | null): Promise<Application[]>;
+  
+  // Application Event operations
+  createApplicationEvent(event: InsertApplicationEvent): Promise<ApplicationEvent>;
+  rateApplication(applicationId: string, rating: number, actorId: string): Promise<Application>;
+  getApplicationEvents(applicationId: string): Promise<ApplicationTimelineEvent[]>;
+  
+  // Message operations
+  getConversations(userId: string): Promise<ConversationSummary[]>;
+  getConversation(application: Application, job: Job, userId: string): Promise<ConversationSummary>;
+  getMessages(applicationId: string): Promise<Message[]>;
+  createMessage(message: InsertMessage): Promise<Message>;
+  markMessagesRead(applicationId: string, recipientId: string): Promise<void>;
+  getUnreadMessageCount(userId: string): Promise<number>;
+  getMessageByAttachment(objectPath: string): Promise<Message | undefined>;
+  getUnnotifiedMessages(olderThan: Date): Promise<Message[]>;
+  markMessagesEmailNotified(ids: string[]): Promise<void>;
+  
+  // Interview operations
+  getInterview(id: string): Promise<Interview | undefined>;
+  getInterviewsByApplication(applicationId: string): Promise<Interview[]>;
+  getInterviewsForUser(userId: string): Promise<InterviewWithDetails[]>;
+  createInterview(interview: InsertInterview, eventNote: string): Promise<Interview>;
+  updateInterview(id: string, data: Partial<Interview>, event?: { actorId: string | null; note: string }): Promise<Interview>;
+  getInterviewsNeedingReminders(now: Date): Promise<Interview[]>;
+  
+  // Notification operations
+  createNotifications(rows: InsertNotification[]): Promise<Notification[]>;
+  getNotifications(userId: string, limit: number): Promise<Notification[]>;
+  getUnreadNotificationCount(userId: string): Promise<number>;
+  markNotificationRead(id: string, userId: string): Promise<Notification | undefined>;
+  markAllNotificationsRead(userId: string): Promise<void>;
+  getNotificationPreferences(userIds: string[]): Promise<NotificationPreference[]>;
+  setNotificationPreferences(userId: string, preferences: NotificationPreferenceSetting[]): Promise<void>;
+  createDigestItem(item: InsertNotificationDigestItem): Promise<NotificationDigestItem>;
+  getDueDigestItems(frequency: DigestFrequency, createdBefore: Date): Promise<NotificationDigestItem[]>;
+  deleteDigestItems(ids: string[]): Promise<void>;
+  
+  // Email outbox operations
+  createOutboxEmail(email: InsertOutboxEmail): Promise<OutboxEmail>;
+  claimDueOutboxEmails(now: Date, leaseUntil: Date, limit: number): Promise<OutboxEmail[]>;
+  markOutboxEmailSent(id: string, provider: string, providerMessageId: string | null, redactedHtml?: string): Promise<void>;
+  markOutboxEmailFailed(id: string, error: string, retryAt: Date | null): Promise<void>;
+  getOutboxEmails(status: OutboxEmail["status"] | undefined, limit: number): Promise<OutboxEmail[]>;
+  retryOutboxEmail(id: string): Promise<OutboxEmail | undefined>;
+  deleteFinishedOutboxEmails(before: Date): Promise<number>;
+  
+  // Saved Job operations
+  getSavedJobsBySeeker(seekerId: string): Promise<SavedJobWithJob[]>;
+  getSavedJobIds(seekerId: string): Promise<string[]>;
+  saveJob(seekerId: string, jobId: string): Promise<SavedJob>;
+  unsaveJob(seekerId: string, jobId: string): Promise<void>;
+  
+  // Saved Search operations
+  getAllSavedSearches(): Promise<SavedSearch[]>;
+  getSavedSearchesByUser(userId: string): Promise<SavedSearch[]>;
+  getSavedSearch(id: string): Promise<SavedSearch | undefined>;
+  getSavedSearchByUnsubscribeToken(token: string): Promise<SavedSearch | undefined>;
+  createSavedSearch(search: InsertSavedSearch & { userId: string }): Promise<SavedSearch>;
+  updateSavedSearch(id: string, data: Partial<SavedSearch>): Promise<SavedSearch>;
+  deleteSavedSearch(id: string): Promise<void>;
+  recordSavedSearchMatches(id: string, jobIds: string[], checkedAt: Date, queueForEmail: boolean): Promise<SavedSearch>;
   
   // Fraud Alert operations
   getAllFraudAlerts(): Promise<FraudAlert[]>;
@@ -103,6 +379,10 @@ export interface IStorage {
   getRecentActivityLogs(limit?: number): Promise<ActivityLog[]>;
   createActivityLog(log: InsertActivityLog): Promise<ActivityLog>;
   
+  // AI Usage operations
+  createAiUsageLog(log: InsertAiUsageLog): Promise<AiUsageLog>;
+  getAiUsageSummary(since: Date): Promise<AiUsageSummary>;
+  
   // Contact Message operations
   getAllContactMessages(): Promise<ContactMessage[]>;
   getContactMessagesByStatus(status: string): Promise<ContactMessage[]>;
@@ -165,6 +445,10 @@ export class DatabaseStorage implements IStorage {
     return profile || undefined;
   }
 
+  async getAllJobSeekerProfiles(): Promise<JobSeekerProfile[]> {
+    return await db.select().from(jobSeekerProfiles);
+  }
+
   async createJobSeekerProfile(profile: InsertJobSeekerProfile): Promise<JobSeekerProfile> {
     const [newProfile] = await db.insert(jobSeekerProfiles).values(profile).returning();
     return newProfile;
@@ -179,20 +463,113 @@ export class DatabaseStorage implements IStorage {
     return profile;
   }
 
+  // Keyed by profile id, with one grouped count per entry table however many profiles there are
+  async getProfilesCompleteness(profiles: JobSeekerProfile[]): Promise<Map<string, ProfileCompleteness>> {
+    if (profiles.length === 0) return new Map();
+    const profileIds = profiles.map(profile => profile.id);
+    const [work, edu, certs] = await Promise.all([
+      db
+        .select({ profileId: workExperience.profileId, count: count() })
+        .from(workExperience)
+        .where(inArray(workExperience.profileId, profileIds))
+        .groupBy(workExperience.profileId),
+      db
+        .select({ profileId: education.profileId, count: count() })
+        .from(education)
+        .where(inArray(education.profileId, profileIds))
+        .groupBy(education.profileId),
+      db
+        .select({ profileId: certifications.profileId, count: count() })
+        .from(certifications)
+        .where(inArray(certifications.profileId, profileIds))
+        .groupBy(certifications.profileId),
+    ]);
+    const byProfile = (rows: { profileId: string; count: number }[]) => new Map(rows.map(row => [row.profileId, row.count]));
+    const workCounts = byProfile(work);
+    const educationCounts = byProfile(edu);
+    const certificationCounts = byProfile(certs);
+
+    return new Map(profiles.map(profile => [profile.id, computeProfileCompleteness({
+      ...profile,
+      workExperienceCount: workCounts.get(profile.id) ?? 0,
+      educationCount: educationCounts.get(profile.id) ?? 0,
+      certificationCount: certificationCounts.get(profile.id) ?? 0,
+    })]));
+  }
+
+  // Three queries for any number of profiles, in the same order as the per-profile getters
+  async getProfileHistories(profileIds: string[]): Promise<Map<string, ProfileHistory>> {
+    const histories = new Map<string, ProfileHistory>(
+      profileIds.map(id => [id, { workExperience: [], education: [], certifications: [] }])
+    );
+    if (profileIds.length === 0) return histories;
+    const [work, edu, certs] = await Promise.all([
+      db
+        .select()
+        .from(workExperience)
+        .where(inArray(workExperience.profileId, profileIds))
+        .orderBy(workExperience.displayOrder, desc(workExperience.startDate)),
+      db
+        .select()
+        .from(education)
+        .where(inArray(education.profileId, profileIds))
+        .orderBy(education.displayOrder, desc(education.startYear)),
+      db
+        .select()
+        .from(certifications)
+        .where(inArray(certifications.profileId, profileIds))
+        .orderBy(certifications.displayOrder, desc(certifications.issueDate)),
+    ]);
+    for (const entry of work) histories.get(entry.profileId)!.workExperience.push(entry);
+    for (const entry of edu) histories.get(entry.profileId)!.education.push(entry);
+    for (const entry of certs) histories.get(entry.profileId)!.certifications.push(entry);
+    return histories;
+  }
+
   // Work Experience operations
+  // Seeker's own order first; the date keeps entries sensible until they reorder
   async getWorkExperience(profileId: string): Promise<WorkExperience[]> {
     return await db
       .select()
       .from(workExperience)
       .where(eq(workExperience.profileId, profileId))
-      .orderBy(desc(workExperience.startDate));
+      .orderBy(workExperience.displayOrder, desc(workExperience.startDate));
+  }
+
+  async getWorkExperienceEntry(id: string): Promise<WorkExperience | undefined> {
+    const [exp] = await db.select().from(workExperience).where(eq(workExperience.id, id));
+    return exp || undefined;
   }
 
   async createWorkExperience(experience: InsertWorkExperience): Promise<WorkExperience> {
-    const [exp] = await db.insert(workExperience).values(experience).returning();
+    const [{ next }] = await db
+      .select({ next: sql<number>`coalesce(max(${workExperience.displayOrder}) + 1, 0)::int` })
+      .from(workExperience)
+      .where(eq(workExperience.profileId, experience.profileId));
+    const [exp] = await db.insert(workExperience).values({ ...experience, displayOrder: next }).returning();
     return exp;
   }
 
+  async updateWorkExperience(id: string, data: Partial<InsertWorkExperience>): Promise<WorkExperience> {
+    const [exp] = await db
+      .update(workExperience)
+      .set(data)
+      .where(eq(workExperience.id, id))
+      .returning();
+    return exp;
+  }
+
+  async reorderWorkExperience(profileId: string, ids: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      for (let index = 0; index < ids.length; index++) {
+        await tx
+          .update(workExperience)
+          .set({ displayOrder: index })
+          .where(and(eq(workExperience.id, ids[index]), eq(workExperience.profileId, profileId)));
+      }
+    });
+  }
+
   async deleteWorkExperience(id: string): Promise<void> {
     await db.delete(workExperience).where(eq(workExperience.id, id));
   }
@@ -203,14 +580,43 @@ export class DatabaseStorage implements IStorage {
       .select()
       .from(education)
       .where(eq(education.profileId, profileId))
-      .orderBy(desc(education.startYear));
+      .orderBy(education.displayOrder, desc(education.startYear));
+  }
+
+  async getEducationEntry(id: string): Promise<Education | undefined> {
+    const [edu] = await db.select().from(education).where(eq(education.id, id));
+    return edu || undefined;
   }
 
   async createEducation(edu: InsertEducation): Promise<Education> {
-    const [newEdu] = await db.insert(education).values(edu).returning();
+    const [{ next }] = await db
+      .select({ next: sql<number>`coalesce(max(${education.displayOrder}) + 1, 0)::int` })
+      .from(education)
+      .where(eq(education.profileId, edu.profileId));
+    const [newEdu] = await db.insert(education).values({ ...edu, displayOrder: next }).returning();
     return newEdu;
   }
 
+  async updateEducation(id: string, data: Partial<InsertEducation>): Promise<Education> {
+    const [edu] = await db
+      .update(education)
+      .set(data)
+      .where(eq(education.id, id))
+      .returning();
+    return edu;
+  }
+
+  async reorderEducation(profileId: string, ids: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      for (let index = 0; index < ids.length; index++) {
+        await tx
+          .update(education)
+          .set({ displayOrder: index })
+          .where(and(eq(education.id, ids[index]), eq(education.profileId, profileId)));
+      }
+    });
+  }
+
   async deleteEducation(id: string): Promise<void> {
     await db.delete(education).where(eq(education.id, id));
   }
@@ -221,18 +627,129 @@ export class DatabaseStorage implements IStorage {
       .select()
       .from(certifications)
       .where(eq(certifications.profileId, profileId))
-      .orderBy(desc(certifications.issueDate));
+      .orderBy(certifications.displayOrder, desc(certifications.issueDate));
+  }
+
+  async getCertificationEntry(id: string): Promise<Certification | undefined> {
+    const [cert] = await db.select().from(certifications).where(eq(certifications.id, id));
+    return cert || undefined;
   }
 
   async createCertification(cert: InsertCertification): Promise<Certification> {
-    const [newCert] = await db.insert(certifications).values(cert).returning();
+    const [{ next }] = await db
+      .select({ next: sql<number>`coalesce(max(${certifications.displayOrder}) + 1, 0)::int` })
+      .from(certifications)
+      .where(eq(certifications.profileId, cert.profileId));
+    const [newCert] = await db.insert(certifications).values({ ...cert, displayOrder: next }).returning();
     return newCert;
   }
 
+  async updateCertification(id: string, data: Partial<InsertCertification>): Promise<Certification> {
+    const [cert] = await db
+      .update(certifications)
+      .set(data)
+      .where(eq(certifications.id, id))
+      .returning();
+    return cert;
+  }
+
+  async reorderCertifications(profileId: string, ids: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      for (let index = 0; index < ids.length; index++) {
+        await tx
+          .update(certifications)
+          .set({ displayOrder: index })
+          .where(and(eq(certifications.id, ids[index]), eq(certifications.profileId, profileId)));
+      }
+    });
+  }
+
   async deleteCertification(id: string): Promise<void> {
     await db.delete(certifications).where(eq(certifications.id, id));
   }
 
+  // Resume operations
+  // Default first, then newest
+  async getResumes(userId: string): Promise<Resume[]> {
+    return await db
+      .select()
+      .from(resumes)
+      .where(eq(resumes.userId, userId))
+      .orderBy(desc(resumes.isDefault), desc(resumes.createdAt));
+  }
+
+  async getResume(id: string): Promise<Resume | undefined> {
+    const [resume] = await db.select().from(resumes).where(eq(resumes.id, id));
+    return resume || undefined;
+  }
+
+  // A seeker's first resume is always the default
+  async createResume(resume: InsertResume): Promise<Resume> {
+    return await db.transaction(async (tx) => {
+      await lockUserResumes(tx, resume.userId);
+      const [existing] = await tx.select({ id: resumes.id }).from(resumes).where(eq(resumes.userId, resume.userId)).limit(1);
+      const isDefault = resume.isDefault || !existing;
+      if (isDefault) {
+        await tx.update(resumes).set({ isDefault: false }).where(eq(resumes.userId, resume.userId));
+      }
+      const [created] = await tx.insert(resumes).values({ ...resume, isDefault }).returning();
+      if (isDefault) {
+        await syncProfileResume(tx, resume.userId);
+      }
+      return created;
+    });
+  }
+
+  async updateResume(id: string, updates: UpdateResume): Promise<Resume> {
+    return await db.transaction(async (tx) => {
+      const [{ userId }] = await tx.select({ userId: resumes.userId }).from(resumes).where(eq(resumes.id, id));
+      await lockUserResumes(tx, userId);
+      // Read again under the lock, since another write may have changed the default
+      const [resume] = await tx.select().from(resumes).where(eq(resumes.id, id));
+      if (updates.isDefault && !resume.isDefault) {
+        await tx.update(resumes).set({ isDefault: false }).where(eq(resumes.userId, resume.userId));
+      }
+      const [updated] = await tx
+        .update(resumes)
+        .set({ label: updates.label ?? resume.label, isDefault: updates.isDefault || resume.isDefault })
+        .where(eq(resumes.id, id))
+        .returning();
+      await syncProfileResume(tx, resume.userId);
+      return updated;
+    });
+  }
+
+  // The file stays in object storage for applications submitted with it. Deleting the
+  // default promotes the newest remaining resume.
+  async deleteResume(id: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [resume] = await tx.select({ userId: resumes.userId }).from(resumes).where(eq(resumes.id, id));
+      if (!resume) return;
+      await lockUserResumes(tx, resume.userId);
+      const [deleted] = await tx.delete(resumes).where(eq(resumes.id, id)).returning();
+      if (!deleted?.isDefault) return;
+      const [next] = await tx
+        .select({ id: resumes.id })
+        .from(resumes)
+        .where(eq(resumes.userId, deleted.userId))
+        .orderBy(desc(resumes.createdAt))
+        .limit(1);
+      if (next) {
+        await tx.update(resumes).set({ isDefault: true }).where(eq(resumes.id, next.id));
+      }
+      await syncProfileResume(tx, deleted.userId);
+    });
+  }
+
+  // The versions are kept; the profile just has no resume until one is made default again
+  async clearDefaultResume(userId: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await lockUserResumes(tx, userId);
+      await tx.update(resumes).set({ isDefault: false }).where(eq(resumes.userId, userId));
+      await syncProfileResume(tx, userId);
+    });
+  }
+
   // Employer Profile operations
   async getEmployerProfile(userId: string): Promise<EmployerProfile | undefined> {
     const [profile] = await db
@@ -267,6 +784,156 @@ export class DatabaseStorage implements IStorage {
     return await query.orderBy(desc(jobs.createdAt));
   }
 
+  async searchJobs(query: JobSearchQuery, options: JobSearchOptions = {}): Promise<JobSearchResult> {
+    const conditions: SQL[] = options.includeHidden
+      ? []
+      : [eq(jobs.isActive, true), eq(jobs.isFlagged, false), isOpenForApplications];
+
+    if (options.publishedBetween) {
+      conditions.push(
+        sql`${jobs.publishedAt} > ${options.publishedBetween.after}`,
+        sql`${jobs.publishedAt} <= ${options.publishedBetween.until}`,
+      );
+    }
+
+    const tsQuery = query.search ? buildPrefixTsQuery(query.search) : null;
+    // A search of only punctuation ("-") has no terms to match, so it finds nothing
+    // rather than falling through to every job
+    if (query.search?.trim() && !tsQuery) {
+      return { jobs: [], total: 0, page: query.page, limit: query.limit, hasMore: false };
+    }
+    const document = sql.raw(`(${JOB_SEARCH_DOCUMENT})`);
+    const matchQuery = sql`to_tsquery('english', ${tsQuery ?? ""})`;
+
+    // Trigram similarity on the short fields catches typos the stemmed tsquery misses
+    const titleSimilarity = sql`greatest(
+      word_similarity(${query.search ?? ""}, ${jobs.title}),
+      word_similarity(${query.search ?? ""}, coalesce(${jobs.companyName}, ''))
+    )`;
+    const searchRank = tsQuery
+      ? sql<number>`(ts_rank_cd(${document}, ${matchQuery}) + ${titleSimilarity} * 0.5)::real`
+      : sql<number>`0::real`;
+
+    if (tsQuery) {
+      // Operators rather than word_similarity() >= n, so Postgres can OR together the
+      // search and trigram indexes instead of scanning every job. Stopwords alone ("the")
+      // reduce to an empty tsquery, which finds nothing as well.
+      conditions.push(sql`numnode(${matchQuery}) > 0`, sql`(
+        ${document} @@ ${matchQuery}
+        or ${query.search} <% ${jobs.title}
+        or ${query.search} <% ${jobs.companyName}
+      )`);
+    }
+    if (query.location) {
+      // Besides the text itself, match the structured fields of any known place the
+      // text could mean, so "Zambo" finds jobs saved as "Zamboanga City"
+      const known = matchPhLocations(query.location);
+      const locationMatches: SQL[] = [ilike(jobs.location, `%${query.location}%`)];
+      if (known.cities.length > 0) locationMatches.push(inArray(jobs.locationCity, known.cities));
+      if (known.provinces.length > 0) locationMatches.push(inArray(jobs.locationProvince, known.provinces));
+      if (known.regions.length > 0) locationMatches.push(inArray(jobs.locationRegion, known.regions));
+      conditions.push(or(...locationMatches)!);
+    }
+
+    // Great-circle (haversine) distance from the chosen city, in km
+    const origin = query.nearCity ? getPhCity(query.nearCity) : undefined;
+    const distanceKm = origin
+      ? sql<number | null>`(${EARTH_RADIUS_KM} * 2 * asin(sqrt(
+          power(sin(radians(${jobs.latitude} - ${origin.latitude}) / 2), 2) +
+          cos(radians(${origin.latitude})) * cos(radians(${jobs.latitude})) *
+          power(sin(radians(${jobs.longitude} - ${origin.longitude}) / 2), 2)
+        )))::real`
+      : sql<number | null>`null`;
+    if (origin) {
+      const radiusKm = query.radiusKm ?? DEFAULT_SEARCH_RADIUS_KM;
+      // Bounding box first so idx_jobs_coordinates narrows the rows before the trig runs
+      const latDelta = radiusKm / KM_PER_DEGREE_LATITUDE;
+      const lngDelta = radiusKm / (KM_PER_DEGREE_LATITUDE * Math.cos((origin.latitude * Math.PI) / 180));
+      conditions.push(
+        between(jobs.latitude, origin.latitude - latDelta, origin.latitude + latDelta),
+        between(jobs.longitude, origin.longitude - lngDelta, origin.longitude + lngDelta),
+        sql`${distanceKm} <= ${radiusKm}`,
+      );
+    }
+    if (query.jobType) {
+      conditions.push(eq(jobs.jobType, query.jobType));
+    }
+    if (query.category) {
+      conditions.push(arrayContains(jobs.categories, [query.category]));
+    }
+    // A job qualifies when any part of its pay range falls inside the requested range
+    if (query.minSalary !== undefined) {
+      conditions.push(sql`coalesce(${jobs.salaryMonthlyMaxPhp}, ${jobs.salaryMonthlyMinPhp}) >= ${query.minSalary}`);
+    }
+    if (query.maxSalary !== undefined) {
+      conditions.push(sql`coalesce(${jobs.salaryMonthlyMinPhp}, ${jobs.salaryMonthlyMaxPhp}) <= ${query.maxSalary}`);
+    }
+
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    // Most recent first is the tie-breaker for every sort so paging stays stable
+    let orderBy: SQL[];
+    switch (query.sort) {
+      case "salary":
+        orderBy = [sql`coalesce(${jobs.salaryMonthlyMaxPhp}, ${jobs.salaryMonthlyMinPhp}) desc nulls last`, desc(jobs.createdAt)];
+        break;
+      case "relevance":
+        orderBy = [desc(searchRank), desc(jobs.createdAt)];
+        break;
+      case "distance":
+        orderBy = origin ? [sql`${distanceKm} asc`, desc(jobs.createdAt)] : [desc(jobs.createdAt)];
+        break;
+      default:
+        orderBy = [desc(jobs.createdAt)];
+    }
+
+    const highlightTitle = tsQuery
+      ? sql<string | null>`ts_headline('english', ${jobs.title}, ${matchQuery}, ${`${SEARCH_HEADLINE_OPTIONS}, HighlightAll=true`})`
+      : sql<string | null>`null`;
+    const highlightSnippet = tsQuery
+      ? sql<string | null>`ts_headline('english', ${jobs.description}, ${matchQuery}, ${SEARCH_HEADLINE_OPTIONS})`
+      : sql<string | null>`null`;
+
+    const offset = (query.page - 1) * query.limit;
+    const fetchPage = (executor: typeof db | Transaction) => Promise.all([
+      executor
+        .select({ ...getTableColumns(jobs), searchRank, highlightTitle, highlightSnippet, distanceKm })
+        .from(jobs)
+        .where(where)
+        .orderBy(...orderBy, desc(jobs.id))
+        .limit(query.limit)
+        .offset(offset),
+      executor.select({ total: count() }).from(jobs).where(where),
+    ]);
+    // The threshold is set for this transaction only, so pooled connections keep the default
+    const [rows, [{ total }]] = tsQuery
+      ? await db.transaction(async (tx) => {
+          await tx.execute(sql`select set_config('pg_trgm.word_similarity_threshold', ${String(TYPO_SIMILARITY_THRESHOLD)}, true)`);
+          return await fetchPage(tx);
+        })
+      : await fetchPage(db);
+
+    const hits: JobSearchHit[] = rows.map(({ highlightTitle, highlightSnippet, searchRank, distanceKm, ...job }) => {
+      const hit: JobSearchHit = job;
+      if (tsQuery) {
+        hit.searchRank = searchRank;
+        hit.highlight = { title: highlightTitle ?? job.title, snippet: highlightSnippet ?? "" };
+      }
+      if (distanceKm !== null) {
+        hit.distanceKm = distanceKm;
+      }
+      return hit;
+    });
+
+    return {
+      jobs: hits,
+      total,
+      page: query.page,
+      limit: query.limit,
+      hasMore: offset + rows.length < total,
+    };
+  }
+
   async getJob(id: string): Promise<Job | undefined> {
     const [job] = await db.select().from(jobs).where(eq(jobs.id, id));
     return job || undefined;
@@ -286,9 +953,18 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateJob(id: string, data: Partial<Job>): Promise<Job> {
+    // A hidden job that is activated or unflagged counts as newly published.
+    // SET expressions see the row as it was before the update.
+    const visibilityChanges = data.isActive !== undefined || data.isFlagged !== undefined;
     const [job] = await db
       .update(jobs)
-      .set({ ...data, updatedAt: new Date() })
+      .set({
+        ...data,
+        ...(visibilityChanges && {
+          publishedAt: sql`case when ${jobs.isActive} and not ${jobs.isFlagged} then ${jobs.publishedAt} else now() end`,
+        }),
+        updatedAt: new Date(),
+      })
       .where(eq(jobs.id, id))
       .returning();
     return job;
@@ -298,6 +974,61 @@ export class DatabaseStorage implements IStorage {
     await db.delete(jobs).where(eq(jobs.id, id));
   }
 
+  // Job Match operations
+  async getJobMatchesBySeeker(seekerId: string): Promise<JobMatch[]> {
+    return await db.select().from(jobMatches).where(eq(jobMatches.seekerId, seekerId));
+  }
+
+  async getJobMatchesByJob(jobId: string): Promise<JobMatch[]> {
+    return await db.select().from(jobMatches).where(eq(jobMatches.jobId, jobId));
+  }
+
+  async upsertJobMatch(match: InsertJobMatch): Promise<JobMatch> {
+    const [saved] = await db
+      .insert(jobMatches)
+      .values(match)
+      .onConflictDoUpdate({
+        target: [jobMatches.seekerId, jobMatches.jobId],
+        set: { ...match, computedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async getRecommendedJobs(seekerId: string, minScore: number): Promise<RecommendedJob[]> {
+    const rows = await db
+      .select({ job: jobs, matchScore: jobMatches.matchScore, reasoning: jobMatches.reasoning })
+      .from(jobMatches)
+      .innerJoin(jobs, eq(jobMatches.jobId, jobs.id))
+      .where(and(
+        eq(jobMatches.seekerId, seekerId),
+        eq(jobs.isActive, true),
+        eq(jobs.isFlagged, false),
+        isOpenForApplications,
+        gte(jobMatches.matchScore, minScore),
+      ))
+      .orderBy(desc(jobMatches.matchScore), desc(jobs.createdAt));
+
+    return rows.map(({ job, matchScore, reasoning }) => ({
+      ...job,
+      aiMatchScore: matchScore,
+      aiMatchReasoning: reasoning,
+    }));
+  }
+
+  async getCandidateMatches(jobIds: string[], minScore: number): Promise<CandidateMatch[]> {
+    if (jobIds.length === 0) {
+      return [];
+    }
+    return await db
+      .select({ match: jobMatches, user: users, profile: jobSeekerProfiles })
+      .from(jobMatches)
+      .innerJoin(users, eq(jobMatches.seekerId, users.id))
+      .innerJoin(jobSeekerProfiles, eq(jobSeekerProfiles.userId, users.id))
+      .where(and(inArray(jobMatches.jobId, jobIds), gte(jobMatches.matchScore, minScore)))
+      .orderBy(desc(jobMatches.matchScore));
+  }
+
   // Application operations
   async getAllApplications(): Promise<Application[]> {
     return await db
@@ -331,9 +1062,26 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(applications.createdAt));
   }
 
-  async createApplication(application: InsertApplication): Promise<Application> {
-    const [app] = await db.insert(applications).values(application).returning();
-    return app;
+  async getApplicationByJobAndSeeker(jobId: string, seekerId: string): Promise<Application | undefined> {
+    const [app] = await db
+      .select()
+      .from(applications)
+      .where(and(eq(applications.jobId, jobId), eq(applications.seekerId, seekerId)))
+      .limit(1);
+    return app || undefined;
+  }
+
+  // Returns the existing application with inserted: false when the seeker has already
+  // applied, so a double-submitted apply never creates a second row
+  async createApplication(application: InsertApplication): Promise<{ application: Application; inserted: boolean }> {
+    const [app] = await db
+      .insert(applications)
+      .values(application)
+      .onConflictDoNothing({ target: [applications.jobId, applications.seekerId] })
+      .returning();
+    if (app) return { application: app, inserted: true };
+    const existing = await this.getApplicationByJobAndSeeker(application.jobId, application.seekerId);
+    return { application: existing!, inserted: false };
   }
 
   async updateApplication(id: string, data: Partial<Application>): Promise<Application> {
@@ -345,6 +1093,695 @@ export class DatabaseStorage implements IStorage {
     return app;
   }
 
+  async withdrawApplication(application: Application, reason: string | null): Promise<Application> {
+    return await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(applications)
+        .set({ status: "withdrawn", updatedAt: new Date() })
+        .where(eq(applications.id, application.id))
+        .returning();
+      await tx.insert(applicationEvents).values({
+        applicationId: application.id,
+        type: "withdrawn",
+        actorId: application.seekerId,
+        fromStatus: application.status,
+        toStatus: "withdrawn",
+        note: reason,
+      });
+      return updated;
+    });
+  }
+
+  // Hiring Pipeline operations
+  private async withStages(templates: (typeof pipelineTemplates.$inferSelect)[]): Promise<PipelineTemplateWithStages[]> {
+    if (templates.length === 0) return [];
+    const stages = await db
+      .select()
+      .from(pipelineStages)
+      .where(inArray(pipelineStages.templateId, templates.map(t => t.id)))
+      .orderBy(pipelineStages.position);
+    return templates.map(template => ({
+      ...template,
+      stages: stages.filter(stage => stage.templateId === template.id),
+    }));
+  }
+
+  async getPipelineTemplatesByEmployer(employerId: string): Promise<PipelineTemplateWithStages[]> {
+    const templates = await db
+      .select()
+      .from(pipelineTemplates)
+      .where(eq(pipelineTemplates.employerId, employerId))
+      .orderBy(desc(pipelineTemplates.isDefault), pipelineTemplates.createdAt);
+    return await this.withStages(templates);
+  }
+
+  async getPipelineTemplate(id: string): Promise<PipelineTemplateWithStages | undefined> {
+    const [template] = await this.withStages(
+      await db.select().from(pipelineTemplates).where(eq(pipelineTemplates.id, id))
+    );
+    return template;
+  }
+
+  // Every employer gets the standard five-stage pipeline the first time one is needed
+  async getDefaultPipelineTemplate(employerId: string): Promise<PipelineTemplateWithStages> {
+    const findDefault = async () => {
+      const [template] = await this.withStages(
+        await db
+          .select()
+          .from(pipelineTemplates)
+          .where(and(eq(pipelineTemplates.employerId, employerId), eq(pipelineTemplates.isDefault, true)))
+      );
+      return template;
+    };
+
+    const existing = await findDefault();
+    if (existing) return existing;
+
+    await db.transaction(async (tx) => {
+      // The partial unique index makes a concurrent second default a no-op
+      const [template] = await tx
+        .insert(pipelineTemplates)
+        .values({ employerId, name: DEFAULT_PIPELINE_NAME, isDefault: true })
+        .onConflictDoNothing()
+        .returning();
+      if (!template) return;
+      await tx.insert(pipelineStages).values(
+        DEFAULT_PIPELINE_STAGES.map((stage, position) => ({ ...stage, position, templateId: template.id }))
+      );
+    });
+    return (await findDefault())!;
+  }
+
+  async getJobPipeline(job: Job): Promise<PipelineTemplateWithStages> {
+    const template = job.pipelineTemplateId ? await this.getPipelineTemplate(job.pipelineTemplateId) : undefined;
+    return template ?? await this.getDefaultPipelineTemplate(job.employerId);
+  }
+
+  async createPipelineTemplate(employerId: string, input: PipelineTemplateInput): Promise<PipelineTemplateWithStages> {
+    const templateId = await db.transaction(async (tx) => {
+      if (input.isDefault) {
+        await tx
+          .update(pipelineTemplates)
+          .set({ isDefault: false, updatedAt: new Date() })
+          .where(eq(pipelineTemplates.employerId, employerId));
+      }
+      const [template] = await tx
+        .insert(pipelineTemplates)
+        .values({ employerId, name: input.name, isDefault: input.isDefault ?? false })
+        .returning();
+      await tx.insert(pipelineStages).values(
+        input.stages.map((stage, position) => ({ name: stage.name, status: stage.status, position, templateId: template.id }))
+      );
+      return template.id;
+    });
+    return (await this.getPipelineTemplate(templateId))!;
+  }
+
+  // Stages that keep their id are updated in place so applications in them don't move;
+  // stages missing from the input are deleted and their applications fall back by status
+  async updatePipelineTemplate(id: string, input: PipelineTemplateInput): Promise<PipelineTemplateWithStages> {
+    await db.transaction(async (tx) => {
+      const [template] = await tx.select().from(pipelineTemplates).where(eq(pipelineTemplates.id, id));
+      if (input.isDefault && !template.isDefault) {
+        await tx
+          .update(pipelineTemplates)
+          .set({ isDefault: false, updatedAt: new Date() })
+          .where(eq(pipelineTemplates.employerId, template.employerId));
+      }
+      await tx
+        .update(pipelineTemplates)
+        .set({ name: input.name, isDefault: input.isDefault || template.isDefault, updatedAt: new Date() })
+        .where(eq(pipelineTemplates.id, id));
+
+      const existingIds = new Set(
+        (await tx.select({ id: pipelineStages.id }).from(pipelineStages).where(eq(pipelineStages.templateId, id)))
+          .map(stage => stage.id)
+      );
+      const keptIds = input.stages.flatMap(stage => (stage.id && existingIds.has(stage.id) ? [stage.id] : []));
+      const removedIds = Array.from(existingIds).filter(stageId => !keptIds.includes(stageId));
+      if (removedIds.length > 0) {
+        await tx.delete(pipelineStages).where(inArray(pipelineStages.id, removedIds));
+      }
+
+      for (let position = 0; position < input.stages.length; position++) {
+        const stage = input.stages[position];
+        if (stage.id && existingIds.has(stage.id)) {
+          await tx
+            .update(pipelineStages)
+            .set({ name: stage.name, status: stage.status, position })
+            .where(eq(pipelineStages.id, stage.id));
+        } else {
+          await tx.insert(pipelineStages).values({ name: stage.name, status: stage.status, position, templateId: id });
+        }
+      }
+    });
+    return (await this.getPipelineTemplate(id))!;
+  }
+
+  async deletePipelineTemplate(id: string): Promise<void> {
+    await db.delete(pipelineTemplates).where(eq(pipelineTemplates.id, id));
+  }
+
+  async moveApplicationToStage(
+    application: Application,
+    from: PipelineStage | undefined,
+    to: PipelineStage,
+    actorId: string | null
+  ): Promise<Application | undefined> {
+    const [updated] = await this.moveApplicationsToStage([{ application, from }], to, actorId);
+    return updated;
+  }
+
+  // All moves commit together or not at all, each with its own stage_changed event. An
+  // application withdrawn since it was read is left alone and gets no event.
+  async moveApplicationsToStage(moves: ApplicationStageMove[], to: PipelineStage, actorId: string | null): Promise<Application[]> {
+    if (moves.length === 0) return [];
+    return await db.transaction(async (tx) => {
+      const updated = await tx
+        .update(applications)
+        .set({ stageId: to.id, status: to.status, updatedAt: new Date() })
+        .where(and(
+          inArray(applications.id, moves.map(({ application }) => application.id)),
+          ne(applications.status, "withdrawn")
+        ))
+        .returning();
+      if (updated.length === 0) return [];
+      const movedIds = new Set(updated.map(application => application.id));
+      await tx.insert(applicationEvents).values(
+        moves.filter(({ application }) => movedIds.has(application.id)).map(({ application, from }) => ({
+          applicationId: application.id,
+          type: "stage_changed" as const,
+          actorId,
+          fromStageId: from?.id ?? null,
+          fromStageName: from?.name ?? null,
+          toStageId: to.id,
+          toStageName: to.name,
+          fromStatus: application.status,
+          toStatus: to.status,
+        }))
+      );
+      return updated;
+    });
+  }
+
+  // Application Event operations
+  async createApplicationEvent(event: InsertApplicationEvent): Promise<ApplicationEvent> {
+    const [created] = await db.insert(applicationEvents).values(event).returning();
+    return created;
+  }
+
+  async rateApplication(applicationId: string, rating: number, actorId: string): Promise<Application> {
+    return await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(applications)
+        .set({ rating, updatedAt: new Date() })
+        .where(eq(applications.id, applicationId))
+        .returning();
+      await tx.insert(applicationEvents).values({ applicationId, type: "rating", actorId, rating });
+      return updated;
+    });
+  }
+
+  async getApplicationEvents(applicationId: string): Promise<ApplicationTimelineEvent[]> {
+    return await db
+      .select({
+        ...getTableColumns(applicationEvents),
+        actorName: sql<string | null>`nullif(trim(concat_ws(' ', ${users.firstName}, ${users.lastName})), '')`,
+      })
+      .from(applicationEvents)
+      .leftJoin(users, eq(applicationEvents.actorId, users.id))
+      .where(eq(applicationEvents.applicationId, applicationId))
+      .orderBy(desc(applicationEvents.createdAt));
+  }
+
+  // Message operations
+  async getConversations(userId: string): Promise<ConversationSummary[]> {
+    const threads = await db
+      .select({ applicationId: messages.applicationId })
+      .from(messages)
+      .where(or(eq(messages.senderId, userId), eq(messages.recipientId, userId)))
+      .groupBy(messages.applicationId)
+      .orderBy(desc(sql`max(${messages.createdAt})`));
+    if (threads.length === 0) return [];
+
+    // One query per table for all threads rather than several per thread
+    const applicationIds = threads.map(thread => thread.applicationId);
+    const [threadApplications, lastMessages, unreadCounts] = await Promise.all([
+      db.select().from(applications).where(inArray(applications.id, applicationIds)),
+      db
+        .selectDistinctOn([messages.applicationId])
+        .from(messages)
+        .where(inArray(messages.applicationId, applicationIds))
+        .orderBy(messages.applicationId, desc(messages.createdAt)),
+      db
+        .select({ applicationId: messages.applicationId, count: count() })
+        .from(messages)
+        .where(and(
+          inArray(messages.applicationId, applicationIds),
+          eq(messages.recipientId, userId),
+          isNull(messages.readAt)
+        ))
+        .groupBy(messages.applicationId),
+    ]);
+    const threadJobs = await db
+      .select()
+      .from(jobs)
+      .where(inArray(jobs.id, Array.from(new Set(threadApplications.map(application => application.jobId)))));
+    const jobsById = new Map(threadJobs.map(job => [job.id, job]));
+    const otherPartyIds = threadApplications.map(application =>
+      application.seekerId === userId ? jobsById.get(application.jobId)?.employerId : application.seekerId
+    ).filter((id): id is string => !!id);
+    const otherParties = otherPartyIds.length > 0
+      ? await db.select().from(users).where(inArray(users.id, Array.from(new Set(otherPartyIds))))
+      : [];
+
+    const applicationsById = new Map(threadApplications.map(application => [application.id, application]));
+    const usersById = new Map(otherParties.map(user => [user.id, user]));
+    const lastMessageByThread = new Map(lastMessages.map(message => [message.applicationId, message]));
+    const unreadByThread = new Map(unreadCounts.map(row => [row.applicationId, row.count]));
+
+    const conversations: ConversationSummary[] = [];
+    for (const { applicationId } of threads) {
+      const application = applicationsById.get(applicationId);
+      const job = application && jobsById.get(application.jobId);
+      if (application && job) {
+        const otherId = application.seekerId === userId ? job.employerId : application.seekerId;
+        conversations.push(conversationSummary(
+          application,
+          job,
+          userId,
+          usersById.get(otherId),
+          lastMessageByThread.get(applicationId),
+          unreadByThread.get(applicationId) ?? 0
+        ));
+      }
+    }
+    return conversations;
+  }
+
+  // Summary of one thread as seen by userId, who must be the seeker or the job's employer
+  async getConversation(application: Application, job: Job, userId: string): Promise<ConversationSummary> {
+    const isSeeker = application.seekerId === userId;
+    const [other, [lastMessage], [unread]] = await Promise.all([
+      this.getUser(isSeeker ? job.employerId : application.seekerId),
+      db
+        .select()
+        .from(messages)
+        .where(eq(messages.applicationId, application.id))
+        .orderBy(desc(messages.createdAt))
+        .limit(1),
+      db
+        .select({ count: count() })
+        .from(messages)
+        .where(and(
+          eq(messages.applicationId, application.id),
+          eq(messages.recipientId, userId),
+          isNull(messages.readAt)
+        )),
+    ]);
+    return conversationSummary(application, job, userId, other, lastMessage, unread.count);
+  }
+
+  async getMessages(applicationId: string): Promise<Message[]> {
+    return await db
+      .select()
+      .from(messages)
+      .where(eq(messages.applicationId, applicationId))
+      .orderBy(messages.createdAt);
+  }
+
+  async createMessage(message: InsertMessage): Promise<Message> {
+    const [created] = await db.insert(messages).values(message).returning();
+    return created;
+  }
+
+  async markMessagesRead(applicationId: string, recipientId: string): Promise<void> {
+    await db
+      .update(messages)
+      .set({ readAt: new Date() })
+      .where(and(
+        eq(messages.applicationId, applicationId),
+        eq(messages.recipientId, recipientId),
+        isNull(messages.readAt)
+      ));
+  }
+
+  async getUnreadMessageCount(userId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(messages)
+      .where(and(eq(messages.recipientId, userId), isNull(messages.readAt)));
+    return result.count;
+  }
+
+  async getMessageByAttachment(objectPath: string): Promise<Message | undefined> {
+    const [message] = await db.select().from(messages).where(eq(messages.attachmentUrl, objectPath)).limit(1);
+    return message;
+  }
+
+  // Unread messages older than the cutoff that haven't triggered an email yet
+  async getUnnotifiedMessages(olderThan: Date): Promise<Message[]> {
+    return await db
+      .select()
+      .from(messages)
+      .where(and(
+        isNull(messages.readAt),
+        isNull(messages.emailNotifiedAt),
+        lt(messages.createdAt, olderThan)
+      ))
+      .orderBy(messages.createdAt);
+  }
+
+  async markMessagesEmailNotified(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await db.update(messages).set({ emailNotifiedAt: new Date() }).where(inArray(messages.id, ids));
+  }
+
+  // Interview operations
+  async getInterview(id: string): Promise<Interview | undefined> {
+    const [interview] = await db.select().from(interviews).where(eq(interviews.id, id));
+    return interview;
+  }
+
+  async getInterviewsByApplication(applicationId: string): Promise<Interview[]> {
+    return await db
+      .select()
+      .from(interviews)
+      .where(eq(interviews.applicationId, applicationId))
+      .orderBy(desc(interviews.createdAt));
+  }
+
+  // Interviews where the user is the applicant or the employer who owns the job
+  async getInterviewsForUser(userId: string): Promise<InterviewWithDetails[]> {
+    return await db
+      .select({
+        ...getTableColumns(interviews),
+        jobId: jobs.id,
+        jobTitle: jobs.title,
+        companyName: jobs.companyName,
+        seekerName: sql<string>`trim(concat_ws(' ', ${users.firstName}, ${users.lastName}))`,
+      })
+      .from(interviews)
+      .innerJoin(applications, eq(interviews.applicationId, applications.id))
+      .innerJoin(jobs, eq(applications.jobId, jobs.id))
+      .innerJoin(users, eq(applications.seekerId, users.id))
+      .where(or(eq(applications.seekerId, userId), eq(jobs.employerId, userId)))
+      .orderBy(desc(interviews.createdAt));
+  }
+
+  async createInterview(interview: InsertInterview, eventNote: string): Promise<Interview> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(interviews).values(interview).returning();
+      await tx.insert(applicationEvents).values({
+        applicationId: created.applicationId,
+        type: "interview",
+        actorId: created.createdBy,
+        note: eventNote,
+      });
+      return created;
+    });
+  }
+
+  // Changes that matter to the candidate are recorded in the application's timeline;
+  // bookkeeping like reminder flags is saved without an event
+  async updateInterview(id: string, data: Partial<Interview>, event?: { actorId: string | null; note: string }): Promise<Interview> {
+    return await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(interviews)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(interviews.id, id))
+        .returning();
+      if (event) {
+        await tx.insert(applicationEvents).values({
+          applicationId: updated.applicationId,
+          type: "interview",
+          actorId: event.actorId,
+          note: event.note,
+        });
+      }
+      return updated;
+    });
+  }
+
+  // Scheduled interviews in the next 24 hours still owed a 24h or 1h reminder
+  async getInterviewsNeedingReminders(now: Date): Promise<Interview[]> {
+    const inOneHour = new Date(now.getTime() + 60 * 60 * 1000);
+    const inOneDay = new Date(now.getTime() + 24 * 60 * 60 * 1000);
+    return await db
+      .select()
+      .from(interviews)
+      .where(and(
+        eq(interviews.status, "scheduled"),
+        gt(interviews.scheduledAt, now),
+        lte(interviews.scheduledAt, inOneDay),
+        or(
+          isNull(interviews.reminder24hSentAt),
+          and(lte(interviews.scheduledAt, inOneHour), isNull(interviews.reminder1hSentAt))
+        )
+      ));
+  }
+
+  // Notification operations
+  async createNotifications(rows: InsertNotification[]): Promise<Notification[]> {
+    if (rows.length === 0) return [];
+    return await db.insert(notifications).values(rows).returning();
+  }
+
+  async getNotifications(userId: string, limit: number): Promise<Notification[]> {
+    return await db
+      .select()
+      .from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt))
+      .limit(limit);
+  }
+
+  async getUnreadNotificationCount(userId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+    return result.count;
+  }
+
+  // Scoped to the owner so users can't mark each other's notifications
+  async markNotificationRead(id: string, userId: string): Promise<Notification | undefined> {
+    const [updated] = await db
+      .update(notifications)
+      .set({ readAt: sql`coalesce(${notifications.readAt}, now())` })
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+      .returning();
+    return updated;
+  }
+
+  async markAllNotificationsRead(userId: string): Promise<void> {
+    await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+  }
+
+  async getNotificationPreferences(userIds: string[]): Promise<NotificationPreference[]> {
+    if (userIds.length === 0) return [];
+    return await db
+      .select()
+      .from(notificationPreferences)
+      .where(inArray(notificationPreferences.userId, userIds));
+  }
+
+  async setNotificationPreferences(userId: string, preferences: NotificationPreferenceSetting[]): Promise<void> {
+    if (preferences.length === 0) return;
+    await db
+      .insert(notificationPreferences)
+      .values(preferences.map(pref => ({ ...pref, userId })))
+      .onConflictDoUpdate({
+        target: [notificationPreferences.userId, notificationPreferences.event, notificationPreferences.channel],
+        set: { frequency: sql`excluded.frequency`, updatedAt: new Date() },
+      });
+  }
+
+  async createDigestItem(item: InsertNotificationDigestItem): Promise<NotificationDigestItem> {
+    const [created] = await db.insert(notificationDigestItems).values(item).returning();
+    return created;
+  }
+
+  // Grouped by user, oldest first within each, so the scheduler can send one email per user
+  async getDueDigestItems(frequency: DigestFrequency, createdBefore: Date): Promise<NotificationDigestItem[]> {
+    return await db
+      .select()
+      .from(notificationDigestItems)
+      .where(and(eq(notificationDigestItems.frequency, frequency), lt(notificationDigestItems.createdAt, createdBefore)))
+      .orderBy(notificationDigestItems.userId, notificationDigestItems.createdAt);
+  }
+
+  async deleteDigestItems(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await db.delete(notificationDigestItems).where(inArray(notificationDigestItems.id, ids));
+  }
+
+  // Email outbox operations
+  async createOutboxEmail(email: InsertOutboxEmail): Promise<OutboxEmail> {
+    const [created] = await db.insert(emailOutbox).values(email).returning();
+    return created;
+  }
+
+  // Takes a lease on due emails and counts the attempt up front. SKIP LOCKED keeps two
+  // senders (e.g. during a deploy) from claiming the same row.
+  async claimDueOutboxEmails(now: Date, leaseUntil: Date, limit: number): Promise<OutboxEmail[]> {
+    const due = db
+      .select({ id: emailOutbox.id })
+      .from(emailOutbox)
+      .where(and(eq(emailOutbox.status, "pending"), lte(emailOutbox.nextAttemptAt, now)))
+      .orderBy(emailOutbox.nextAttemptAt)
+      .limit(limit)
+      .for("update", { skipLocked: true });
+    return await db
+      .update(emailOutbox)
+      .set({ nextAttemptAt: leaseUntil, attempts: sql`${emailOutbox.attempts} + 1` })
+      .where(inArray(emailOutbox.id, due))
+      .returning();
+  }
+
+  // redactedHtml replaces the stored body, for emails that shouldn't outlive their delivery
+  async markOutboxEmailSent(id: string, provider: string, providerMessageId: string | null, redactedHtml?: string): Promise<void> {
+    await db
+      .update(emailOutbox)
+      .set({ status: "sent", provider, providerMessageId, sentAt: new Date(), lastError: null, ...(redactedHtml !== undefined && { html: redactedHtml }) })
+      .where(eq(emailOutbox.id, id));
+  }
+
+  // retryAt null means the email has used up its attempts
+  async markOutboxEmailFailed(id: string, error: string, retryAt: Date | null): Promise<void> {
+    await db
+      .update(emailOutbox)
+      .set(retryAt ? { lastError: error, nextAttemptAt: retryAt } : { lastError: error, status: "failed" })
+      .where(eq(emailOutbox.id, id));
+  }
+
+  async getOutboxEmails(status: OutboxEmail["status"] | undefined, limit: number): Promise<OutboxEmail[]> {
+    return await db
+      .select()
+      .from(emailOutbox)
+      .where(status ? eq(emailOutbox.status, status) : undefined)
+      .orderBy(desc(emailOutbox.createdAt))
+      .limit(limit);
+  }
+
+  // Gives a failed email a fresh set of attempts, starting now
+  async retryOutboxEmail(id: string): Promise<OutboxEmail | undefined> {
+    const [updated] = await db
+      .update(emailOutbox)
+      .set({ status: "pending", attempts: 0, nextAttemptAt: new Date() })
+      .where(and(eq(emailOutbox.id, id), eq(emailOutbox.status, "failed")))
+      .returning();
+    return updated;
+  }
+
+  async deleteFinishedOutboxEmails(before: Date): Promise<number> {
+    const deleted = await db
+      .delete(emailOutbox)
+      .where(and(inArray(emailOutbox.status, ["sent", "failed"]), lt(emailOutbox.createdAt, before)))
+      .returning({ id: emailOutbox.id });
+    return deleted.length;
+  }
+
+  // Saved Job operations
+  async getSavedJobsBySeeker(seekerId: string): Promise<SavedJobWithJob[]> {
+    const rows = await db
+      .select({ savedJob: savedJobs, job: jobs })
+      .from(savedJobs)
+      .innerJoin(jobs, eq(savedJobs.jobId, jobs.id))
+      .where(eq(savedJobs.seekerId, seekerId))
+      .orderBy(desc(savedJobs.createdAt));
+    return rows.map(({ savedJob, job }) => ({ ...savedJob, job }));
+  }
+
+  async getSavedJobIds(seekerId: string): Promise<string[]> {
+    const rows = await db
+      .select({ jobId: savedJobs.jobId })
+      .from(savedJobs)
+      .where(eq(savedJobs.seekerId, seekerId));
+    return rows.map(row => row.jobId);
+  }
+
+  // Saving twice is a no-op that returns the existing bookmark
+  async saveJob(seekerId: string, jobId: string): Promise<SavedJob> {
+    const [saved] = await db
+      .insert(savedJobs)
+      .values({ seekerId, jobId })
+      .onConflictDoNothing({ target: [savedJobs.seekerId, savedJobs.jobId] })
+      .returning();
+    if (saved) return saved;
+
+    const [existing] = await db
+      .select()
+      .from(savedJobs)
+      .where(and(eq(savedJobs.seekerId, seekerId), eq(savedJobs.jobId, jobId)));
+    return existing;
+  }
+
+  async unsaveJob(seekerId: string, jobId: string): Promise<void> {
+    await db.delete(savedJobs).where(and(eq(savedJobs.seekerId, seekerId), eq(savedJobs.jobId, jobId)));
+  }
+
+  // Saved Search operations
+  async getAllSavedSearches(): Promise<SavedSearch[]> {
+    return await db.select().from(savedSearches);
+  }
+
+  async getSavedSearchesByUser(userId: string): Promise<SavedSearch[]> {
+    return await db
+      .select()
+      .from(savedSearches)
+      .where(eq(savedSearches.userId, userId))
+      .orderBy(desc(savedSearches.createdAt));
+  }
+
+  async getSavedSearch(id: string): Promise<SavedSearch | undefined> {
+    const [search] = await db.select().from(savedSearches).where(eq(savedSearches.id, id));
+    return search || undefined;
+  }
+
+  async getSavedSearchByUnsubscribeToken(token: string): Promise<SavedSearch | undefined> {
+    const [search] = await db.select().from(savedSearches).where(eq(savedSearches.unsubscribeToken, token));
+    return search || undefined;
+  }
+
+  async createSavedSearch(search: InsertSavedSearch & { userId: string }): Promise<SavedSearch> {
+    const [newSearch] = await db.insert(savedSearches).values(search).returning();
+    return newSearch;
+  }
+
+  async updateSavedSearch(id: string, data: Partial<SavedSearch>): Promise<SavedSearch> {
+    const [search] = await db
+      .update(savedSearches)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(savedSearches.id, id))
+      .returning();
+    return search;
+  }
+
+  async deleteSavedSearch(id: string): Promise<void> {
+    await db.delete(savedSearches).where(eq(savedSearches.id, id));
+  }
+
+  // Increments in SQL so a seeker clearing the count at the same time isn't overwritten
+  async recordSavedSearchMatches(id: string, jobIds: string[], checkedAt: Date, queueForEmail: boolean): Promise<SavedSearch> {
+    const ids = sql.join(jobIds.map(jobId => sql`${jobId}`), sql`, `);
+    const [search] = await db
+      .update(savedSearches)
+      .set({
+        newJobCount: sql`${savedSearches.newJobCount} + ${jobIds.length}`,
+        ...(queueForEmail && jobIds.length > 0
+          ? { pendingJobIds: sql`array_cat(${savedSearches.pendingJobIds}, array[${ids}]::text[])` }
+          : {}),
+        lastCheckedAt: checkedAt,
+      })
+      .where(eq(savedSearches.id, id))
+      .returning();
+    return search;
+  }
+
   // Fraud Alert operations
   async getAllFraudAlerts(): Promise<FraudAlert[]> {
     return await db
@@ -396,6 +1833,9 @@ export class DatabaseStorage implements IStorage {
     // Get all users with aggregated statistics and full details
     const allUsers = await this.getAllUsers();
     const allFraudAlerts = await this.getAllFraudAlerts();
+    const seekerProfiles = await this.getAllJobSeekerProfiles();
+    const seekerProfilesByUser = new Map(seekerProfiles.map(profile => [profile.userId, profile]));
+    const completenessByProfile = await this.getProfilesCompleteness(seekerProfiles);
     
     const usersWithStats = await Promise.all(
       allUsers.map(async (user) => {
@@ -428,10 +1868,13 @@ export class DatabaseStorage implements IStorage {
         }
 
         if (user.role === 'job_seeker') {
-          const profile = await this.getJobSeekerProfile(user.id);
+          const profile = seekerProfilesByUser.get(user.id);
           const apps = await this.getApplicationsBySeeker(profile?.id || '');
           stats.totalApplications = apps.length;
-          stats.profileComplete = !!profile?.headline;
+          const completeness = profile ? completenessByProfile.get(profile.id) : undefined;
+          stats.profileCompleteness = completeness?.score ?? 0;
+          stats.profileComplete = completeness?.score === 100;
+          stats.profileMissing = completeness?.items.filter(item => !item.complete).map(item => item.label) ?? [];
           
           // Include profile details
           if (profile) {
@@ -547,6 +1990,53 @@ export class DatabaseStorage implements IStorage {
     return newLog;
   }
 
+  // AI Usage operations
+  async createAiUsageLog(log: InsertAiUsageLog): Promise<AiUsageLog> {
+    const [newLog] = await db.insert(aiUsageLogs).values(log).returning();
+    return newLog;
+  }
+
+  async getAiUsageSummary(since: Date): Promise<AiUsageSummary> {
+    const inPeriod = gte(aiUsageLogs.createdAt, since);
+    const day = sql<string>`to_char(date_trunc('day', ${aiUsageLogs.createdAt}), 'YYYY-MM-DD')`;
+
+    const [byTaskModel, daily, recentErrors] = await Promise.all([
+      db
+        .select({
+          task: aiUsageLogs.task,
+          model: aiUsageLogs.model,
+          calls: count(),
+          errors: sql<number>`count(*) filter (where ${aiUsageLogs.status} = 'error')::int`,
+          promptTokens: sql<number>`coalesce(sum(${aiUsageLogs.promptTokens}), 0)::int`,
+          completionTokens: sql<number>`coalesce(sum(${aiUsageLogs.completionTokens}), 0)::int`,
+          costUsd: sql<number>`coalesce(sum(${aiUsageLogs.costUsd}), 0)::float8`,
+          avgLatencyMs: sql<number>`coalesce(avg(${aiUsageLogs.latencyMs}), 0)::int`,
+        })
+        .from(aiUsageLogs)
+        .where(inPeriod)
+        .groupBy(aiUsageLogs.task, aiUsageLogs.model)
+        .orderBy(desc(sql`sum(${aiUsageLogs.costUsd})`)),
+      db
+        .select({
+          date: day,
+          calls: count(),
+          costUsd: sql<number>`coalesce(sum(${aiUsageLogs.costUsd}), 0)::float8`,
+        })
+        .from(aiUsageLogs)
+        .where(inPeriod)
+        .groupBy(day)
+        .orderBy(day),
+      db
+        .select()
+        .from(aiUsageLogs)
+        .where(and(inPeriod, eq(aiUsageLogs.status, "error")))
+        .orderBy(desc(aiUsageLogs.createdAt))
+        .limit(20),
+    ]);
+
+    return { byTaskModel, daily, recentErrors };
+  }
+
   // Contact Message operations
   async getAllContactMessages(): Promise<ContactMessage[]> {
     return await db
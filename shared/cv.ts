@@ -0,0 +1,26 @@
+// Layouts for the PDF CVs generated from a seeker's profile (server/cv-generator.ts),
+// shared so the client can list them.
+
+export const CV_TEMPLATES = ["classic", "modern", "philippine"] as const;
+export type CvTemplate = typeof CV_TEMPLATES[number];
+
+export const DEFAULT_CV_TEMPLATE: CvTemplate = "philippine";
+
+export const CV_TEMPLATE_CONFIG: Record<CvTemplate, { label: string; description: string }> = {
+  classic: {
+    label: "Classic",
+    description: "Single column in a serif font. Plain and easy for applicant tracking systems to read.",
+  },
+  modern: {
+    label: "Modern",
+    description: "Colored name banner with accent headings, for roles where presentation counts.",
+  },
+  philippine: {
+    label: "Philippine CV",
+    description: "2x2 photo, personal information and a signed certification at the end, as many local employers expect.",
+  },
+};
+
+export function isCvTemplate(value: unknown): value is CvTemplate {
+  return typeof value === "string" && (CV_TEMPLATES as readonly string[]).includes(value);
+}
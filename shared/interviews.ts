@@ -0,0 +1,58 @@
+// Interview scheduling constants and time helpers shared between the API and the client.
+// Interview times are entered and shown in Philippine time. Asia/Manila has no daylight
+// saving, so converting with a fixed +08:00 offset is exact.
+
+export const INTERVIEW_TIMEZONE = "Asia/Manila";
+export const INTERVIEW_TIMEZONE_LABEL = "PHT";
+const MANILA_OFFSET = "+08:00";
+export const MANILA_OFFSET_MS = 8 * 60 * 60 * 1000;
+
+export const INTERVIEW_FORMATS = ["onsite", "video"] as const;
+export type InterviewFormat = typeof INTERVIEW_FORMATS[number];
+
+export const INTERVIEW_FORMAT_LABELS: Record<InterviewFormat, string> = {
+  onsite: "Onsite",
+  video: "Video call",
+};
+
+// proposed: waiting for the seeker to pick one of the slots
+// reschedule_requested: the seeker asked for different times; the employer proposes new slots
+export const INTERVIEW_STATUSES = ["proposed", "scheduled", "reschedule_requested", "cancelled"] as const;
+export type InterviewStatus = typeof INTERVIEW_STATUSES[number];
+
+export const INTERVIEW_STATUS_LABELS: Record<InterviewStatus, string> = {
+  proposed: "Awaiting candidate",
+  scheduled: "Scheduled",
+  reschedule_requested: "New time requested",
+  cancelled: "Cancelled",
+};
+
+// Statuses where the interview still needs or has a time; one of these per application at most
+export const ACTIVE_INTERVIEW_STATUSES: readonly InterviewStatus[] = ["proposed", "scheduled", "reschedule_requested"];
+
+export const MAX_INTERVIEW_SLOTS = 5;
+export const INTERVIEW_DURATIONS = [15, 30, 45, 60, 90, 120] as const;
+
+// "2026-10-20T14:00" from a datetime-local input, read as Manila time
+export function fromManilaDateTimeInput(value: string): Date {
+  return new Date(`${value}:00${MANILA_OFFSET}`);
+}
+
+// The reverse, for pre-filling datetime-local inputs
+export function toManilaDateTimeInput(date: Date | string): string {
+  return new Date(new Date(date).getTime() + MANILA_OFFSET_MS).toISOString().slice(0, 16);
+}
+
+// "Tue, Oct 20, 2026, 2:00 PM PHT" regardless of the viewer's own timezone
+export function formatInterviewTime(date: Date | string): string {
+  const formatted = new Intl.DateTimeFormat("en-US", {
+    timeZone: INTERVIEW_TIMEZONE,
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  }).format(new Date(date));
+  return `${formatted} ${INTERVIEW_TIMEZONE_LABEL}`;
+}
@@ -0,0 +1,30 @@
+// Whether a job still takes applications, shared between the API and the client.
+
+// Saved jobs closing within this many days get a "closing soon" warning
+export const CLOSING_SOON_DAYS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type JobStatus = "open" | "closing_soon" | "closed" | "inactive";
+
+interface JobAvailability {
+  isActive: boolean;
+  isFlagged: boolean;
+  // A Date on the server, an ISO string once it reaches the client
+  applicationDeadline: Date | string | null;
+}
+
+// "inactive" covers listings the employer paused and ones hidden after a fraud flag
+export function getJobStatus(job: JobAvailability, now: Date = new Date()): JobStatus {
+  if (!job.isActive || job.isFlagged) return "inactive";
+  if (!job.applicationDeadline) return "open";
+
+  const msLeft = new Date(job.applicationDeadline).getTime() - now.getTime();
+  if (msLeft <= 0) return "closed";
+  return msLeft <= CLOSING_SOON_DAYS * DAY_MS ? "closing_soon" : "open";
+}
+
+export function isAcceptingApplications(job: JobAvailability, now: Date = new Date()): boolean {
+  const status = getJobStatus(job, now);
+  return status === "open" || status === "closing_soon";
+}
@@ -0,0 +1,142 @@
+// In-app notification constants shared between the API and the client
+
+export const NOTIFICATION_TYPES = ["new_applicant", "application_status", "fraud_alert", "contact_reply"] as const;
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+
+// How many notifications the bell dropdown loads
+export const NOTIFICATION_PAGE_SIZE = 20;
+
+// Delivery preferences. Users pick a frequency per event and channel; anything they
+// haven't set falls back to the event's default. Messages and interviews have no
+// in-app entries because the messages badge and dashboard already cover them.
+export const NOTIFICATION_EVENTS = [
+  "application_status",
+  "new_applicant",
+  "messages",
+  "interviews",
+  "contact_reply",
+  "fraud_alert",
+] as const;
+export type NotificationEvent = typeof NOTIFICATION_EVENTS[number];
+
+export const NOTIFICATION_CHANNELS = ["email", "in_app"] as const;
+export type NotificationChannel = typeof NOTIFICATION_CHANNELS[number];
+
+export const NOTIFICATION_FREQUENCIES = ["instant", "daily", "weekly", "off"] as const;
+export type NotificationFrequency = typeof NOTIFICATION_FREQUENCIES[number];
+
+export const DIGEST_FREQUENCIES = ["daily", "weekly"] as const;
+export type DigestFrequency = typeof DIGEST_FREQUENCIES[number];
+
+export const NOTIFICATION_CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  email: "Email",
+  in_app: "In-app",
+};
+
+export const NOTIFICATION_FREQUENCY_LABELS: Record<NotificationFrequency, string> = {
+  instant: "Instantly",
+  daily: "Daily digest",
+  weekly: "Weekly digest",
+  off: "Off",
+};
+
+interface ChannelSetting {
+  options: readonly NotificationFrequency[];
+  default: NotificationFrequency;
+}
+
+interface NotificationEventConfig {
+  label: string;
+  description: string;
+  roles: readonly ("job_seeker" | "employer" | "admin")[];
+  channels: Partial<Record<NotificationChannel, ChannelSetting>>;
+}
+
+const ALL_FREQUENCIES = NOTIFICATION_FREQUENCIES;
+// In-app notifications are already a list to come back to, so they are never batched
+const IN_APP_FREQUENCIES = ["instant", "off"] as const;
+
+export const NOTIFICATION_EVENT_CONFIG: Record<NotificationEvent, NotificationEventConfig> = {
+  application_status: {
+    label: "Application updates",
+    description: "When an employer moves one of your applications to a new status",
+    roles: ["job_seeker"],
+    channels: {
+      email: { options: ALL_FREQUENCIES, default: "instant" },
+      in_app: { options: IN_APP_FREQUENCIES, default: "instant" },
+    },
+  },
+  new_applicant: {
+    label: "New applicants",
+    description: "When someone applies to one of your jobs",
+    roles: ["employer"],
+    channels: {
+      // Busy postings get many applicants a day, so email defaults to one digest
+      email: { options: ALL_FREQUENCIES, default: "daily" },
+      in_app: { options: IN_APP_FREQUENCIES, default: "instant" },
+    },
+  },
+  messages: {
+    label: "Messages",
+    description: "Messages you haven't read within a few minutes of them arriving",
+    roles: ["job_seeker", "employer"],
+    channels: {
+      email: { options: ALL_FREQUENCIES, default: "instant" },
+    },
+  },
+  interviews: {
+    label: "Interviews",
+    description: "Invitations, confirmations, changes and reminders, with calendar invites",
+    roles: ["job_seeker", "employer"],
+    channels: {
+      // Time-sensitive and carry calendar invites, so they can't wait for a digest
+      email: { options: ["instant", "off"], default: "instant" },
+    },
+  },
+  contact_reply: {
+    label: "Support replies",
+    description: "When our team replies to a message you sent through the contact form",
+    roles: ["job_seeker", "employer"],
+    channels: {
+      in_app: { options: IN_APP_FREQUENCIES, default: "instant" },
+    },
+  },
+  fraud_alert: {
+    label: "Fraud alerts",
+    description: "When fraud detection flags a user or job posting",
+    roles: ["admin"],
+    channels: {
+      in_app: { options: IN_APP_FREQUENCIES, default: "instant" },
+    },
+  },
+};
+
+export interface NotificationPreferenceSetting {
+  event: NotificationEvent;
+  channel: NotificationChannel;
+  frequency: NotificationFrequency;
+}
+
+// The effective frequency given the user's saved preferences
+export function resolveNotificationFrequency(
+  saved: readonly NotificationPreferenceSetting[],
+  event: NotificationEvent,
+  channel: NotificationChannel
+): NotificationFrequency {
+  const setting = NOTIFICATION_EVENT_CONFIG[event].channels[channel];
+  if (!setting) return "off";
+  const match = saved.find(pref => pref.event === event && pref.channel === channel);
+  return match && setting.options.includes(match.frequency) ? match.frequency : setting.default;
+}
+
+// Every event/channel pair a user with this role can configure, with its effective frequency
+export function resolveNotificationPreferences(
+  role: string | null,
+  saved: readonly NotificationPreferenceSetting[]
+): NotificationPreferenceSetting[] {
+  return NOTIFICATION_EVENTS
+    .filter(event => NOTIFICATION_EVENT_CONFIG[event].roles.some(r => r === role))
+    .flatMap(event => NOTIFICATION_CHANNELS
+      .filter(channel => NOTIFICATION_EVENT_CONFIG[event].channels[channel])
+      .map(channel => ({ event, channel, frequency: resolveNotificationFrequency(saved, event, channel) })));
+}
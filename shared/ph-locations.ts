@@ -0,0 +1,536 @@
+// Philippine location reference data (region > province > city/municipality),
+// modelled on the PSA's Philippine Standard Geographic Code hierarchy.
+//
+// Regions use their PSGC region numbers. Provinces and cities use readable slug
+// codes; a city's code is "<province>/<city>" and is what gets stored in the
+// location_city columns. Coordinates are approximate town-centre points, good
+// enough for "within N km" filtering.
+//
+// This is a curated subset: every region and province, all cities and most
+// municipalities in the Zamboanga Peninsula, and the cities and provincial
+// capitals elsewhere. Add entries to PH_CITIES as employers need them. Kept free
+// of imports so the client can bundle it for the location pickers.
+
+export interface PhRegion {
+  code: string;
+  name: string;
+  shortName: string;
+}
+
+export interface PhProvince {
+  code: string;
+  name: string;
+  regionCode: string;
+}
+
+export interface PhCity {
+  code: string;
+  name: string;
+  provinceCode: string;
+  regionCode: string;
+  latitude: number;
+  longitude: number;
+  aliases: string[];
+}
+
+export const PH_REGIONS: PhRegion[] = [
+  { code: "13", name: "National Capital Region", shortName: "NCR" },
+  { code: "14", name: "Cordillera Administrative Region", shortName: "CAR" },
+  { code: "01", name: "Ilocos Region", shortName: "Region I" },
+  { code: "02", name: "Cagayan Valley", shortName: "Region II" },
+  { code: "03", name: "Central Luzon", shortName: "Region III" },
+  { code: "04", name: "CALABARZON", shortName: "Region IV-A" },
+  { code: "17", name: "MIMAROPA Region", shortName: "Region IV-B" },
+  { code: "05", name: "Bicol Region", shortName: "Region V" },
+  { code: "06", name: "Western Visayas", shortName: "Region VI" },
+  { code: "18", name: "Negros Island Region", shortName: "NIR" },
+  { code: "07", name: "Central Visayas", shortName: "Region VII" },
+  { code: "08", name: "Eastern Visayas", shortName: "Region VIII" },
+  { code: "09", name: "Zamboanga Peninsula", shortName: "Region IX" },
+  { code: "10", name: "Northern Mindanao", shortName: "Region X" },
+  { code: "11", name: "Davao Region", shortName: "Region XI" },
+  { code: "12", name: "SOCCSKSARGEN", shortName: "Region XII" },
+  { code: "16", name: "Caraga", shortName: "Region XIII" },
+  { code: "19", name: "Bangsamoro Autonomous Region in Muslim Mindanao", shortName: "BARMM" },
+];
+
+const province = (code: string, name: string, regionCode: string): PhProvince => ({ code, name, regionCode });
+
+export const PH_PROVINCES: PhProvince[] = [
+  province("metro-manila", "Metro Manila", "13"),
+  province("abra", "Abra", "14"),
+  province("apayao", "Apayao", "14"),
+  province("benguet", "Benguet", "14"),
+  province("ifugao", "Ifugao", "14"),
+  province("kalinga", "Kalinga", "14"),
+  province("mountain-province", "Mountain Province", "14"),
+  province("ilocos-norte", "Ilocos Norte", "01"),
+  province("ilocos-sur", "Ilocos Sur", "01"),
+  province("la-union", "La Union", "01"),
+  province("pangasinan", "Pangasinan", "01"),
+  province("batanes", "Batanes", "02"),
+  province("cagayan", "Cagayan", "02"),
+  province("isabela", "Isabela", "02"),
+  province("nueva-vizcaya", "Nueva Vizcaya", "02"),
+  province("quirino", "Quirino", "02"),
+  province("aurora", "Aurora", "03"),
+  province("bataan", "Bataan", "03"),
+  province("bulacan", "Bulacan", "03"),
+  province("nueva-ecija", "Nueva Ecija", "03"),
+  province("pampanga", "Pampanga", "03"),
+  province("tarlac", "Tarlac", "03"),
+  province("zambales", "Zambales", "03"),
+  province("batangas", "Batangas", "04"),
+  province("cavite", "Cavite", "04"),
+  province("laguna", "Laguna", "04"),
+  province("quezon", "Quezon", "04"),
+  province("rizal", "Rizal", "04"),
+  province("marinduque", "Marinduque", "17"),
+  province("occidental-mindoro", "Occidental Mindoro", "17"),
+  province("oriental-mindoro", "Oriental Mindoro", "17"),
+  province("palawan", "Palawan", "17"),
+  province("romblon", "Romblon", "17"),
+  province("albay", "Albay", "05"),
+  province("camarines-norte", "Camarines Norte", "05"),
+  province("camarines-sur", "Camarines Sur", "05"),
+  province("catanduanes", "Catanduanes", "05"),
+  province("masbate", "Masbate", "05"),
+  province("sorsogon", "Sorsogon", "05"),
+  province("aklan", "Aklan", "06"),
+  province("antique", "Antique", "06"),
+  province("capiz", "Capiz", "06"),
+  province("guimaras", "Guimaras", "06"),
+  province("iloilo", "Iloilo", "06"),
+  province("negros-occidental", "Negros Occidental", "18"),
+  province("negros-oriental", "Negros Oriental", "18"),
+  province("siquijor", "Siquijor", "18"),
+  province("bohol", "Bohol", "07"),
+  province("cebu", "Cebu", "07"),
+  province("biliran", "Biliran", "08"),
+  province("eastern-samar", "Eastern Samar", "08"),
+  province("leyte", "Leyte", "08"),
+  province("northern-samar", "Northern Samar", "08"),
+  province("samar", "Samar", "08"),
+  province("southern-leyte", "Southern Leyte", "08"),
+  province("zamboanga-del-norte", "Zamboanga del Norte", "09"),
+  province("zamboanga-del-sur", "Zamboanga del Sur", "09"),
+  province("zamboanga-sibugay", "Zamboanga Sibugay", "09"),
+  province("bukidnon", "Bukidnon", "10"),
+  province("camiguin", "Camiguin", "10"),
+  province("lanao-del-norte", "Lanao del Norte", "10"),
+  province("misamis-occidental", "Misamis Occidental", "10"),
+  province("misamis-oriental", "Misamis Oriental", "10"),
+  province("davao-de-oro", "Davao de Oro", "11"),
+  province("davao-del-norte", "Davao del Norte", "11"),
+  province("davao-del-sur", "Davao del Sur", "11"),
+  province("davao-occidental", "Davao Occidental", "11"),
+  province("davao-oriental", "Davao Oriental", "11"),
+  province("cotabato", "Cotabato", "12"),
+  province("sarangani", "Sarangani", "12"),
+  province("south-cotabato", "South Cotabato", "12"),
+  province("sultan-kudarat", "Sultan Kudarat", "12"),
+  province("agusan-del-norte", "Agusan del Norte", "16"),
+  province("agusan-del-sur", "Agusan del Sur", "16"),
+  province("dinagat-islands", "Dinagat Islands", "16"),
+  province("surigao-del-norte", "Surigao del Norte", "16"),
+  province("surigao-del-sur", "Surigao del Sur", "16"),
+  province("basilan", "Basilan", "19"),
+  province("lanao-del-sur", "Lanao del Sur", "19"),
+  province("maguindanao-del-norte", "Maguindanao del Norte", "19"),
+  province("maguindanao-del-sur", "Maguindanao del Sur", "19"),
+  province("sulu", "Sulu", "19"),
+  province("tawi-tawi", "Tawi-Tawi", "19"),
+];
+
+const provinceRegion = new Map(PH_PROVINCES.map((p) => [p.code, p.regionCode]));
+
+function slugify(value: string): string {
+  return normalizeLocationText(value).replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+}
+
+// regionCode only needs passing for places administered outside their
+// geographic province, e.g. Isabela City (Basilan island, Region IX)
+function city(
+  provinceCode: string,
+  name: string,
+  latitude: number,
+  longitude: number,
+  aliases: string[] = [],
+  regionCode?: string,
+): PhCity {
+  return {
+    code: `${provinceCode}/${slugify(name)}`,
+    name,
+    provinceCode,
+    regionCode: regionCode ?? provinceRegion.get(provinceCode)!,
+    latitude,
+    longitude,
+    aliases,
+  };
+}
+
+export const PH_CITIES: PhCity[] = [
+  // National Capital Region
+  city("metro-manila", "Manila", 14.5995, 120.9842, ["City of Manila"]),
+  city("metro-manila", "Quezon City", 14.676, 121.0437, ["QC"]),
+  city("metro-manila", "Makati", 14.5547, 121.0244, ["Makati City"]),
+  city("metro-manila", "Taguig", 14.5176, 121.0509, ["BGC", "Bonifacio Global City"]),
+  city("metro-manila", "Pasig", 14.5764, 121.0851, ["Ortigas"]),
+  city("metro-manila", "Mandaluyong", 14.5794, 121.0359),
+  city("metro-manila", "Pasay", 14.5378, 121.0014),
+  city("metro-manila", "Parañaque", 14.4793, 121.0198),
+  city("metro-manila", "Caloocan", 14.6507, 120.9676),
+  city("metro-manila", "Las Piñas", 14.4445, 120.9939),
+  city("metro-manila", "Muntinlupa", 14.4081, 121.0415, ["Alabang"]),
+  city("metro-manila", "Marikina", 14.6507, 121.1029),
+  city("metro-manila", "San Juan", 14.6019, 121.0355),
+  city("metro-manila", "Valenzuela", 14.7011, 120.983),
+  city("metro-manila", "Malabon", 14.6625, 120.9567),
+  city("metro-manila", "Navotas", 14.6667, 120.9417),
+  city("metro-manila", "Pateros", 14.5454, 121.0687),
+
+  // Cordillera Administrative Region
+  city("benguet", "Baguio", 16.4023, 120.596, ["Baguio City"]),
+  city("benguet", "La Trinidad", 16.4619, 120.5877),
+  city("kalinga", "Tabuk", 17.4189, 121.4443),
+  city("abra", "Bangued", 17.5962, 120.618),
+  city("ifugao", "Lagawe", 16.8, 121.1167),
+  city("mountain-province", "Bontoc", 17.0894, 120.9772),
+  city("apayao", "Kabugao", 18.0231, 121.1839),
+
+  // Ilocos Region
+  city("ilocos-norte", "Laoag", 18.198, 120.5936),
+  city("ilocos-norte", "Batac", 18.0554, 120.5649),
+  city("ilocos-sur", "Vigan", 17.5747, 120.3869),
+  city("ilocos-sur", "Candon", 17.1947, 120.4517),
+  city("la-union", "San Fernando", 16.6159, 120.3166, ["San Fernando City, La Union"]),
+  city("pangasinan", "Dagupan", 16.0433, 120.3333),
+  city("pangasinan", "San Carlos", 15.9281, 120.3489),
+  city("pangasinan", "Urdaneta", 15.9761, 120.5711),
+  city("pangasinan", "Alaminos", 16.1553, 119.9806),
+  city("pangasinan", "Lingayen", 16.0218, 120.2319),
+
+  // Cagayan Valley
+  city("batanes", "Basco", 20.4487, 121.9702),
+  city("cagayan", "Tuguegarao", 17.6132, 121.727),
+  city("isabela", "Ilagan", 17.1486, 121.8892),
+  city("isabela", "Cauayan", 16.9275, 121.7709),
+  city("isabela", "Santiago", 16.6881, 121.5487),
+  city("nueva-vizcaya", "Bayombong", 16.4812, 121.1497),
+  city("quirino", "Cabarroguis", 16.51, 121.5217),
+
+  // Central Luzon
+  city("aurora", "Baler", 15.7589, 121.5622),
+  city("bataan", "Balanga", 14.6761, 120.5361),
+  city("bulacan", "Malolos", 14.8443, 120.8113),
+  city("bulacan", "Meycauayan", 14.7369, 120.9606),
+  city("bulacan", "San Jose del Monte", 14.8139, 121.0453, ["SJDM"]),
+  city("nueva-ecija", "Cabanatuan", 15.4865, 120.9667),
+  city("nueva-ecija", "Palayan", 15.5422, 121.0842),
+  city("nueva-ecija", "San Jose", 15.7911, 120.99),
+  city("nueva-ecija", "Gapan", 15.3072, 120.9464),
+  city("nueva-ecija", "Muñoz", 15.7167, 120.9, ["Science City of Muñoz"]),
+  city("pampanga", "Angeles", 15.145, 120.5887),
+  city("pampanga", "San Fernando", 15.0286, 120.6898, ["San Fernando City, Pampanga"]),
+  city("pampanga", "Mabalacat", 15.2217, 120.5736, ["Clark"]),
+  city("tarlac", "Tarlac City", 15.4755, 120.5963),
+  city("zambales", "Olongapo", 14.8292, 120.2828, ["Subic"]),
+  city("zambales", "Iba", 15.3276, 119.9783),
+
+  // CALABARZON
+  city("batangas", "Batangas City", 13.7565, 121.0583),
+  city("batangas", "Lipa", 13.9411, 121.1631),
+  city("batangas", "Tanauan", 14.0863, 121.1497),
+  city("batangas", "Santo Tomas", 14.1079, 121.1414),
+  city("cavite", "Cavite City", 14.4791, 120.897),
+  city("cavite", "Bacoor", 14.4624, 120.9645),
+  city("cavite", "Imus", 14.4297, 120.9367),
+  city("cavite", "Dasmariñas", 14.3294, 120.9367),
+  city("cavite", "General Trias", 14.3869, 120.8817),
+  city("cavite", "Tagaytay", 14.1153, 120.9621),
+  city("cavite", "Trece Martires", 14.2829, 120.8686),
+  city("laguna", "Calamba", 14.2117, 121.1653),
+  city("laguna", "Santa Rosa", 14.3122, 121.1114),
+  city("laguna", "Biñan", 14.3306, 121.0806),
+  city("laguna", "San Pedro", 14.3583, 121.0167),
+  city("laguna", "Cabuyao", 14.2789, 121.1253),
+  city("laguna", "San Pablo", 14.0683, 121.3256),
+  city("laguna", "Santa Cruz", 14.2814, 121.4161),
+  city("quezon", "Lucena", 13.9373, 121.617),
+  city("quezon", "Tayabas", 14.0259, 121.5929),
+  city("rizal", "Antipolo", 14.5863, 121.176),
+  city("rizal", "Cainta", 14.5786, 121.1222),
+  city("rizal", "Taytay", 14.5692, 121.1325),
+
+  // MIMAROPA
+  city("marinduque", "Boac", 13.446, 121.84),
+  city("occidental-mindoro", "Mamburao", 13.2233, 120.596),
+  city("occidental-mindoro", "San Jose", 12.3528, 121.0675),
+  city("oriental-mindoro", "Calapan", 13.4117, 121.1803),
+  city("palawan", "Puerto Princesa", 9.7392, 118.7353, ["PPC"]),
+  city("palawan", "El Nido", 11.1956, 119.4075),
+  city("palawan", "Coron", 11.9986, 120.2043),
+  city("romblon", "Romblon", 12.575, 122.2708),
+  city("romblon", "Odiongan", 12.4017, 121.9897),
+
+  // Bicol Region
+  city("albay", "Legazpi", 13.1391, 123.7438),
+  city("albay", "Tabaco", 13.3587, 123.7337),
+  city("albay", "Ligao", 13.22, 123.5244),
+  city("camarines-norte", "Daet", 14.1122, 122.9553),
+  city("camarines-sur", "Naga", 13.6218, 123.1948),
+  city("camarines-sur", "Iriga", 13.4213, 123.412),
+  city("camarines-sur", "Pili", 13.5833, 123.3),
+  city("catanduanes", "Virac", 13.5808, 124.2306),
+  city("masbate", "Masbate City", 12.3686, 123.6195),
+  city("sorsogon", "Sorsogon City", 12.9742, 124.0058),
+
+  // Western Visayas
+  city("aklan", "Kalibo", 11.7086, 122.368),
+  city("aklan", "Malay", 11.9, 121.9333, ["Boracay"]),
+  city("antique", "San Jose de Buenavista", 10.7444, 121.9411),
+  city("capiz", "Roxas City", 11.5853, 122.7511),
+  city("guimaras", "Jordan", 10.6581, 122.5961),
+  city("iloilo", "Iloilo City", 10.7202, 122.5621),
+  city("iloilo", "Passi", 11.1075, 122.6411),
+
+  // Negros Island Region
+  city("negros-occidental", "Bacolod", 10.6765, 122.9509),
+  city("negros-occidental", "Silay", 10.7969, 122.975),
+  city("negros-occidental", "Talisay", 10.7364, 122.9675),
+  city("negros-occidental", "Kabankalan", 9.9906, 122.8142),
+  city("negros-occidental", "San Carlos", 10.4929, 123.4095),
+  city("negros-oriental", "Dumaguete", 9.3068, 123.3054),
+  city("negros-oriental", "Bais", 9.5908, 123.1217),
+  city("siquijor", "Siquijor", 9.2147, 123.515),
+
+  // Central Visayas
+  city("cebu", "Cebu City", 10.3157, 123.8854),
+  city("cebu", "Mandaue", 10.3236, 123.9223),
+  city("cebu", "Lapu-Lapu", 10.3103, 123.9494, ["Mactan"]),
+  city("cebu", "Talisay", 10.2447, 123.8494),
+  city("cebu", "Danao", 10.5207, 124.027),
+  city("cebu", "Toledo", 10.3773, 123.6386),
+  city("cebu", "Carcar", 10.1061, 123.64),
+  city("bohol", "Tagbilaran", 9.6475, 123.8556),
+  city("bohol", "Panglao", 9.58, 123.75),
+
+  // Eastern Visayas
+  city("leyte", "Tacloban", 11.2444, 125.0039),
+  city("leyte", "Ormoc", 11.0064, 124.6075),
+  city("leyte", "Baybay", 10.6785, 124.8),
+  city("southern-leyte", "Maasin", 10.1333, 124.85),
+  city("samar", "Catbalogan", 11.7753, 124.8861),
+  city("samar", "Calbayog", 12.0667, 124.6),
+  city("eastern-samar", "Borongan", 11.6081, 125.4319),
+  city("northern-samar", "Catarman", 12.4994, 124.6381),
+  city("biliran", "Naval", 11.5614, 124.3967),
+
+  // Zamboanga Peninsula
+  city("zamboanga-del-sur", "Zamboanga City", 6.9214, 122.079, ["Zambo", "Zamboanga", "Ciudad de Zamboanga"]),
+  city("zamboanga-del-sur", "Pagadian", 7.8257, 123.437, ["Pagadian City"]),
+  city("zamboanga-del-sur", "Aurora", 7.9486, 123.5847),
+  city("zamboanga-del-sur", "Molave", 8.0875, 123.4889),
+  city("zamboanga-del-sur", "Dumingag", 8.1583, 123.3436),
+  city("zamboanga-del-sur", "Mahayag", 8.1278, 123.4375),
+  city("zamboanga-del-sur", "Midsalip", 8.0333, 123.2667),
+  city("zamboanga-del-sur", "Ramon Magsaysay", 8.0014, 123.4858),
+  city("zamboanga-del-sur", "Tambulig", 8.0717, 123.5381),
+  city("zamboanga-del-sur", "Tukuran", 7.855, 123.575),
+  city("zamboanga-del-sur", "Labangan", 7.8667, 123.5167),
+  city("zamboanga-del-sur", "Guipos", 7.7333, 123.3167),
+  city("zamboanga-del-sur", "Dimataling", 7.53, 123.3661),
+  city("zamboanga-del-sur", "Bayog", 7.8469, 123.0425),
+  city("zamboanga-del-norte", "Dipolog", 8.5883, 123.3409, ["Dipolog City"]),
+  city("zamboanga-del-norte", "Dapitan", 8.6549, 123.4243, ["Dapitan City"]),
+  city("zamboanga-del-norte", "Polanco", 8.5322, 123.3631),
+  city("zamboanga-del-norte", "Katipunan", 8.513, 123.284),
+  city("zamboanga-del-norte", "Piñan", 8.477, 123.453),
+  city("zamboanga-del-norte", "Manukan", 8.4917, 123.0944),
+  city("zamboanga-del-norte", "Sindangan", 8.2378, 122.9989),
+  city("zamboanga-del-norte", "Labason", 8.0647, 122.5194),
+  city("zamboanga-del-norte", "Liloy", 7.8756, 122.6747),
+  city("zamboanga-del-norte", "Siocon", 7.7069, 122.1353),
+  city("zamboanga-sibugay", "Ipil", 7.7822, 122.5867),
+  city("zamboanga-sibugay", "Titay", 7.87, 122.5533),
+  city("zamboanga-sibugay", "Naga", 7.7981, 122.6947),
+  city("zamboanga-sibugay", "Kabasalan", 7.7964, 122.7644),
+  city("zamboanga-sibugay", "Siay", 7.7089, 122.8656),
+  city("zamboanga-sibugay", "Imelda", 7.6486, 122.9389),
+  city("zamboanga-sibugay", "Diplahan", 7.6936, 122.9839),
+  city("zamboanga-sibugay", "Malangas", 7.6294, 123.0328),
+  city("zamboanga-sibugay", "Buug", 7.7278, 123.06),
+  city("zamboanga-sibugay", "Alicia", 7.5128, 122.9431),
+  city("zamboanga-sibugay", "Payao", 7.5675, 122.795),
+  city("zamboanga-sibugay", "Roseller Lim", 7.6617, 122.4706),
+  city("zamboanga-sibugay", "Tungawan", 7.5089, 122.3717),
+  city("zamboanga-sibugay", "Olutanga", 7.3103, 122.8461),
+  city("basilan", "Isabela City", 6.7033, 121.9719, ["Isabela de Basilan"], "09"),
+
+  // Northern Mindanao
+  city("misamis-oriental", "Cagayan de Oro", 8.4542, 124.6319, ["CDO", "Cagayan de Oro City"]),
+  city("misamis-oriental", "Gingoog", 8.8233, 125.1017),
+  city("misamis-oriental", "El Salvador", 8.5631, 124.5211),
+  city("misamis-occidental", "Oroquieta", 8.4858, 123.8044),
+  city("misamis-occidental", "Ozamiz", 8.1481, 123.8405, ["Ozamis"]),
+  city("misamis-occidental", "Tangub", 8.0672, 123.75),
+  city("lanao-del-norte", "Iligan", 8.228, 124.2452),
+  city("lanao-del-norte", "Tubod", 8.05, 123.7917),
+  city("bukidnon", "Malaybalay", 8.1575, 125.1278),
+  city("bukidnon", "Valencia", 7.9064, 125.0942),
+  city("camiguin", "Mambajao", 9.25, 124.7167),
+
+  // Davao Region
+  city("davao-del-sur", "Davao City", 7.1907, 125.4553, ["Davao"]),
+  city("davao-del-sur", "Digos", 6.7497, 125.3572),
+  city("davao-del-norte", "Tagum", 7.4478, 125.8078),
+  city("davao-del-norte", "Panabo", 7.3081, 125.6842),
+  city("davao-del-norte", "Samal", 7.0731, 125.7086, ["Island Garden City of Samal", "IGACOS"]),
+  city("davao-de-oro", "Nabunturan", 7.6014, 125.9658),
+  city("davao-occidental", "Malita", 6.415, 125.6117),
+  city("davao-oriental", "Mati", 6.9551, 126.217),
+
+  // SOCCSKSARGEN
+  city("south-cotabato", "General Santos", 6.1164, 125.1716, ["GenSan", "GSC"]),
+  city("south-cotabato", "Koronadal", 6.5031, 124.8469, ["Marbel"]),
+  city("cotabato", "Kidapawan", 7.0083, 125.0894),
+  city("sarangani", "Alabel", 6.1022, 125.2914),
+  city("sultan-kudarat", "Isulan", 6.6292, 124.605),
+  city("sultan-kudarat", "Tacurong", 6.6925, 124.6764),
+
+  // Caraga
+  city("agusan-del-norte", "Butuan", 8.9475, 125.5406),
+  city("agusan-del-norte", "Cabadbaran", 9.1236, 125.5347),
+  city("agusan-del-sur", "Bayugan", 8.7143, 125.7481),
+  city("agusan-del-sur", "Prosperidad", 8.6057, 125.9153),
+  city("dinagat-islands", "San Jose", 10.0081, 125.5706),
+  city("surigao-del-norte", "Surigao City", 9.7843, 125.4888),
+  city("surigao-del-sur", "Tandag", 9.0783, 126.1986),
+  city("surigao-del-sur", "Bislig", 8.21, 126.3217),
+
+  // BARMM
+  city("basilan", "Lamitan", 6.65, 122.1333),
+  city("lanao-del-sur", "Marawi", 7.9986, 124.2928),
+  city("maguindanao-del-norte", "Cotabato City", 7.2236, 124.2464),
+  city("maguindanao-del-norte", "Datu Odin Sinsuat", 7.1889, 124.1797),
+  city("maguindanao-del-sur", "Buluan", 6.715, 124.785),
+  city("sulu", "Jolo", 6.0522, 121.0022),
+  city("tawi-tawi", "Bongao", 5.0292, 119.7731),
+];
+
+const regionsByCode = new Map(PH_REGIONS.map((r) => [r.code, r]));
+const provincesByCode = new Map(PH_PROVINCES.map((p) => [p.code, p]));
+const citiesByCode = new Map(PH_CITIES.map((c) => [c.code, c]));
+
+// Lowercase and strip accents so "Parañaque" matches "paranaque"
+export function normalizeLocationText(value: string): string {
+  return value.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().trim();
+}
+
+export function getPhRegion(code: string): PhRegion | undefined {
+  return regionsByCode.get(code);
+}
+
+export function getPhProvince(code: string): PhProvince | undefined {
+  return provincesByCode.get(code);
+}
+
+export function getPhCity(code: string): PhCity | undefined {
+  return citiesByCode.get(code);
+}
+
+// "Zamboanga City, Zamboanga del Sur" - the text saved into the free-text location column
+export function formatPhCity(city: PhCity): string {
+  const provinceName = provincesByCode.get(city.provinceCode)?.name;
+  return provinceName && provinceName !== city.name ? `${city.name}, ${provinceName}` : city.name;
+}
+
+// Reverse of formatPhCity, for records that only keep the text (employer profiles)
+export function findPhCityByLabel(label: string): PhCity | undefined {
+  return PH_CITIES.find((city) => formatPhCity(city) === label);
+}
+
+// Structured columns shared by jobs and job_seeker_profiles
+export interface StructuredLocation {
+  locationCity: string;
+  locationProvince: string;
+  locationRegion: string;
+  latitude: number;
+  longitude: number;
+}
+
+export function resolvePhCity(code: string): StructuredLocation | undefined {
+  const city = citiesByCode.get(code);
+  if (!city) {
+    return undefined;
+  }
+  return {
+    locationCity: city.code,
+    locationProvince: city.provinceCode,
+    locationRegion: city.regionCode,
+    latitude: city.latitude,
+    longitude: city.longitude,
+  };
+}
+
+function cityMatchRank(city: PhCity, term: string): number | undefined {
+  const names = [city.name, ...city.aliases].map(normalizeLocationText);
+  if (names.some((name) => name === term)) return 0;
+  if (names.some((name) => name.startsWith(term))) return 1;
+  if (names.some((name) => name.split(/[\s-]+/).some((word) => word.startsWith(term)))) return 2;
+
+  const provinceName = normalizeLocationText(provincesByCode.get(city.provinceCode)?.name ?? "");
+  const region = regionsByCode.get(city.regionCode);
+  const regionMatches = region
+    ? normalizeLocationText(region.name).startsWith(term) || normalizeLocationText(region.shortName) === term
+    : false;
+  if (provinceName.startsWith(term) || regionMatches) return 3;
+  return undefined;
+}
+
+// Autocomplete: exact name/alias hits first, then prefixes, then cities whose
+// province or region matches. Ties fall back to alphabetical order.
+export function searchPhCities(query: string, limit = 10): PhCity[] {
+  const term = normalizeLocationText(query);
+  if (!term) {
+    return [];
+  }
+
+  return PH_CITIES
+    .map((city) => ({ city, rank: cityMatchRank(city, term) }))
+    .filter((entry): entry is { city: PhCity; rank: number } => entry.rank !== undefined)
+    .sort((a, b) => a.rank - b.rank || a.city.name.localeCompare(b.city.name))
+    .slice(0, limit)
+    .map((entry) => entry.city);
+}
+
+// Every city, province and region a free-text location filter could mean, so
+// "Zambo" or "Region IX" still find jobs whose text location is spelled differently
+export function matchPhLocations(query: string): { cities: string[]; provinces: string[]; regions: string[] } {
+  const term = normalizeLocationText(query);
+  if (!term) {
+    return { cities: [], provinces: [], regions: [] };
+  }
+
+  const matches = (...names: string[]) => names.some((name) => normalizeLocationText(name).startsWith(term));
+  return {
+    cities: PH_CITIES.filter((c) => matches(c.name, ...c.aliases)).map((c) => c.code),
+    provinces: PH_PROVINCES.filter((p) => matches(p.name)).map((p) => p.code),
+    // Short names only match whole, otherwise "Region I" would also pick up II, III, IX...
+    regions: PH_REGIONS.filter((r) => matches(r.name) || normalizeLocationText(r.shortName) === term).map((r) => r.code),
+  };
+}
+
+// Great-circle distance in km; mirrors the SQL used by "within N km" job searches
+export function distanceKm(
+  a: { latitude: number; longitude: number },
+  b: { latitude: number; longitude: number },
+): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLng = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.asin(Math.sqrt(h));
+}
@@ -0,0 +1,60 @@
+// Hiring pipeline constants shared between the API and the client.
+
+// The coarse application status seekers see. Every pipeline stage maps to one of
+// these, so employers can name their stages freely ("Technical exam") while seekers,
+// analytics and status emails keep working off the fixed set.
+export const STAGE_STATUSES = ["applied", "reviewing", "shortlisted", "rejected", "accepted"] as const;
+export type StageStatus = typeof STAGE_STATUSES[number];
+
+// "withdrawn" is set by the seeker and never by a stage move
+export const APPLICATION_STATUSES = [...STAGE_STATUSES, "withdrawn"] as const;
+export type ApplicationStatus = typeof APPLICATION_STATUSES[number];
+
+export const APPLICATION_STATUS_LABELS: Record<ApplicationStatus, string> = {
+  applied: "Applied",
+  reviewing: "Reviewing",
+  shortlisted: "Shortlisted",
+  rejected: "Rejected",
+  accepted: "Accepted",
+  withdrawn: "Withdrawn",
+};
+
+// Stages of the pipeline every employer starts with, matching the old fixed statuses
+export const DEFAULT_PIPELINE_NAME = "Standard";
+export const DEFAULT_PIPELINE_STAGES: Array<{ name: string; status: StageStatus }> = [
+  { name: "Applied", status: "applied" },
+  { name: "Reviewing", status: "reviewing" },
+  { name: "Shortlisted", status: "shortlisted" },
+  { name: "Accepted", status: "accepted" },
+  { name: "Rejected", status: "rejected" },
+];
+
+export const MAX_PIPELINE_STAGES = 12;
+
+// Upper bound on applications moved by one bulk action
+export const MAX_BULK_APPLICATIONS = 500;
+
+// Entries in an application's timeline. Notes and ratings are internal to the employer.
+// "interview" events describe their change (proposed, scheduled, cancelled...) in the note.
+export const APPLICATION_EVENT_TYPES = ["stage_changed", "note", "rating", "email_sent", "withdrawn", "interview"] as const;
+export type ApplicationEventType = typeof APPLICATION_EVENT_TYPES[number];
+export const SEEKER_VISIBLE_EVENT_TYPES: readonly ApplicationEventType[] = ["stage_changed", "email_sent", "withdrawn", "interview"];
+
+interface StageRef {
+  id: string;
+  status: string;
+}
+
+// The stage an application sits in. Applications from before pipelines existed, or
+// whose stage was removed from the template, fall back to the first stage with their
+// status, and failing that the first stage.
+export function resolveApplicationStage<T extends StageRef>(
+  application: { stageId: string | null; status: string },
+  stages: T[]
+): T | undefined {
+  return (
+    stages.find((stage) => stage.id === application.stageId) ??
+    stages.find((stage) => stage.status === application.status) ??
+    stages[0]
+  );
+}
@@ -0,0 +1,81 @@
+// Weighted profile completeness for job seekers, shared so the dashboard checklist
+// and the server-side ranking agree on what "complete" means.
+
+export const PROFILE_COMPLETENESS_ITEMS = [
+  "headline",
+  "bio",
+  "skills",
+  "categories",
+  "resume",
+  "photo",
+  "workExperience",
+  "education",
+  "certifications",
+  "phone",
+  "location",
+] as const;
+export type ProfileCompletenessItem = typeof PROFILE_COMPLETENESS_ITEMS[number];
+
+// Skills below this count don't say much to employers or to job matching
+export const MIN_PROFILE_SKILLS = 3;
+
+// Weights add up to 100 so the score reads as a percentage
+export const PROFILE_COMPLETENESS_CONFIG: Record<ProfileCompletenessItem, { label: string; hint: string; weight: number }> = {
+  headline: { label: "Headline", hint: "Sum up what you do in one line", weight: 10 },
+  bio: { label: "About you", hint: "Write a short bio about your experience and goals", weight: 10 },
+  skills: { label: "Skills", hint: `List at least ${MIN_PROFILE_SKILLS} skills`, weight: 15 },
+  categories: { label: "Job categories", hint: "Pick the kinds of jobs you're looking for", weight: 5 },
+  resume: { label: "Resume", hint: "Upload a resume or generate one from your profile", weight: 15 },
+  photo: { label: "Profile photo", hint: "Add a professional photo", weight: 5 },
+  workExperience: { label: "Work experience", hint: "Add at least one job you've held", weight: 15 },
+  education: { label: "Education", hint: "Add your school or training background", weight: 10 },
+  certifications: { label: "Certifications", hint: "Add licenses, NC certificates or trainings", weight: 5 },
+  phone: { label: "Phone number", hint: "Add a number employers can reach you on", weight: 5 },
+  location: { label: "Location", hint: "Set your city so nearby jobs rank higher", weight: 5 },
+};
+
+export interface ProfileCompletenessInput {
+  headline?: string | null;
+  bio?: string | null;
+  skills?: string[] | null;
+  categories?: string[] | null;
+  resumeUrl?: string | null;
+  profileImage?: string | null;
+  phoneNumber?: string | null;
+  location?: string | null;
+  workExperienceCount: number;
+  educationCount: number;
+  certificationCount: number;
+}
+
+export interface ProfileCompleteness {
+  // 0-100
+  score: number;
+  items: { key: ProfileCompletenessItem; label: string; hint: string; weight: number; complete: boolean }[];
+}
+
+const hasText = (value?: string | null) => !!value?.trim();
+
+export function computeProfileCompleteness(input: ProfileCompletenessInput): ProfileCompleteness {
+  const done: Record<ProfileCompletenessItem, boolean> = {
+    headline: hasText(input.headline),
+    bio: hasText(input.bio),
+    skills: (input.skills?.length ?? 0) >= MIN_PROFILE_SKILLS,
+    categories: (input.categories?.length ?? 0) > 0,
+    resume: hasText(input.resumeUrl),
+    photo: hasText(input.profileImage),
+    workExperience: input.workExperienceCount > 0,
+    education: input.educationCount > 0,
+    certifications: input.certificationCount > 0,
+    phone: hasText(input.phoneNumber),
+    location: hasText(input.location),
+  };
+
+  const items = PROFILE_COMPLETENESS_ITEMS.map((key) => ({
+    key,
+    ...PROFILE_COMPLETENESS_CONFIG[key],
+    complete: done[key],
+  }));
+  const score = items.reduce((total, item) => total + (item.complete ? item.weight : 0), 0);
+  return { score, items };
+}
@@ -1,6 +1,7 @@
 import { sql } from 'drizzle-orm';
 import {
   index,
+  uniqueIndex,
   jsonb,
   pgTable,
   timestamp,
@@ -8,10 +9,16 @@ import {
   text,
   integer,
   boolean,
+  doublePrecision,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
+import { getPhCity } from "./ph-locations";
+import { APPLICATION_EVENT_TYPES, APPLICATION_STATUSES, MAX_BULK_APPLICATIONS, MAX_PIPELINE_STAGES, STAGE_STATUSES } from "./pipeline";
+import { DIGEST_FREQUENCIES, NOTIFICATION_CHANNELS, NOTIFICATION_EVENT_CONFIG, NOTIFICATION_EVENTS, NOTIFICATION_FREQUENCIES, NOTIFICATION_TYPES } from "./notifications";
+import { INTERVIEW_FORMATS, INTERVIEW_STATUSES, MAX_INTERVIEW_SLOTS } from "./interviews";
+import { SCREENING_OUTCOMES, screeningQuestionsSchema, type ScreeningAnswer, type ScreeningQuestion } from "./screening";
 
 // Session storage table (required for Replit Auth)
 export const sessions = pgTable(
@@ -70,12 +77,22 @@ export const jobSeekerProfiles = pgTable("job_seeker_profiles", {
   linkedinUrl: varchar("linkedin_url"),
   portfolioUrl: varchar("portfolio_url"),
   location: varchar("location"),
+  expectedSalary: integer("expected_salary"), // PHP per month
+  // Structured location, see shared/ph-locations.ts. Only locationCity is written by
+  // clients; province, region and coordinates are derived from it on save.
+  locationCity: varchar("location_city"),
+  locationProvince: varchar("location_province"),
+  locationRegion: varchar("location_region"),
+  latitude: doublePrecision("latitude"),
+  longitude: doublePrecision("longitude"),
   phoneNumber: varchar("phone_number"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
 // Work Experience
+// Dates are "YYYY-MM". displayOrder is the seeker's own ordering (lowest first); new
+// entries go last. Only the current role may be open-ended, and there is at most one.
 export const workExperience = pgTable("work_experience", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   profileId: varchar("profile_id").notNull().references(() => jobSeekerProfiles.id, { onDelete: "cascade" }),
@@ -86,8 +103,11 @@ export const workExperience = pgTable("work_experience", {
   endDate: varchar("end_date"),
   isCurrent: boolean("is_current").default(false).notNull(),
   description: text("description"),
+  displayOrder: integer("display_order").default(0).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => [
+  uniqueIndex("idx_work_experience_current").on(table.profileId).where(sql`${table.isCurrent}`),
+]);
 
 // Education
 export const education = pgTable("education", {
@@ -99,6 +119,7 @@ export const education = pgTable("education", {
   startYear: varchar("start_year").notNull(),
   endYear: varchar("end_year"),
   description: text("description"),
+  displayOrder: integer("display_order").default(0).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -111,9 +132,27 @@ export const certifications = pgTable("certifications", {
   issueDate: varchar("issue_date"),
   expiryDate: varchar("expiry_date"),
   credentialUrl: varchar("credential_url"),
+  displayOrder: integer("display_order").default(0).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Labeled resume versions. The default one is mirrored into jobSeekerProfiles.resumeUrl,
+// which the rest of the app reads. Files are never overwritten, so applications can
+// keep pointing at the version they were submitted with.
+export const resumes = pgTable("resumes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  label: varchar("label").notNull(),
+  fileUrl: varchar("file_url").notNull(), // /users/<id>/resume-... in object storage
+  fileName: varchar("file_name"), // original file name; null for generated CVs
+  isDefault: boolean("is_default").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_resumes_user").on(table.userId),
+  // At most one default per seeker
+  uniqueIndex("idx_resumes_default").on(table.userId).where(sql`${table.isDefault}`),
+]);
+
 // Employer profiles
 export const employerProfiles = pgTable("employer_profiles", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -130,6 +169,44 @@ export const employerProfiles = pgTable("employer_profiles", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Employer-defined hiring pipelines. Jobs without one use the employer's default.
+export const pipelineTemplates = pgTable("pipeline_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  employerId: varchar("employer_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: varchar("name").notNull(),
+  isDefault: boolean("is_default").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_pipeline_templates_employer").on(table.employerId),
+  // At most one default per employer
+  uniqueIndex("idx_pipeline_templates_default").on(table.employerId).where(sql`${table.isDefault}`),
+]);
+
+// Ordered stages of a pipeline; status is what the seeker sees while they're in the stage
+export const pipelineStages = pgTable("pipeline_stages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  templateId: varchar("template_id").notNull().references(() => pipelineTemplates.id, { onDelete: "cascade" }),
+  name: varchar("name").notNull(),
+  position: integer("position").notNull(),
+  status: varchar("status", { enum: STAGE_STATUSES }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_pipeline_stages_template").on(table.templateId, table.position),
+]);
+
+// Weighted full-text document for job search: title/company (A), skills/categories (B),
+// requirements (C), description (D). Needs immutable_array_to_string and pg_trgm from
+// migrations/002_job_full_text_search.sql, and must match the idx_jobs_search expression there.
+export const JOB_SEARCH_DOCUMENT = [
+  "setweight(to_tsvector('english', coalesce(title, '')), 'A')",
+  "setweight(to_tsvector('english', coalesce(company_name, '')), 'A')",
+  "setweight(to_tsvector('english', immutable_array_to_string(skills, ' ')), 'B')",
+  "setweight(to_tsvector('english', immutable_array_to_string(categories, ' ')), 'B')",
+  "setweight(to_tsvector('english', immutable_array_to_string(requirements, ' ')), 'C')",
+  "setweight(to_tsvector('english', coalesce(description, '')), 'D')",
+].join(" || ");
+
 // Job postings
 export const jobs = pgTable("jobs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -140,19 +217,108 @@ export const jobs = pgTable("jobs", {
   responsibilities: text("responsibilities").array(),
   skills: text("skills").array(),
   location: varchar("location").notNull(),
+  // Structured location derived from locationCity, same scheme as jobSeekerProfiles
+  locationCity: varchar("location_city"),
+  locationProvince: varchar("location_province"),
+  locationRegion: varchar("location_region"),
+  latitude: doublePrecision("latitude"),
+  longitude: doublePrecision("longitude"),
   jobType: varchar("job_type", { enum: ["full_time", "part_time", "contract", "remote", "hybrid"] }).notNull(),
   salaryMin: integer("salary_min"),
   salaryMax: integer("salary_max"),
-  salaryCurrency: varchar("salary_currency").default("USD"),
+  salaryCurrency: varchar("salary_currency").default("PHP"),
+  salaryPeriod: varchar("salary_period", { enum: ["hourly", "daily", "monthly", "annual"] }).notNull().default("monthly"),
+  // Salary range converted to PHP per month on save, used for filtering and sorting
+  salaryMonthlyMinPhp: integer("salary_monthly_min_php"),
+  salaryMonthlyMaxPhp: integer("salary_monthly_max_php"),
   categories: text("categories").array(),
   companyName: varchar("company_name"),
   requirementDocumentUrl: varchar("requirement_document_url"),
+  applicationDeadline: timestamp("application_deadline"), // optional; the job stops taking applications after this
+  pipelineTemplateId: varchar("pipeline_template_id").references(() => pipelineTemplates.id, { onDelete: "set null" }),
+  screeningQuestions: jsonb("screening_questions").$type<ScreeningQuestion[]>(), // asked when applying; see shared/screening.ts
   isActive: boolean("is_active").default(true).notNull(),
   isFlagged: boolean("is_flagged").default(false).notNull(),
   aiMatchScore: integer("ai_match_score"),
+  // When seekers could last start seeing the job: posting, or being reactivated or unflagged.
+  // Saved search alerts pick up new jobs by this rather than createdAt.
+  publishedAt: timestamp("published_at").defaultNow().notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_jobs_listing").on(table.isActive, table.isFlagged, table.createdAt),
+  index("idx_jobs_salary").on(table.salaryMonthlyMinPhp, table.salaryMonthlyMaxPhp),
+  index("idx_jobs_location").on(table.locationRegion, table.locationProvince, table.locationCity),
+  index("idx_jobs_coordinates").on(table.latitude, table.longitude),
+  index("idx_jobs_search").using("gin", sql.raw(`(${JOB_SEARCH_DOCUMENT})`)),
+  index("idx_jobs_title_trgm").using("gin", table.title.op("gin_trgm_ops")),
+  index("idx_jobs_company_trgm").using("gin", table.companyName.op("gin_trgm_ops")),
+]);
+
+// One factor of the local match engine (server/matching.ts); score is 0-1
+export const matchFactorKeys = ["skills", "categories", "location", "experience", "education", "salary"] as const;
+export type MatchFactorKey = typeof matchFactorKeys[number];
+
+export const matchFactorSchema = z.object({
+  factor: z.enum(matchFactorKeys),
+  score: z.number(),
+  weight: z.number(),
+  detail: z.string(),
 });
+export type MatchFactor = z.infer<typeof matchFactorSchema>;
+
+// Profile data pulled out of an uploaded resume by server/resume-parser.ts. Nothing is
+// saved until the seeker reviews it; dates follow the profile forms (YYYY-MM for jobs
+// and certifications, YYYY for education).
+export const parsedResumeSchema = z.object({
+  contact: z.object({
+    firstName: z.string().nullable(),
+    lastName: z.string().nullable(),
+    email: z.string().nullable(),
+    phoneNumber: z.string().nullable(),
+    location: z.string().nullable(),
+    linkedinUrl: z.string().nullable(),
+    portfolioUrl: z.string().nullable(),
+  }),
+  headline: z.string().nullable(),
+  skills: z.array(z.string()),
+  workExperience: z.array(z.object({
+    companyName: z.string(),
+    position: z.string(),
+    location: z.string().nullable(),
+    startDate: z.string(),
+    endDate: z.string().nullable(),
+    isCurrent: z.boolean(),
+    description: z.string().nullable(),
+  })),
+  education: z.array(z.object({
+    institution: z.string(),
+    degree: z.string(),
+    fieldOfStudy: z.string().nullable(),
+    startYear: z.string(),
+    endYear: z.string().nullable(),
+    description: z.string().nullable(),
+  })),
+  certifications: z.array(z.object({
+    name: z.string(),
+    issuer: z.string(),
+    issueDate: z.string().nullable(),
+    expiryDate: z.string().nullable(),
+    credentialUrl: z.string().nullable(),
+  })),
+});
+
+// Structured "why this score" shown to both the seeker and the employer.
+// The local engine always fills it; AI-scored matches replace the parts the LLM returns.
+export const matchExplanationSchema = z.object({
+  summary: z.string(),
+  matchedSkills: z.array(z.string()),
+  missingSkills: z.array(z.string()),
+  experienceFit: z.string(),
+  locationFit: z.string(),
+  suggestions: z.array(z.string()), // What the seeker could do to improve the match
+});
+export type MatchExplanation = z.infer<typeof matchExplanationSchema>;
 
 // Job applications
 export const applications = pgTable("applications", {
@@ -160,11 +326,211 @@ export const applications = pgTable("applications", {
   jobId: varchar("job_id").notNull().references(() => jobs.id, { onDelete: "cascade" }),
   seekerId: varchar("seeker_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   coverLetter: text("cover_letter"),
-  status: varchar("status", { enum: ["applied", "reviewing", "shortlisted", "rejected", "accepted"] }).notNull().default("applied"),
+  // Snapshot of the resume submitted, still shown after the seeker replaces or deletes it.
+  // migrations/006_resume_versions.sql fills these in for older applications.
+  resumeId: varchar("resume_id").references(() => resumes.id, { onDelete: "set null" }),
+  resumeUrl: varchar("resume_url"),
+  resumeLabel: varchar("resume_label"),
+  status: varchar("status", { enum: APPLICATION_STATUSES }).notNull().default("applied"),
+  stageId: varchar("stage_id").references(() => pipelineStages.id, { onDelete: "set null" }), // null until first moved; see resolveApplicationStage
   aiMatchScore: integer("ai_match_score"),
+  matchExplanation: jsonb("match_explanation").$type<MatchExplanation>(), // snapshot of the match at apply time
+  rating: integer("rating"), // employer's latest 1-5 rating, history in applicationEvents
+  screeningAnswers: jsonb("screening_answers").$type<ScreeningAnswer[]>(),
+  screeningOutcome: varchar("screening_outcome", { enum: SCREENING_OUTCOMES }), // null when the job had no questions
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+}, (table) => [
+  // One application per seeker per job; applying again returns the existing one
+  uniqueIndex("idx_applications_job_seeker").on(table.jobId, table.seekerId),
+]);
+
+// Audit trail of an application: stage moves, employer notes and ratings, and
+// status emails sent to the seeker. Stage names are copied so the trail still reads
+// correctly after a template is edited. Seekers only see status changes and emails.
+export const applicationEvents = pgTable("application_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  applicationId: varchar("application_id").notNull().references(() => applications.id, { onDelete: "cascade" }),
+  type: varchar("type", { enum: APPLICATION_EVENT_TYPES }).notNull(),
+  actorId: varchar("actor_id").references(() => users.id, { onDelete: "set null" }),
+  // stage_changed
+  fromStageId: varchar("from_stage_id").references(() => pipelineStages.id, { onDelete: "set null" }),
+  fromStageName: varchar("from_stage_name"),
+  toStageId: varchar("to_stage_id").references(() => pipelineStages.id, { onDelete: "set null" }),
+  toStageName: varchar("to_stage_name"),
+  fromStatus: varchar("from_status", { enum: APPLICATION_STATUSES }),
+  toStatus: varchar("to_status", { enum: APPLICATION_STATUSES }), // also the status an email_sent announced
+  // note / rating
+  note: text("note"),
+  rating: integer("rating"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_application_events_application").on(table.applicationId, table.createdAt),
+]);
+
+// Messages between an employer and an applicant, threaded per application so
+// employers can only reach seekers who applied to one of their jobs
+export const messages = pgTable("messages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  applicationId: varchar("application_id").notNull().references(() => applications.id, { onDelete: "cascade" }),
+  senderId: varchar("sender_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  recipientId: varchar("recipient_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  body: text("body").notNull().default(""), // may be empty when only an attachment is sent
+  attachmentUrl: varchar("attachment_url"), // object path, e.g. /users/<id>/attachment-...
+  attachmentName: varchar("attachment_name"),
+  readAt: timestamp("read_at"), // read receipt
+  emailNotifiedAt: timestamp("email_notified_at"), // set by server/message-notifier.ts
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_messages_application").on(table.applicationId, table.createdAt),
+  index("idx_messages_recipient_unread").on(table.recipientId, table.readAt),
+]);
+
+// Interviews an employer arranges with an applicant: the employer proposes slots and
+// the seeker picks one. Times are stored as UTC and shown in Asia/Manila time.
+export const interviews = pgTable("interviews", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  applicationId: varchar("application_id").notNull().references(() => applications.id, { onDelete: "cascade" }),
+  status: varchar("status", { enum: INTERVIEW_STATUSES }).notNull().default("proposed"),
+  format: varchar("format", { enum: INTERVIEW_FORMATS }).notNull(),
+  location: varchar("location"), // onsite address
+  meetingUrl: varchar("meeting_url"), // video link
+  durationMinutes: integer("duration_minutes").notNull().default(60),
+  notes: text("notes"),
+  proposedSlots: jsonb("proposed_slots").$type<string[]>().notNull().default([]), // ISO timestamps
+  scheduledAt: timestamp("scheduled_at"), // the slot the seeker picked
+  sequence: integer("sequence").notNull().default(0), // iCalendar SEQUENCE, bumped whenever calendars need updating
+  statusReason: text("status_reason"), // why a new time was requested or the interview was cancelled
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  // Set by server/interview-notifications.ts
+  reminder24hSentAt: timestamp("reminder_24h_sent_at"),
+  reminder1hSentAt: timestamp("reminder_1h_sent_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_interviews_application").on(table.applicationId),
+  index("idx_interviews_status_scheduled").on(table.status, table.scheduledAt),
+]);
+
+// In-app notifications shown in the bell menu; created through server/notifications.ts,
+// which also pushes them to the user's open tabs
+export const notifications = pgTable("notifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  type: varchar("type", { enum: NOTIFICATION_TYPES }).notNull(),
+  title: varchar("title").notNull(),
+  body: text("body"),
+  link: varchar("link"), // client route to open, e.g. /employer/jobs/<id>
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_notifications_user_created").on(table.userId, table.createdAt),
+  index("idx_notifications_user_unread").on(table.userId, table.readAt),
+]);
+
+// Only preferences the user has changed are stored; see resolveNotificationFrequency
+// in shared/notifications.ts for the defaults
+export const notificationPreferences = pgTable("notification_preferences", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  event: varchar("event", { enum: NOTIFICATION_EVENTS }).notNull(),
+  channel: varchar("channel", { enum: NOTIFICATION_CHANNELS }).notNull(),
+  frequency: varchar("frequency", { enum: NOTIFICATION_FREQUENCIES }).notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("idx_notification_preferences_user_event_channel").on(table.userId, table.event, table.channel),
+]);
+
+// Emails held back for a daily or weekly digest; sent and deleted by server/notification-digests.ts
+export const notificationDigestItems = pgTable("notification_digest_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  event: varchar("event", { enum: NOTIFICATION_EVENTS }).notNull(),
+  frequency: varchar("frequency", { enum: DIGEST_FREQUENCIES }).notNull(),
+  title: varchar("title").notNull(),
+  body: text("body"),
+  link: varchar("link"), // client route, turned into a full URL in the email
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_digest_items_frequency_created").on(table.frequency, table.createdAt),
+]);
+
+export interface EmailAttachment {
+  filename: string;
+  content: string;
+  contentType: string;
+}
+
+// Every outgoing email, rendered when queued and delivered by server/email-outbox.ts.
+// nextAttemptAt doubles as a lease: claiming a row pushes it forward, so an email whose
+// sender crashed mid-send is picked up again once the lease runs out. Finished rows are
+// deleted after a retention period, and OTP/reset bodies are redacted once sent.
+export const emailOutbox = pgTable("email_outbox", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  to: varchar("to").notNull(),
+  subject: varchar("subject").notNull(),
+  html: text("html").notNull(),
+  template: varchar("template").notNull(),
+  templateVersion: integer("template_version").notNull(),
+  attachments: jsonb("attachments").$type<EmailAttachment[]>().notNull().default([]),
+  headers: jsonb("headers").$type<Record<string, string>>().notNull().default({}),
+  status: varchar("status", { enum: ["pending", "sent", "failed"] }).notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow().notNull(),
+  lastError: text("last_error"),
+  provider: varchar("provider"), // which provider delivered it
+  providerMessageId: varchar("provider_message_id"),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_email_outbox_status_next_attempt").on(table.status, table.nextAttemptAt),
+]);
+
+// Precomputed seeker/job match scores, refreshed by the background match worker
+// (server/match-worker.ts) whenever the inputs behind inputHash change
+export const jobMatches = pgTable("job_matches", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  seekerId: varchar("seeker_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  jobId: varchar("job_id").notNull().references(() => jobs.id, { onDelete: "cascade" }),
+  matchScore: integer("match_score").notNull(),
+  reasoning: text("reasoning"),
+  breakdown: jsonb("breakdown").$type<MatchFactor[]>(), // from the local engine, also kept for AI-scored rows
+  explanation: jsonb("explanation").$type<MatchExplanation>(),
+  model: varchar("model").notNull(),
+  inputHash: varchar("input_hash").notNull(), // sha256 of the profile + job data that was scored
+  computedAt: timestamp("computed_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("idx_job_matches_seeker_job").on(table.seekerId, table.jobId),
+  index("idx_job_matches_job_score").on(table.jobId, table.matchScore),
+]);
+
+// Jobs a seeker bookmarked to come back to later
+export const savedJobs = pgTable("saved_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  seekerId: varchar("seeker_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  jobId: varchar("job_id").notNull().references(() => jobs.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("idx_saved_jobs_seeker_job").on(table.seekerId, table.jobId),
+]);
+
+// Saved job searches, checked periodically for newly posted jobs (server/saved-search-alerts.ts)
+export const savedSearches = pgTable("saved_searches", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: varchar("name").notNull(),
+  filters: jsonb("filters").$type<SavedSearchFilters>().notNull(),
+  alertFrequency: varchar("alert_frequency", { enum: ["instant", "daily", "off"] }).notNull().default("daily"), // email alerts only; in-app counts always update
+  unsubscribeToken: varchar("unsubscribe_token").notNull().unique().default(sql`gen_random_uuid()`),
+  newJobCount: integer("new_job_count").notNull().default(0), // new matches since the seeker last opened the search
+  pendingJobIds: text("pending_job_ids").array().notNull().default(sql`'{}'::text[]`), // new matches not emailed yet
+  lastCheckedAt: timestamp("last_checked_at").defaultNow().notNull(), // jobs posted after this are new
+  lastEmailedAt: timestamp("last_emailed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_saved_searches_user").on(table.userId),
+]);
 
 // Fraud alerts
 export const fraudAlerts = pgTable("fraud_alerts", {
@@ -196,6 +562,28 @@ export const activityLogs = pgTable("activity_logs", {
   index("idx_activity_created").on(table.createdAt),
 ]);
 
+// AI Usage Logs - one row per AI provider call, for the admin cost dashboard
+export const aiTasks = ["profile_fraud", "job_fraud", "job_match", "resume_parse"] as const;
+export type AiTask = typeof aiTasks[number];
+
+export const aiUsageLogs = pgTable("ai_usage_logs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  task: varchar("task", { enum: aiTasks }).notNull(),
+  provider: varchar("provider").notNull(), // e.g., "openai", "local"
+  model: varchar("model").notNull(),
+  status: varchar("status", { enum: ["success", "error"] }).notNull(),
+  promptTokens: integer("prompt_tokens").notNull().default(0),
+  completionTokens: integer("completion_tokens").notNull().default(0),
+  costUsd: doublePrecision("cost_usd").notNull().default(0), // estimated from the configured per-model prices
+  latencyMs: integer("latency_ms").notNull(), // including retries and rate-limit waits
+  attempts: integer("attempts").notNull().default(1),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_ai_usage_created").on(table.createdAt),
+  index("idx_ai_usage_task").on(table.task, table.createdAt),
+]);
+
 // Contact Messages - support/contact form submissions
 export const contactMessages = pgTable("contact_messages", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -266,15 +654,63 @@ export const employerProfilesRelations = relations(employerProfiles, ({ one }) =
   }),
 }));
 
+export const pipelineTemplatesRelations = relations(pipelineTemplates, ({ one, many }) => ({
+  employer: one(users, {
+    fields: [pipelineTemplates.employerId],
+    references: [users.id],
+  }),
+  stages: many(pipelineStages),
+}));
+
+export const pipelineStagesRelations = relations(pipelineStages, ({ one }) => ({
+  template: one(pipelineTemplates, {
+    fields: [pipelineStages.templateId],
+    references: [pipelineTemplates.id],
+  }),
+}));
+
 export const jobsRelations = relations(jobs, ({ one, many }) => ({
   employer: one(users, {
     fields: [jobs.employerId],
     references: [users.id],
   }),
+  pipelineTemplate: one(pipelineTemplates, {
+    fields: [jobs.pipelineTemplateId],
+    references: [pipelineTemplates.id],
+  }),
   applications: many(applications),
 }));
 
-export const applicationsRelations = relations(applications, ({ one }) => ({
+export const jobMatchesRelations = relations(jobMatches, ({ one }) => ({
+  job: one(jobs, {
+    fields: [jobMatches.jobId],
+    references: [jobs.id],
+  }),
+  seeker: one(users, {
+    fields: [jobMatches.seekerId],
+    references: [users.id],
+  }),
+}));
+
+export const savedJobsRelations = relations(savedJobs, ({ one }) => ({
+  job: one(jobs, {
+    fields: [savedJobs.jobId],
+    references: [jobs.id],
+  }),
+  seeker: one(users, {
+    fields: [savedJobs.seekerId],
+    references: [users.id],
+  }),
+}));
+
+export const savedSearchesRelations = relations(savedSearches, ({ one }) => ({
+  user: one(users, {
+    fields: [savedSearches.userId],
+    references: [users.id],
+  }),
+}));
+
+export const applicationsRelations = relations(applications, ({ one, many }) => ({
   job: one(jobs, {
     fields: [applications.jobId],
     references: [jobs.id],
@@ -283,9 +719,57 @@ export const applicationsRelations = relations(applications, ({ one }) => ({
     fields: [applications.seekerId],
     references: [users.id],
   }),
+  stage: one(pipelineStages, {
+    fields: [applications.stageId],
+    references: [pipelineStages.id],
+  }),
+  events: many(applicationEvents),
+  messages: many(messages),
+  interviews: many(interviews),
+}));
+
+export const applicationEventsRelations = relations(applicationEvents, ({ one }) => ({
+  application: one(applications, {
+    fields: [applicationEvents.applicationId],
+    references: [applications.id],
+  }),
+  actor: one(users, {
+    fields: [applicationEvents.actorId],
+    references: [users.id],
+  }),
+}));
+
+export const messagesRelations = relations(messages, ({ one }) => ({
+  application: one(applications, {
+    fields: [messages.applicationId],
+    references: [applications.id],
+  }),
+  sender: one(users, {
+    fields: [messages.senderId],
+    references: [users.id],
+  }),
+}));
+
+export const interviewsRelations = relations(interviews, ({ one }) => ({
+  application: one(applications, {
+    fields: [interviews.applicationId],
+    references: [applications.id],
+  }),
 }));
 
 // Zod schemas for validation
+
+// z.string().url() also accepts javascript: and data: URLs, which run script once rendered as an href
+function isHttpUrl(value: string): boolean {
+  try {
+    return /^https?:$/.test(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+const httpUrlSchema = (message: string) => z.string().trim().url(message).max(500).refine(isHttpUrl, message);
+
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
   createdAt: true,
@@ -308,6 +792,10 @@ export const insertJobSeekerProfileSchema = createInsertSchema(jobSeekerProfiles
   id: true,
   createdAt: true,
   updatedAt: true,
+  locationProvince: true,
+  locationRegion: true,
+  latitude: true,
+  longitude: true,
 });
 
 export const insertWorkExperienceSchema = createInsertSchema(workExperience).omit({
@@ -325,6 +813,78 @@ export const insertCertificationSchema = createInsertSchema(certifications).omit
   createdAt: true,
 });
 
+// Request bodies for creating and editing profile entries (POST and PUT take the
+// whole entry). Blank optional fields arrive as "" from the profile forms.
+const blankToNull = (value: unknown) => (typeof value === "string" && value.trim() === "" ? null : value);
+const yearMonthSchema = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Dates must be in YYYY-MM format");
+const yearSchema = z.string().regex(/^\d{4}$/, "Years must have four digits");
+const optionalText = (max: number) => z.preprocess(blankToNull, z.string().trim().max(max).nullish());
+
+export const workExperienceInputSchema = z.object({
+  companyName: z.string().trim().min(1, "Company name is required").max(200),
+  position: z.string().trim().min(1, "Position is required").max(200),
+  location: optionalText(200),
+  startDate: yearMonthSchema,
+  endDate: z.preprocess(blankToNull, yearMonthSchema.nullish()),
+  isCurrent: z.boolean().default(false),
+  description: optionalText(5000),
+}).superRefine((entry, ctx) => {
+  if (entry.isCurrent && entry.endDate) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["endDate"], message: "Your current role can't have an end date" });
+  } else if (!entry.isCurrent && !entry.endDate) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["endDate"], message: "Add an end date, or mark this as your current role" });
+  } else if (entry.endDate && entry.endDate < entry.startDate) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["endDate"], message: "End date can't be before the start date" });
+  }
+});
+
+export const educationInputSchema = z.object({
+  institution: z.string().trim().min(1, "Institution is required").max(200),
+  degree: z.string().trim().min(1, "Degree is required").max(200),
+  fieldOfStudy: optionalText(200),
+  startYear: yearSchema,
+  endYear: z.preprocess(blankToNull, yearSchema.nullish()),
+  description: optionalText(5000),
+}).refine((entry) => !entry.endYear || entry.endYear >= entry.startYear, {
+  path: ["endYear"],
+  message: "End year can't be before the start year",
+});
+
+export const certificationInputSchema = z.object({
+  name: z.string().trim().min(1, "Certificate name is required").max(200),
+  issuer: z.string().trim().min(1, "Issuer is required").max(200),
+  issueDate: z.preprocess(blankToNull, yearMonthSchema.nullish()),
+  expiryDate: z.preprocess(blankToNull, yearMonthSchema.nullish()),
+  credentialUrl: z.preprocess(blankToNull, httpUrlSchema("Must be a valid URL").nullish()),
+}).refine((entry) => !entry.issueDate || !entry.expiryDate || entry.expiryDate >= entry.issueDate, {
+  path: ["expiryDate"],
+  message: "Expiry date can't be before the issue date",
+});
+
+// Body of PUT /api/profile/<entries>/order: every entry id, in the new order
+export const reorderProfileEntriesSchema = z.object({
+  ids: z.array(z.string()).max(100),
+});
+
+export const insertResumeSchema = createInsertSchema(resumes).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Body of POST /api/resumes, after uploading the file via /api/objects/upload-resume
+export const createResumeSchema = z.object({
+  label: z.string().trim().min(1, "Give this resume a name").max(100),
+  fileUrl: z.string().max(500),
+  fileName: z.string().trim().max(255).optional(),
+  isDefault: z.boolean().optional(),
+});
+
+// Body of PATCH /api/resumes/:id. The default can only be moved, by making another one default.
+export const updateResumeSchema = z.object({
+  label: z.string().trim().min(1, "Give this resume a name").max(100).optional(),
+  isDefault: z.literal(true).optional(),
+});
+
 export const insertEmployerProfileSchema = createInsertSchema(employerProfiles).omit({
   id: true,
   createdAt: true,
@@ -340,6 +900,87 @@ export const insertJobSchema = createInsertSchema(jobs).omit({
   isActive: true,
   isFlagged: true,
   aiMatchScore: true,
+  publishedAt: true,
+  salaryMonthlyMinPhp: true,
+  salaryMonthlyMaxPhp: true,
+  locationProvince: true,
+  locationRegion: true,
+  latitude: true,
+  longitude: true,
+  pipelineTemplateId: true, // assigned through PUT /api/employer/jobs/:id/pipeline
+}).extend({
+  // Sent as an ISO string from the job form
+  applicationDeadline: z.coerce.date().nullish(),
+  screeningQuestions: screeningQuestionsSchema.nullish(),
+});
+
+// Employers can also pause and reopen their own listings
+export const updateJobSchema = insertJobSchema.partial().extend({
+  isActive: z.boolean().optional(),
+});
+
+// Query parameters accepted by GET /api/jobs
+// "distance" only applies together with nearCity
+export const jobSearchSortOptions = ["newest", "salary", "relevance", "distance"] as const;
+
+// Blank strings and the "all" sentinel used by the filter dropdowns mean "no filter"
+const optionalFilter = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess((value) => (value === "" || value === "all" ? undefined : value), schema.optional());
+
+export const jobSearchQuerySchema = z.object({
+  search: optionalFilter(z.string().trim()),
+  location: optionalFilter(z.string().trim()),
+  jobType: optionalFilter(z.enum(["full_time", "part_time", "contract", "remote", "hybrid"])),
+  category: optionalFilter(z.string().trim()),
+  // Monthly PHP amounts, compared against the normalized salary columns
+  minSalary: optionalFilter(z.coerce.number().int().min(0)),
+  maxSalary: optionalFilter(z.coerce.number().int().min(0)),
+  // "Within radiusKm of nearCity", a city code from shared/ph-locations.ts
+  nearCity: optionalFilter(z.string().refine((code) => getPhCity(code) !== undefined, "Unknown city")),
+  radiusKm: optionalFilter(z.coerce.number().positive().max(500)),
+  sort: z.enum(jobSearchSortOptions).default("newest"),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+// The GET /api/jobs filters a saved search keeps; sort and paging are left to the jobs page
+export const savedSearchFiltersSchema = jobSearchQuerySchema.pick({
+  search: true,
+  location: true,
+  jobType: true,
+  category: true,
+  minSalary: true,
+  maxSalary: true,
+  nearCity: true,
+  radiusKm: true,
+});
+
+export const insertSavedSearchSchema = createInsertSchema(savedSearches, {
+  name: z.string().trim().min(1, "Name is required").max(100),
+  filters: savedSearchFiltersSchema,
+}).omit({
+  id: true,
+  userId: true, // Added from authenticated session
+  unsubscribeToken: true,
+  newJobCount: true,
+  pendingJobIds: true,
+  lastCheckedAt: true,
+  lastEmailedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertJobMatchSchema = createInsertSchema(jobMatches, {
+  breakdown: z.array(matchFactorSchema).nullish(),
+  explanation: matchExplanationSchema.nullish(),
+}).omit({
+  id: true,
+  computedAt: true,
+});
+
+export const insertSavedJobSchema = createInsertSchema(savedJobs).omit({
+  id: true,
+  createdAt: true,
 });
 
 export const insertApplicationSchema = createInsertSchema(applications).omit({
@@ -347,7 +988,157 @@ export const insertApplicationSchema = createInsertSchema(applications).omit({
   createdAt: true,
   updatedAt: true,
   status: true,
+  stageId: true,
   aiMatchScore: true,
+  matchExplanation: true,
+  rating: true,
+  screeningAnswers: true,
+  screeningOutcome: true,
+  resumeUrl: true,
+  resumeLabel: true,
+});
+
+export const insertApplicationEventSchema = createInsertSchema(applicationEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertMessageSchema = createInsertSchema(messages).omit({
+  id: true,
+  readAt: true,
+  emailNotifiedAt: true,
+  createdAt: true,
+});
+
+// Body of PUT /api/applications/:id. Moves to a pipeline stage (or a bare status for
+// older clients), adds a note and/or rates the candidate; each part is recorded as
+// an application event.
+export const updateApplicationSchema = z.object({
+  stageId: z.string().optional(),
+  status: z.enum(STAGE_STATUSES).optional(),
+  notifySeeker: z.boolean().optional(), // email the seeker if their visible status changes
+  note: z.string().trim().min(1).max(2000).optional(),
+  rating: z.number().int().min(1).max(5).optional(),
+}).refine(
+  (data) => data.stageId || data.status || data.note || data.rating,
+  "Provide a stage, status, note or rating"
+);
+
+// Body of POST /api/employer/jobs/:id/applications/bulk: move many applications of
+// one job to a stage (or the first stage with a status, e.g. "rejected")
+export const bulkApplicationActionSchema = z.object({
+  applicationIds: z.array(z.string()).min(1, "Select at least one application").max(MAX_BULK_APPLICATIONS),
+  stageId: z.string().optional(),
+  status: z.enum(STAGE_STATUSES).optional(),
+  notifySeeker: z.boolean().optional(),
+  emailMessage: z.string().trim().max(1000).optional(), // added to the status email
+}).refine((data) => data.stageId || data.status, "Either stageId or status is required");
+
+// Body of POST /api/applications/:id/withdraw
+export const withdrawApplicationSchema = z.object({
+  reason: z.string().trim().max(500).optional(),
+});
+
+// Body of POST /api/applications/:id/messages. Attachments are uploaded first via
+// /api/objects/upload-attachment; the route checks the path belongs to the sender.
+export const sendMessageSchema = z.object({
+  body: z.string().trim().max(5000).default(""),
+  attachmentUrl: z.string().max(500).optional(),
+  attachmentName: z.string().trim().min(1).max(255).optional(),
+}).refine((data) => data.body || data.attachmentUrl, "Write a message or attach a file");
+
+export const insertNotificationSchema = createInsertSchema(notifications).omit({
+  id: true,
+  readAt: true,
+  createdAt: true,
+});
+
+export const insertNotificationDigestItemSchema = createInsertSchema(notificationDigestItems).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Body of PUT /api/notification-preferences; only pairs listed in NOTIFICATION_EVENT_CONFIG
+// with one of their allowed frequencies are accepted
+export const updateNotificationPreferencesSchema = z.object({
+  preferences: z.array(z.object({
+    event: z.enum(NOTIFICATION_EVENTS),
+    channel: z.enum(NOTIFICATION_CHANNELS),
+    frequency: z.enum(NOTIFICATION_FREQUENCIES),
+  })).max(NOTIFICATION_EVENTS.length * NOTIFICATION_CHANNELS.length),
+}).superRefine((data, ctx) => {
+  data.preferences.forEach((pref, index) => {
+    const setting = NOTIFICATION_EVENT_CONFIG[pref.event].channels[pref.channel];
+    if (!setting || !setting.options.includes(pref.frequency)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `${pref.frequency} is not available for ${pref.event} ${pref.channel} notifications`,
+        path: ["preferences", index, "frequency"],
+      });
+    }
+  });
+});
+
+export const insertEmailOutboxSchema = createInsertSchema(emailOutbox, {
+  attachments: z.array(z.object({ filename: z.string(), content: z.string(), contentType: z.string() })),
+  headers: z.record(z.string()),
+}).pick({
+  to: true,
+  subject: true,
+  html: true,
+  template: true,
+  templateVersion: true,
+  attachments: true,
+  headers: true,
+});
+
+export const insertInterviewSchema = createInsertSchema(interviews, {
+  proposedSlots: z.array(z.string()),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Body of POST /api/applications/:id/interviews and POST /api/interviews/:id/reschedule.
+// Slots are ISO timestamps; the client converts the Manila times the employer entered.
+export const proposeInterviewSchema = z.object({
+  format: z.enum(INTERVIEW_FORMATS),
+  location: z.string().trim().max(500).optional(),
+  meetingUrl: httpUrlSchema("Enter a valid meeting link").optional(),
+  durationMinutes: z.number().int().min(15).max(480),
+  notes: z.string().trim().max(2000).optional(),
+  slots: z.array(z.coerce.date())
+    .min(1, "Propose at least one time")
+    .max(MAX_INTERVIEW_SLOTS, `Propose at most ${MAX_INTERVIEW_SLOTS} times`),
+}).superRefine((data, ctx) => {
+  const issue = (message: string) => ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+  if (data.format === "onsite" && !data.location) issue("Enter the interview address");
+  if (data.format === "video" && !data.meetingUrl) issue("Enter the video call link");
+  if (data.slots.some((slot) => slot.getTime() <= Date.now())) issue("Interview times must be in the future");
+  if (new Set(data.slots.map((slot) => slot.getTime())).size !== data.slots.length) issue("Each proposed time must be different");
+});
+
+// Body of POST /api/interviews/:id/select
+export const selectInterviewSlotSchema = z.object({
+  slot: z.coerce.date(),
+});
+
+// Body of POST /api/interviews/:id/request-reschedule and POST /api/interviews/:id/cancel
+export const interviewReasonSchema = z.object({
+  reason: z.string().trim().max(500).optional(),
+});
+
+// Creating or replacing a pipeline template. Stages keep their id when edited so
+// applications already in them stay put; stages left out are deleted.
+export const pipelineTemplateInputSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  isDefault: z.boolean().optional(),
+  stages: z.array(z.object({
+    id: z.string().optional(),
+    name: z.string().trim().min(1, "Stage name is required").max(60),
+    status: z.enum(STAGE_STATUSES),
+  })).min(2, "A pipeline needs at least two stages").max(MAX_PIPELINE_STAGES),
 });
 
 export const insertFraudAlertSchema = createInsertSchema(fraudAlerts).omit({
@@ -357,6 +1148,11 @@ export const insertFraudAlertSchema = createInsertSchema(fraudAlerts).omit({
   status: true,
 });
 
+export const insertAiUsageLogSchema = createInsertSchema(aiUsageLogs).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertActivityLogSchema = createInsertSchema(activityLogs).omit({
   id: true,
   createdAt: true,
@@ -386,6 +1182,13 @@ export type InsertEducation = z.infer<typeof insertEducationSchema>;
 
 export type Certification = typeof certifications.$inferSelect;
 export type InsertCertification = z.infer<typeof insertCertificationSchema>;
+export type WorkExperienceInput = z.infer<typeof workExperienceInputSchema>;
+export type EducationInput = z.infer<typeof educationInputSchema>;
+export type CertificationInput = z.infer<typeof certificationInputSchema>;
+
+export type Resume = typeof resumes.$inferSelect;
+export type InsertResume = z.infer<typeof insertResumeSchema>;
+export type UpdateResume = z.infer<typeof updateResumeSchema>;
 
 export type EmployerProfile = typeof employerProfiles.$inferSelect;
 export type InsertEmployerProfile = z.infer<typeof insertEmployerProfileSchema>;
@@ -393,14 +1196,129 @@ export type InsertEmployerProfile = z.infer<typeof insertEmployerProfileSchema>;
 export type Job = typeof jobs.$inferSelect;
 export type InsertJob = z.infer<typeof insertJobSchema>;
 
+export type UpdateJob = z.infer<typeof updateJobSchema>;
+
+export type JobSearchQuery = z.infer<typeof jobSearchQuerySchema>;
+export type JobSearchSort = typeof jobSearchSortOptions[number];
+
+export type SavedSearchFilters = z.infer<typeof savedSearchFiltersSchema>;
+export type SavedSearch = typeof savedSearches.$inferSelect;
+export type InsertSavedSearch = z.infer<typeof insertSavedSearchSchema>;
+
+export type JobSearchHit = Job & {
+  searchRank?: number;
+  // Only set for "within N km" searches
+  distanceKm?: number;
+  highlight?: {
+    title: string;
+    snippet: string;
+  };
+};
+
+export interface JobSearchResult {
+  jobs: JobSearchHit[];
+  total: number;
+  page: number;
+  limit: number;
+  hasMore: boolean;
+}
+
+export type JobMatch = typeof jobMatches.$inferSelect;
+export type InsertJobMatch = z.infer<typeof insertJobMatchSchema>;
+
+export type PipelineTemplate = typeof pipelineTemplates.$inferSelect;
+export type PipelineStage = typeof pipelineStages.$inferSelect;
+export type PipelineTemplateWithStages = PipelineTemplate & { stages: PipelineStage[] };
+export type PipelineTemplateInput = z.infer<typeof pipelineTemplateInputSchema>;
+
+export type SavedJob = typeof savedJobs.$inferSelect;
+export type InsertSavedJob = z.infer<typeof insertSavedJobSchema>;
+export type SavedJobWithJob = SavedJob & { job: Job };
+
 export type Application = typeof applications.$inferSelect;
 export type InsertApplication = z.infer<typeof insertApplicationSchema>;
+export type UpdateApplication = z.infer<typeof updateApplicationSchema>;
+export type BulkApplicationAction = z.infer<typeof bulkApplicationActionSchema>;
+// Per-application outcome of a bulk action. "skipped" ids don't belong to the job
+// or were withdrawn by the seeker.
+export interface BulkApplicationItemResult {
+  applicationId: string;
+  outcome: "moved" | "unchanged" | "skipped";
+  emailed: boolean;
+}
+export interface BulkApplicationResult {
+  moved: number;
+  unchanged: number;
+  skipped: number;
+  emailed: number;
+  results: BulkApplicationItemResult[];
+}
+
+export type ApplicationEvent = typeof applicationEvents.$inferSelect;
+export type InsertApplicationEvent = z.infer<typeof insertApplicationEventSchema>;
+// An event as returned by the timeline endpoint
+export type ApplicationTimelineEvent = ApplicationEvent & { actorName: string | null };
+
+export type Message = typeof messages.$inferSelect;
+export type InsertMessage = z.infer<typeof insertMessageSchema>;
+export type SendMessage = z.infer<typeof sendMessageSchema>;
+// One thread in the messages inbox, from the point of view of the requesting user
+export interface ConversationSummary {
+  applicationId: string;
+  jobId: string;
+  jobTitle: string;
+  applicationStatus: Application["status"];
+  otherParty: { id: string; name: string; profileImageUrl: string | null };
+  lastMessage: Message | null;
+  unreadCount: number;
+}
+// Response of GET /api/applications/:id/messages
+export interface ConversationWithMessages {
+  conversation: ConversationSummary;
+  messages: Message[];
+}
+
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+// Response of GET /api/notifications
+export interface NotificationFeed {
+  notifications: Notification[];
+  unreadCount: number;
+}
+
+export type NotificationPreference = typeof notificationPreferences.$inferSelect;
+export type NotificationDigestItem = typeof notificationDigestItems.$inferSelect;
+export type InsertNotificationDigestItem = z.infer<typeof insertNotificationDigestItemSchema>;
+export type UpdateNotificationPreferences = z.infer<typeof updateNotificationPreferencesSchema>;
+
+export type ParsedResume = z.infer<typeof parsedResumeSchema>;
+// Response of POST /api/resume/parse; source says whether the AI pass was used
+export interface ResumeParseResult {
+  parsed: ParsedResume;
+  source: "heuristic" | "ai";
+}
+
+export type OutboxEmail = typeof emailOutbox.$inferSelect;
+export type InsertOutboxEmail = z.infer<typeof insertEmailOutboxSchema>;
+
+export type Interview = typeof interviews.$inferSelect;
+export type InsertInterview = z.infer<typeof insertInterviewSchema>;
+export type ProposeInterview = z.infer<typeof proposeInterviewSchema>;
+// An interview with what the dashboards need to list it outside its application
+export type InterviewWithDetails = Interview & {
+  jobId: string;
+  jobTitle: string;
+  companyName: string | null;
+  seekerName: string;
+};
 
 export type FraudAlert = typeof fraudAlerts.$inferSelect;
 export type InsertFraudAlert = z.infer<typeof insertFraudAlertSchema>;
 
 export type ActivityLog = typeof activityLogs.$inferSelect;
 export type InsertActivityLog = z.infer<typeof insertActivityLogSchema>;
+export type AiUsageLog = typeof aiUsageLogs.$inferSelect;
+export type InsertAiUsageLog = z.infer<typeof insertAiUsageLogSchema>;
 
 export type ContactMessage = typeof contactMessages.$inferSelect;
 export type InsertContactMessage = z.infer<typeof insertContactMessageSchema>;
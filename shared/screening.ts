@@ -0,0 +1,172 @@
+// Screening questions employers attach to a job, and how answers are checked.
+// Depends only on zod so the apply dialog can run the same checks as the API.
+import { z } from "zod";
+
+export const SCREENING_QUESTION_TYPES = ["yes_no", "multiple_choice", "numeric", "text"] as const;
+export type ScreeningQuestionType = typeof SCREENING_QUESTION_TYPES[number];
+
+export const SCREENING_QUESTION_TYPE_LABELS: Record<ScreeningQuestionType, string> = {
+  yes_no: "Yes / No",
+  multiple_choice: "Multiple choice",
+  numeric: "Number",
+  text: "Free text",
+};
+
+export const MAX_SCREENING_QUESTIONS = 10;
+export const MAX_SCREENING_TEXT_ANSWER = 2000;
+
+// What happens to an applicant whose answer fails a knockout rule
+export const KNOCKOUT_ACTIONS = ["reject", "flag"] as const;
+export type KnockoutAction = typeof KNOCKOUT_ACTIONS[number];
+
+// "rejected" applications are moved to the job's rejected stage on apply;
+// "flagged" ones are highlighted for the employer to review
+export const SCREENING_OUTCOMES = ["passed", "flagged", "rejected"] as const;
+export type ScreeningOutcome = typeof SCREENING_OUTCOMES[number];
+
+export const screeningQuestionSchema = z.object({
+  id: z.string().min(1).max(64),
+  type: z.enum(SCREENING_QUESTION_TYPES),
+  prompt: z.string().trim().min(1, "Every screening question needs a question").max(300),
+  required: z.boolean(),
+  options: z.array(z.string().trim().min(1, "Answer options can't be blank").max(100)).max(10).optional(),
+  // Only the field matching the question type is used
+  knockout: z.object({
+    action: z.enum(KNOCKOUT_ACTIONS),
+    expectedAnswer: z.boolean().optional(),
+    acceptedOptions: z.array(z.string()).optional(),
+    min: z.number().optional(),
+    max: z.number().optional(),
+  }).optional(),
+}).superRefine((question, ctx) => {
+  const issue = (message: string) => ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+  if (question.type === "multiple_choice" && (question.options?.length ?? 0) < 2) {
+    issue(`"${question.prompt}" needs at least two answer options`);
+  }
+  const { knockout } = question;
+  if (!knockout) return;
+  switch (question.type) {
+    case "text":
+      issue("Free text questions can't have knockout rules");
+      break;
+    case "yes_no":
+      if (knockout.expectedAnswer === undefined) issue(`Choose the required answer for "${question.prompt}"`);
+      break;
+    case "multiple_choice":
+      if (!knockout.acceptedOptions?.length || knockout.acceptedOptions.some((option) => !question.options?.includes(option))) {
+        issue(`Choose which answers pass "${question.prompt}"`);
+      }
+      break;
+    case "numeric":
+      if (knockout.min === undefined && knockout.max === undefined) {
+        issue(`Set a minimum or maximum for "${question.prompt}"`);
+      }
+      break;
+  }
+}).transform((question) => (
+  // An optional knockout question could simply be skipped to get past it
+  question.knockout ? { ...question, required: true } : question
+));
+export type ScreeningQuestion = z.infer<typeof screeningQuestionSchema>;
+
+export const screeningQuestionsSchema = z
+  .array(screeningQuestionSchema)
+  .max(MAX_SCREENING_QUESTIONS, `At most ${MAX_SCREENING_QUESTIONS} screening questions`)
+  .refine((questions) => new Set(questions.map((q) => q.id)).size === questions.length, "Duplicate screening question");
+
+export type ScreeningAnswerValue = boolean | number | string;
+
+// Sent by the seeker when applying
+export const screeningAnswerInputSchema = z.object({
+  questionId: z.string(),
+  value: z.union([z.boolean(), z.number(), z.string().max(MAX_SCREENING_TEXT_ANSWER)]),
+});
+export type ScreeningAnswerInput = z.infer<typeof screeningAnswerInputSchema>;
+
+// Stored on the application. The prompt is copied so answers still read correctly
+// after the employer edits the job's questions.
+export interface ScreeningAnswer {
+  questionId: string;
+  prompt: string;
+  value: ScreeningAnswerValue;
+  knockout?: KnockoutAction; // set when the answer failed the question's knockout rule
+}
+
+export interface ScreeningResult {
+  errors: Record<string, string>; // by question id
+  answers: ScreeningAnswer[];
+  outcome: ScreeningOutcome;
+}
+
+function isBlank(value: ScreeningAnswerValue | undefined): boolean {
+  return value === undefined || (typeof value === "string" && value.trim() === "");
+}
+
+function validateAnswer(question: ScreeningQuestion, value: ScreeningAnswerValue): string | null {
+  switch (question.type) {
+    case "yes_no":
+      return typeof value === "boolean" ? null : "Answer yes or no";
+    case "multiple_choice":
+      return typeof value === "string" && question.options?.includes(value) ? null : "Choose one of the options";
+    case "numeric":
+      return typeof value === "number" && Number.isFinite(value) ? null : "Enter a number";
+    case "text":
+      return typeof value === "string" ? null : "Enter an answer";
+  }
+}
+
+function failsKnockout(question: ScreeningQuestion, value: ScreeningAnswerValue): boolean {
+  const { knockout } = question;
+  if (!knockout) return false;
+  switch (question.type) {
+    case "yes_no":
+      return knockout.expectedAnswer !== undefined && value !== knockout.expectedAnswer;
+    case "multiple_choice":
+      return !!knockout.acceptedOptions && !knockout.acceptedOptions.includes(value as string);
+    case "numeric":
+      return (knockout.min !== undefined && (value as number) < knockout.min) ||
+        (knockout.max !== undefined && (value as number) > knockout.max);
+    default:
+      return false;
+  }
+}
+
+// Checks a seeker's answers against the job's questions. Unanswered optional questions
+// are left out. Knockout questions are always required, including ones saved as optional
+// before that was enforced.
+export function evaluateScreening(questions: ScreeningQuestion[], input: ScreeningAnswerInput[]): ScreeningResult {
+  const byQuestion = new Map(input.map((answer) => [answer.questionId, answer.value]));
+  const errors: Record<string, string> = {};
+  const answers: ScreeningAnswer[] = [];
+
+  for (const question of questions) {
+    const value = byQuestion.get(question.id);
+    if (value === undefined || isBlank(value)) {
+      if (question.required || question.knockout) errors[question.id] = "This question is required";
+      continue;
+    }
+    const error = validateAnswer(question, value);
+    if (error) {
+      errors[question.id] = error;
+      continue;
+    }
+    const answer: ScreeningAnswer = {
+      questionId: question.id,
+      prompt: question.prompt,
+      value: typeof value === "string" ? value.trim() : value,
+    };
+    if (failsKnockout(question, value)) answer.knockout = question.knockout!.action;
+    answers.push(answer);
+  }
+
+  const outcome: ScreeningOutcome = answers.some((answer) => answer.knockout === "reject")
+    ? "rejected"
+    : answers.some((answer) => answer.knockout === "flag") ? "flagged" : "passed";
+
+  return { errors, answers, outcome };
+}
+
+export function formatScreeningAnswer(value: ScreeningAnswerValue): string {
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return typeof value === "number" ? value.toLocaleString() : value;
+}
@@ -0,0 +1,5 @@
+// Job search constants shared between the API and the client.
+
+// Markers wrapped around matched terms in search highlights; the client turns them into <mark>
+export const SEARCH_HIGHLIGHT_START = "⟦";
+export const SEARCH_HIGHLIGHT_END = "⟧";